@@ -9,6 +9,7 @@ import PaymentSuccess from "./pages/PaymentSuccess";
 import NotFound from "./pages/NotFound";
 import AppLayout from "./pages/AppLayout";
 import DocumentEditor from "./pages/DocumentEditor";
+import AcceptShareLink from "./pages/AcceptShareLink";
 import HwpxTestPage from "./pages/HwpxTestPage";
 import { Analytics } from "@vercel/analytics/react";
 
@@ -35,6 +36,10 @@ const App = () => (
                                 path="document/:id"
                                 element={<DocumentEditor />}
                             />
+                            <Route
+                                path="share/:token"
+                                element={<AcceptShareLink />}
+                            />
                         </Route>
                         <Route path="*" element={<NotFound />} />
                     </Routes>
@@ -0,0 +1,114 @@
+import { useRef } from "react";
+import type { Editor } from "@tiptap/core";
+import { BubbleMenu } from "@tiptap/react/menus";
+import { TextSelection } from "@tiptap/pm/state";
+import { Loader2, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getInlineSuggestion } from "@/components/editor/extensions/InlineSuggestion";
+import type { InlineRewriteAction } from "@/hooks/useInlineRewrite";
+
+// 확장(expand) 기본 목표 분량
+const EXPAND_TARGET_LENGTH = 350;
+
+const REWRITE_ACTIONS: {
+    action: InlineRewriteAction;
+    label: string;
+    targetLength?: number;
+}[] = [
+    {
+        action: "expand",
+        label: `${EXPAND_TARGET_LENGTH}자로 확장`,
+        targetLength: EXPAND_TARGET_LENGTH,
+    },
+    { action: "shorten", label: "줄이기" },
+    { action: "nominalize", label: "명사형 종결(~함/~임)" },
+    { action: "quantify", label: "정량 근거 추가" },
+    { action: "tone", label: "어조 다듬기" },
+];
+
+interface AiBubbleMenuProps {
+    editor: Editor;
+    onRewrite: (action: InlineRewriteAction, targetLength?: number) => void;
+    onCancel: () => void;
+    isRewriting: boolean;
+    isStreaming?: boolean;
+}
+
+// 선택한 문장/문단을 AI로 다듬는 버블 메뉴
+export function AiBubbleMenu({
+    editor,
+    onRewrite,
+    onCancel,
+    isRewriting,
+    isStreaming,
+}: AiBubbleMenuProps) {
+    // BubbleMenu 플러그인은 처음 등록된 shouldShow를 계속 사용하므로 최신 상태는 ref로 읽음
+    const statusRef = useRef({ isRewriting, isStreaming });
+    statusRef.current = { isRewriting, isStreaming };
+
+    return (
+        <BubbleMenu
+            editor={editor}
+            pluginKey="aiBubbleMenu"
+            options={{ placement: "top-start" }}
+            shouldShow={({ state, from, to }) => {
+                if (statusRef.current.isStreaming || from === to) return false;
+                // 제안 검토 중에는 위젯의 수락/거절 버튼을 사용
+                if (getInlineSuggestion(state)) {
+                    return statusRef.current.isRewriting;
+                }
+                const { selection } = state;
+                // 한 문단 안의 텍스트 선택만 지원 (표 셀 선택, 여러 문단 선택 제외)
+                return (
+                    selection instanceof TextSelection &&
+                    selection.$from.sameParent(selection.$to) &&
+                    selection.$from.parent.isTextblock
+                );
+            }}
+        >
+            <div className="flex items-center gap-0.5 rounded-lg border border-border bg-popover p-1 shadow-md">
+                {isRewriting ? (
+                    <>
+                        <span className="flex items-center gap-1.5 px-2 text-xs text-muted-foreground">
+                            <Loader2 size={12} className="animate-spin" />
+                            AI가 다듬는 중...
+                        </span>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={onCancel}
+                        >
+                            <X size={12} className="mr-1" />
+                            취소
+                        </Button>
+                    </>
+                ) : (
+                    <>
+                        <Sparkles
+                            size={14}
+                            className="mx-1 shrink-0 text-primary"
+                        />
+                        {REWRITE_ACTIONS.map(
+                            ({ action, label, targetLength }) => (
+                                <Button
+                                    key={action}
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2 text-xs"
+                                    onClick={() =>
+                                        onRewrite(action, targetLength)
+                                    }
+                                >
+                                    {label}
+                                </Button>
+                            ),
+                        )}
+                    </>
+                )}
+            </div>
+        </BubbleMenu>
+    );
+}
@@ -14,10 +14,13 @@ import {
   Lock,
   Calendar,
   RefreshCw,
-  Pencil
+  Pencil,
+  Coins,
+  Users
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useDocuments, Document } from "@/hooks/useDocuments";
+import { DOCUMENT_ROLE_LABELS } from "@/lib/documentRoles";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -38,6 +41,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ItemInputModal } from "./ItemInputModal";
+import { CreditHistoryModal } from "./CreditHistoryModal";
 
 interface AppSidebarProps {
   collapsed: boolean;
@@ -47,11 +51,12 @@ interface AppSidebarProps {
 export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
   const location = useLocation();
   const navigate = useNavigate();
-  const { documents, loading, deleteDocument, createDocument, updateDocument } = useDocuments();
+  const { documents, sharedDocuments, loading, deleteDocument, createDocument, updateDocument } = useDocuments();
   const { user, profile, signOut, getPlanLabel, refreshProfile } = useAuth();
   const [showItemInputModal, setShowItemInputModal] = useState(false);
   const [showLimitModal, setShowLimitModal] = useState(false);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
+  const [showCreditHistory, setShowCreditHistory] = useState(false);
   const [cancellingSubscription, setCancellingSubscription] = useState(false);
   const [editingDocId, setEditingDocId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
@@ -299,6 +304,43 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
               ))
             )}
           </nav>
+
+          {/* Shared With Me */}
+          {!loading && sharedDocuments.length > 0 && (
+            <>
+              {!collapsed && (
+                <p className="text-xs text-sidebar-foreground/60 px-2 pt-4 pb-2 uppercase tracking-wider">
+                  공유받은 문서
+                </p>
+              )}
+              <nav className="space-y-1">
+                {sharedDocuments.map((doc) => (
+                  <Link
+                    key={doc.id}
+                    to={`/app/document/${doc.id}`}
+                    className={cn(
+                      "flex items-center gap-2 px-2 py-2 rounded-lg transition-colors",
+                      location.pathname === `/app/document/${doc.id}`
+                        ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                        : "text-sidebar-foreground hover:bg-sidebar-accent/50"
+                    )}
+                  >
+                    <Users size={18} className="shrink-0" />
+                    {!collapsed && (
+                      <>
+                        <span className="truncate text-sm flex-1">{doc.title}</span>
+                        {doc.role && (
+                          <span className="text-[10px] text-sidebar-foreground/50 shrink-0">
+                            {DOCUMENT_ROLE_LABELS[doc.role]}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </Link>
+                ))}
+              </nav>
+            </>
+          )}
         </div>
 
         {/* User Section */}
@@ -330,6 +372,15 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
                   {profile.auto_renew && <RefreshCw size={10} className="text-primary" />}
                 </button>
               )}
+              {/* Credits & Usage History */}
+              <button
+                onClick={() => setShowCreditHistory(true)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Coins size={12} />
+                <span>크레딧 {(profile?.credits ?? 0).toLocaleString()}</span>
+                <span className="underline underline-offset-2">사용 내역</span>
+              </button>
               {/* User Email */}
               <div className="flex items-center gap-2 text-sidebar-foreground">
                 <User size={18} className="shrink-0" />
@@ -374,6 +425,12 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
         documents={documents}
       />
 
+      <CreditHistoryModal
+        open={showCreditHistory}
+        onOpenChange={setShowCreditHistory}
+        currentCredits={profile?.credits}
+      />
+
       {/* 무료 회원 제한 알림 모달 */}
       {showLimitModal && (
         <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center">
@@ -433,9 +490,15 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
                 {profile?.credits !== null && profile?.credits !== undefined && (
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted-foreground">남은 크레딧</span>
-                    <span className="text-sm text-foreground font-medium">
+                    <button
+                      onClick={() => setShowCreditHistory(true)}
+                      className="text-sm text-foreground font-medium hover:text-primary transition-colors"
+                    >
                       {profile.credits.toLocaleString()}
-                    </span>
+                      <span className="ml-1 text-xs text-muted-foreground underline underline-offset-2">
+                        내역
+                      </span>
+                    </button>
                   </div>
                 )}
               </div>
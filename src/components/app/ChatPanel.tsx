@@ -15,6 +15,8 @@ import {
     FileText,
     Upload,
     X,
+    Coins,
+    Square,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -22,16 +24,20 @@ import { useChat } from "@/hooks/useChat";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { CustomOutline } from "@/lib/customOutline";
+import type { StructuredPlan } from "@/utils/structuredPlan";
 
 interface ChatPanelProps {
     documentContext?: string;
     onDocumentContent?: (content: string, isStreaming: boolean) => void;
+    onStructuredPlan?: (plan: StructuredPlan) => void; // 지원사업 양식 구조화 작성 결과
     documentId?: string;
     uploadedFilePath?: string | null;
     uploadedFileName?: string | null;
     isCustomTemplate?: boolean;
     onFileUploaded?: (filePath: string, fileName: string) => void;
     grantType?: string | null; // 2026 초창패: "EARLY_STARTUP", 2025 예창패: "PRE_STARTUP"
+    customOutline?: CustomOutline | null; // 자유양식(CUSTOM) 사용자 정의 목차
 }
 
 export interface ChatPanelHandle {
@@ -44,12 +50,14 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
         {
             documentContext,
             onDocumentContent,
+            onStructuredPlan,
             documentId,
             uploadedFilePath,
             uploadedFileName,
             isCustomTemplate,
             onFileUploaded,
             grantType,
+            customOutline,
         },
         ref,
     ) {
@@ -69,7 +77,10 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
             messages,
             isLoading,
             sendMessage: sendChatMessage,
+            cancelGeneration,
             clearMessages,
+            creditError,
+            dismissCreditError,
         } = useChat(
             documentContext,
             onDocumentContent,
@@ -78,6 +89,8 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
             currentFileName,
             isCustomTemplate,
             grantType,
+            customOutline,
+            onStructuredPlan,
         );
 
         const [input, setInput] = useState("");
@@ -409,6 +422,45 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
                     <div ref={messagesEndRef} />
                 </div>
 
+                {/* 크레딧 부족 - 구독 유도 */}
+                {creditError && (
+                    <div className="mx-4 mb-2 p-3 rounded-lg border border-primary/30 bg-primary/5 space-y-2">
+                        <div className="flex items-start gap-2">
+                            <Coins
+                                size={16}
+                                className="text-primary shrink-0 mt-0.5"
+                            />
+                            <div className="flex-1 text-sm">
+                                <p className="font-medium text-foreground">
+                                    {creditError.message}
+                                </p>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    남은 크레딧{" "}
+                                    {creditError.remainingCredits.toLocaleString()}
+                                    개 · AI 요청 1회당{" "}
+                                    {creditError.requiredCredits} 크레딧이
+                                    필요합니다.
+                                </p>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={dismissCreditError}
+                                className="h-6 w-6 p-0 text-muted-foreground"
+                            >
+                                <X size={14} />
+                            </Button>
+                        </div>
+                        <Button
+                            size="sm"
+                            className="w-full"
+                            onClick={() => (window.location.href = "/#pricing")}
+                        >
+                            플랜 구독하고 크레딧 충전하기
+                        </Button>
+                    </div>
+                )}
+
                 {/* Hidden file input */}
                 <input
                     type="file"
@@ -448,18 +500,27 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
                             className="min-h-[44px] max-h-32 resize-none"
                             rows={1}
                         />
-                        <Button
-                            type="submit"
-                            size="icon"
-                            disabled={!input.trim() || isLoading}
-                            className="shrink-0"
-                        >
-                            {isLoading ? (
-                                <Loader2 size={18} className="animate-spin" />
-                            ) : (
+                        {isLoading ? (
+                            <Button
+                                type="button"
+                                size="icon"
+                                variant="outline"
+                                onClick={cancelGeneration}
+                                className="shrink-0"
+                                title="작성 중단"
+                            >
+                                <Square size={16} className="fill-current" />
+                            </Button>
+                        ) : (
+                            <Button
+                                type="submit"
+                                size="icon"
+                                disabled={!input.trim()}
+                                className="shrink-0"
+                            >
                                 <Send size={18} />
-                            )}
-                        </Button>
+                            </Button>
+                        )}
                     </div>
                 </form>
             </div>
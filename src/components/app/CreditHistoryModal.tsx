@@ -0,0 +1,109 @@
+import { Coins } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import {
+  useCreditTransactions,
+  type CreditTransactionType,
+} from "@/hooks/useCreditTransactions";
+
+interface CreditHistoryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentCredits?: number | null;
+}
+
+const TYPE_LABELS: Record<CreditTransactionType, string> = {
+  grant: "지급",
+  deduction: "사용",
+  refund: "환불",
+  expiry: "소멸",
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("ko-KR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// 크레딧 지급/사용/환불/소멸 내역 (credit_transactions)
+export function CreditHistoryModal({ open, onOpenChange, currentCredits }: CreditHistoryModalProps) {
+  const { transactions, loading, error } = useCreditTransactions(open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Coins size={18} className="text-primary" />
+            크레딧 사용 내역
+          </DialogTitle>
+          <DialogDescription>
+            {currentCredits !== null && currentCredits !== undefined
+              ? `현재 남은 크레딧: ${currentCredits.toLocaleString()}`
+              : "최근 크레딧 변동 내역입니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[360px] -mx-2">
+          <div className="px-2 space-y-2">
+            {loading ? (
+              <>
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </>
+            ) : error ? (
+              <p className="text-sm text-destructive text-center py-8">{error}</p>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                아직 크레딧 내역이 없습니다.
+              </p>
+            ) : (
+              transactions.map((tx) => (
+                <div
+                  key={tx.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">
+                      <span className="text-xs text-muted-foreground mr-1.5">
+                        {TYPE_LABELS[tx.type as CreditTransactionType] ?? tx.type}
+                      </span>
+                      {tx.reason}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatDateTime(tx.created_at)}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p
+                      className={cn(
+                        "text-sm font-medium",
+                        tx.amount > 0 ? "text-primary" : "text-muted-foreground"
+                      )}
+                    >
+                      {tx.amount > 0 ? "+" : ""}
+                      {tx.amount.toLocaleString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      잔액 {tx.balance_after.toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+import { ArrowDown, ArrowUp, Plus, Table2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import {
+    createOutlineSection,
+    MAX_COLUMN_LENGTH,
+    MAX_GUIDE_LENGTH,
+    MAX_HEADING_LENGTH,
+    MAX_OUTLINE_SECTIONS,
+    MAX_TABLE_COLUMNS,
+    MAX_TABLE_ROWS,
+    MAX_TARGET_LENGTH,
+    type CustomOutline,
+    type OutlineSection,
+} from "@/lib/customOutline";
+
+interface CustomOutlineEditorProps {
+    outline: CustomOutline;
+    onChange: (outline: CustomOutline) => void;
+    disabled?: boolean;
+}
+
+// 자유양식 목차 편집기 (제목, 목표 분량, 표 구성)
+export function CustomOutlineEditor({
+    outline,
+    onChange,
+    disabled,
+}: CustomOutlineEditorProps) {
+    const { sections } = outline;
+
+    const updateSection = (id: string, patch: Partial<OutlineSection>) => {
+        onChange({
+            sections: sections.map((section) =>
+                section.id === id ? { ...section, ...patch } : section,
+            ),
+        });
+    };
+
+    const moveSection = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= sections.length) return;
+        const next = [...sections];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange({ sections: next });
+    };
+
+    const removeSection = (id: string) => {
+        onChange({
+            sections: sections.filter((section) => section.id !== id),
+        });
+    };
+
+    const addSection = () => {
+        if (sections.length >= MAX_OUTLINE_SECTIONS) return;
+        onChange({ sections: [...sections, createOutlineSection()] });
+    };
+
+    const toggleTable = (section: OutlineSection) => {
+        updateSection(section.id, {
+            table: section.table
+                ? undefined
+                : { columns: ["구분", "내용"], rows: 3 },
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <ScrollArea className="h-[260px] border rounded-lg">
+                <div className="p-2 space-y-2">
+                    {sections.map((section, index) => (
+                        <div
+                            key={section.id}
+                            className={cn(
+                                "rounded-md border bg-card p-2 space-y-2",
+                                section.level === 2 && "ml-4",
+                            )}
+                        >
+                            <div className="flex items-center gap-1">
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={disabled}
+                                    onClick={() =>
+                                        updateSection(section.id, {
+                                            level: section.level === 1 ? 2 : 1,
+                                        })
+                                    }
+                                    className="h-8 shrink-0 px-2 text-xs font-normal text-muted-foreground"
+                                    title="대목차/소목차 전환"
+                                >
+                                    {section.level === 1 ? "대목차" : "소목차"}
+                                </Button>
+                                <Input
+                                    value={section.heading}
+                                    onChange={(e) =>
+                                        updateSection(section.id, {
+                                            heading: e.target.value,
+                                        })
+                                    }
+                                    placeholder="목차 제목"
+                                    maxLength={MAX_HEADING_LENGTH}
+                                    disabled={disabled}
+                                    className="h-8 text-sm"
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    disabled={disabled || index === 0}
+                                    onClick={() => moveSection(index, -1)}
+                                >
+                                    <ArrowUp size={14} />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    disabled={
+                                        disabled ||
+                                        index === sections.length - 1
+                                    }
+                                    onClick={() => moveSection(index, 1)}
+                                >
+                                    <ArrowDown size={14} />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    disabled={disabled || sections.length <= 1}
+                                    onClick={() => removeSection(section.id)}
+                                >
+                                    <Trash2 size={14} />
+                                </Button>
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_TARGET_LENGTH}
+                                    step={100}
+                                    value={section.targetLength}
+                                    onChange={(e) =>
+                                        updateSection(section.id, {
+                                            targetLength:
+                                                Number(e.target.value) || 0,
+                                        })
+                                    }
+                                    disabled={disabled}
+                                    className="h-8 w-24 text-sm"
+                                />
+                                <span className="text-xs text-muted-foreground shrink-0">
+                                    자 이상
+                                </span>
+                                <Input
+                                    value={section.guide || ""}
+                                    onChange={(e) =>
+                                        updateSection(section.id, {
+                                            guide: e.target.value,
+                                        })
+                                    }
+                                    placeholder="작성 가이드 (선택)"
+                                    maxLength={MAX_GUIDE_LENGTH}
+                                    disabled={disabled}
+                                    className="h-8 text-sm"
+                                />
+                                <Button
+                                    variant={
+                                        section.table ? "secondary" : "ghost"
+                                    }
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    disabled={disabled}
+                                    onClick={() => toggleTable(section)}
+                                    title="표 추가/삭제"
+                                >
+                                    <Table2 size={14} />
+                                </Button>
+                            </div>
+
+                            {section.table && (
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        value={section.table.columns.join(", ")}
+                                        onChange={(e) =>
+                                            updateSection(section.id, {
+                                                table: {
+                                                    ...section.table!,
+                                                    columns:
+                                                        e.target.value.split(
+                                                            /\s*,\s*/,
+                                                        ),
+                                                },
+                                            })
+                                        }
+                                        placeholder="표 헤더 (쉼표로 구분)"
+                                        maxLength={
+                                            MAX_TABLE_COLUMNS *
+                                            (MAX_COLUMN_LENGTH + 2)
+                                        }
+                                        disabled={disabled}
+                                        className="h-8 text-sm"
+                                    />
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        max={MAX_TABLE_ROWS}
+                                        value={section.table.rows}
+                                        onChange={(e) =>
+                                            updateSection(section.id, {
+                                                table: {
+                                                    ...section.table!,
+                                                    rows:
+                                                        Number(
+                                                            e.target.value,
+                                                        ) || 1,
+                                                },
+                                            })
+                                        }
+                                        disabled={disabled}
+                                        className="h-8 w-16 text-sm"
+                                    />
+                                    <span className="text-xs text-muted-foreground shrink-0">
+                                        행
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </ScrollArea>
+
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={addSection}
+                disabled={disabled || sections.length >= MAX_OUTLINE_SECTIONS}
+                className="w-full"
+            >
+                <Plus size={14} className="mr-2" />
+                목차 추가
+            </Button>
+        </div>
+    );
+}
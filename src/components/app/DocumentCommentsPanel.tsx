@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { Check, Loader2, MessageSquareText, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+    useDocumentComments,
+    type DocumentComment,
+} from "@/hooks/useDocumentComments";
+import {
+    canCommentDocument,
+    canEditDocument,
+    type DocumentRole,
+} from "@/lib/documentRoles";
+
+interface DocumentCommentsPanelProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    documentId?: string;
+    role: DocumentRole | null;
+    /** 패널을 열 때 에디터에서 선택한 텍스트 (댓글 인용으로 첨부) */
+    selectedText?: string;
+}
+
+// 인용은 앞부분만 저장
+const MAX_QUOTE_LENGTH = 300;
+
+const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("ko-KR", {
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+// 검토 댓글 (댓글 작성자 이상 작성, 편집자 이상 해결 처리)
+export function DocumentCommentsPanel({
+    open,
+    onOpenChange,
+    documentId,
+    role,
+    selectedText,
+}: DocumentCommentsPanelProps) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const { comments, loading, fetchComments, addComment, setResolved, deleteComment } =
+        useDocumentComments(documentId);
+    const [body, setBody] = useState("");
+    const [quote, setQuote] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [showResolved, setShowResolved] = useState(false);
+
+    const canComment = canCommentDocument(role);
+    const canResolve = canEditDocument(role);
+
+    useEffect(() => {
+        if (!open) return;
+        fetchComments();
+        setQuote((selectedText || "").trim().slice(0, MAX_QUOTE_LENGTH));
+    }, [open, selectedText, fetchComments]);
+
+    const openComments = comments.filter((c) => !c.resolved_at);
+    const resolvedComments = comments.filter((c) => c.resolved_at);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+
+        setSubmitting(true);
+        try {
+            await addComment({ body: body.trim(), quote });
+            setBody("");
+            setQuote("");
+        } catch (error) {
+            console.error("Error adding comment:", error);
+            toast({
+                variant: "destructive",
+                title: "오류",
+                description: "댓글을 등록하지 못했습니다.",
+            });
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const runAction = async (action: () => Promise<void>, failMessage: string) => {
+        try {
+            await action();
+        } catch (error) {
+            console.error("Comment action error:", error);
+            toast({ variant: "destructive", title: "오류", description: failMessage });
+        }
+    };
+
+    const renderComment = (comment: DocumentComment) => (
+        <div
+            key={comment.id}
+            className={cn(
+                "rounded-lg border border-border p-3 space-y-2",
+                comment.resolved_at && "opacity-60",
+            )}
+        >
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">
+                    {comment.author_name || "참여자"}
+                </p>
+                <span className="text-xs text-muted-foreground shrink-0">
+                    {formatDateTime(comment.created_at)}
+                </span>
+            </div>
+            {comment.quote && (
+                <p className="text-xs text-muted-foreground border-l-2 border-primary/40 pl-2 line-clamp-3">
+                    {comment.quote}
+                </p>
+            )}
+            <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+            <div className="flex justify-end gap-1">
+                {canResolve && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() =>
+                            runAction(
+                                () => setResolved(comment.id, !comment.resolved_at),
+                                "댓글 상태를 변경하지 못했습니다.",
+                            )
+                        }
+                    >
+                        {comment.resolved_at ? (
+                            <>
+                                <RotateCcw size={12} className="mr-1" />
+                                다시 열기
+                            </>
+                        ) : (
+                            <>
+                                <Check size={12} className="mr-1" />
+                                해결
+                            </>
+                        )}
+                    </Button>
+                )}
+                {(comment.user_id === user?.id || role === "owner") && (
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="삭제"
+                        onClick={() =>
+                            runAction(
+                                () => deleteComment(comment.id),
+                                "댓글을 삭제하지 못했습니다.",
+                            )
+                        }
+                    >
+                        <Trash2 size={12} />
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent className="w-full sm:max-w-md flex flex-col gap-4">
+                <SheetHeader>
+                    <SheetTitle className="flex items-center gap-2">
+                        <MessageSquareText size={18} />
+                        검토 댓글
+                    </SheetTitle>
+                    <SheetDescription>
+                        본문을 선택한 뒤 댓글을 열면 선택한 부분이 함께 인용됩니다.
+                    </SheetDescription>
+                </SheetHeader>
+
+                <ScrollArea className="flex-1 min-h-0 -mx-2">
+                    <div className="px-2 space-y-2">
+                        {loading && comments.length === 0 ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2
+                                    size={18}
+                                    className="animate-spin text-muted-foreground"
+                                />
+                            </div>
+                        ) : openComments.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-8">
+                                아직 남겨진 댓글이 없습니다.
+                            </p>
+                        ) : (
+                            openComments.map(renderComment)
+                        )}
+
+                        {resolvedComments.length > 0 && (
+                            <>
+                                <button
+                                    type="button"
+                                    className="text-xs text-muted-foreground hover:text-foreground py-2"
+                                    onClick={() => setShowResolved(!showResolved)}
+                                >
+                                    해결된 댓글 {resolvedComments.length}개{" "}
+                                    {showResolved ? "숨기기" : "보기"}
+                                </button>
+                                {showResolved && resolvedComments.map(renderComment)}
+                            </>
+                        )}
+                    </div>
+                </ScrollArea>
+
+                {canComment ? (
+                    <form onSubmit={handleSubmit} className="space-y-2">
+                        {quote && (
+                            <div className="flex items-start gap-2 text-xs text-muted-foreground border-l-2 border-primary/40 pl-2">
+                                <p className="flex-1 line-clamp-2">{quote}</p>
+                                <button
+                                    type="button"
+                                    title="인용 제거"
+                                    onClick={() => setQuote("")}
+                                >
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        )}
+                        <Textarea
+                            value={body}
+                            onChange={(e) => setBody(e.target.value)}
+                            placeholder="검토 의견을 남겨주세요"
+                            rows={3}
+                            disabled={submitting}
+                        />
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={submitting || !body.trim()}
+                        >
+                            {submitting && (
+                                <Loader2 size={14} className="animate-spin mr-2" />
+                            )}
+                            댓글 남기기
+                        </Button>
+                    </form>
+                ) : (
+                    <p className="text-xs text-muted-foreground text-center">
+                        뷰어 권한으로는 댓글을 남길 수 없습니다.
+                    </p>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Download, FileText, Loader2, FileType } from "lucide-react";
+import { Download, FileDown, FileText, Loader2, FileType } from "lucide-react";
 import {
     Document as DocxDocument,
     Packer,
@@ -33,28 +33,35 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { extractDataFromEditor } from "@/utils/editorParser";
-import { exportToHwpx } from "@/utils/hwpxExportService";
-import { exportCustomHwpxFull } from "@/utils/hwpxCustomExportService";
+import {
+    extractDataFromEditor,
+    extractRichTextFromEditor,
+} from "@/utils/editorParser";
+import {
+    prepareHwpxExport,
+    saveHwpxFile,
+    type PreparedHwpxExport,
+} from "@/utils/hwpxExportService";
+import { exportCustomHwpx } from "@/utils/hwpxCustomExportService";
+import { createPdfDocument } from "@/utils/pdfExportService";
+import type { JSONContent } from "@tiptap/react";
+import {
+    extractSection0Data,
+    isSection0Table,
+    type Section0Data,
+} from "@/utils/section0Data";
 import { useAuth } from "@/hooks/useAuth";
 import { BusinessInfo } from "@/components/app/BusinessInfoPanel";
-
-// Grant type
-type GrantType =
-    | "PRE_STARTUP"
-    | "YOUTH_ACADEMY"
-    | "EARLY_STARTUP"
-    | "STARTUP_CENTRAL"
-    | "CUSTOM";
-
-// Grant type display names
-const GRANT_TYPE_NAMES: Record<GrantType, string> = {
-    PRE_STARTUP: "2025 예비창업패키지",
-    YOUTH_ACADEMY: "2025 청년창업사관학교",
-    EARLY_STARTUP: "2026 초기창업패키지",
-    STARTUP_CENTRAL: "2025 창업중심대학",
-    CUSTOM: "커스텀 양식",
-};
+import { HwpxExportReportDialog } from "@/components/app/HwpxExportReportDialog";
+import {
+    getGrantProgram,
+    usesFieldGroup,
+    type GrantType,
+} from "@/lib/grantPrograms";
+import {
+    normalizeHeadingText,
+    type CustomOutline,
+} from "@/lib/customOutline";
 
 interface ExportButtonProps {
     title: string;
@@ -64,6 +71,7 @@ interface ExportButtonProps {
     grantType?: GrantType;
     supportType?: string;
     hwpxTemplatePath?: string;
+    customOutline?: CustomOutline | null;
     originalPlainText?: string;
     businessInfo?: BusinessInfo | null;
     getChartImages?: () => Promise<{
@@ -73,94 +81,6 @@ interface ExportButtonProps {
     }>;
 }
 
-// Section 0 data structure
-interface Section0Data {
-    itemName: string;
-    category: string;
-    overview: string;
-    problem: string;
-    solution: string;
-    growth: string;
-    team: string;
-}
-
-// Extract Section 0 data from Tiptap content
-const extractSection0Data = (content: any): Section0Data | null => {
-    if (!content?.content || !Array.isArray(content.content)) return null;
-
-    // Find the Section 0 table
-    for (const node of content.content) {
-        if (node.type === "table" && node.content) {
-            const data: Section0Data = {
-                itemName: "",
-                category: "",
-                overview: "",
-                problem: "",
-                solution: "",
-                growth: "",
-                team: "",
-            };
-
-            // Extract text from cell
-            const getCellText = (cell: any): string => {
-                if (!cell?.content) return "";
-                return cell.content
-                    .map((p: any) => {
-                        if (p.type === "paragraph" && p.content) {
-                            return p.content
-                                .map((t: any) => t.text || "")
-                                .join("");
-                        }
-                        return "";
-                    })
-                    .join("\n");
-            };
-
-            // Process rows
-            for (let rowIdx = 0; rowIdx < node.content.length; rowIdx++) {
-                const row = node.content[rowIdx];
-                if (row.type !== "tableRow" || !row.content) continue;
-
-                const cells = row.content;
-
-                // Row 0: 명칭 + 범주
-                if (rowIdx === 0 && cells.length >= 4) {
-                    data.itemName = getCellText(cells[1]);
-                    data.category = getCellText(cells[3]);
-                }
-                // Row 1: 범주 (duplicate row in some templates, skip)
-                // Row 2: 아이템 개요
-                else if (rowIdx === 2 && cells.length >= 2) {
-                    data.overview = getCellText(cells[1]);
-                }
-                // Row 3: 문제 인식
-                else if (rowIdx === 3 && cells.length >= 2) {
-                    data.problem = getCellText(cells[1]);
-                }
-                // Row 4: 실현 가능성
-                else if (rowIdx === 4 && cells.length >= 2) {
-                    data.solution = getCellText(cells[1]);
-                }
-                // Row 5: 성장전략
-                else if (rowIdx === 5 && cells.length >= 2) {
-                    data.growth = getCellText(cells[1]);
-                }
-                // Row 6: 팀 구성
-                else if (rowIdx === 6 && cells.length >= 2) {
-                    data.team = getCellText(cells[1]);
-                }
-            }
-
-            // Only return if we found meaningful data
-            if (data.itemName || data.overview || data.problem) {
-                return data;
-            }
-        }
-    }
-
-    return null;
-};
-
 // Create Section 0 table with exact government template styling
 const createSection0Table = (data: Section0Data): Table => {
     // Total table width in DXA (1 inch = 1440 DXA, A4 width ~= 9638 DXA)
@@ -404,6 +324,74 @@ const createSection0Table = (data: Section0Data): Table => {
     });
 };
 
+const headingNode = (text: string, level: number): JSONContent => ({
+    type: "heading",
+    attrs: { level },
+    content: text ? [{ type: "text", text }] : [],
+});
+
+/**
+ * 자유양식(CUSTOM) 문서의 최상위 노드를 사용자 정의 목차 순서로 재배치
+ * - 목차 제목과 일치하는 heading을 기준으로 구간을 나누고, 목차 순서대로 내보냄
+ * - 목차 레벨에 맞춰 heading 레벨 통일 (대목차: H1, 소목차: H3)
+ * - 문서에 없는 목차는 제목(+표 헤더)만 추가
+ */
+const arrangeNodesByOutline = (
+    nodes: JSONContent[],
+    outline: CustomOutline,
+): JSONContent[] => {
+    const keys = outline.sections.map((section) =>
+        normalizeHeadingText(section.heading),
+    );
+    const preamble: JSONContent[] = [];
+    const buckets: (JSONContent[] | null)[] = outline.sections.map(() => null);
+    let current = preamble;
+
+    for (const node of nodes) {
+        if (node.type === "heading") {
+            const text =
+                node.content?.map((c) => c.text || "").join("") || "";
+            const index = keys.indexOf(normalizeHeadingText(text));
+            if (index >= 0 && !buckets[index]) {
+                buckets[index] = [];
+                current = buckets[index]!;
+                continue;
+            }
+        }
+        current.push(node);
+    }
+
+    const arranged = [...preamble];
+    outline.sections.forEach((section, index) => {
+        arranged.push(
+            headingNode(section.heading, section.level === 2 ? 3 : 1),
+        );
+        const bucket = buckets[index];
+        if (bucket) {
+            arranged.push(...bucket);
+        } else if (section.table) {
+            arranged.push({
+                type: "table",
+                content: [
+                    {
+                        type: "tableRow",
+                        content: section.table.columns.map((column) => ({
+                            type: "tableHeader",
+                            content: [
+                                {
+                                    type: "paragraph",
+                                    content: [{ type: "text", text: column }],
+                                },
+                            ],
+                        })),
+                    },
+                ],
+            });
+        }
+    });
+    return arranged;
+};
+
 export function ExportButton({
     title,
     content,
@@ -412,18 +400,24 @@ export function ExportButton({
     grantType = "PRE_STARTUP",
     supportType,
     hwpxTemplatePath,
+    customOutline,
     originalPlainText,
     businessInfo,
     getChartImages,
 }: ExportButtonProps) {
     const [isExporting, setIsExporting] = useState(false);
     const [showSubscribeModal, setShowSubscribeModal] = useState(false);
+    // 검증 리포트 확인을 기다리는 HWPX 내보내기 결과
+    const [pendingHwpx, setPendingHwpx] = useState<PreparedHwpxExport | null>(
+        null,
+    );
     const { toast } = useToast();
     const { profile } = useAuth();
 
     // Check if user is paid
     const isPaidUser =
         profile?.plan_type === "monthly" || profile?.plan_type === "season";
+    const grantProgram = getGrantProgram(grantType);
 
     // Get the latest content, preferring getter function if available
     const getExportContent = () => {
@@ -672,17 +666,6 @@ export function ExportButton({
         }
     };
 
-    // Check if this is the Section 0 table (첫 번째 테이블이고 명칭/범주 포함)
-    const isSection0Table = (node: any): boolean => {
-        if (node.type !== "table" || !node.content) return false;
-
-        const firstRow = node.content[0];
-        if (!firstRow?.content) return false;
-
-        const firstCellText = extractAllText(firstRow.content[0]);
-        return firstCellText.includes("명") && firstCellText.includes("칭");
-    };
-
     const parseContentToDocx = (
         docContent: any,
         fallbackPlainText: string,
@@ -707,12 +690,18 @@ export function ExportButton({
             `Processing ${docContent.content.length} nodes for DOCX export`,
         );
 
+        // 자유양식은 사용자 정의 목차 순서/레벨을 따름
+        const nodes =
+            grantType === "CUSTOM" && customOutline
+                ? arrangeNodesByOutline(docContent.content, customOutline)
+                : docContent.content;
+
         // First, try to extract Section 0 data for hardcoded table
         const section0Data = extractSection0Data(docContent);
         let section0TableHandled = false;
 
-        for (let i = 0; i < docContent.content.length; i++) {
-            const node = docContent.content[i];
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
             try {
                 if (node.type === "heading") {
                     const level = node.attrs?.level || 1;
@@ -863,6 +852,63 @@ export function ExportButton({
         }
     };
 
+    const exportToPdf = async () => {
+        setIsExporting(true);
+        try {
+            const { content: exportContent } = getExportContent();
+            if (
+                !exportContent?.content ||
+                !Array.isArray(exportContent.content)
+            ) {
+                throw new Error("No content to export");
+            }
+
+            console.log("📄 PDF 내보내기 시작:", title);
+
+            // 자유양식은 사용자 정의 목차 순서/레벨을 따름
+            const nodes =
+                grantType === "CUSTOM" && customOutline
+                    ? arrangeNodesByOutline(
+                          exportContent.content,
+                          customOutline,
+                      )
+                    : exportContent.content;
+
+            let chartImages = {};
+            if (getChartImages) {
+                try {
+                    chartImages = await getChartImages();
+                } catch (chartError) {
+                    console.warn("⚠️ 차트 이미지 캡처 실패:", chartError);
+                }
+            }
+
+            const blob = await createPdfDocument({
+                title: title || "문서",
+                nodes,
+                section0: extractSection0Data(exportContent),
+                chartImages,
+            });
+            const fileName = `${title || "문서"}.pdf`;
+            saveAs(blob, fileName);
+
+            toast({
+                title: "내보내기 완료",
+                description: `${fileName}로 저장되었습니다.`,
+            });
+        } catch (error) {
+            console.error("PDF export error:", error);
+            toast({
+                variant: "destructive",
+                title: "내보내기 실패",
+                description:
+                    "PDF 내보내기에 실패했습니다. 콘솔에서 상세 오류를 확인하세요.",
+            });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     const exportToHwp = async () => {
         setIsExporting(true);
         try {
@@ -947,12 +993,16 @@ export function ExportButton({
             console.log("Content nodes:", exportContent?.content?.length);
 
             // 1. 에디터 콘텐츠에서 데이터 추출
-            const projectData = extractDataFromEditor(exportContent, "");
+            const projectData = extractDataFromEditor(
+                exportContent,
+                "",
+                grantProgram,
+            );
             console.log("Extracted project data:", projectData);
 
-            // 1.5. 2026 초기창업패키지 일반현황 정보 병합
+            // 1.5. 일반현황 정보 병합 (일반현황 표가 있는 지원사업만)
             // businessInfo가 있으면 사용하고, 없으면 기본값 사용
-            if (businessInfo) {
+            if (businessInfo && usesFieldGroup(grantProgram, "generalInfo")) {
                 // 일반현황 기본 정보
                 projectData["info_company_name"] =
                     businessInfo.info_company_name ||
@@ -1008,6 +1058,11 @@ export function ExportButton({
                 });
             }
 
+            // 지방우대 지역 선택이 없는 양식은 지원사업의 자기부담 비율 사용
+            if (!projectData["region_type"] && grantProgram?.budgetRegionType) {
+                projectData["region_type"] = grantProgram.budgetRegionType;
+            }
+
             // 2. 차트 이미지 캡처 및 주입
             if (getChartImages) {
                 toast({
@@ -1046,18 +1101,18 @@ export function ExportButton({
                 }
             }
 
-            // 3. HWPX 템플릿에 데이터 병합 및 내보내기 (supportType에 따라 템플릿 선택)
+            // 3. HWPX 템플릿에 데이터 병합 (supportType에 따라 템플릿 선택)
+            // 다운로드는 검증 리포트를 확인한 뒤 진행
             const exportFileName =
                 title?.trim() ||
-                (supportType === "early_startup"
-                    ? "2026_초기창업패키지_사업계획서"
-                    : "2025_예비창업패키지_사업계획서");
-            await exportToHwpx(projectData, exportFileName, supportType);
-
-            toast({
-                title: "내보내기 완료",
-                description: `${exportFileName}.hwpx로 저장되었습니다.`,
-            });
+                `${grantProgram.name.replace(/\s+/g, "_")}_사업계획서`;
+            const prepared = await prepareHwpxExport(
+                projectData,
+                exportFileName,
+                supportType,
+                extractRichTextFromEditor(exportContent),
+            );
+            setPendingHwpx(prepared);
         } catch (error) {
             console.error("HWPX export error:", error);
             toast({
@@ -1073,6 +1128,16 @@ export function ExportButton({
         }
     };
 
+    const handleDownloadPendingHwpx = () => {
+        if (!pendingHwpx) return;
+        saveHwpxFile(pendingHwpx);
+        toast({
+            title: "내보내기 완료",
+            description: `${pendingHwpx.fileName}로 저장되었습니다.`,
+        });
+        setPendingHwpx(null);
+    };
+
     // 커스텀 HWPX 내보내기 (원본 템플릿에 편집 내용 주입 - 클라이언트 사이드)
     const exportToCustomHwpx = async () => {
         if (!hwpxTemplatePath) {
@@ -1098,7 +1163,7 @@ export function ExportButton({
 
             // Use the client-side export function (same approach as 예창패/청창패)
             const exportFileName = title?.trim() || "자유양식_문서";
-            await exportCustomHwpxFull(
+            await exportCustomHwpx(
                 hwpxTemplatePath,
                 currentPlainText || "",
                 exportFileName,
@@ -1133,11 +1198,11 @@ export function ExportButton({
     // Get dynamic footer message based on grant type
     const getFooterMessage = () => {
         if (grantType === "CUSTOM") {
-            return "*편집한 내용이 원본 HWPX 파일에 적용되어 내보내집니다.";
+            return hwpxTemplatePath
+                ? "*편집한 내용이 원본 HWPX 파일에 적용되어 내보내집니다."
+                : "*작성한 목차 구성에 맞춰 Word 문서로 내보내집니다.";
         }
-        const grantName =
-            GRANT_TYPE_NAMES[grantType] || GRANT_TYPE_NAMES.PRE_STARTUP;
-        return `*${grantName}.docx 양식 내보내기 기능은 수일 내에 오픈 예정입니다.`;
+        return `*${grantProgram.name}.docx 양식 내보내기 기능은 수일 내에 오픈 예정입니다.`;
     };
 
     return (
@@ -1162,44 +1227,38 @@ export function ExportButton({
                         Word 문서 (.docx)
                     </DropdownMenuItem>
 
-                    {/* PRE_STARTUP HWPX - show only if grantType is PRE_STARTUP */}
-                    {grantType === "PRE_STARTUP" && (
-                        <DropdownMenuItem
-                            onClick={() =>
-                                handleExportClick(exportToHwpxTemplate)
-                            }
-                        >
-                            <FileType size={16} className="mr-2" />
-                            2025 예비창업패키지 양식 (.hwpx)
-                        </DropdownMenuItem>
-                    )}
-
-                    {/* YOUTH_ACADEMY HWPX - show only if grantType is YOUTH_ACADEMY */}
-                    {grantType === "YOUTH_ACADEMY" && (
-                        <DropdownMenuItem
-                            onClick={handleDisabledClick}
-                            disabled
-                            className="text-muted-foreground opacity-50 cursor-not-allowed"
-                        >
-                            <FileType size={16} className="mr-2" />
-                            2025 청년창업사관학교 양식 (.hwpx) (준비 중)
-                        </DropdownMenuItem>
-                    )}
-
-                    {/* EARLY_STARTUP HWPX - show only if grantType is EARLY_STARTUP */}
-                    {grantType === "EARLY_STARTUP" && (
-                        <DropdownMenuItem
-                            onClick={() =>
-                                handleExportClick(exportToHwpxTemplate)
-                            }
-                        >
-                            <FileType size={16} className="mr-2" />
-                            2026 초기창업패키지 양식 (.hwpx)
-                        </DropdownMenuItem>
-                    )}
+                    {/* PDF - 한글 폰트 포함, 제목별 책갈피 */}
+                    <DropdownMenuItem
+                        onClick={() => handleExportClick(exportToPdf)}
+                    >
+                        <FileDown size={16} className="mr-2" />
+                        PDF 문서 (.pdf)
+                    </DropdownMenuItem>
 
-                    {/* CUSTOM HWPX - show only if grantType is CUSTOM */}
-                    {grantType === "CUSTOM" && (
+                    {/* 지원사업 양식 HWPX - 템플릿이 등록된 지원사업만 활성화 */}
+                    {grantType !== "CUSTOM" &&
+                        (grantProgram.hwpxTemplate ? (
+                            <DropdownMenuItem
+                                onClick={() =>
+                                    handleExportClick(exportToHwpxTemplate)
+                                }
+                            >
+                                <FileType size={16} className="mr-2" />
+                                {grantProgram.name} 양식 (.hwpx)
+                            </DropdownMenuItem>
+                        ) : (
+                            <DropdownMenuItem
+                                onClick={handleDisabledClick}
+                                disabled
+                                className="text-muted-foreground opacity-50 cursor-not-allowed"
+                            >
+                                <FileType size={16} className="mr-2" />
+                                {grantProgram.name} 양식 (.hwpx) (준비 중)
+                            </DropdownMenuItem>
+                        ))}
+
+                    {/* CUSTOM HWPX - show only for uploaded HWPX templates */}
+                    {grantType === "CUSTOM" && hwpxTemplatePath && (
                         <DropdownMenuItem
                             onClick={() =>
                                 handleExportClick(exportToCustomHwpx)
@@ -1217,6 +1276,13 @@ export function ExportButton({
                 </DropdownMenuContent>
             </DropdownMenu>
 
+            <HwpxExportReportDialog
+                open={!!pendingHwpx}
+                onOpenChange={(open) => !open && setPendingHwpx(null)}
+                prepared={pendingHwpx}
+                onDownload={handleDownloadPendingHwpx}
+            />
+
             {/* Subscription Modal for Free Users */}
             <Dialog
                 open={showSubscribeModal}
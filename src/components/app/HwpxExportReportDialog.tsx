@@ -0,0 +1,218 @@
+import { AlertTriangle, CheckCircle2, Download, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+    Accordion,
+    AccordionContent,
+    AccordionItem,
+    AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { PreparedHwpxExport } from "@/utils/hwpxExportService";
+import { hasBlockingIssues, type HwpxFileIssue } from "@/utils/hwpxFillEngine";
+
+interface HwpxExportReportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    prepared: PreparedHwpxExport | null;
+    onDownload: () => void;
+}
+
+function PlaceholderList({ names }: { names: string[] }) {
+    return (
+        <div className="flex flex-wrap gap-1">
+            {names.map((name) => (
+                <Badge key={name} variant="secondary" className="font-mono text-[11px]">
+                    {name}
+                </Badge>
+            ))}
+        </div>
+    );
+}
+
+function IssueList({ issues }: { issues: HwpxFileIssue[] }) {
+    return (
+        <ul className="space-y-1 text-xs">
+            {issues.map((issue, index) => (
+                <li key={`${issue.file}-${index}`} className="flex gap-2">
+                    <span className="text-muted-foreground shrink-0">{issue.file}</span>
+                    <span className="font-mono break-all">{issue.message}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+// HWPX 다운로드 전 검증 리포트 (남은 {{...}}, XML 오류, 빈 항목, 체크박스 선택)
+export function HwpxExportReportDialog({
+    open,
+    onOpenChange,
+    prepared,
+    onDownload,
+}: HwpxExportReportDialogProps) {
+    if (!prepared) return null;
+
+    const { report } = prepared;
+    const blocking = hasBlockingIssues(report);
+    const blankCount =
+        report.emptyPlaceholders.length + report.missingPlaceholders.length;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        {blocking ? (
+                            <XCircle size={18} className="text-destructive" />
+                        ) : blankCount > 0 ? (
+                            <AlertTriangle size={18} className="text-amber-500" />
+                        ) : (
+                            <CheckCircle2 size={18} className="text-green-600" />
+                        )}
+                        내보내기 검증 결과
+                    </DialogTitle>
+                    <DialogDescription>
+                        {blocking
+                            ? "양식에 남은 표시나 구조 오류가 있어 제출 시 반려될 수 있습니다."
+                            : blankCount > 0
+                              ? "비어 있는 항목이 있습니다. 확인 후 다운로드하세요."
+                              : "모든 항목이 정상적으로 채워졌습니다."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="rounded-lg border border-border p-2">
+                        <p className="text-lg font-semibold">
+                            {report.filledPlaceholders.length}
+                        </p>
+                        <p className="text-xs text-muted-foreground">채운 항목</p>
+                    </div>
+                    <div className="rounded-lg border border-border p-2">
+                        <p
+                            className={cn(
+                                "text-lg font-semibold",
+                                blankCount > 0 && "text-amber-600",
+                            )}
+                        >
+                            {blankCount}
+                        </p>
+                        <p className="text-xs text-muted-foreground">빈 항목</p>
+                    </div>
+                    <div className="rounded-lg border border-border p-2">
+                        <p
+                            className={cn(
+                                "text-lg font-semibold",
+                                blocking && "text-destructive",
+                            )}
+                        >
+                            {report.unresolvedMarkers.length + report.xmlErrors.length}
+                        </p>
+                        <p className="text-xs text-muted-foreground">오류</p>
+                    </div>
+                </div>
+
+                <ScrollArea className="max-h-[50vh] pr-3">
+                    {report.unresolvedMarkers.length > 0 && (
+                        <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-3 mb-2">
+                            <p className="text-sm font-medium text-destructive mb-2">
+                                남은 {"{{...}}"} 표시 {report.unresolvedMarkers.length}개
+                            </p>
+                            <IssueList issues={report.unresolvedMarkers} />
+                        </div>
+                    )}
+                    {report.xmlErrors.length > 0 && (
+                        <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-3 mb-2">
+                            <p className="text-sm font-medium text-destructive mb-2">
+                                XML 구조 오류
+                            </p>
+                            <IssueList issues={report.xmlErrors} />
+                        </div>
+                    )}
+
+                    <Accordion type="multiple" className="w-full">
+                        <AccordionItem value="checkboxes">
+                            <AccordionTrigger className="text-sm">
+                                체크박스 선택
+                            </AccordionTrigger>
+                            <AccordionContent>
+                                <ul className="space-y-1 text-sm">
+                                    {report.checkboxes.map((checkbox) => (
+                                        <li
+                                            key={checkbox.group}
+                                            className="flex justify-between gap-2"
+                                        >
+                                            <span className="text-muted-foreground">
+                                                {checkbox.group}
+                                            </span>
+                                            {checkbox.selected ? (
+                                                <span>☑ {checkbox.selected}</span>
+                                            ) : (
+                                                <span className="text-amber-600">
+                                                    선택 안 됨
+                                                    {checkbox.value &&
+                                                        ` (입력값: ${checkbox.value})`}
+                                                </span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </AccordionContent>
+                        </AccordionItem>
+                        {report.emptyPlaceholders.length > 0 && (
+                            <AccordionItem value="empty">
+                                <AccordionTrigger className="text-sm">
+                                    내용이 비어 있는 항목 ({report.emptyPlaceholders.length})
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                    <PlaceholderList names={report.emptyPlaceholders} />
+                                </AccordionContent>
+                            </AccordionItem>
+                        )}
+                        {report.missingPlaceholders.length > 0 && (
+                            <AccordionItem value="missing">
+                                <AccordionTrigger className="text-sm">
+                                    문서에서 찾지 못한 항목 ({report.missingPlaceholders.length})
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                    <PlaceholderList names={report.missingPlaceholders} />
+                                </AccordionContent>
+                            </AccordionItem>
+                        )}
+                        {report.unplacedValues.length > 0 && (
+                            <AccordionItem value="unplaced">
+                                <AccordionTrigger className="text-sm">
+                                    양식에 자리가 없어 빠진 내용 ({report.unplacedValues.length})
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                    <PlaceholderList names={report.unplacedValues} />
+                                </AccordionContent>
+                            </AccordionItem>
+                        )}
+                    </Accordion>
+                </ScrollArea>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        취소
+                    </Button>
+                    <Button
+                        variant={blocking ? "destructive" : "default"}
+                        onClick={onDownload}
+                    >
+                        <Download size={16} className="mr-2" />
+                        {blocking || blankCount > 0 ? "그래도 다운로드" : "다운로드"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -22,6 +22,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import {
@@ -30,30 +31,24 @@ import {
     type PlaceholderField,
     type EssentialQuestion,
 } from "@/utils/hwpxParser";
+import {
+    GRANT_PROGRAMS,
+    DEFAULT_GRANT_TYPE,
+    getGrantProgram,
+    type GrantType,
+} from "@/lib/grantPrograms";
+import {
+    createDefaultOutline,
+    normalizeOutline,
+    type CustomOutline,
+} from "@/lib/customOutline";
+import { CustomOutlineEditor } from "./CustomOutlineEditor";
 
 // Maximum characters to include from extracted PDF text
 const MAX_PDF_TEXT_LENGTH = 15000;
 
-// Grant type options
-type GrantType =
-    | "PRE_STARTUP"
-    | "YOUTH_ACADEMY"
-    | "EARLY_STARTUP"
-    | "STARTUP_CENTRAL"
-    | "CUSTOM";
-
-interface GrantTypeOption {
-    value: GrantType;
-    label: string;
-    disabled?: boolean;
-}
-
-const GRANT_TYPE_OPTIONS: GrantTypeOption[] = [
-    { value: "PRE_STARTUP", label: "2025 예비창업패키지" },
-    { value: "YOUTH_ACADEMY", label: "2025 청년창업사관학교", disabled: true },
-    { value: "EARLY_STARTUP", label: "2026 초기창업패키지" },
-    { value: "CUSTOM", label: "자유양식", disabled: true },
-];
+// Grant type options (from the grant-program registry)
+const GRANT_TYPE_OPTIONS = GRANT_PROGRAMS.filter((program) => !program.hidden);
 
 // Checklist item derived from placeholders
 interface ChecklistItem {
@@ -87,13 +82,16 @@ export function ItemInputModal({
     const [itemDescription, setItemDescription] = useState("");
     const [isCreating, setIsCreating] = useState(false);
     const [selectedGrantType, setSelectedGrantType] =
-        useState<GrantType>("PRE_STARTUP");
+        useState<GrantType>(DEFAULT_GRANT_TYPE);
     const [uploadedFile, setUploadedFile] = useState<File | null>(null);
     const [hwpxFile, setHwpxFile] = useState<File | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const hwpxInputRef = useRef<HTMLInputElement>(null);
     const [isExtractingPdf, setIsExtractingPdf] = useState(false);
     const [extractedPdfText, setExtractedPdfText] = useState<string>("");
+    // 자유양식(CUSTOM) 사용자 정의 목차
+    const [customOutline, setCustomOutline] =
+        useState<CustomOutline>(createDefaultOutline);
 
     // New state for HWPX checklist flow
     const [modalStep, setModalStep] = useState<ModalStep>("select");
@@ -470,7 +468,7 @@ export function ItemInputModal({
                 ? hwpxFile.name.replace(/\.hwpx$/i, "")
                 : generateTitle();
 
-            const supportType = "custom";
+            const supportType = getGrantProgram("CUSTOM").supportType;
             const doc = await onCreateDocument(title, supportType, "CUSTOM");
 
             if (doc) {
@@ -529,23 +527,23 @@ export function ItemInputModal({
     };
 
     const handleSubmit = async () => {
-        // For CUSTOM type, the flow goes through handleHwpxFileSelect -> checklist -> handleChecklistSubmit
-        if (selectedGrantType === "CUSTOM") {
-            if (!hwpxFile) {
-                toast({
-                    variant: "destructive",
-                    title: "HWPX 파일을 업로드해주세요",
-                });
-                return;
-            }
-            // This shouldn't be reached as the flow goes through checklist
+        if (!itemDescription.trim()) {
+            toast({
+                variant: "destructive",
+                title: "아이템 설명을 입력해주세요",
+            });
             return;
         }
 
-        if (!itemDescription.trim()) {
+        // CUSTOM: 사용자 정의 목차로 작성 (HWPX 업로드 시에는 checklist 흐름 사용)
+        const outline =
+            selectedGrantType === "CUSTOM"
+                ? normalizeOutline(customOutline)
+                : null;
+        if (outline && outline.sections.length === 0) {
             toast({
                 variant: "destructive",
-                title: "아이템 설명을 입력해주세요",
+                title: "목차를 하나 이상 입력해주세요",
             });
             return;
         }
@@ -582,10 +580,7 @@ export function ItemInputModal({
 
             const title = generateTitle();
             // Map grant type to support type for template selection
-            const supportType =
-                selectedGrantType === "EARLY_STARTUP"
-                    ? "early_startup"
-                    : "preliminary";
+            const supportType = getGrantProgram(selectedGrantType).supportType;
             const doc = await onCreateDocument(
                 title,
                 supportType,
@@ -593,6 +588,16 @@ export function ItemInputModal({
             );
 
             if (doc) {
+                // Store the outline so chat/export can follow it later
+                if (outline && user) {
+                    await supabase
+                        .from("documents")
+                        .update({
+                            custom_outline: outline as unknown as Json,
+                        })
+                        .eq("id", doc.id);
+                }
+
                 onOpenChange(false);
                 resetState();
 
@@ -617,6 +622,7 @@ export function ItemInputModal({
                         grantType: selectedGrantType,
                         uploadedFilePath,
                         uploadedFileName: uploadedFileNameToPass,
+                        customOutline: outline,
                     },
                 });
             }
@@ -636,7 +642,8 @@ export function ItemInputModal({
         setUploadedFile(null);
         setExtractedPdfText("");
         setHwpxFile(null);
-        setSelectedGrantType("PRE_STARTUP");
+        setSelectedGrantType(DEFAULT_GRANT_TYPE);
+        setCustomOutline(createDefaultOutline());
         setModalStep("select");
         setChecklistItems([]);
         setProjectDescription("");
@@ -644,9 +651,6 @@ export function ItemInputModal({
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
-        // Disable Enter submit for CUSTOM type (needs file upload)
-        if (selectedGrantType === "CUSTOM") return;
-
         if (
             e.key === "Enter" &&
             !e.shiftKey &&
@@ -781,17 +785,17 @@ export function ItemInputModal({
                 <div className="flex flex-wrap gap-2">
                     {GRANT_TYPE_OPTIONS.map((option) => (
                         <button
-                            key={option.value}
+                            key={option.id}
                             type="button"
                             disabled={option.disabled}
                             onClick={() =>
                                 !option.disabled &&
-                                setSelectedGrantType(option.value)
+                                setSelectedGrantType(option.id)
                             }
                             className={cn(
                                 "px-3 py-2 text-sm rounded-lg border transition-all",
                                 "focus:outline-none focus:ring-2 focus:ring-primary/50",
-                                selectedGrantType === option.value &&
+                                selectedGrantType === option.id &&
                                     !option.disabled
                                     ? "bg-primary text-primary-foreground border-primary"
                                     : option.disabled
@@ -799,21 +803,34 @@ export function ItemInputModal({
                                       : "bg-card text-foreground border-border hover:border-primary/50 hover:bg-accent",
                             )}
                         >
-                            {option.label}
+                            {option.name}
                         </button>
                     ))}
                 </div>
             </div>
 
-            {/* HWPX Upload for CUSTOM type */}
+            {/* Outline editor for CUSTOM type */}
             {selectedGrantType === "CUSTOM" && (
                 <div className="space-y-2">
-                    <Label className="text-sm font-medium">
-                        HWPX 파일 업로드
-                    </Label>
+                    <Label className="text-sm font-medium">목차 구성</Label>
                     <p className="text-xs text-muted-foreground mb-2">
-                        HWPX 파일을 업로드하면 AI가 분석하여 작성해야 할 항목을
-                        안내합니다.
+                        지원서의 목차, 항목별 목표 분량, 표 구성을 입력하면 AI가
+                        이 목차대로 작성합니다.
+                    </p>
+                    <CustomOutlineEditor
+                        outline={customOutline}
+                        onChange={setCustomOutline}
+                        disabled={isCreating}
+                    />
+                </div>
+            )}
+
+            {/* HWPX Upload for CUSTOM type */}
+            {selectedGrantType === "CUSTOM" && (
+                <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                        HWPX 양식 파일이 있다면 업로드하세요. AI가 분석하여
+                        작성해야 할 항목을 안내합니다.
                     </p>
 
                     <input
@@ -854,105 +871,101 @@ export function ItemInputModal({
                 </div>
             )}
 
-            {/* Item Description - only for non-custom types */}
-            {selectedGrantType !== "CUSTOM" && (
-                <div className="space-y-2">
-                    <Textarea
-                        value={itemDescription}
-                        onChange={(e) => setItemDescription(e.target.value)}
-                        placeholder="아이템 설명을 입력하면, AI가 사업계획서를 작성합니다."
-                        className="min-h-[120px] resize-none"
-                        onKeyDown={handleKeyDown}
+            {/* Item Description */}
+            <div className="space-y-2">
+                <Textarea
+                    value={itemDescription}
+                    onChange={(e) => setItemDescription(e.target.value)}
+                    placeholder="아이템 설명을 입력하면, AI가 사업계획서를 작성합니다."
+                    className="min-h-[120px] resize-none"
+                    onKeyDown={handleKeyDown}
+                />
+
+                {/* PDF Upload Section */}
+                <div className="pt-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".pdf"
+                        onChange={handleFileSelect}
+                        className="hidden"
                     />
 
-                    {/* PDF Upload Section */}
-                    <div className="pt-2">
-                        <input
-                            ref={fileInputRef}
-                            type="file"
-                            accept=".pdf"
-                            onChange={handleFileSelect}
-                            className="hidden"
-                        />
-
-                        {uploadedFile ? (
-                            <div className="flex items-center justify-between p-3 bg-accent rounded-lg border">
-                                <div className="flex items-center gap-2">
-                                    {isExtractingPdf ? (
-                                        <Loader2
-                                            size={18}
-                                            className="text-primary animate-spin"
-                                        />
-                                    ) : extractedPdfText ? (
-                                        <CheckCircle2
-                                            size={18}
-                                            className="text-green-500"
-                                        />
-                                    ) : (
-                                        <FileText
-                                            size={18}
-                                            className="text-primary"
-                                        />
-                                    )}
-                                    <div className="flex flex-col">
-                                        <span className="text-sm truncate max-w-[200px]">
-                                            {uploadedFile.name}
+                    {uploadedFile ? (
+                        <div className="flex items-center justify-between p-3 bg-accent rounded-lg border">
+                            <div className="flex items-center gap-2">
+                                {isExtractingPdf ? (
+                                    <Loader2
+                                        size={18}
+                                        className="text-primary animate-spin"
+                                    />
+                                ) : extractedPdfText ? (
+                                    <CheckCircle2
+                                        size={18}
+                                        className="text-green-500"
+                                    />
+                                ) : (
+                                    <FileText
+                                        size={18}
+                                        className="text-primary"
+                                    />
+                                )}
+                                <div className="flex flex-col">
+                                    <span className="text-sm truncate max-w-[200px]">
+                                        {uploadedFile.name}
+                                    </span>
+                                    {isExtractingPdf && (
+                                        <span className="text-xs text-muted-foreground">
+                                            텍스트 추출 중...
                                         </span>
-                                        {isExtractingPdf && (
-                                            <span className="text-xs text-muted-foreground">
-                                                텍스트 추출 중...
+                                    )}
+                                    {extractedPdfText &&
+                                        !isExtractingPdf && (
+                                            <span className="text-xs text-green-600">
+                                                텍스트 추출 완료
                                             </span>
                                         )}
-                                        {extractedPdfText &&
-                                            !isExtractingPdf && (
-                                                <span className="text-xs text-green-600">
-                                                    텍스트 추출 완료
-                                                </span>
-                                            )}
-                                    </div>
                                 </div>
-                                <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={handleRemoveFile}
-                                    disabled={isExtractingPdf}
-                                    className="h-8 w-8"
-                                >
-                                    <X size={16} />
-                                </Button>
                             </div>
-                        ) : (
                             <Button
-                                variant="outline"
-                                onClick={() => fileInputRef.current?.click()}
-                                className="w-full text-muted-foreground"
-                                size="sm"
+                                variant="ghost"
+                                size="icon"
+                                onClick={handleRemoveFile}
+                                disabled={isExtractingPdf}
+                                className="h-8 w-8"
                             >
-                                <FileUp size={16} className="mr-2" />
-                                참고 자료 PDF 업로드 (선택)
+                                <X size={16} />
                             </Button>
-                        )}
-                    </div>
-                </div>
-            )}
-
-            {/* Submit button - only for non-custom types */}
-            {selectedGrantType !== "CUSTOM" && (
-                <Button
-                    onClick={handleSubmit}
-                    disabled={
-                        !itemDescription.trim() || isCreating || isExtractingPdf
-                    }
-                    className="w-full"
-                >
-                    {isCreating ? (
-                        <Loader2 size={18} className="animate-spin mr-2" />
+                        </div>
                     ) : (
-                        <Send size={18} className="mr-2" />
+                        <Button
+                            variant="outline"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="w-full text-muted-foreground"
+                            size="sm"
+                        >
+                            <FileUp size={16} className="mr-2" />
+                            참고 자료 PDF 업로드 (선택)
+                        </Button>
                     )}
-                    {isCreating ? "생성 중..." : "사업계획서 작성 시작"}
-                </Button>
-            )}
+                </div>
+            </div>
+
+            {/* Submit button */}
+            <Button
+                onClick={handleSubmit}
+                disabled={
+                    !itemDescription.trim() || isCreating || isExtractingPdf
+                }
+                className="w-full"
+            >
+                {isCreating ? (
+                    <Loader2 size={18} className="animate-spin mr-2" />
+                ) : (
+                    <Send size={18} className="mr-2" />
+                )}
+                {isCreating ? "생성 중..." : "사업계획서 작성 시작"}
+            </Button>
         </div>
     );
 
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Copy, Link2, Loader2, UserPlus, Users, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useDocumentMembers } from "@/hooks/useDocumentMembers";
+import { getShareLinkUrl, useDocumentShareLinks } from "@/hooks/useDocumentShareLinks";
+import type { Collaborator } from "@/hooks/useDocumentCollaboration";
+import {
+  DOCUMENT_ROLE_LABELS,
+  SHARE_ROLES,
+  SHARE_ROLE_DESCRIPTIONS,
+  isDocumentRole,
+  type ShareRole,
+} from "@/lib/documentRoles";
+
+interface ShareDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId?: string;
+  /** 지금 문서에 접속 중인 다른 참여자 */
+  collaborators?: Collaborator[];
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: {
+  value: ShareRole;
+  onChange: (role: ShareRole) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ShareRole)} disabled={disabled}>
+      <SelectTrigger className={className ?? "w-[120px] h-9 text-xs"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SHARE_ROLES.map((role) => (
+          <SelectItem key={role} value={role} title={SHARE_ROLE_DESCRIPTIONS[role]}>
+            {DOCUMENT_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// 문서 공유: 이메일 초대 / 공유 링크 / 멤버 권한 관리 (관리는 소유자만 가능)
+export function ShareDocumentDialog({
+  open,
+  onOpenChange,
+  documentId,
+  collaborators = [],
+}: ShareDocumentDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const {
+    members,
+    loading,
+    isOwner,
+    fetchMembers,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+  } = useDocumentMembers(documentId);
+  const { links, createLink, revokeLink } = useDocumentShareLinks(documentId, isOwner);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ShareRole>("editor");
+  const [inviting, setInviting] = useState(false);
+  const [linkRole, setLinkRole] = useState<ShareRole>("viewer");
+  const [creatingLink, setCreatingLink] = useState(false);
+
+  useEffect(() => {
+    if (open) fetchMembers();
+  }, [open, fetchMembers]);
+
+  const onlineUserIds = new Set(collaborators.map((c) => c.userId));
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    try {
+      await inviteMember(email.trim(), inviteRole);
+      setEmail("");
+      toast({
+        title: "초대 완료",
+        description: `${DOCUMENT_ROLE_LABELS[inviteRole]} 권한으로 초대했습니다.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "초대 실패",
+        description: error instanceof Error ? error.message : "멤버를 초대하지 못했습니다.",
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberUserId: string, role: ShareRole) => {
+    try {
+      await updateMemberRole(memberUserId, role);
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      toast({
+        variant: "destructive",
+        title: "오류",
+        description: "권한을 변경하지 못했습니다.",
+      });
+    }
+  };
+
+  const handleRemove = async (memberUserId: string) => {
+    try {
+      await removeMember(memberUserId);
+      // 스스로 나간 경우 더 이상 문서에 접근할 수 없음
+      if (memberUserId === user?.id) {
+        onOpenChange(false);
+        navigate("/app");
+      }
+    } catch (error) {
+      console.error("Error removing document member:", error);
+      toast({
+        variant: "destructive",
+        title: "오류",
+        description: "멤버를 내보내지 못했습니다.",
+      });
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(token));
+      toast({ title: "링크 복사 완료", description: "공유 링크를 클립보드에 복사했습니다." });
+    } catch {
+      toast({ variant: "destructive", title: "오류", description: "링크를 복사하지 못했습니다." });
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setCreatingLink(true);
+    try {
+      const link = await createLink(linkRole);
+      if (link) await copyLink(link.token);
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      toast({
+        variant: "destructive",
+        title: "오류",
+        description: "공유 링크를 만들지 못했습니다.",
+      });
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const handleRevokeLink = async (linkId: string) => {
+    try {
+      await revokeLink(linkId);
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      toast({
+        variant: "destructive",
+        title: "오류",
+        description: "공유 링크를 삭제하지 못했습니다.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users size={18} className="text-primary" />
+            문서 공유
+          </DialogTitle>
+          <DialogDescription>
+            팀원, 멘토, 컨설턴트를 초대해 권한에 따라 함께 보고, 댓글을 남기고, 편집할 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <>
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="초대할 사람의 가입 이메일"
+                disabled={inviting}
+              />
+              <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={inviting} />
+              <Button type="submit" disabled={inviting || !email.trim()}>
+                {inviting ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <UserPlus size={16} />
+                )}
+              </Button>
+            </form>
+
+            <div className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Link2 size={16} className="text-muted-foreground shrink-0" />
+                <p className="text-sm flex-1">공유 링크</p>
+                <RoleSelect value={linkRole} onChange={setLinkRole} disabled={creatingLink} />
+                <Button size="sm" variant="outline" onClick={handleCreateLink} disabled={creatingLink}>
+                  {creatingLink ? <Loader2 size={14} className="animate-spin" /> : "링크 만들기"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                링크를 연 사람은 로그인 후 선택한 권한으로 문서에 참여합니다.
+              </p>
+              {links.map((link) => (
+                <div key={link.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground shrink-0">
+                    {isDocumentRole(link.role) ? DOCUMENT_ROLE_LABELS[link.role] : link.role}
+                  </span>
+                  <span className="truncate flex-1 font-mono">{getShareLinkUrl(link.token)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    title="링크 복사"
+                    onClick={() => copyLink(link.token)}
+                  >
+                    <Copy size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    title="링크 삭제"
+                    onClick={() => handleRevokeLink(link.id)}
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          {loading && members.length === 0 ? (
+            <>
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </>
+          ) : (
+            members.map((member) => (
+              <div
+                key={member.user_id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground truncate">
+                    {member.display_name || member.email || "알 수 없는 사용자"}
+                    {member.user_id === user?.id && (
+                      <span className="text-xs text-muted-foreground ml-1">(나)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {member.email}
+                    {onlineUserIds.has(member.user_id) && " · 접속 중"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {isOwner && !member.is_owner ? (
+                    <RoleSelect
+                      value={member.role as ShareRole}
+                      onChange={(role) => handleRoleChange(member.user_id, role)}
+                      className="w-[110px] h-8 text-xs"
+                    />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {isDocumentRole(member.role) ? DOCUMENT_ROLE_LABELS[member.role] : member.role}
+                    </span>
+                  )}
+                  {!member.is_owner && (isOwner || member.user_id === user?.id) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={member.user_id === user?.id ? "나가기" : "내보내기"}
+                      onClick={() => handleRemove(member.user_id)}
+                    >
+                      <X size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
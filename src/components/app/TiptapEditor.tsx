@@ -8,6 +8,17 @@ import { TableCell } from "@tiptap/extension-table-cell";
 import { TableHeader } from "@tiptap/extension-table-header";
 import { Markdown } from "tiptap-markdown";
 import { ChartNode } from "@/components/editor/extensions/ChartNode";
+import { SectionRegenerate } from "@/components/editor/extensions/SectionRegenerate";
+import { InlineSuggestion } from "@/components/editor/extensions/InlineSuggestion";
+import { Collaboration } from "@/components/editor/extensions/Collaboration";
+import {
+    useDocumentCollaboration,
+    type CollaborationSession,
+    type Collaborator,
+} from "@/hooks/useDocumentCollaboration";
+import { replaceWithMarkdownDiff } from "@/lib/editorSections";
+import type { InlineRewriteAction } from "@/hooks/useInlineRewrite";
+import { AiBubbleMenu } from "./AiBubbleMenu";
 import {
     useEffect,
     useCallback,
@@ -31,7 +42,7 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
+import { uploadEditorImage } from "@/utils/imageUpload";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import {
@@ -48,6 +59,20 @@ interface TiptapEditorProps {
     isStreaming?: boolean;
     /** Optional slot to render after the heading (before the main table) */
     slotAfterHeading?: React.ReactNode;
+    /** 장 제목의 "다시 쓰기" 버튼 클릭 시 호출 (제목 노드 위치). 없으면 버튼을 표시하지 않음 */
+    onRegenerateSection?: (headingPos: number) => void;
+    /** 선택 영역 버블 메뉴의 AI 다듬기 동작. 없으면 버블 메뉴를 표시하지 않음 */
+    onRewriteSelection?: (
+        action: InlineRewriteAction,
+        targetLength?: number,
+    ) => void;
+    onCancelRewrite?: () => void;
+    isRewriting?: boolean;
+    /** 실시간 공동 편집 세션. 에디터 생성 시점의 값만 사용 (없으면 단독 편집) */
+    collaboration?: CollaborationSession | null;
+    onCollaboratorsChange?: (collaborators: Collaborator[]) => void;
+    /** false면 읽기 전용 (뷰어/댓글 작성자 권한) - 툴바를 숨기고 입력을 막음 */
+    editable?: boolean;
 }
 
 export interface TiptapEditorHandle {
@@ -64,6 +89,13 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
             placeholder = "AI가 사업계획서를 작성합니다...",
             isStreaming = false,
             slotAfterHeading,
+            onRegenerateSection,
+            onRewriteSelection,
+            onCancelRewrite,
+            isRewriting = false,
+            collaboration,
+            onCollaboratorsChange,
+            editable = true,
         },
         ref,
     ) => {
@@ -73,6 +105,12 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
         const [, forceUpdate] = useState({});
         const streamingRef = useRef(false);
         const selectionUpdateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+        // 에디터 확장은 생성 시점에 한 번만 설정되므로 최신 콜백은 ref로 전달
+        const onRegenerateSectionRef = useRef(onRegenerateSection);
+        onRegenerateSectionRef.current = onRegenerateSection;
+        // 공동 편집 step/presence에서 이 접속(탭)을 구분하는 ID
+        const [collabClientID] = useState(() => crypto.randomUUID());
+        const isCollaborative = !!collaboration;
 
         // Ensure content is valid for Tiptap - must be string or proper JSON structure
         const initialContent =
@@ -124,8 +162,26 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
                     transformCopiedText: true,
                 }),
                 ChartNode,
+                ...(onRegenerateSection
+                    ? [
+                          SectionRegenerate.configure({
+                              onRegenerate: (headingPos) =>
+                                  onRegenerateSectionRef.current?.(headingPos),
+                          }),
+                      ]
+                    : []),
+                ...(onRewriteSelection ? [InlineSuggestion] : []),
+                ...(collaboration
+                    ? [
+                          Collaboration.configure({
+                              version: collaboration.version,
+                              clientID: collabClientID,
+                          }),
+                      ]
+                    : []),
             ],
             content: initialContent,
+            editable,
             onUpdate: ({ editor }) => {
                 if (!streamingRef.current) {
                     const json = editor.getJSON();
@@ -144,6 +200,22 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
             },
         });
 
+        const { collaborators } = useDocumentCollaboration(
+            editor,
+            collaboration,
+            collabClientID,
+        );
+
+        useEffect(() => {
+            onCollaboratorsChange?.(collaborators);
+        }, [collaborators, onCollaboratorsChange]);
+
+        useEffect(() => {
+            if (editor && editor.isEditable !== editable) {
+                editor.setEditable(editable);
+            }
+        }, [editor, editable]);
+
         // Update streaming ref when prop changes
         useEffect(() => {
             streamingRef.current = isStreaming;
@@ -155,6 +227,11 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
             () => ({
                 setMarkdownContent: (markdown: string) => {
                     if (!editor) return;
+                    // 공동 편집 중에는 달라진 구간만 교체해 참여자에게 보내는 step을 최소화
+                    if (isCollaborative) {
+                        replaceWithMarkdownDiff(editor, markdown);
+                        return;
+                    }
                     // Set content directly - real-time streaming from API
                     editor.commands.setContent(markdown);
                 },
@@ -166,7 +243,7 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
                 // Expose editor for getting final content after streaming
                 editor,
             }),
-            [editor],
+            [editor, isCollaborative],
         );
 
         useEffect(() => {
@@ -197,44 +274,8 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
 
             setUploading(true);
             try {
-                const {
-                    data: { user },
-                } = await supabase.auth.getUser();
-                if (!user) throw new Error("Not authenticated");
-
-                const fileExt = file.name.split(".").pop();
-                const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-                const { error: uploadError } = await supabase.storage
-                    .from("project_files")
-                    .upload(fileName, file);
-
-                if (uploadError) throw uploadError;
-
-                // Use signed URL for private bucket (7 days expiration)
-                const { data: signedData, error: signError } =
-                    await supabase.storage
-                        .from("project_files")
-                        .createSignedUrl(fileName, 60 * 60 * 24 * 7); // 7 days
-
-                if (signError) throw signError;
-                if (!signedData?.signedUrl)
-                    throw new Error("Failed to generate signed URL");
-
-                editor
-                    ?.chain()
-                    .focus()
-                    .setImage({ src: signedData.signedUrl })
-                    .run();
-
-                // Store file metadata for future URL regeneration
-                await supabase.from("uploaded_files").insert({
-                    user_id: user.id,
-                    file_name: file.name,
-                    file_path: fileName,
-                    file_type: file.type,
-                    file_size: file.size,
-                });
+                const src = await uploadEditorImage(file);
+                editor?.chain().focus().setImage({ src }).run();
 
                 toast({
                     title: "업로드 완료",
@@ -305,126 +346,128 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
                 />
 
                 {/* Toolbar */}
-                <div className="border-b border-border px-4 py-2 flex items-center gap-1 flex-wrap bg-card">
-                    <ToolbarButton
-                        onClick={() =>
-                            editor.chain().focus().toggleBold().run()
-                        }
-                        isActive={editor.isActive("bold")}
-                    >
-                        <Bold size={16} />
-                    </ToolbarButton>
-                    <ToolbarButton
-                        onClick={() =>
-                            editor.chain().focus().toggleItalic().run()
-                        }
-                        isActive={editor.isActive("italic")}
-                    >
-                        <Italic size={16} />
-                    </ToolbarButton>
-                    <div className="w-px h-6 bg-border mx-1" />
-                    <ToolbarButton
-                        onClick={() =>
-                            editor
-                                .chain()
-                                .focus()
-                                .toggleHeading({ level: 1 })
-                                .run()
-                        }
-                        isActive={editor.isActive("heading", { level: 1 })}
-                    >
-                        <Heading1 size={16} />
-                    </ToolbarButton>
-                    <ToolbarButton
-                        onClick={() =>
-                            editor
-                                .chain()
-                                .focus()
-                                .toggleHeading({ level: 2 })
-                                .run()
-                        }
-                        isActive={editor.isActive("heading", { level: 2 })}
-                    >
-                        <Heading2 size={16} />
-                    </ToolbarButton>
-                    <ToolbarButton
-                        onClick={() =>
-                            editor
-                                .chain()
-                                .focus()
-                                .toggleHeading({ level: 3 })
-                                .run()
-                        }
-                        isActive={editor.isActive("heading", { level: 3 })}
-                    >
-                        <Heading3 size={16} />
-                    </ToolbarButton>
-                    <div className="w-px h-6 bg-border mx-1" />
-                    <ToolbarButton
-                        onClick={() => fileInputRef.current?.click()}
-                        disabled={uploading}
-                    >
-                        {uploading ? (
-                            <Loader2 size={16} className="animate-spin" />
-                        ) : (
-                            <ImageIcon size={16} />
-                        )}
-                    </ToolbarButton>
+                {editable && (
+                    <div className="border-b border-border px-4 py-2 flex items-center gap-1 flex-wrap bg-card">
+                        <ToolbarButton
+                            onClick={() =>
+                                editor.chain().focus().toggleBold().run()
+                            }
+                            isActive={editor.isActive("bold")}
+                        >
+                            <Bold size={16} />
+                        </ToolbarButton>
+                        <ToolbarButton
+                            onClick={() =>
+                                editor.chain().focus().toggleItalic().run()
+                            }
+                            isActive={editor.isActive("italic")}
+                        >
+                            <Italic size={16} />
+                        </ToolbarButton>
+                        <div className="w-px h-6 bg-border mx-1" />
+                        <ToolbarButton
+                            onClick={() =>
+                                editor
+                                    .chain()
+                                    .focus()
+                                    .toggleHeading({ level: 1 })
+                                    .run()
+                            }
+                            isActive={editor.isActive("heading", { level: 1 })}
+                        >
+                            <Heading1 size={16} />
+                        </ToolbarButton>
+                        <ToolbarButton
+                            onClick={() =>
+                                editor
+                                    .chain()
+                                    .focus()
+                                    .toggleHeading({ level: 2 })
+                                    .run()
+                            }
+                            isActive={editor.isActive("heading", { level: 2 })}
+                        >
+                            <Heading2 size={16} />
+                        </ToolbarButton>
+                        <ToolbarButton
+                            onClick={() =>
+                                editor
+                                    .chain()
+                                    .focus()
+                                    .toggleHeading({ level: 3 })
+                                    .run()
+                            }
+                            isActive={editor.isActive("heading", { level: 3 })}
+                        >
+                            <Heading3 size={16} />
+                        </ToolbarButton>
+                        <div className="w-px h-6 bg-border mx-1" />
+                        <ToolbarButton
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploading}
+                        >
+                            {uploading ? (
+                                <Loader2 size={16} className="animate-spin" />
+                            ) : (
+                                <ImageIcon size={16} />
+                            )}
+                        </ToolbarButton>
 
-                    {/* Table dropdown menu - 셀 병합/분할만 지원, 추가/삭제는 제거 */}
-                    <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                            <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                className={cn(
-                                    "h-8 w-8 p-0",
-                                    editor.isActive("table") &&
-                                        "bg-muted text-primary",
-                                )}
-                            >
-                                <TableIcon size={16} />
-                            </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="start">
-                            <DropdownMenuItem
-                                onClick={() =>
-                                    editor.chain().focus().mergeCells().run()
-                                }
-                                disabled={!editor.can().mergeCells()}
-                            >
-                                <Merge size={14} className="mr-2" />셀 병합
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                                onClick={() =>
-                                    editor.chain().focus().splitCell().run()
-                                }
-                                disabled={!editor.can().splitCell()}
-                            >
-                                <SplitSquareHorizontal
-                                    size={14}
-                                    className="mr-2"
-                                />
-                                셀 분할
-                            </DropdownMenuItem>
-                        </DropdownMenuContent>
-                    </DropdownMenu>
+                        {/* Table dropdown menu - 셀 병합/분할만 지원, 추가/삭제는 제거 */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className={cn(
+                                        "h-8 w-8 p-0",
+                                        editor.isActive("table") &&
+                                            "bg-muted text-primary",
+                                    )}
+                                >
+                                    <TableIcon size={16} />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                                <DropdownMenuItem
+                                    onClick={() =>
+                                        editor.chain().focus().mergeCells().run()
+                                    }
+                                    disabled={!editor.can().mergeCells()}
+                                >
+                                    <Merge size={14} className="mr-2" />셀 병합
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() =>
+                                        editor.chain().focus().splitCell().run()
+                                    }
+                                    disabled={!editor.can().splitCell()}
+                                >
+                                    <SplitSquareHorizontal
+                                        size={14}
+                                        className="mr-2"
+                                    />
+                                    셀 분할
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
 
-                    <div className="w-px h-6 bg-border mx-1" />
-                    <ToolbarButton
-                        onClick={() => editor.chain().focus().undo().run()}
-                        disabled={!editor.can().undo()}
-                    >
-                        <Undo size={16} />
-                    </ToolbarButton>
-                    <ToolbarButton
-                        onClick={() => editor.chain().focus().redo().run()}
-                        disabled={!editor.can().redo()}
-                    >
-                        <Redo size={16} />
-                    </ToolbarButton>
-                </div>
+                        <div className="w-px h-6 bg-border mx-1" />
+                        <ToolbarButton
+                            onClick={() => editor.chain().focus().undo().run()}
+                            disabled={!editor.can().undo()}
+                        >
+                            <Undo size={16} />
+                        </ToolbarButton>
+                        <ToolbarButton
+                            onClick={() => editor.chain().focus().redo().run()}
+                            disabled={!editor.can().redo()}
+                        >
+                            <Redo size={16} />
+                        </ToolbarButton>
+                    </div>
+                )}
 
                 {/* Editor */}
                 <div className="flex-1 overflow-y-auto p-6 flex flex-col">
@@ -432,6 +475,15 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
                     {slotAfterHeading && (
                         <div className="mb-6">{slotAfterHeading}</div>
                     )}
+                    {onRewriteSelection && (
+                        <AiBubbleMenu
+                            editor={editor}
+                            onRewrite={onRewriteSelection}
+                            onCancel={() => onCancelRewrite?.()}
+                            isRewriting={isRewriting}
+                            isStreaming={isStreaming}
+                        />
+                    )}
                     <EditorContent
                         editor={editor}
                         className="prose prose-sm dark:prose-invert max-w-none focus:outline-none min-h-[calc(100vh-200px)]"
@@ -532,6 +584,92 @@ export const TiptapEditor = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
         .ProseMirror .selectedCell {
           background-color: hsl(var(--muted) / 0.5) !important;
         }
+        .ProseMirror .section-regenerate-button {
+          margin-left: 0.75em;
+          padding: 0.15em 0.6em;
+          font-size: 0.75rem;
+          font-weight: 500;
+          line-height: 1.5;
+          vertical-align: middle;
+          color: hsl(var(--muted-foreground));
+          background: hsl(var(--background));
+          border: 1px solid hsl(var(--border));
+          border-radius: 9999px;
+          opacity: 0;
+          transition: opacity 0.15s;
+          cursor: pointer;
+          user-select: none;
+        }
+        .ProseMirror .section-regenerate-button:hover {
+          color: hsl(var(--primary));
+          border-color: hsl(var(--primary) / 0.5);
+        }
+        .ProseMirror :is(h1, h2, h3, h4, h5, h6):hover .section-regenerate-button,
+        .ProseMirror .section-regenerate-button[data-regenerating="true"] {
+          opacity: 1;
+        }
+        .ProseMirror .section-regenerate-button[data-regenerating="true"] {
+          color: hsl(var(--primary));
+          cursor: default;
+        }
+        .ProseMirror .inline-suggestion-original {
+          text-decoration: line-through;
+          text-decoration-color: hsl(var(--destructive));
+          background-color: hsl(var(--destructive) / 0.08);
+        }
+        .ProseMirror .inline-suggestion-text {
+          margin-left: 0.25em;
+          padding: 0 0.15em;
+          color: hsl(var(--primary));
+          background-color: hsl(var(--primary) / 0.1);
+          border-bottom: 1px dashed hsl(var(--primary) / 0.6);
+          white-space: pre-wrap;
+        }
+        .ProseMirror .inline-suggestion-actions {
+          display: inline-flex;
+          gap: 0.25em;
+          margin-left: 0.5em;
+          vertical-align: middle;
+        }
+        .ProseMirror .inline-suggestion-actions button {
+          padding: 0.1em 0.6em;
+          font-size: 0.75rem;
+          font-weight: 500;
+          border-radius: 9999px;
+          border: 1px solid hsl(var(--border));
+          background: hsl(var(--background));
+          cursor: pointer;
+          user-select: none;
+        }
+        .ProseMirror .inline-suggestion-actions .inline-suggestion-accept {
+          color: hsl(var(--primary-foreground));
+          background: hsl(var(--primary));
+          border-color: hsl(var(--primary));
+        }
+        .ProseMirror .inline-suggestion-actions .inline-suggestion-reject {
+          color: hsl(var(--muted-foreground));
+        }
+        .ProseMirror .collaboration-cursor {
+          position: relative;
+          margin-left: -1px;
+          margin-right: -1px;
+          border-left: 2px solid;
+          word-break: normal;
+          pointer-events: none;
+        }
+        .ProseMirror .collaboration-cursor-label {
+          position: absolute;
+          top: -1.4em;
+          left: -2px;
+          padding: 0.05em 0.4em;
+          font-size: 0.7rem;
+          font-weight: 600;
+          line-height: 1.4;
+          color: #fff;
+          white-space: nowrap;
+          border-radius: 4px 4px 4px 0;
+          user-select: none;
+        }
         .ProseMirror.is-streaming p.is-editor-empty:first-child::before {
           display: none;
         }
@@ -0,0 +1,449 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import type { JSONContent } from "@tiptap/react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import {
+    VERSION_SOURCE_LABELS,
+    type DocumentVersion,
+    type DocumentVersionSource,
+    type DocumentVersionSummary,
+} from "@/hooks/useDocumentVersions";
+import {
+    diffLines,
+    diffTables,
+    extractVersionBlocks,
+    type DiffRow,
+    type TableMatrix,
+} from "@/lib/versionDiff";
+
+// 비교 선택지에서 현재 편집 중인 문서를 가리키는 값
+const CURRENT = "current";
+
+interface VersionHistoryPanelProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    versions: DocumentVersionSummary[];
+    loading: boolean;
+    getVersion: (versionId: string) => Promise<DocumentVersion | null>;
+    currentContent: JSONContent | null;
+    currentPlainText: string;
+    /** 없으면 복원 버튼을 표시하지 않음 (편집 권한이 없는 참여자) */
+    onRestore?: (version: DocumentVersion) => Promise<void>;
+}
+
+const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("ko-KR", {
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+const versionTitle = (version: DocumentVersionSummary) =>
+    version.label ||
+    VERSION_SOURCE_LABELS[version.source as DocumentVersionSource] ||
+    version.source;
+
+const DIFF_ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+    same: { left: "", right: "" },
+    removed: { left: "bg-destructive/10 text-destructive", right: "bg-muted/40" },
+    added: { left: "bg-muted/40", right: "bg-primary/10 text-primary" },
+    changed: {
+        left: "bg-destructive/10 text-destructive",
+        right: "bg-primary/10 text-primary",
+    },
+};
+
+function TablePreview({
+    table,
+    changedCells,
+    side,
+}: {
+    table: TableMatrix | null;
+    changedCells: Set<string>;
+    side: "left" | "right";
+}) {
+    if (!table) {
+        return (
+            <p className="text-xs text-muted-foreground py-4 text-center">
+                표 없음
+            </p>
+        );
+    }
+    return (
+        <table className="w-full border-collapse text-xs table-fixed">
+            <tbody>
+                {table.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                        {row.map((cell, colIndex) => (
+                            <td
+                                key={colIndex}
+                                className={cn(
+                                    "border border-border p-1 align-top break-words",
+                                    changedCells.has(`${rowIndex}:${colIndex}`) &&
+                                        (side === "left"
+                                            ? "bg-destructive/10 text-destructive"
+                                            : "bg-primary/10 text-primary"),
+                                )}
+                            >
+                                {cell}
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+// 문서 버전 기록: 두 버전의 본문/표 좌우 비교와 원클릭 복원
+export function VersionHistoryPanel({
+    open,
+    onOpenChange,
+    versions,
+    loading,
+    getVersion,
+    currentContent,
+    currentPlainText,
+    onRestore,
+}: VersionHistoryPanelProps) {
+    const [leftId, setLeftId] = useState<string>("");
+    const [rightId, setRightId] = useState<string>(CURRENT);
+    const [loadedVersions, setLoadedVersions] = useState<
+        Record<string, DocumentVersion>
+    >({});
+    const [restoreTarget, setRestoreTarget] =
+        useState<DocumentVersionSummary | null>(null);
+    const [restoring, setRestoring] = useState(false);
+
+    // 패널을 열면 기본으로 "가장 최근 버전 ↔ 현재 문서" 비교
+    useEffect(() => {
+        if (open && versions.length > 0 && !leftId) {
+            setLeftId(versions[0].id);
+        }
+    }, [open, versions, leftId]);
+
+    // 선택한 버전 본문을 필요할 때만 조회
+    useEffect(() => {
+        const missing = [leftId, rightId].filter(
+            (id) => id && id !== CURRENT && !loadedVersions[id],
+        );
+        missing.forEach(async (id) => {
+            const version = await getVersion(id);
+            if (version) {
+                setLoadedVersions((prev) => ({ ...prev, [id]: version }));
+            }
+        });
+    }, [leftId, rightId, loadedVersions, getVersion]);
+
+    const resolveBlocks = useCallback(
+        (id: string) => {
+            if (id === CURRENT) {
+                return extractVersionBlocks(currentContent, currentPlainText);
+            }
+            const version = loadedVersions[id];
+            return version
+                ? extractVersionBlocks(
+                      version.content as JSONContent | null,
+                      version.plain_text,
+                  )
+                : null;
+        },
+        [currentContent, currentPlainText, loadedVersions],
+    );
+
+    const left = useMemo(
+        () => (leftId ? resolveBlocks(leftId) : null),
+        [leftId, resolveBlocks],
+    );
+    const right = useMemo(
+        () => (rightId ? resolveBlocks(rightId) : null),
+        [rightId, resolveBlocks],
+    );
+
+    const lineRows = useMemo(
+        () => (left && right ? diffLines(left.lines, right.lines) : []),
+        [left, right],
+    );
+    const tableDiffs = useMemo(
+        () => (left && right ? diffTables(left.tables, right.tables) : []),
+        [left, right],
+    );
+    const changedCount = lineRows.filter((row) => row.type !== "same").length;
+
+    const handleRestore = async () => {
+        if (!restoreTarget || !onRestore) return;
+        setRestoring(true);
+        try {
+            const version =
+                loadedVersions[restoreTarget.id] ||
+                (await getVersion(restoreTarget.id));
+            if (version) await onRestore(version);
+        } finally {
+            setRestoring(false);
+            setRestoreTarget(null);
+        }
+    };
+
+    const renderVersionOptions = (includeCurrent: boolean) => (
+        <>
+            {includeCurrent && (
+                <SelectItem value={CURRENT}>현재 문서</SelectItem>
+            )}
+            {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                    {formatDateTime(version.created_at)} ·{" "}
+                    {versionTitle(version)}
+                </SelectItem>
+            ))}
+        </>
+    );
+
+    return (
+        <>
+            <Sheet open={open} onOpenChange={onOpenChange}>
+                <SheetContent className="w-full sm:max-w-5xl flex flex-col gap-4">
+                    <SheetHeader>
+                        <SheetTitle className="flex items-center gap-2">
+                            <History size={18} />
+                            버전 기록
+                        </SheetTitle>
+                        <SheetDescription>
+                            AI 작성과 수동 저장 시점마다 문서가 자동으로 기록됩니다.
+                            두 버전을 비교하고 원하는 버전으로 되돌릴 수 있습니다.
+                        </SheetDescription>
+                    </SheetHeader>
+
+                    <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4">
+                        {/* 버전 목록 */}
+                        <ScrollArea className="border rounded-lg h-[200px] md:h-full">
+                            <div className="p-2 space-y-1">
+                                {loading ? (
+                                    <div className="flex justify-center py-8">
+                                        <Loader2
+                                            size={18}
+                                            className="animate-spin text-muted-foreground"
+                                        />
+                                    </div>
+                                ) : versions.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground text-center py-8">
+                                        아직 기록된 버전이 없습니다.
+                                    </p>
+                                ) : (
+                                    versions.map((version) => (
+                                        <div
+                                            key={version.id}
+                                            className={cn(
+                                                "group flex items-center gap-2 rounded-md p-2 text-left hover:bg-accent cursor-pointer",
+                                                leftId === version.id &&
+                                                    "bg-accent",
+                                            )}
+                                            onClick={() => setLeftId(version.id)}
+                                        >
+                                            <div className="min-w-0 flex-1">
+                                                <p className="text-sm truncate">
+                                                    {versionTitle(version)}
+                                                </p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {formatDateTime(
+                                                        version.created_at,
+                                                    )}
+                                                </p>
+                                            </div>
+                                            {onRestore && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                                                    title="이 버전으로 복원"
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setRestoreTarget(version);
+                                                    }}
+                                                >
+                                                    <RotateCcw size={14} />
+                                                </Button>
+                                            )}
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </ScrollArea>
+
+                        {/* 비교 */}
+                        <div className="min-h-0 flex flex-col gap-3">
+                            <div className="grid grid-cols-2 gap-2">
+                                <Select value={leftId} onValueChange={setLeftId}>
+                                    <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="이전 버전 선택" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {renderVersionOptions(true)}
+                                    </SelectContent>
+                                </Select>
+                                <Select value={rightId} onValueChange={setRightId}>
+                                    <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="비교 대상 선택" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {renderVersionOptions(true)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {!left || !right ? (
+                                <p className="text-sm text-muted-foreground text-center py-12">
+                                    비교할 두 버전을 선택하세요.
+                                </p>
+                            ) : (
+                                <Tabs
+                                    defaultValue="text"
+                                    className="flex-1 min-h-0 flex flex-col"
+                                >
+                                    <TabsList className="self-start">
+                                        <TabsTrigger value="text">
+                                            본문 ({changedCount}곳 변경)
+                                        </TabsTrigger>
+                                        <TabsTrigger value="tables">
+                                            표 ({tableDiffs.length})
+                                        </TabsTrigger>
+                                    </TabsList>
+
+                                    <TabsContent
+                                        value="text"
+                                        className="flex-1 min-h-0"
+                                    >
+                                        <ScrollArea className="h-[60vh] border rounded-lg">
+                                            <div className="grid grid-cols-2 text-xs">
+                                                {lineRows.map((row, index) => (
+                                                    <div
+                                                        key={index}
+                                                        className="contents"
+                                                    >
+                                                        <div
+                                                            className={cn(
+                                                                "px-3 py-1 border-r border-border whitespace-pre-wrap break-words",
+                                                                DIFF_ROW_STYLES[row.type].left,
+                                                            )}
+                                                        >
+                                                            {row.left ?? ""}
+                                                        </div>
+                                                        <div
+                                                            className={cn(
+                                                                "px-3 py-1 whitespace-pre-wrap break-words",
+                                                                DIFF_ROW_STYLES[row.type].right,
+                                                            )}
+                                                        >
+                                                            {row.right ?? ""}
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </ScrollArea>
+                                    </TabsContent>
+
+                                    <TabsContent
+                                        value="tables"
+                                        className="flex-1 min-h-0"
+                                    >
+                                        <ScrollArea className="h-[60vh] border rounded-lg">
+                                            <div className="p-3 space-y-6">
+                                                {tableDiffs.length === 0 ? (
+                                                    <p className="text-sm text-muted-foreground text-center py-8">
+                                                        표가 없습니다.
+                                                    </p>
+                                                ) : (
+                                                    tableDiffs.map((diff) => (
+                                                        <div
+                                                            key={diff.index}
+                                                            className="space-y-2"
+                                                        >
+                                                            <p className="text-xs font-medium text-muted-foreground">
+                                                                표 {diff.index + 1}
+                                                                {diff.changedCells.size > 0
+                                                                    ? ` · ${diff.changedCells.size}개 셀 변경`
+                                                                    : " · 변경 없음"}
+                                                            </p>
+                                                            <div className="grid grid-cols-2 gap-3">
+                                                                <TablePreview
+                                                                    table={diff.left}
+                                                                    changedCells={diff.changedCells}
+                                                                    side="left"
+                                                                />
+                                                                <TablePreview
+                                                                    table={diff.right}
+                                                                    changedCells={diff.changedCells}
+                                                                    side="right"
+                                                                />
+                                                            </div>
+                                                        </div>
+                                                    ))
+                                                )}
+                                            </div>
+                                        </ScrollArea>
+                                    </TabsContent>
+                                </Tabs>
+                            )}
+                        </div>
+                    </div>
+                </SheetContent>
+            </Sheet>
+
+            <AlertDialog
+                open={!!restoreTarget}
+                onOpenChange={(open) => !open && setRestoreTarget(null)}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>이 버전으로 복원할까요?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {restoreTarget &&
+                                `${formatDateTime(restoreTarget.created_at)} · ${versionTitle(restoreTarget)}`}
+                            <br />
+                            현재 내용은 복원 전에 자동으로 백업되어 언제든 다시 되돌릴 수 있습니다.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={restoring}>취소</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleRestore();
+                            }}
+                            disabled={restoring}
+                        >
+                            {restoring ? "복원 중..." : "복원"}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
@@ -0,0 +1,135 @@
+import { Extension } from '@tiptap/core';
+import { collab } from '@tiptap/pm/collab';
+import type { EditorState } from '@tiptap/pm/state';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+export interface RemoteCursor {
+  /** 접속(탭)별 식별자 - 같은 사용자가 여러 탭에서 접속해도 구분 */
+  clientID: string;
+  name: string;
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+export interface CollaborationOptions {
+  /** 불러온 문서 내용에 해당하는 step 로그 버전 (documents.collab_version) */
+  version: number;
+  clientID: string;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    collaboration: {
+      /** 다른 참여자의 커서/선택 영역 표시 갱신 (presence 동기화 시 호출) */
+      setRemoteCursors: (cursors: RemoteCursor[]) => ReturnType;
+    };
+  }
+}
+
+export const remoteCursorsKey = new PluginKey<RemoteCursor[]>('remoteCursors');
+
+export const getRemoteCursors = (state: EditorState): RemoteCursor[] =>
+  remoteCursorsKey.getState(state) ?? [];
+
+const createCaret = (cursor: RemoteCursor): HTMLElement => {
+  const caret = document.createElement('span');
+  caret.className = 'collaboration-cursor';
+  caret.style.borderColor = cursor.color;
+
+  const label = document.createElement('span');
+  label.className = 'collaboration-cursor-label';
+  label.style.backgroundColor = cursor.color;
+  label.textContent = cursor.name;
+  caret.appendChild(label);
+
+  return caret;
+};
+
+// 공동 편집: prosemirror-collab으로 step을 버전 단위로 주고받고, 다른 참여자의 커서를 표시하는 확장
+// (step 전송/수신은 useDocumentCollaboration 훅이 담당)
+export const Collaboration = Extension.create<CollaborationOptions>({
+  name: 'collaboration',
+
+  addOptions() {
+    return {
+      version: 0,
+      clientID: '',
+    };
+  },
+
+  addCommands() {
+    return {
+      setRemoteCursors:
+        (cursors) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(remoteCursorsKey, cursors);
+            tr.setMeta('addToHistory', false);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      collab({
+        version: this.options.version,
+        clientID: this.options.clientID,
+      }),
+      new Plugin<RemoteCursor[]>({
+        key: remoteCursorsKey,
+        state: {
+          init: () => [],
+          apply: (tr, value) => {
+            const meta = tr.getMeta(remoteCursorsKey) as RemoteCursor[] | undefined;
+            if (meta) return meta;
+            if (!tr.docChanged || value.length === 0) return value;
+
+            return value.map((cursor) => ({
+              ...cursor,
+              anchor: tr.mapping.map(cursor.anchor),
+              head: tr.mapping.map(cursor.head),
+            }));
+          },
+        },
+        props: {
+          decorations(state) {
+            const cursors = remoteCursorsKey.getState(state);
+            if (!cursors?.length) return null;
+
+            // 아직 동기화되지 않은 참여자의 위치는 문서 범위를 벗어날 수 있음
+            const max = state.doc.content.size;
+            const clamp = (pos: number) => Math.max(0, Math.min(pos, max));
+
+            const decorations: Decoration[] = [];
+            for (const cursor of cursors) {
+              const anchor = clamp(cursor.anchor);
+              const head = clamp(cursor.head);
+              const from = Math.min(anchor, head);
+              const to = Math.max(anchor, head);
+              if (from < to) {
+                decorations.push(
+                  Decoration.inline(from, to, {
+                    class: 'collaboration-selection',
+                    style: `background-color: ${cursor.color}33`,
+                  }),
+                );
+              }
+              decorations.push(
+                Decoration.widget(head, () => createCaret(cursor), {
+                  side: 1,
+                  ignoreSelection: true,
+                  key: `collaboration-cursor-${cursor.clientID}-${cursor.name}-${cursor.color}`,
+                }),
+              );
+            }
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,178 @@
+import { Extension } from '@tiptap/core';
+import type { EditorState } from '@tiptap/pm/state';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+export interface InlineSuggestionState {
+  from: number;
+  to: number;
+  /** 제안 텍스트 (스트리밍 중에는 지금까지 받은 부분) */
+  text: string;
+  status: 'streaming' | 'ready';
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    inlineSuggestion: {
+      /** 선택 영역에 대한 AI 제안 표시/갱신 */
+      setInlineSuggestion: (suggestion: InlineSuggestionState) => ReturnType;
+      /** 표시 중인 제안의 텍스트/상태만 갱신 (위치는 플러그인이 매핑한 값 유지) */
+      updateInlineSuggestion: (
+        patch: Partial<Pick<InlineSuggestionState, 'text' | 'status'>>,
+      ) => ReturnType;
+      /** 제안 거절 (문서는 그대로) */
+      rejectInlineSuggestion: () => ReturnType;
+      /** 제안 수락 (원문을 제안 텍스트로 교체) */
+      acceptInlineSuggestion: () => ReturnType;
+    };
+  }
+}
+
+export const inlineSuggestionKey = new PluginKey<InlineSuggestionState | null>('inlineSuggestion');
+
+// 현재 표시 중인 제안 (문서 변경에 따라 위치가 매핑됨)
+export const getInlineSuggestion = (state: EditorState): InlineSuggestionState | null =>
+  inlineSuggestionKey.getState(state) ?? null;
+
+const createSuggestionWidget = (
+  suggestion: InlineSuggestionState,
+  onAccept: () => void,
+  onReject: () => void,
+): HTMLElement => {
+  const wrapper = document.createElement('span');
+  wrapper.className = 'inline-suggestion';
+  wrapper.contentEditable = 'false';
+
+  const text = document.createElement('span');
+  text.className = 'inline-suggestion-text';
+  text.textContent = suggestion.text || '…';
+  wrapper.appendChild(text);
+
+  if (suggestion.status === 'ready') {
+    const actions = document.createElement('span');
+    actions.className = 'inline-suggestion-actions';
+    const makeButton = (label: string, className: string, handler: () => void) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = className;
+      button.textContent = label;
+      button.addEventListener('mousedown', (event) => event.preventDefault());
+      button.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        handler();
+      });
+      return button;
+    };
+    actions.appendChild(makeButton('수락', 'inline-suggestion-accept', onAccept));
+    actions.appendChild(makeButton('거절', 'inline-suggestion-reject', onReject));
+    wrapper.appendChild(actions);
+  }
+
+  return wrapper;
+};
+
+// AI 다듬기 결과를 바로 반영하지 않고, 원문 옆에 검토 가능한 제안으로 표시하는 확장
+export const InlineSuggestion = Extension.create({
+  name: 'inlineSuggestion',
+
+  addCommands() {
+    return {
+      setInlineSuggestion:
+        (suggestion) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(inlineSuggestionKey, { suggestion });
+            tr.setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      updateInlineSuggestion:
+        (patch) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(inlineSuggestionKey, { patch });
+            tr.setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      rejectInlineSuggestion:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(inlineSuggestionKey, { suggestion: null });
+            tr.setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      acceptInlineSuggestion:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const suggestion = getInlineSuggestion(state);
+          if (!suggestion || suggestion.status !== 'ready' || !suggestion.text) return false;
+          if (dispatch) {
+            // insertText는 원문 시작 위치의 서식(굵게 등)을 이어받음
+            tr.insertText(suggestion.text, suggestion.from, suggestion.to);
+            tr.setMeta(inlineSuggestionKey, { suggestion: null });
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+
+    return [
+      new Plugin<InlineSuggestionState | null>({
+        key: inlineSuggestionKey,
+        state: {
+          init: () => null,
+          apply: (tr, value) => {
+            const meta = tr.getMeta(inlineSuggestionKey) as
+              | {
+                  suggestion?: InlineSuggestionState | null;
+                  patch?: Partial<InlineSuggestionState>;
+                }
+              | undefined;
+            if (meta?.patch) return value ? { ...value, ...meta.patch } : null;
+            if (meta) return meta.suggestion ?? null;
+            if (!value || !tr.docChanged) return value;
+
+            const from = tr.mapping.map(value.from, 1);
+            const to = tr.mapping.map(value.to, -1);
+            // 원문이 모두 지워지면 제안도 폐기
+            return from < to ? { ...value, from, to } : null;
+          },
+        },
+        props: {
+          decorations(state) {
+            const suggestion = inlineSuggestionKey.getState(state);
+            if (!suggestion) return null;
+
+            return DecorationSet.create(state.doc, [
+              Decoration.inline(suggestion.from, suggestion.to, {
+                class: 'inline-suggestion-original',
+              }),
+              Decoration.widget(
+                suggestion.to,
+                () =>
+                  createSuggestionWidget(
+                    suggestion,
+                    () => editor.commands.acceptInlineSuggestion(),
+                    () => editor.commands.rejectInlineSuggestion(),
+                  ),
+                {
+                  side: 1,
+                  ignoreSelection: true,
+                  stopEvent: () => true,
+                  key: `inline-suggestion-${suggestion.status}-${suggestion.text.length}`,
+                },
+              ),
+            ]);
+          },
+        },
+      }),
+    ];
+  },
+});
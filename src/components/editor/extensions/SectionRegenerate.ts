@@ -0,0 +1,152 @@
+import { Extension } from '@tiptap/core';
+import type { EditorState } from '@tiptap/pm/state';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    sectionRegenerate: {
+      /** 다시 쓰는 중인 장의 제목 위치 표시 (null이면 해제) */
+      setRegeneratingSection: (headingPos: number | null) => ReturnType;
+    };
+  }
+}
+
+export interface SectionRegenerateOptions {
+  /** 제목 옆 "다시 쓰기" 버튼 클릭 시 호출 (제목 노드 위치 전달) */
+  onRegenerate: (headingPos: number) => void;
+}
+
+interface SectionRegenerateState {
+  /** 다시 쓰는 중인 장의 제목 위치 (문서 변경에 따라 매핑됨) */
+  regeneratingPos: number | null;
+  decorations: DecorationSet;
+}
+
+export const sectionRegenerateKey = new PluginKey<SectionRegenerateState>('sectionRegenerate');
+
+// 다시 쓰는 중인 장의 현재 제목 위치 (사용자가 그 사이 다른 곳을 편집해도 추적됨)
+export const getRegeneratingSectionPos = (state: EditorState): number | null =>
+  sectionRegenerateKey.getState(state)?.regeneratingPos ?? null;
+
+const createButton = (
+  regenerating: boolean,
+  onClick: (button: HTMLButtonElement) => void,
+): HTMLButtonElement => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.contentEditable = 'false';
+  button.className = 'section-regenerate-button';
+  button.dataset.regenerating = String(regenerating);
+  button.disabled = regenerating;
+  button.textContent = regenerating ? '다시 쓰는 중…' : '↻ 다시 쓰기';
+  button.title = '이 장만 AI로 다시 작성합니다';
+  // 에디터 선택이 바뀌지 않도록 mousedown 기본 동작 차단
+  button.addEventListener('mousedown', (event) => event.preventDefault());
+  button.addEventListener('click', (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+    onClick(button);
+  });
+  return button;
+};
+
+const buildDecorations = (
+  doc: ProseMirrorNode,
+  regeneratingPos: number | null,
+  onRegenerate: (headingPos: number) => void,
+): DecorationSet => {
+  const decorations: Decoration[] = [];
+
+  doc.forEach((node, offset) => {
+    if (node.type.name !== 'heading' || !node.textContent.trim()) return;
+    const regenerating = offset === regeneratingPos;
+
+    // 제목 텍스트 끝에 위젯 배치 (제목 요소 안에 렌더링되어 hover 시 표시)
+    decorations.push(
+      Decoration.widget(
+        offset + node.nodeSize - 1,
+        (view, getPos) =>
+          createButton(regenerating, () => {
+            const widgetPos = getPos();
+            if (widgetPos === undefined) return;
+            const $pos = view.state.doc.resolve(widgetPos);
+            if ($pos.depth < 1 || $pos.parent.type.name !== 'heading') return;
+            onRegenerate($pos.before($pos.depth));
+          }),
+        {
+          side: 1,
+          ignoreSelection: true,
+          stopEvent: () => true,
+          key: `section-regenerate-${regenerating ? 'busy' : 'idle'}`,
+        },
+      ),
+    );
+  });
+
+  return DecorationSet.create(doc, decorations);
+};
+
+// 각 장 제목에 "다시 쓰기" 버튼을 붙이는 확장
+export const SectionRegenerate = Extension.create<SectionRegenerateOptions>({
+  name: 'sectionRegenerate',
+
+  addOptions() {
+    return {
+      onRegenerate: () => {},
+    };
+  },
+
+  addCommands() {
+    return {
+      setRegeneratingSection:
+        (headingPos) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(sectionRegenerateKey, { regeneratingPos: headingPos });
+            tr.setMeta('addToHistory', false);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onRegenerate } = this.options;
+
+    return [
+      new Plugin<SectionRegenerateState>({
+        key: sectionRegenerateKey,
+        state: {
+          init: (_, { doc }) => ({
+            regeneratingPos: null,
+            decorations: buildDecorations(doc, null, onRegenerate),
+          }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(sectionRegenerateKey) as
+              | { regeneratingPos: number | null }
+              | undefined;
+            if (!meta && !tr.docChanged) return value;
+
+            const regeneratingPos = meta
+              ? meta.regeneratingPos
+              : value.regeneratingPos === null
+                ? null
+                : tr.mapping.map(value.regeneratingPos);
+
+            return {
+              regeneratingPos,
+              decorations: buildDecorations(tr.doc, regeneratingPos, onRegenerate),
+            };
+          },
+        },
+        props: {
+          decorations(state) {
+            return sectionRegenerateKey.getState(state)?.decorations;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -7,6 +7,8 @@ import { EditableHtmlTable } from "./EditableHtmlTable";
 interface EditableMarkdownContentProps {
   content: string;
   onContentChange: (newContent: string) => void;
+  /** 편집 권한이 없는 공유 참여자용 읽기 전용 표시 */
+  readOnly?: boolean;
 }
 
 interface ContentSegment {
@@ -172,10 +174,12 @@ function processTextForMarkdownTables(text: string, baseIndex: number): ContentS
 // Also hides {{placeholder}} patterns from display
 function EditableTextBlock({ 
   content, 
-  onUpdate 
+  onUpdate,
+  readOnly = false,
 }: { 
   content: string; 
   onUpdate: (newContent: string) => void;
+  readOnly?: boolean;
 }) {
   // Filter out placeholder patterns like {{T7_R0_C0_G39}} from display
   const displayContent = content.replace(/\{\{[^}]+\}\}/g, '').trim();
@@ -210,11 +214,11 @@ function EditableTextBlock({
 
   return (
     <div
-      contentEditable
+      contentEditable={!readOnly}
       suppressContentEditableWarning
       onBlur={handleBlur}
       style={{
-        cursor: 'text',
+        cursor: readOnly ? 'auto' : 'text',
         padding: '4px 0',
         outline: 'none',
         minHeight: '1.5em',
@@ -234,6 +238,7 @@ function EditableTextBlock({
 export function EditableMarkdownContent({
   content,
   onContentChange,
+  readOnly = false,
 }: EditableMarkdownContentProps) {
   // Use ref to track segments to avoid closure issues
   const segmentsRef = useRef<ContentSegment[]>([]);
@@ -264,50 +269,54 @@ export function EditableMarkdownContent({
   );
 
   return (
-    <div className="prose prose-sm max-w-none dark:prose-invert">
-      {segments.map((segment, index) => {
-        if (segment.type === "html-table") {
-          return (
-            <EditableHtmlTable
-              key={`html-table-${index}`}
-              html={segment.content}
-              onUpdate={(newHtml) => handleSegmentUpdate(index, newHtml)}
-            />
-          );
-        }
-        
-        if (segment.type === "table") {
+    // fieldset disabled: 표 셀 입력/행 추가·삭제 버튼을 한 번에 잠금
+    <fieldset disabled={readOnly} className="contents">
+      <div className="prose prose-sm max-w-none dark:prose-invert">
+        {segments.map((segment, index) => {
+          if (segment.type === "html-table") {
+            return (
+              <EditableHtmlTable
+                key={`html-table-${index}`}
+                html={segment.content}
+                onUpdate={(newHtml) => handleSegmentUpdate(index, newHtml)}
+              />
+            );
+          }
+          
+          if (segment.type === "table") {
+            return (
+              <EditableMarkdownTable
+                key={`table-${index}`}
+                markdown={segment.content}
+                onUpdate={(newMarkdown) => handleSegmentUpdate(index, newMarkdown)}
+              />
+            );
+          }
+          
+          if (segment.type === "image") {
+            return (
+              <div key={`image-${index}`} className="my-4">
+                <img 
+                  src={segment.content} 
+                  alt="HWPX 이미지" 
+                  className="max-w-full h-auto rounded border"
+                  loading="lazy"
+                />
+              </div>
+            );
+          }
+
+          // Render text content as editable blocks
           return (
-            <EditableMarkdownTable
-              key={`table-${index}`}
-              markdown={segment.content}
-              onUpdate={(newMarkdown) => handleSegmentUpdate(index, newMarkdown)}
+            <EditableTextBlock
+              key={`text-${index}`}
+              content={segment.content}
+              onUpdate={(newText) => handleSegmentUpdate(index, newText)}
+              readOnly={readOnly}
             />
           );
-        }
-        
-        if (segment.type === "image") {
-          return (
-            <div key={`image-${index}`} className="my-4">
-              <img 
-                src={segment.content} 
-                alt="HWPX 이미지" 
-                className="max-w-full h-auto rounded border"
-                loading="lazy"
-              />
-            </div>
-          );
-        }
-
-        // Render text content as editable blocks
-        return (
-          <EditableTextBlock
-            key={`text-${index}`}
-            content={segment.content}
-            onUpdate={(newText) => handleSegmentUpdate(index, newText)}
-          />
-        );
-      })}
-    </div>
+        })}
+      </div>
+    </fieldset>
   );
 }
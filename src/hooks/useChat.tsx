@@ -1,7 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useToast } from "./use-toast";
-import { ToastAction } from "@/components/ui/toast";
 import { supabase } from "@/integrations/supabase/client";
+import { type CustomOutline, normalizeOutline } from "@/lib/customOutline";
+import type { StructuredPlan } from "@/utils/structuredPlan";
 
 export interface ChatMessage {
     role: "user" | "assistant";
@@ -9,6 +10,36 @@ export interface ChatMessage {
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
+const GENERATION_JOB_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generation-job`;
+
+const DEFAULT_COMPLETION_MESSAGE =
+    "작성이 완료되었습니다. 좌측 에디터를 확인해주세요.";
+const ERROR_MESSAGE = "⚠️ 문서 생성 중 오류가 발생했습니다. 다시 시도해주세요.";
+const CANCELLED_MESSAGE =
+    "⏹ 작성을 중단했습니다. 작성된 부분까지 에디터에 남겨 두었습니다.";
+const INTERRUPTED_MESSAGE =
+    "⚠️ 연결이 끊겼습니다. 페이지를 새로고침하면 이어서 받아옵니다.";
+const RESUMING_MESSAGE = "이전 작성을 이어서 받아오는 중입니다...";
+
+// 연결이 끊겼을 때 작업 기록(generation-job)에서 이어 받는 최대 횟수
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+
+// 진행 중인 작성 작업 ID (새로고침 후 이어 받기용, 문서별)
+const jobStorageKey = (documentId: string) => `generation_job:${documentId}`;
+
+// 게스트 체험 횟수를 셀 브라우저 기기 ID (서버가 IP와 함께 제한)
+const GUEST_DEVICE_KEY = "guest_device_id";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 서버(_shared/credits.ts)가 잔액 부족 시 402와 함께 보내는 응답
+export interface InsufficientCreditsInfo {
+    error: "INSUFFICIENT_CREDITS";
+    message: string;
+    remainingCredits: number;
+    requiredCredits: number;
+}
 
 // Extract content between tags incrementally
 function extractTagContent(
@@ -33,6 +64,159 @@ function extractTagContent(
     };
 }
 
+// 로그인 사용자는 세션 토큰, 게스트는 publishable key
+async function getAuthHeader(): Promise<string> {
+    const {
+        data: { session },
+    } = await supabase.auth.getSession();
+    return session?.access_token
+        ? `Bearer ${session.access_token}`
+        : `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`;
+}
+
+function getGuestDeviceId(): string {
+    let deviceId = localStorage.getItem(GUEST_DEVICE_KEY);
+    if (!deviceId) {
+        deviceId = crypto.randomUUID();
+        localStorage.setItem(GUEST_DEVICE_KEY, deviceId);
+    }
+    return deviceId;
+}
+
+// 비로그인이면 게스트 체험 요청으로 표시 (chat 함수가 체험 횟수를 확인)
+async function getGuestTrialFields(): Promise<{
+    guestTrial?: true;
+    guestDeviceId?: string;
+}> {
+    const {
+        data: { session },
+    } = await supabase.auth.getSession();
+    return session ? {} : { guestTrial: true, guestDeviceId: getGuestDeviceId() };
+}
+
+async function postGenerationJob(
+    body: { jobId: string; action: "resume" | "cancel"; offset?: number },
+    signal?: AbortSignal,
+): Promise<Response> {
+    return fetch(GENERATION_JOB_URL, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: await getAuthHeader(),
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+}
+
+// 작업 기록에서 offset(이미 받은 글자 수) 이후 내용을 SSE로 받기
+async function openResumeStream(
+    jobId: string,
+    offset: number,
+    signal: AbortSignal,
+): Promise<ReadableStream<Uint8Array>> {
+    const resp = await postGenerationJob(
+        { jobId, action: "resume", offset },
+        signal,
+    );
+    if (!resp.ok || !resp.body) {
+        throw new Error(`Resume failed: ${resp.status}`);
+    }
+    return resp.body;
+}
+
+// 스트림이 끝난 이유 (disconnected면 작업 기록에서 이어 받음)
+type StreamEnd = "done" | "error" | "cancelled" | "disconnected";
+
+// 작업 종류 (chat: [DOCUMENT]/[CHAT] 태그 스트림, plan: 완성 후 한 번에 오는 구조화 작성 JSON)
+type GenerationKind = "chat" | "plan";
+
+interface ChatStreamHandlers {
+    onDelta: (delta: string) => void;
+    onJob: (job: { id: string; status: string; kind?: GenerationKind }) => void;
+    onError: (message: string) => void;
+}
+
+// chat / generation-job SSE 본문 읽기 (네트워크 오류는 그대로 throw)
+async function readChatStream(
+    body: ReadableStream<Uint8Array>,
+    handlers: ChatStreamHandlers,
+): Promise<StreamEnd> {
+    // 한 줄 처리, 스트림이 끝났으면 끝난 이유 반환 (불완전한 JSON이면 throw)
+    const handleLine = (raw: string): StreamEnd | null => {
+        const line = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+        if (line.startsWith(":") || line.trim() === "") return null;
+        if (!line.startsWith("data: ")) return null;
+
+        const jsonStr = line.slice(6).trim();
+        if (jsonStr === "[DONE]") return "done";
+
+        const parsed = JSON.parse(jsonStr);
+
+        // Check for mid-stream errors (e.g., rate limiting)
+        if (parsed.error) {
+            console.error("SSE stream error:", parsed.error);
+            handlers.onError(
+                parsed.error?.metadata?.raw ||
+                    parsed.error?.message ||
+                    "AI 생성 중 오류가 발생했습니다.",
+            );
+            return "error";
+        }
+
+        // 작업 기록 이벤트 (chat 중계 시작, 중단 알림)
+        if (parsed.job) {
+            handlers.onJob(parsed.job);
+            return parsed.job.status === "cancelled" ? "cancelled" : null;
+        }
+
+        const delta = parsed.choices?.[0]?.delta?.content as
+            | string
+            | undefined;
+        if (delta) handlers.onDelta(delta);
+        return null;
+    };
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let textBuffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        textBuffer += decoder.decode(value, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+            const line = textBuffer.slice(0, newlineIndex);
+            textBuffer = textBuffer.slice(newlineIndex + 1);
+
+            let end: StreamEnd | null;
+            try {
+                end = handleLine(line);
+            } catch {
+                textBuffer = line + "\n" + textBuffer;
+                break;
+            }
+            if (end) {
+                reader.cancel().catch(() => {});
+                return end;
+            }
+        }
+    }
+
+    // Final flush
+    for (const raw of textBuffer.split("\n")) {
+        try {
+            const end = handleLine(raw);
+            if (end) return end;
+        } catch {
+            /* ignore partial leftovers */
+        }
+    }
+    return "disconnected";
+}
+
 export function useChat(
     documentContext?: string,
     onDocumentContent?: (content: string, isStreaming: boolean) => void,
@@ -42,12 +226,23 @@ export function useChat(
     uploadedFileName?: string | null,
     isCustomTemplate?: boolean,
     grantType?: string | null, // 2026 초창패: "EARLY_STARTUP", 2025 예창패: "PRE_STARTUP"
+    customOutline?: CustomOutline | null, // 자유양식(CUSTOM) 사용자 정의 목차
+    // 지정하면 지원사업 고정 양식의 첫 초안은 JSON 구조화 작성(mode: "plan")으로 받아 이 콜백에 전달
+    onStructuredPlan?: (plan: StructuredPlan) => void,
 ) {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [creditError, setCreditError] =
+        useState<InsufficientCreditsInfo | null>(null);
     const { toast } = useToast();
     const fullResponseRef = useRef("");
     const prevDocumentIdRef = useRef<string | undefined>(undefined);
+    // 진행 중인 요청 중단용 / chat 작업 기록 ID와 종류
+    const abortRef = useRef<AbortController | null>(null);
+    const jobIdRef = useRef<string | null>(null);
+    const jobKindRef = useRef<GenerationKind>("chat");
+    // 로드 effect에서 아래에 정의된 이어 받기를 호출하기 위한 ref
+    const resumeGenerationRef = useRef<(jobId: string) => void>();
 
     // 🔥 채팅 기록 로드 (documentId 기반) - documentId 변경 시 항상 리셋
     useEffect(() => {
@@ -88,6 +283,12 @@ export function useChat(
             } catch (error) {
                 console.error("Failed to load chat messages:", error);
             }
+
+            // 새로고침 전에 진행 중이던 작성이 있으면 이어 받기 (기록을 불러온 뒤)
+            const pendingJobId = localStorage.getItem(
+                jobStorageKey(documentId),
+            );
+            if (pendingJobId) resumeGenerationRef.current?.(pendingJobId);
         };
 
         loadMessages();
@@ -145,88 +346,238 @@ export function useChat(
         [documentId],
     );
 
-    const sendMessage = useCallback(
-        async (content: string) => {
-            if (!content.trim() || isLoading) return;
+    // 작성 중 메시지를 최종 안내 메시지로 교체
+    const finishAssistantMessage = useCallback(
+        (finalChatMessage: string, save: boolean) => {
+            setMessages((prev) => {
+                const newMessages = [...prev];
+                if (
+                    newMessages.length > 0 &&
+                    newMessages[newMessages.length - 1].role === "assistant"
+                ) {
+                    newMessages[newMessages.length - 1] = {
+                        role: "assistant",
+                        content: finalChatMessage,
+                    };
+                }
+                // 🔥 메시지 저장 (에러 시에도 저장하여 기록 유지)
+                if (save) {
+                    saveMessages(newMessages);
+                }
+                return newMessages;
+            });
+        },
+        [saveMessages],
+    );
 
-            // 🔥 grantType에 따른 지시 추가 (Edge Function 수정 불가 시 프론트엔드에서 처리)
-            let additionalInstruction = "";
-            if (grantType === "EARLY_STARTUP") {
-                additionalInstruction = `
-
-[중요 지시 1 - 일반현황 정보 (무조건 생성)]
-아래 필드를 반드시 생성하세요. 사용자가 정보를 제공하지 않아도 사업 아이디어에 맞게 창의적으로 생성하세요. 절대 비워두지 마세요!
-- 기업명: 사업 아이디어에 맞는 창의적인 회사명 생성 (예: (주)그랜트AI, 스마트팜테크 등)
-- 개업연월일: 2025.01.01 형식으로 생성
-- 사업자등록번호: 000-00-00000 형식으로 생성
-- 사업자 소재지: 서울특별시 강남구 등 구체적인 주소 생성
-- 사업자 구분: 개인사업자 또는 법인사업자 중 선택
-- 대표자 유형: 단독, 공동, 각자대표 중 하나 선택
-- 창업아이템명: 사업 아이디어를 잘 표현하는 간결한 이름 생성
-- 산출물: 협약기간 내 달성할 구체적인 목표 산출물 생성
-- 지원분야: 제조 또는 지식서비스 중 적합한 것 선택
-- 전문기술분야: 기계·소재, 전기·전자, 정보·통신, 화공·섬유, 바이오·의료·생명, 에너지·자원, 공예·디자인 중 적합한 것 선택
-
-[중요 지시 2 - 2-3 정부지원사업비 집행계획 표 형식]
-반드시 아래 6열 단일 표 형식으로 작성하세요. 절대 1단계/2단계로 분리하지 마세요!
-금액은 반드시 "3,000,000" 형식으로 작성하세요. "3,000천원" 같은 형식은 절대 사용하지 마세요!
-
-| 비 목 | 집행 계획 | 정부지원사업비(ⓐ) | 자기부담사업비(ⓑ) 현금 | 자기부담사업비(ⓑ) 현물 | 합계(ⓐ+ⓑ) |
-| :--- | :--- | ---: | ---: | ---: | ---: |
-| 재료비 | [집행 계획] | 3,000,000 | 300,000 | 0 | 3,300,000 |
-| 인건비 | [집행 계획] | 5,000,000 | 500,000 | 0 | 5,500,000 |
-| 외주용역비 | [집행 계획] | 10,000,000 | 1,000,000 | 0 | 11,000,000 |
-| 광고선전비 | [집행 계획] | 2,000,000 | 200,000 | 0 | 2,200,000 |
-| 지급수수료 | [집행 계획] | 1,000,000 | 100,000 | 0 | 1,100,000 |
-| 창업활동비 | [집행 계획] | 3,000,000 | 300,000 | 0 | 3,300,000 |
-| 기타 | [집행 계획] | 1,000,000 | 100,000 | 0 | 1,100,000 |
-| **합 계** | | **25,000,000** | **2,500,000** | **0** | **27,500,000** |
-
-[중요 지시 3 - 4-2 팀 구성(안) 표 형식]
-⚠️ 필수: 반드시 팀원1~팀원5까지 5명 모두 작성하세요. 빈 칸 없이 모든 열에 내용을 채우세요!
-구성 상태는 반드시 "확정" 또는 "예정"으로 작성하세요. "구성", "미구성"은 사용하지 마세요!
-사용자가 팀 정보를 제공하지 않았더라도, 창업 아이템에 적합한 팀 구성을 반드시 생성하세요.
-| 구분 | 직위 | 담당 업무 | 보유 역량(경력 및 학력 등) | 구성 상태 |
-| :--- | :--- | :--- | :--- | :--- |
-| 대표자 | CEO | 총괄 경영 및 전략 수립 | 창업 경험 및 해당 분야 전문성 | 확정 |
-| 팀원1 | CTO | 기술 개발 총괄 | 관련 기술 10년 경력, 석사 학위 | 확정 |
-| 팀원2 | 개발팀장 | 백엔드/프론트엔드 개발 | 개발 경력 5년, 관련 프로젝트 다수 | 확정 |
-| 팀원3 | 디자이너 | UI/UX 설계 | 디자인 경력 3년, 포트폴리오 보유 | 예정 |
-| 팀원4 | 마케터 | 마케팅 전략 및 영업 | 마케팅 경력 5년, 스타트업 경험 | 예정 |
-| 팀원5 | 사업개발 | 사업 기획 및 제휴 | 사업개발 경력 3년 | 예정 |
-
-`;
-            } else if (grantType === "PRE_STARTUP") {
-                additionalInstruction = `
-
-[중요 지시 - 2-3 정부지원사업비 집행계획 표 형식]
-반드시 1단계/2단계로 분리된 3열 표 형식으로 작성하세요.
-금액은 반드시 "3,000,000" 형식으로 작성하세요. "3,000천원" 같은 형식은 절대 사용하지 마세요!
-
-**<1단계 정부지원사업비 집행계획>**
-| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
-| :--- | :--- | ---: |
-| 재료비 | [산출 근거] | 3,000,000 |
-...
-
-**<2단계 정부지원사업비 집행계획>**
-| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
-| :--- | :--- | ---: |
-| 재료비 | [산출 근거] | 5,000,000 |
-...
-
-`;
+    // 진행 중인 작업 ID 기록 (null이면 삭제)
+    const rememberJob = useCallback(
+        (jobId: string | null) => {
+            jobIdRef.current = jobId;
+            if (!documentId) return;
+            if (jobId) localStorage.setItem(jobStorageKey(documentId), jobId);
+            else localStorage.removeItem(jobStorageKey(documentId));
+        },
+        [documentId],
+    );
+
+    const notifyStreamError = useCallback(
+        (errorMessage: string) => {
+            // Check if it's a rate limit error
+            if (
+                errorMessage.includes("429") ||
+                errorMessage.includes("RESOURCE_EXHAUSTED") ||
+                errorMessage.includes("Resource exhausted")
+            ) {
+                toast({
+                    variant: "destructive",
+                    title: "요청 제한",
+                    description:
+                        "AI 서버가 일시적으로 과부하 상태입니다. 잠시 후 다시 시도해주세요.",
+                });
+            } else {
+                toast({
+                    variant: "destructive",
+                    title: "생성 오류",
+                    description:
+                        "문서 생성 중 오류가 발생했습니다. 다시 시도해주세요.",
+                });
             }
+        },
+        [toast],
+    );
+
+    // SSE를 끝까지 읽어 문서에 반영, 연결이 끊기면 작업 기록에서 이어 받음
+    const streamGeneration = useCallback(
+        async (
+            body: ReadableStream<Uint8Array>,
+            signal: AbortSignal,
+        ): Promise<StreamEnd | "interrupted"> => {
+            let documentStarted = false;
+            const handlers: ChatStreamHandlers = {
+                onDelta: (delta) => {
+                    fullResponseRef.current += delta;
+                    // 구조화 작성 결과는 완성된 JSON으로 한 번에 오므로 끝난 뒤 반영
+                    if (jobKindRef.current === "plan") return;
 
-            const enhancedContent = additionalInstruction + content;
-            const userMsg: ChatMessage = {
-                role: "user",
-                content: enhancedContent,
+                    // Stream document content in real-time
+                    const docResult = extractTagContent(
+                        fullResponseRef.current,
+                        "[DOCUMENT]",
+                        "[/DOCUMENT]",
+                    );
+                    if (docResult.content && onDocumentContent) {
+                        if (!documentStarted) {
+                            documentStarted = true;
+                            console.log("[useChat] Document streaming started");
+                        }
+                        onDocumentContent(
+                            docResult.content,
+                            !docResult.isComplete,
+                        );
+                    }
+                },
+                onJob: (job) => {
+                    if (job.kind) jobKindRef.current = job.kind;
+                    if (job.status === "running") rememberJob(job.id);
+                },
+                onError: notifyStreamError,
             };
-            // UI에는 원본 메시지만 표시
-            setMessages((prev) => [...prev, { role: "user", content }]);
+
+            let stream: ReadableStream<Uint8Array> | null = body;
+            let attempt = 0;
+            while (true) {
+                const receivedBefore = fullResponseRef.current.length;
+                if (stream) {
+                    try {
+                        const end = await readChatStream(stream, handlers);
+                        if (end !== "disconnected") return end;
+                    } catch (error) {
+                        if (signal.aborted) return "cancelled";
+                        console.warn("[useChat] Stream interrupted:", error);
+                    }
+                }
+                if (signal.aborted) return "cancelled";
+                // 작업 기록 없이 받은 응답은 끝까지 받은 것으로 처리
+                if (!jobIdRef.current) return "done";
+                // 이어 받기 응답은 일정 시간마다 끊기므로 새 내용을 받았으면 횟수를 다시 셈
+                if (fullResponseRef.current.length > receivedBefore) attempt = 0;
+                if (attempt >= MAX_RESUME_ATTEMPTS) return "interrupted";
+                attempt++;
+
+                await sleep(RESUME_DELAY_MS * attempt);
+                console.log(
+                    "[useChat] Resuming from offset:",
+                    fullResponseRef.current.length,
+                );
+                stream = await openResumeStream(
+                    jobIdRef.current,
+                    fullResponseRef.current.length,
+                    signal,
+                ).catch((error) => {
+                    console.warn("[useChat] Resume failed:", error);
+                    return null;
+                });
+            }
+        },
+        [onDocumentContent, rememberJob, notifyStreamError],
+    );
+
+    // 구조화 작성 결과(JSON)를 문서로 반영
+    const finishStructuredPlan = useCallback(() => {
+        let plan: StructuredPlan;
+        try {
+            plan = JSON.parse(fullResponseRef.current) as StructuredPlan;
+        } catch (error) {
+            console.error("[useChat] Invalid structured plan:", error);
+            finishAssistantMessage(ERROR_MESSAGE, false);
+            return;
+        }
+        onStructuredPlan?.(plan);
+        finishAssistantMessage(
+            plan.chatMessage || DEFAULT_COMPLETION_MESSAGE,
+            true,
+        );
+    }, [finishAssistantMessage, onStructuredPlan]);
+
+    // 스트림 종료 후 안내 메시지와 최종 문서 반영
+    const finishGeneration = useCallback(
+        (end: StreamEnd | "interrupted") => {
+            if (jobKindRef.current === "plan") {
+                if (end === "done") finishStructuredPlan();
+                else
+                    finishAssistantMessage(
+                        end === "error"
+                            ? ERROR_MESSAGE
+                            : end === "interrupted"
+                              ? INTERRUPTED_MESSAGE
+                              : CANCELLED_MESSAGE,
+                        end !== "error",
+                    );
+                if (end !== "interrupted") rememberJob(null);
+                return;
+            }
+
+            // Extract final chat message and update
+            const chatResult = extractTagContent(
+                fullResponseRef.current,
+                "[CHAT]",
+                "[/CHAT]",
+            );
+            const finalChatMessage =
+                end === "error"
+                    ? ERROR_MESSAGE
+                    : end === "interrupted"
+                      ? INTERRUPTED_MESSAGE
+                      : end === "cancelled"
+                        ? CANCELLED_MESSAGE
+                        : chatResult.content || DEFAULT_COMPLETION_MESSAGE;
+            finishAssistantMessage(finalChatMessage, end !== "error");
+
+            // 끊긴 작업은 기록을 남겨 다음 로드 때 이어 받음
+            if (end !== "interrupted") rememberJob(null);
+
+            // Final document content update (mark as complete) - only if no error
+            if (end !== "error") {
+                const docResult = extractTagContent(
+                    fullResponseRef.current,
+                    "[DOCUMENT]",
+                    "[/DOCUMENT]",
+                );
+                if (docResult.content && onDocumentContent) {
+                    onDocumentContent(docResult.content, false);
+                }
+            }
+        },
+        [
+            finishAssistantMessage,
+            finishStructuredPlan,
+            rememberJob,
+            onDocumentContent,
+        ],
+    );
+
+    const sendMessage = useCallback(
+        async (content: string) => {
+            if (!content.trim() || isLoading) return;
+
+            // 구조화 작성은 문서 전체를 새로 만들므로 빈 문서의 첫 초안에만 사용
+            // 이후 요청("3장 줄여줘" 등)은 수동 편집을 덮어쓰지 않도록 일반 채팅으로 보냄
+            // 업로드 템플릿·자유양식은 목차가 정해져 있지 않아 태그 방식 스트리밍 유지
+            const useStructuredPlan =
+                !!onStructuredPlan &&
+                !isCustomTemplate &&
+                grantType !== "CUSTOM" &&
+                !documentContext?.trim();
+
+            // 지원사업별 지시는 chat 함수가 grantType에 따라 붙임 (사용자 입력만 전송)
+            const userMsg: ChatMessage = { role: "user", content };
+            setMessages((prev) => [...prev, userMsg]);
             setIsLoading(true);
+            setCreditError(null);
             fullResponseRef.current = "";
+            jobKindRef.current = useStructuredPlan ? "plan" : "chat";
+            rememberJob(null);
 
             // Add initial "writing" message
             setMessages((prev) => [
@@ -237,25 +588,16 @@ export function useChat(
                 },
             ]);
 
-            let documentStarted = false;
-            let streamError = false;
+            const controller = new AbortController();
+            abortRef.current = controller;
 
             try {
-                // Get the current session for JWT auth (optional for guest users)
-                const {
-                    data: { session },
-                } = await supabase.auth.getSession();
-
-                // For guest users, use the publishable key instead of session token
-                const authHeader = session?.access_token
-                    ? `Bearer ${session.access_token}`
-                    : `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`;
-
                 const resp = await fetch(CHAT_URL, {
                     method: "POST",
                     headers: {
                         "Content-Type": "application/json",
-                        Authorization: authHeader,
+                        // For guest users, use the publishable key instead of session token
+                        Authorization: await getAuthHeader(),
                     },
                     body: JSON.stringify({
                         messages: [...messages, userMsg],
@@ -265,9 +607,29 @@ export function useChat(
                         uploadedFileName,
                         isCustomTemplate,
                         grantType, // 2026 초창패: "EARLY_STARTUP", 2025 예창패: "PRE_STARTUP"
+                        mode: useStructuredPlan ? "plan" : "chat",
+                        customOutline:
+                            grantType === "CUSTOM" && customOutline
+                                ? normalizeOutline(customOutline)
+                                : undefined,
+                        documentId,
+                        ...(await getGuestTrialFields()),
                     }),
+                    signal: controller.signal,
                 });
 
+                if (resp.status === 401) {
+                    // 로그인 필요 또는 게스트 체험 횟수 소진
+                    const body = await resp.json().catch(() => null);
+                    toast({
+                        variant: "destructive",
+                        title: "로그인 필요",
+                        description: body?.message || "로그인이 필요합니다.",
+                    });
+                    setMessages((prev) => prev.slice(0, -1)); // Remove loading message
+                    return;
+                }
+
                 if (resp.status === 429) {
                     toast({
                         variant: "destructive",
@@ -276,210 +638,36 @@ export function useChat(
                             "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
                     });
                     setMessages((prev) => prev.slice(0, -1)); // Remove loading message
-                    setIsLoading(false);
                     return;
                 }
 
                 if (resp.status === 402) {
-                    toast({
-                        variant: "destructive",
-                        title: "크레딧 부족",
-                        description:
-                            "크레딧이 부족합니다. 플랜을 구독하여 충전하세요.",
-                        action: (
-                            <ToastAction
-                                altText="구독하러 가기"
-                                onClick={() =>
-                                    (window.location.href = "/#pricing")
-                                }
-                            >
-                                구독하러 가기
-                            </ToastAction>
-                        ),
-                        duration: 10000,
+                    // 크레딧 부족 - 채팅 패널에 구독 유도 안내 표시
+                    const body = await resp.json().catch(() => null);
+                    setCreditError({
+                        error: "INSUFFICIENT_CREDITS",
+                        message: body?.message || "크레딧이 부족합니다.",
+                        remainingCredits: body?.remainingCredits ?? 0,
+                        requiredCredits: body?.requiredCredits ?? 1,
                     });
                     setMessages((prev) => prev.slice(0, -1)); // Remove loading message
-                    setIsLoading(false);
                     return;
                 }
 
+                // 구조화 작성도 작업 기록과 함께 SSE로 옴 (완성된 JSON 한 번, 끊기면 이어 받기)
                 if (!resp.ok || !resp.body) {
                     throw new Error("Failed to start stream");
                 }
 
-                const reader = resp.body.getReader();
-                const decoder = new TextDecoder();
-                let textBuffer = "";
-                let streamDone = false;
-
-                while (!streamDone) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    textBuffer += decoder.decode(value, { stream: true });
-
-                    let newlineIndex: number;
-                    while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
-                        let line = textBuffer.slice(0, newlineIndex);
-                        textBuffer = textBuffer.slice(newlineIndex + 1);
-
-                        if (line.endsWith("\r")) line = line.slice(0, -1);
-                        if (line.startsWith(":") || line.trim() === "")
-                            continue;
-                        if (!line.startsWith("data: ")) continue;
-
-                        const jsonStr = line.slice(6).trim();
-                        if (jsonStr === "[DONE]") {
-                            streamDone = true;
-                            break;
-                        }
-
-                        try {
-                            const parsed = JSON.parse(jsonStr);
-
-                            // Check for mid-stream errors (e.g., rate limiting)
-                            if (parsed.error) {
-                                console.error(
-                                    "SSE stream error:",
-                                    parsed.error,
-                                );
-                                const errorMessage =
-                                    parsed.error?.metadata?.raw ||
-                                    parsed.error?.message ||
-                                    "AI 생성 중 오류가 발생했습니다.";
-
-                                // Check if it's a rate limit error
-                                if (
-                                    errorMessage.includes("429") ||
-                                    errorMessage.includes(
-                                        "RESOURCE_EXHAUSTED",
-                                    ) ||
-                                    errorMessage.includes("Resource exhausted")
-                                ) {
-                                    toast({
-                                        variant: "destructive",
-                                        title: "요청 제한",
-                                        description:
-                                            "AI 서버가 일시적으로 과부하 상태입니다. 잠시 후 다시 시도해주세요.",
-                                    });
-                                } else {
-                                    toast({
-                                        variant: "destructive",
-                                        title: "생성 오류",
-                                        description:
-                                            "문서 생성 중 오류가 발생했습니다. 다시 시도해주세요.",
-                                    });
-                                }
-                                streamError = true;
-                                streamDone = true;
-                                break;
-                            }
-
-                            const delta = parsed.choices?.[0]?.delta
-                                ?.content as string | undefined;
-                            if (delta) {
-                                fullResponseRef.current += delta;
-
-                                // Stream document content in real-time
-                                const docResult = extractTagContent(
-                                    fullResponseRef.current,
-                                    "[DOCUMENT]",
-                                    "[/DOCUMENT]",
-                                );
-                                if (docResult.content && onDocumentContent) {
-                                    if (!documentStarted) {
-                                        documentStarted = true;
-                                        console.log(
-                                            "[useChat] Document streaming started",
-                                        );
-                                    }
-                                    // Stream to editor in real-time
-                                    console.log(
-                                        "[useChat] Streaming content length:",
-                                        docResult.content.length,
-                                    );
-                                    onDocumentContent(
-                                        docResult.content,
-                                        !docResult.isComplete,
-                                    );
-                                }
-                            }
-                        } catch {
-                            textBuffer = line + "\n" + textBuffer;
-                            break;
-                        }
-                    }
-                }
-
-                // Final flush
-                if (textBuffer.trim()) {
-                    for (let raw of textBuffer.split("\n")) {
-                        if (!raw) continue;
-                        if (raw.endsWith("\r")) raw = raw.slice(0, -1);
-                        if (raw.startsWith(":") || raw.trim() === "") continue;
-                        if (!raw.startsWith("data: ")) continue;
-                        const jsonStr = raw.slice(6).trim();
-                        if (jsonStr === "[DONE]") continue;
-                        try {
-                            const parsed = JSON.parse(jsonStr);
-                            const delta = parsed.choices?.[0]?.delta
-                                ?.content as string | undefined;
-                            if (delta) {
-                                fullResponseRef.current += delta;
-                            }
-                        } catch {
-                            /* ignore partial leftovers */
-                        }
-                    }
-                }
-
-                // Extract final chat message and update
-                const chatResult = extractTagContent(
-                    fullResponseRef.current,
-                    "[CHAT]",
-                    "[/CHAT]",
+                finishGeneration(
+                    await streamGeneration(resp.body, controller.signal),
                 );
-                let finalChatMessage: string;
-
-                if (streamError) {
-                    finalChatMessage =
-                        "⚠️ 문서 생성 중 오류가 발생했습니다. 다시 시도해주세요.";
-                } else {
-                    finalChatMessage =
-                        chatResult.content ||
-                        "작성이 완료되었습니다. 좌측 에디터를 확인해주세요.";
-                }
-
-                // Update the assistant message with final content
-                setMessages((prev) => {
-                    const newMessages = [...prev];
-                    if (
-                        newMessages.length > 0 &&
-                        newMessages[newMessages.length - 1].role === "assistant"
-                    ) {
-                        newMessages[newMessages.length - 1] = {
-                            role: "assistant",
-                            content: finalChatMessage,
-                        };
-                    }
-                    // 🔥 메시지 저장 (에러 시에도 저장하여 기록 유지)
-                    if (!streamError) {
-                        saveMessages(newMessages);
-                    }
-                    return newMessages;
-                });
-
-                // Final document content update (mark as complete) - only if no error
-                if (!streamError) {
-                    const docResult = extractTagContent(
-                        fullResponseRef.current,
-                        "[DOCUMENT]",
-                        "[/DOCUMENT]",
-                    );
-                    if (docResult.content && onDocumentContent) {
-                        onDocumentContent(docResult.content, false);
-                    }
-                }
             } catch (e) {
+                if (controller.signal.aborted) {
+                    // 응답을 받기 전에 중단
+                    finishAssistantMessage(CANCELLED_MESSAGE, false);
+                    return;
+                }
                 console.error("Chat error:", e);
                 setMessages((prev) => prev.slice(0, -1)); // Remove loading message
                 toast({
@@ -488,6 +676,7 @@ export function useChat(
                     description: "메시지 전송에 실패했습니다.",
                 });
             } finally {
+                abortRef.current = null;
                 setIsLoading(false);
             }
         },
@@ -497,19 +686,101 @@ export function useChat(
             documentContext,
             isLoading,
             toast,
-            onDocumentContent,
-            saveMessages,
+            onStructuredPlan,
+            finishAssistantMessage,
+            rememberJob,
+            streamGeneration,
+            finishGeneration,
             uploadedFilePath,
             uploadedFileName,
             isCustomTemplate,
+            grantType,
+            customOutline,
+            documentId,
         ],
     );
 
+    // 새로고침·이탈로 끊긴 작성을 작업 기록에서 처음부터 다시 받아 문서에 반영
+    const resumeGeneration = useCallback(
+        async (jobId: string) => {
+            if (abortRef.current) return;
+            const controller = new AbortController();
+            abortRef.current = controller;
+            fullResponseRef.current = "";
+            jobIdRef.current = jobId;
+            // 종류는 이어 받기 응답의 작업 이벤트로 받음
+            jobKindRef.current = "chat";
+            setIsLoading(true);
+            setMessages((prev) => [
+                ...prev,
+                { role: "assistant", content: RESUMING_MESSAGE },
+            ]);
+
+            try {
+                const body = await openResumeStream(jobId, 0, controller.signal);
+                finishGeneration(
+                    await streamGeneration(body, controller.signal),
+                );
+            } catch (error) {
+                // 작업이 없어졌거나 다른 사용자의 작업이면 기록만 정리
+                console.error("Failed to resume generation:", error);
+                rememberJob(null);
+                setMessages((prev) => prev.slice(0, -1));
+            } finally {
+                abortRef.current = null;
+                setIsLoading(false);
+            }
+        },
+        [streamGeneration, finishGeneration, rememberJob],
+    );
+    resumeGenerationRef.current = resumeGeneration;
+
+    // 작성 중단: 서버 작업을 중단(작성된 분량만큼만 차감하고 나머지 환불)한 뒤 로컬 스트림을 끊음
+    // 구조화 작성은 서버가 LLM 요청을 끊고, 결과가 나오기 전이므로 전액 환불
+    const cancelGeneration = useCallback(async () => {
+        const controller = abortRef.current;
+        if (!controller) return;
+
+        const jobId = jobIdRef.current;
+        let refundedCredits = 0;
+        if (jobId) {
+            try {
+                const resp = await postGenerationJob({
+                    jobId,
+                    action: "cancel",
+                });
+                const body = await resp.json().catch(() => null);
+                refundedCredits = body?.refundedCredits ?? 0;
+            } catch (error) {
+                console.error("Failed to cancel generation:", error);
+            }
+        }
+        controller.abort();
+
+        toast({
+            title: "작성 중단",
+            description:
+                refundedCredits > 0
+                    ? `크레딧 ${refundedCredits}을 환불했습니다 (작성된 분량만 차감).`
+                    : "작성을 중단했습니다.",
+        });
+    }, [toast]);
+
     const clearMessages = useCallback(() => {
         setMessages([]);
         // 🔥 저장된 메시지도 삭제
         saveMessages([]);
     }, [saveMessages]);
 
-    return { messages, isLoading, sendMessage, clearMessages };
+    const dismissCreditError = useCallback(() => setCreditError(null), []);
+
+    return {
+        messages,
+        isLoading,
+        sendMessage,
+        cancelGeneration,
+        clearMessages,
+        creditError,
+        dismissCreditError,
+    };
 }
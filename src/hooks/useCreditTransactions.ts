@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+
+export type CreditTransaction = Tables<"credit_transactions">;
+
+export type CreditTransactionType = "grant" | "deduction" | "refund" | "expiry";
+
+// 최근 내역만 조회 (사이드바 사용 내역)
+const HISTORY_LIMIT = 50;
+
+export function useCreditTransactions(enabled = true) {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTransactions = useCallback(async () => {
+    if (!user) {
+      setTransactions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from("credit_transactions")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (err) {
+      console.error("Error fetching credit transactions:", err);
+      setError("크레딧 사용 내역을 불러오지 못했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (enabled) fetchTransactions();
+  }, [enabled, fetchTransactions]);
+
+  return { transactions, loading, error, refetch: fetchTransactions };
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import type { Editor, JSONContent } from "@tiptap/core";
+import { getVersion, sendableSteps } from "@tiptap/pm/collab";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+    createCollaborationSync,
+    type DocumentStepLog,
+} from "@/lib/collaborationSync";
+import type { RemoteCursor } from "@/components/editor/extensions/Collaboration";
+
+export interface CollaborationSession {
+    documentId: string;
+    /** 불러온 문서 내용의 step 로그 버전 (documents.collab_version) */
+    version: number;
+    user: { id: string; name: string };
+}
+
+export interface Collaborator {
+    userId: string;
+    name: string;
+    color: string;
+}
+
+interface PresencePayload {
+    userId: string;
+    name: string;
+    color: string;
+    anchor: number;
+    head: number;
+}
+
+// 로컬 편집을 모아서 보내는 간격
+const PUSH_DELAY = 300;
+// 커서 위치 presence 갱신 간격
+const PRESENCE_DELAY = 150;
+
+const CURSOR_COLORS = [
+    "#e11d48",
+    "#2563eb",
+    "#16a34a",
+    "#d97706",
+    "#7c3aed",
+    "#0891b2",
+    "#db2777",
+    "#65a30d",
+];
+
+export const getCollaboratorColor = (userId: string): string => {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+        hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+// 에디터가 Collaboration 확장(prosemirror-collab)과 함께 생성되었는지
+const hasCollaboration = (editor: Editor): boolean =>
+    editor.extensionManager.extensions.some((e) => e.name === "collaboration");
+
+/**
+ * 저장 시점의 동기화 상태 (공동 편집이 아니면 null)
+ * synced가 false면 서버에 아직 보내지 않은 로컬 step이 있어 문서 내용과 version이 어긋남
+ */
+export const getCollaborationSaveState = (
+    editor: Editor | null | undefined,
+): { version: number; synced: boolean } | null => {
+    if (!editor || !hasCollaboration(editor)) return null;
+    return {
+        version: getVersion(editor.state),
+        synced: sendableSteps(editor.state) === null,
+    };
+};
+
+// document_steps 테이블 step 로그
+// 로컬 step은 (document_id, version) 기본키로 insert → 다른 참여자가 먼저 같은 버전을 쓰면 충돌(23505)
+// 저장된 collab_version 이하 step은 compact_document_steps 트리거가 지우고, 그 버전으로 쓰면 거부됨
+const supabaseStepLog: DocumentStepLog = {
+    async pullSteps(documentId, afterVersion, limit) {
+        const { data, error } = await supabase
+            .from("document_steps")
+            .select("version, step, client_id")
+            .eq("document_id", documentId)
+            .gt("version", afterVersion)
+            .order("version", { ascending: true })
+            .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+    },
+
+    async pushSteps(documentId, { version, steps, clientID, userId }) {
+        const { error } = await supabase.from("document_steps").insert(
+            steps.map((step, index) => ({
+                document_id: documentId,
+                version: version + index + 1,
+                step: step as Json,
+                client_id: clientID,
+                user_id: userId,
+            })),
+        );
+        if (!error) return "ok";
+        if (error.code === "23505") return "conflict";
+        if (error.message?.includes("STEP_VERSION_COMPACTED")) {
+            return "compacted";
+        }
+        throw error;
+    },
+
+    async loadSnapshot(documentId) {
+        const { data, error } = await supabase
+            .from("documents")
+            .select("content, collab_version")
+            .eq("id", documentId)
+            .single();
+        if (error) throw error;
+        return {
+            content: data.content as JSONContent | null,
+            version: data.collab_version,
+        };
+    },
+};
+
+/**
+ * 실시간 공동 편집 동기화
+ *
+ * document_steps 테이블을 prosemirror-collab의 중앙 step 로그로 사용합니다 (createCollaborationSync).
+ * - Realtime으로 새 step 알림을 받거나 로컬 편집이 생기면 동기화
+ * - 커서/선택 영역과 접속자 목록은 Realtime presence로 공유
+ */
+export function useDocumentCollaboration(
+    editor: Editor | null,
+    session: CollaborationSession | null | undefined,
+    clientID: string,
+) {
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+    const documentId = session?.documentId;
+    const userId = session?.user.id;
+    const userName = session?.user.name;
+
+    useEffect(() => {
+        if (!editor || !documentId || !userId || !hasCollaboration(editor)) {
+            return;
+        }
+
+        let disposed = false;
+        let pushTimer: ReturnType<typeof setTimeout> | null = null;
+        let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+        const color = getCollaboratorColor(userId);
+        const { sync, dispose } = createCollaborationSync(
+            editor,
+            supabaseStepLog,
+            { documentId, clientID, userId },
+        );
+
+        const channel = supabase.channel(`document:${documentId}`, {
+            config: { presence: { key: clientID } },
+        });
+
+        const trackPresence = () => {
+            if (presenceTimer) clearTimeout(presenceTimer);
+            presenceTimer = setTimeout(() => {
+                if (disposed || editor.isDestroyed) return;
+                const { anchor, head } = editor.state.selection;
+                const payload: PresencePayload = {
+                    userId,
+                    name: userName || "참여자",
+                    color,
+                    anchor,
+                    head,
+                };
+                channel.track(payload);
+            }, PRESENCE_DELAY);
+        };
+
+        channel
+            .on(
+                "postgres_changes",
+                {
+                    event: "INSERT",
+                    schema: "public",
+                    table: "document_steps",
+                    filter: `document_id=eq.${documentId}`,
+                },
+                (payload) => {
+                    const row = payload.new as { client_id?: string };
+                    if (row.client_id !== clientID) sync();
+                },
+            )
+            .on("presence", { event: "sync" }, () => {
+                if (editor.isDestroyed) return;
+                const state = channel.presenceState<PresencePayload>();
+                const cursors: RemoteCursor[] = [];
+                const users = new Map<string, Collaborator>();
+
+                for (const [key, presences] of Object.entries(state)) {
+                    const presence = presences[0];
+                    if (!presence || key === clientID) continue;
+                    cursors.push({
+                        clientID: key,
+                        name: presence.name,
+                        color: presence.color,
+                        anchor: presence.anchor,
+                        head: presence.head,
+                    });
+                    if (presence.userId !== userId) {
+                        users.set(presence.userId, {
+                            userId: presence.userId,
+                            name: presence.name,
+                            color: presence.color,
+                        });
+                    }
+                }
+
+                editor.commands.setRemoteCursors(cursors);
+                setCollaborators(Array.from(users.values()));
+            })
+            .subscribe((status) => {
+                if (status === "SUBSCRIBED") {
+                    // (재)연결 시 놓친 step 동기화
+                    sync();
+                    trackPresence();
+                }
+            });
+
+        const handleUpdate = ({
+            transaction,
+        }: {
+            transaction: { docChanged: boolean };
+        }) => {
+            if (!transaction.docChanged || !sendableSteps(editor.state)) return;
+            if (pushTimer) clearTimeout(pushTimer);
+            pushTimer = setTimeout(sync, PUSH_DELAY);
+        };
+
+        editor.on("update", handleUpdate);
+        editor.on("selectionUpdate", trackPresence);
+
+        return () => {
+            disposed = true;
+            dispose();
+            if (pushTimer) clearTimeout(pushTimer);
+            if (presenceTimer) clearTimeout(presenceTimer);
+            editor.off("update", handleUpdate);
+            editor.off("selectionUpdate", trackPresence);
+            supabase.removeChannel(channel);
+            setCollaborators([]);
+        };
+    }, [editor, documentId, userId, userName, clientID]);
+
+    return { collaborators };
+}
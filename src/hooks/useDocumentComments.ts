@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+
+export type DocumentComment = Tables<"document_comments">;
+
+export interface AddCommentInput {
+  body: string;
+  /** 댓글이 가리키는 본문 (작성 시점의 선택 영역) */
+  quote?: string;
+}
+
+export function useDocumentComments(documentId?: string) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<DocumentComment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const enabled = !!user && !!documentId && !documentId.startsWith("guest-");
+
+  const fetchComments = useCallback(async () => {
+    if (!enabled) {
+      setComments([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("document_comments")
+        .select("*")
+        .eq("document_id", documentId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error("Error fetching document comments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, documentId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const addComment = useCallback(
+    async ({ body, quote }: AddCommentInput) => {
+      if (!enabled || !user) return null;
+
+      const { data, error } = await supabase
+        .from("document_comments")
+        .insert({
+          document_id: documentId,
+          user_id: user.id,
+          body,
+          quote: quote || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setComments((prev) => [...prev, data]);
+      return data;
+    },
+    [enabled, user, documentId],
+  );
+
+  // 해결 상태만 바꾸는 RPC (편집자라도 다른 사람의 댓글 내용은 수정할 수 없음)
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    const { data, error } = await supabase.rpc("resolve_document_comment", {
+      p_comment_id: commentId,
+      p_resolved: resolved,
+    });
+
+    if (error) throw error;
+    const resolved_at = data ?? null;
+    setComments((prev) => prev.map((c) => (c.id === commentId ? { ...c, resolved_at } : c)));
+  }, []);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    const { error } = await supabase.from("document_comments").delete().eq("id", commentId);
+
+    if (error) throw error;
+    setComments((prev) => prev.filter((c) => c.id !== commentId));
+  }, []);
+
+  return { comments, loading, enabled, fetchComments, addComment, setResolved, deleteComment };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+import type { ShareRole } from "@/lib/documentRoles";
+
+export type DocumentMember =
+  Database["public"]["Functions"]["get_document_members"]["Returns"][number];
+
+// add_document_member RPC가 던지는 오류 코드 → 안내 문구
+const INVITE_ERROR_MESSAGES: Record<string, string> = {
+  USER_NOT_FOUND: "해당 이메일로 가입한 사용자를 찾을 수 없습니다.",
+  CANNOT_INVITE_SELF: "본인은 초대할 수 없습니다.",
+  INVALID_ROLE: "올바르지 않은 권한입니다.",
+};
+
+export function useDocumentMembers(documentId?: string) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<DocumentMember[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // 게스트 문서(localStorage)는 공동 편집 미지원
+  const enabled = !!user && !!documentId && !documentId.startsWith("guest-");
+
+  const fetchMembers = useCallback(async () => {
+    if (!enabled) {
+      setMembers([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("get_document_members", {
+        p_document_id: documentId,
+      });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error("Error fetching document members:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, documentId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const isOwner = !!user && members.some((m) => m.is_owner && m.user_id === user.id);
+
+  /**
+   * 이메일로 멤버 초대 (문서 소유자만 가능, 이미 멤버면 권한만 변경). 실패 시 안내 문구를 담은 Error를 던짐
+   */
+  const inviteMember = useCallback(
+    async (email: string, role: ShareRole = "editor") => {
+      const { error } = await supabase.rpc("add_document_member", {
+        p_document_id: documentId,
+        p_email: email,
+        p_role: role,
+      });
+
+      if (error) {
+        const message =
+          Object.entries(INVITE_ERROR_MESSAGES).find(([code]) =>
+            error.message.includes(code),
+          )?.[1] || "멤버를 초대하지 못했습니다.";
+        throw new Error(message);
+      }
+
+      await fetchMembers();
+    },
+    [documentId, fetchMembers],
+  );
+
+  const updateMemberRole = useCallback(
+    async (memberUserId: string, role: ShareRole) => {
+      const { error } = await supabase
+        .from("document_members")
+        .update({ role })
+        .eq("document_id", documentId)
+        .eq("user_id", memberUserId);
+
+      if (error) throw error;
+      setMembers((prev) =>
+        prev.map((m) => (!m.is_owner && m.user_id === memberUserId ? { ...m, role } : m)),
+      );
+    },
+    [documentId],
+  );
+
+  const removeMember = useCallback(
+    async (memberUserId: string) => {
+      const { error } = await supabase
+        .from("document_members")
+        .delete()
+        .eq("document_id", documentId)
+        .eq("user_id", memberUserId);
+
+      if (error) throw error;
+      setMembers((prev) => prev.filter((m) => m.is_owner || m.user_id !== memberUserId));
+    },
+    [documentId],
+  );
+
+  return {
+    members,
+    loading,
+    enabled,
+    isOwner,
+    fetchMembers,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+  };
+}
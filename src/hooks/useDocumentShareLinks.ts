@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+import type { ShareRole } from "@/lib/documentRoles";
+
+export type DocumentShareLink = Tables<"document_share_links">;
+
+// 로그인 후 /app 으로 이동(AuthModal, 소셜 로그인 리다이렉트)해도 공유 링크로 돌아오기 위한 키
+export const PENDING_SHARE_TOKEN_KEY = "pending_share_token";
+
+export const getShareLinkUrl = (token: string) =>
+  `${window.location.origin}/app/share/${token}`;
+
+/**
+ * 문서 공유 링크 관리 (소유자 전용 - RLS상 다른 사용자는 조회 결과가 비어 있음)
+ */
+export function useDocumentShareLinks(documentId?: string, enabled = true) {
+  const { user } = useAuth();
+  const [links, setLinks] = useState<DocumentShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const active = enabled && !!user && !!documentId && !documentId.startsWith("guest-");
+
+  const fetchLinks = useCallback(async () => {
+    if (!active) {
+      setLinks([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("document_share_links")
+        .select("*")
+        .eq("document_id", documentId)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setLinks(data || []);
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [active, documentId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const createLink = useCallback(
+    async (role: ShareRole) => {
+      if (!user || !documentId) return null;
+
+      const { data, error } = await supabase
+        .from("document_share_links")
+        .insert({ document_id: documentId, role, created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setLinks((prev) => [data, ...prev]);
+      return data;
+    },
+    [user, documentId],
+  );
+
+  const revokeLink = useCallback(async (linkId: string) => {
+    const { error } = await supabase
+      .from("document_share_links")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", linkId);
+
+    if (error) throw error;
+    setLinks((prev) => prev.filter((link) => link.id !== linkId));
+  }, []);
+
+  return { links, loading, fetchLinks, createLink, revokeLink };
+}
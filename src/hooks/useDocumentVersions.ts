@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+
+export type DocumentVersion = Tables<"document_versions">;
+
+// 목록에는 본문을 제외한 메타데이터만 조회
+export type DocumentVersionSummary = Pick<
+  DocumentVersion,
+  "id" | "source" | "label" | "title" | "created_at"
+>;
+
+export type DocumentVersionSource =
+  | "ai_generation"
+  | "before_ai"
+  | "manual_save"
+  | "before_restore"
+  | "before_import";
+
+export const VERSION_SOURCE_LABELS: Record<DocumentVersionSource, string> = {
+  ai_generation: "AI 작성",
+  before_ai: "AI 작성 전 자동 백업",
+  manual_save: "수동 저장",
+  before_restore: "복원 전 자동 백업",
+  before_import: "불러오기 전 자동 백업",
+};
+
+export interface CreateVersionInput {
+  title: string;
+  content: unknown;
+  plainText: string;
+  source: DocumentVersionSource;
+  label?: string;
+}
+
+const VERSION_LIST_LIMIT = 100;
+
+export function useDocumentVersions(documentId?: string) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  // 같은 내용을 연속으로 저장하지 않도록 마지막 스냅샷 본문 기억
+  const lastSnapshotTextRef = useRef<string | null>(null);
+
+  // 게스트 문서(localStorage)는 버전 기록 미지원
+  const enabled = !!user && !!documentId && !documentId.startsWith("guest-");
+
+  const fetchVersions = useCallback(async () => {
+    if (!enabled) {
+      setVersions([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("document_versions")
+        .select("id, source, label, title, created_at")
+        .eq("document_id", documentId)
+        .order("created_at", { ascending: false })
+        .limit(VERSION_LIST_LIMIT);
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (error) {
+      console.error("Error fetching document versions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, documentId]);
+
+  useEffect(() => {
+    lastSnapshotTextRef.current = null;
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const getVersion = useCallback(async (versionId: string) => {
+    const { data, error } = await supabase
+      .from("document_versions")
+      .select("*")
+      .eq("id", versionId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching document version:", error);
+      return null;
+    }
+    return data;
+  }, []);
+
+  /**
+   * 현재 내용을 스냅샷으로 저장 (직전 스냅샷과 본문이 같으면 건너뜀)
+   */
+  const createVersion = useCallback(
+    async ({ title, content, plainText, source, label }: CreateVersionInput) => {
+      if (!enabled || !user) return null;
+      if (!plainText.trim() || lastSnapshotTextRef.current === plainText) return null;
+
+      const { data, error } = await supabase
+        .from("document_versions")
+        .insert({
+          document_id: documentId,
+          user_id: user.id,
+          title,
+          content: (content ?? null) as Json,
+          plain_text: plainText,
+          source,
+          label: label ?? null,
+        })
+        .select("id, source, label, title, created_at")
+        .single();
+
+      if (error) {
+        // 버전 기록 실패는 편집을 막지 않음
+        console.error("Error creating document version:", error);
+        return null;
+      }
+
+      lastSnapshotTextRef.current = plainText;
+      setVersions((prev) => [data, ...prev].slice(0, VERSION_LIST_LIMIT));
+      return data;
+    },
+    [enabled, user, documentId],
+  );
+
+  return { versions, loading, enabled, fetchVersions, getVersion, createVersion };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { useToast } from "./use-toast";
+import { isDocumentRole, type DocumentRole } from "@/lib/documentRoles";
 
 export interface Document {
   id: string;
@@ -12,6 +13,8 @@ export interface Document {
   status: string;
   created_at: string;
   updated_at: string;
+  /** 내 문서는 "owner", 공유받은 문서는 부여받은 권한 */
+  role?: DocumentRole;
 }
 
 // Guest document storage key
@@ -19,6 +22,7 @@ const GUEST_DOCUMENT_KEY = "guest_document";
 
 export function useDocuments() {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [sharedDocuments, setSharedDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const { toast } = useToast();
@@ -38,18 +42,41 @@ export function useDocuments() {
       // For guest users, check localStorage
       const guestDoc = getGuestDocument();
       setDocuments(guestDoc ? [guestDoc] : []);
+      setSharedDocuments([]);
       setLoading(false);
       return;
     }
 
     try {
-      const { data, error } = await supabase
-        .from("documents")
-        .select("*")
-        .order("updated_at", { ascending: false });
-
-      if (error) throw error;
-      setDocuments(data || []);
+      const [ownResult, sharedResult] = await Promise.all([
+        supabase
+          .from("documents")
+          .select("*")
+          // 공유받은 문서도 RLS상 조회되므로 내 문서만 필터링
+          .eq("user_id", user.id)
+          .order("updated_at", { ascending: false }),
+        // 공유받은 문서 + 부여받은 권한
+        supabase
+          .from("document_members")
+          .select("role, documents(*)")
+          .eq("user_id", user.id),
+      ]);
+
+      if (ownResult.error) throw ownResult.error;
+      setDocuments((ownResult.data || []).map((doc) => ({ ...doc, role: "owner" as const })));
+
+      if (sharedResult.error) {
+        // 공유 문서 조회 실패는 내 문서 목록 표시를 막지 않음
+        console.error("Error fetching shared documents:", sharedResult.error);
+        setSharedDocuments([]);
+      } else {
+        setSharedDocuments(
+          (sharedResult.data || [])
+            .filter((row) => row.documents && isDocumentRole(row.role))
+            .map((row) => ({ ...row.documents, role: row.role as DocumentRole }))
+            .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        );
+      }
     } catch (error: any) {
       console.error("Error fetching documents:", error);
       toast({
@@ -107,7 +134,7 @@ export function useDocuments() {
 
       if (error) throw error;
 
-      setDocuments((prev) => [data, ...prev]);
+      setDocuments((prev) => [{ ...data, role: "owner" }, ...prev]);
       toast({
         title: "문서 생성",
         description: "새 문서가 생성되었습니다.",
@@ -197,6 +224,7 @@ export function useDocuments() {
 
   return {
     documents,
+    sharedDocuments,
     loading,
     createDocument,
     updateDocument,
@@ -0,0 +1,225 @@
+import { useCallback, useRef, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { useToast } from "./use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getInlineSuggestion } from "@/components/editor/extensions/InlineSuggestion";
+
+const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
+
+// 서버(_shared/prompts/inlineRewrite.ts)의 INLINE_REWRITE_ACTIONS 와 같은 값
+export type InlineRewriteAction =
+    | "expand"
+    | "shorten"
+    | "nominalize"
+    | "quantify"
+    | "tone";
+
+// 선택 영역 앞뒤로 함께 보낼 문맥 길이
+const CONTEXT_LENGTH = 1000;
+
+// 모델이 붙이는 코드블록/따옴표 제거
+const cleanRewriteText = (text: string): string =>
+    text
+        .replace(/^```(?:markdown|md)?\s*\n?/i, "")
+        .replace(/\n?```\s*$/, "")
+        .trim()
+        .replace(/^["“](.*)["”]$/s, "$1")
+        .trim();
+
+interface UseInlineRewriteOptions {
+    getEditor: () => Editor | null | undefined;
+    documentId?: string;
+}
+
+/**
+ * 선택 영역 다듬기 (버블 메뉴)
+ *
+ * chat 함수(mode: "rewrite")가 스트리밍하는 교체 텍스트를 원문 옆 제안으로 보여주고,
+ * 사용자가 수락할 때만 문서에 반영합니다.
+ */
+export function useInlineRewrite({
+    getEditor,
+    documentId,
+}: UseInlineRewriteOptions) {
+    const [isRewriting, setIsRewriting] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const { toast } = useToast();
+
+    const rewriteSelection = useCallback(
+        async (action: InlineRewriteAction, targetLength?: number) => {
+            const editor = getEditor();
+            if (!editor || isRewriting) return;
+
+            const { from, to, empty, $from, $to } = editor.state.selection;
+            if (empty || !$from.sameParent($to)) return;
+
+            const { doc } = editor.state;
+            const text = doc.textBetween(from, to, "\n");
+            if (!text.trim()) return;
+
+            const abortController = new AbortController();
+            abortControllerRef.current = abortController;
+            setIsRewriting(true);
+            editor.commands.setInlineSuggestion({
+                from,
+                to,
+                text: "",
+                status: "streaming",
+            });
+
+            try {
+                const {
+                    data: { session },
+                } = await supabase.auth.getSession();
+                const authHeader = session?.access_token
+                    ? `Bearer ${session.access_token}`
+                    : `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`;
+
+                const resp = await fetch(CHAT_URL, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Authorization: authHeader,
+                    },
+                    body: JSON.stringify({
+                        mode: "rewrite",
+                        messages: [],
+                        rewrite: {
+                            action,
+                            text,
+                            targetLength,
+                            contextBefore: doc
+                                .textBetween(0, from, "\n")
+                                .slice(-CONTEXT_LENGTH),
+                            contextAfter: doc
+                                .textBetween(to, doc.content.size, "\n")
+                                .slice(0, CONTEXT_LENGTH),
+                        },
+                        documentId,
+                    }),
+                    signal: abortController.signal,
+                });
+
+                if (resp.status === 401) {
+                    editor.commands.rejectInlineSuggestion();
+                    toast({
+                        variant: "destructive",
+                        title: "로그인 필요",
+                        description: "로그인 후 AI 다시 쓰기를 사용할 수 있습니다.",
+                    });
+                    return;
+                }
+
+                if (resp.status === 402) {
+                    const body = await resp.json().catch(() => null);
+                    editor.commands.rejectInlineSuggestion();
+                    toast({
+                        variant: "destructive",
+                        title: "크레딧 부족",
+                        description: `${body?.message || "크레딧이 부족합니다."} 플랜을 구독하고 크레딧을 충전해주세요.`,
+                    });
+                    return;
+                }
+
+                if (resp.status === 429) {
+                    editor.commands.rejectInlineSuggestion();
+                    toast({
+                        variant: "destructive",
+                        title: "요청 제한",
+                        description:
+                            "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+                    });
+                    return;
+                }
+
+                if (!resp.ok || !resp.body) {
+                    throw new Error("Failed to start rewrite stream");
+                }
+
+                const reader = resp.body.getReader();
+                const decoder = new TextDecoder();
+                let textBuffer = "";
+                let result = "";
+                let streamDone = false;
+
+                while (!streamDone) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    textBuffer += decoder.decode(value, { stream: true });
+
+                    let newlineIndex: number;
+                    while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+                        let line = textBuffer.slice(0, newlineIndex);
+                        textBuffer = textBuffer.slice(newlineIndex + 1);
+
+                        if (line.endsWith("\r")) line = line.slice(0, -1);
+                        if (!line.startsWith("data: ")) continue;
+
+                        const jsonStr = line.slice(6).trim();
+                        if (jsonStr === "[DONE]") {
+                            streamDone = true;
+                            break;
+                        }
+
+                        try {
+                            const parsed = JSON.parse(jsonStr);
+                            if (parsed.error) {
+                                throw new Error(
+                                    parsed.error.message || "Stream error",
+                                );
+                            }
+                            const delta = parsed.choices?.[0]?.delta?.content;
+                            if (delta) result += delta;
+                        } catch (parseError) {
+                            if (parseError instanceof SyntaxError) {
+                                // 불완전한 JSON - 다음 청크와 합쳐서 다시 파싱
+                                textBuffer = line + "\n" + textBuffer;
+                                break;
+                            }
+                            throw parseError;
+                        }
+                    }
+
+                    // 사용자가 스트리밍 중에 거절했거나 원문을 지운 경우 중단
+                    if (!getInlineSuggestion(editor.state)) {
+                        abortController.abort();
+                        return;
+                    }
+                    editor.commands.updateInlineSuggestion({ text: result });
+                }
+
+                const cleaned = cleanRewriteText(result);
+                if (!cleaned) throw new Error("Empty rewrite result");
+                if (!getInlineSuggestion(editor.state)) return;
+
+                editor.commands.updateInlineSuggestion({
+                    text: cleaned,
+                    status: "ready",
+                });
+            } catch (error) {
+                if (abortController.signal.aborted) return;
+                console.error("Inline rewrite error:", error);
+                editor.commands.rejectInlineSuggestion();
+                toast({
+                    variant: "destructive",
+                    title: "오류",
+                    description: "선택한 내용을 다듬지 못했습니다.",
+                });
+            } finally {
+                if (abortControllerRef.current === abortController) {
+                    abortControllerRef.current = null;
+                }
+                setIsRewriting(false);
+            }
+        },
+        [getEditor, isRewriting, documentId, toast],
+    );
+
+    // 진행 중인 다듬기 요청 취소 + 제안 제거
+    const cancelRewrite = useCallback(() => {
+        abortControllerRef.current?.abort();
+        getEditor()?.commands.rejectInlineSuggestion();
+    }, [getEditor]);
+
+    return { rewriteSelection, cancelRewrite, isRewriting };
+}
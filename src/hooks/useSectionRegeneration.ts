@@ -0,0 +1,190 @@
+import { useCallback, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { useToast } from "./use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { type CustomOutline, normalizeOutline } from "@/lib/customOutline";
+import {
+    getSectionAt,
+    getSectionContext,
+    markdownToSectionNodes,
+    serializeSectionBody,
+} from "@/lib/editorSections";
+import { getRegeneratingSectionPos } from "@/components/editor/extensions/SectionRegenerate";
+
+const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
+
+interface UseSectionRegenerationOptions {
+    getEditor: () => Editor | null | undefined;
+    documentId?: string;
+    grantType?: string | null;
+    customOutline?: CustomOutline | null;
+    /** 전체 문서를 스트리밍 중이면 장 단위 다시 쓰기를 막음 */
+    isStreaming?: boolean;
+    /** 결과를 끼워 넣기 직전/직후 호출 (버전 기록 스냅샷용) */
+    onBeforeApply?: (heading: string) => void | Promise<void>;
+    onApplied?: (heading: string) => void;
+}
+
+/**
+ * 장(섹션) 단위 다시 쓰기
+ *
+ * 선택한 장의 본문과 앞뒤 문맥만 chat 함수(mode: "section")로 보내고,
+ * 결과를 해당 장 본문 자리에만 끼워 넣어 다른 장의 수동 편집은 그대로 둡니다.
+ */
+export function useSectionRegeneration({
+    getEditor,
+    documentId,
+    grantType,
+    customOutline,
+    isStreaming,
+    onBeforeApply,
+    onApplied,
+}: UseSectionRegenerationOptions) {
+    const [isRegenerating, setIsRegenerating] = useState(false);
+    const { toast } = useToast();
+
+    const regenerateSection = useCallback(
+        async (headingPos: number, instruction?: string) => {
+            const editor = getEditor();
+            if (!editor || isRegenerating) return;
+
+            if (isStreaming) {
+                toast({
+                    title: "작성 중",
+                    description: "문서 작성이 끝난 뒤 다시 시도해주세요.",
+                });
+                return;
+            }
+
+            const section = getSectionAt(editor.state.doc, headingPos);
+            if (!section) return;
+
+            const { contextBefore, contextAfter } = getSectionContext(
+                editor.state.doc,
+                section,
+            );
+
+            setIsRegenerating(true);
+            editor.commands.setRegeneratingSection(headingPos);
+
+            try {
+                const {
+                    data: { session },
+                } = await supabase.auth.getSession();
+                const authHeader = session?.access_token
+                    ? `Bearer ${session.access_token}`
+                    : `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`;
+
+                const resp = await fetch(CHAT_URL, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Authorization: authHeader,
+                    },
+                    body: JSON.stringify({
+                        mode: "section",
+                        messages: [],
+                        section: {
+                            heading: section.heading,
+                            markdown: serializeSectionBody(editor, section),
+                            contextBefore,
+                            contextAfter,
+                            instruction,
+                        },
+                        grantType,
+                        customOutline:
+                            grantType === "CUSTOM" && customOutline
+                                ? normalizeOutline(customOutline)
+                                : undefined,
+                        documentId,
+                    }),
+                });
+
+                if (resp.status === 401) {
+                    toast({
+                        variant: "destructive",
+                        title: "로그인 필요",
+                        description: "로그인 후 AI 다시 쓰기를 사용할 수 있습니다.",
+                    });
+                    return;
+                }
+
+                if (resp.status === 402) {
+                    const body = await resp.json().catch(() => null);
+                    toast({
+                        variant: "destructive",
+                        title: "크레딧 부족",
+                        description: `${body?.message || "크레딧이 부족합니다."} 플랜을 구독하고 크레딧을 충전해주세요.`,
+                    });
+                    return;
+                }
+
+                if (resp.status === 429) {
+                    toast({
+                        variant: "destructive",
+                        title: "요청 제한",
+                        description:
+                            "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+                    });
+                    return;
+                }
+
+                if (!resp.ok) throw new Error("Section regeneration failed");
+
+                const { content } = await resp.json();
+                if (!content?.trim()) throw new Error("Empty section content");
+
+                await onBeforeApply?.(section.heading);
+
+                // 응답을 기다리는 동안 문서가 편집되었을 수 있으므로 매핑된 제목 위치로 범위를 다시 계산
+                const currentPos = getRegeneratingSectionPos(editor.state);
+                const current =
+                    currentPos === null
+                        ? null
+                        : getSectionAt(editor.state.doc, currentPos);
+                if (!current) {
+                    throw new Error("Section heading was removed");
+                }
+
+                editor
+                    .chain()
+                    .insertContentAt(
+                        { from: current.bodyFrom, to: current.to },
+                        markdownToSectionNodes(editor, content, current.heading),
+                    )
+                    .run();
+                onApplied?.(current.heading);
+
+                toast({
+                    title: "다시 쓰기 완료",
+                    description: `"${current.heading}" 장을 새로 작성했습니다.`,
+                });
+            } catch (error) {
+                console.error("Section regeneration error:", error);
+                toast({
+                    variant: "destructive",
+                    title: "오류",
+                    description: "장을 다시 작성하지 못했습니다.",
+                });
+            } finally {
+                if (!editor.isDestroyed) {
+                    editor.commands.setRegeneratingSection(null);
+                }
+                setIsRegenerating(false);
+            }
+        },
+        [
+            getEditor,
+            isRegenerating,
+            isStreaming,
+            toast,
+            grantType,
+            customOutline,
+            documentId,
+            onBeforeApply,
+            onApplied,
+        ],
+    );
+
+    return { regenerateSection, isRegenerating };
+}
@@ -143,13 +143,259 @@ export type Database = {
         }
         Relationships: []
       }
+      credit_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          document_id: string | null
+          function_name: string | null
+          id: string
+          payment_id: string | null
+          reason: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          document_id?: string | null
+          function_name?: string | null
+          id?: string
+          payment_id?: string | null
+          reason: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          document_id?: string | null
+          function_name?: string | null
+          id?: string
+          payment_id?: string | null
+          reason?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_transactions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_comments: {
+        Row: {
+          author_name: string | null
+          body: string
+          created_at: string
+          document_id: string
+          id: string
+          quote: string | null
+          resolved_at: string | null
+          user_id: string
+        }
+        Insert: {
+          author_name?: string | null
+          body: string
+          created_at?: string
+          document_id: string
+          id?: string
+          quote?: string | null
+          resolved_at?: string | null
+          user_id: string
+        }
+        Update: {
+          author_name?: string | null
+          body?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          quote?: string | null
+          resolved_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_comments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_members: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_members_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_share_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          document_id: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          role: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          document_id: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          role?: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          document_id?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_share_links_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_steps: {
+        Row: {
+          client_id: string
+          created_at: string
+          document_id: string
+          step: Json
+          user_id: string
+          version: number
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          document_id: string
+          step: Json
+          user_id: string
+          version: number
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          document_id?: string
+          step?: Json
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_steps_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          content: Json | null
+          created_at: string
+          document_id: string
+          id: string
+          label: string | null
+          plain_text: string | null
+          source: string
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          content?: Json | null
+          created_at?: string
+          document_id: string
+          id?: string
+          label?: string | null
+          plain_text?: string | null
+          source: string
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: Json | null
+          created_at?: string
+          document_id?: string
+          id?: string
+          label?: string | null
+          plain_text?: string | null
+          source?: string
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          collab_version: number
           content: Json | null
           created_at: string
+          custom_outline: Json | null
           hwpx_template_path: string | null
           id: string
           plain_text: string | null
+          prompt_version: string | null
           status: string | null
           support_type: string | null
           title: string
@@ -157,11 +403,14 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          collab_version?: number
           content?: Json | null
           created_at?: string
+          custom_outline?: Json | null
           hwpx_template_path?: string | null
           id?: string
           plain_text?: string | null
+          prompt_version?: string | null
           status?: string | null
           support_type?: string | null
           title?: string
@@ -169,11 +418,14 @@ export type Database = {
           user_id: string
         }
         Update: {
+          collab_version?: number
           content?: Json | null
           created_at?: string
+          custom_outline?: Json | null
           hwpx_template_path?: string | null
           id?: string
           plain_text?: string | null
+          prompt_version?: string | null
           status?: string | null
           support_type?: string | null
           title?: string
@@ -182,6 +434,86 @@ export type Database = {
         }
         Relationships: []
       }
+      generation_jobs: {
+        Row: {
+          content: string
+          created_at: string
+          credits_charged: number
+          credits_refunded: number
+          document_id: string | null
+          error: string | null
+          finished_at: string | null
+          function_name: string
+          id: string
+          kind: string
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          credits_charged?: number
+          credits_refunded?: number
+          document_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          function_name: string
+          id?: string
+          kind?: string
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          credits_charged?: number
+          credits_refunded?: number
+          document_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          function_name?: string
+          id?: string
+          kind?: string
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guest_trial_usage: {
+        Row: {
+          created_at: string
+          device_id: string | null
+          function_name: string
+          id: string
+          ip_hash: string
+        }
+        Insert: {
+          created_at?: string
+          device_id?: string | null
+          function_name: string
+          id?: string
+          ip_hash: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string | null
+          function_name?: string
+          id?: string
+          ip_hash?: string
+        }
+        Relationships: []
+      }
       leads: {
         Row: {
           created_at: string
@@ -390,6 +722,106 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_document_share_link: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      add_document_member: {
+        Args: {
+          p_document_id: string
+          p_email: string
+          p_role?: string
+        }
+        Returns: string
+      }
+      can_comment_document: {
+        Args: {
+          _document_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_edit_document: {
+        Args: {
+          _document_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      consume_credits: {
+        Args: {
+          p_amount?: number
+          p_document_id?: string
+          p_function_name?: string
+          p_reason?: string
+          p_user_id: string
+        }
+        Returns: {
+          remaining_credits: number
+          success: boolean
+        }[]
+      }
+      consume_guest_trial: {
+        Args: {
+          p_device_id: string
+          p_function_name: string
+          p_ip_hash: string
+          p_limit: number
+          p_window: unknown
+        }
+        Returns: {
+          success: boolean
+          used_count: number
+        }[]
+      }
+      document_role: {
+        Args: {
+          _document_id: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      finish_generation_job: {
+        Args: {
+          p_error?: string
+          p_job_id: string
+          p_refund?: number
+          p_status: string
+        }
+        Returns: {
+          job_status: string
+          refunded_credits: number
+        }[]
+      }
+      get_document_members: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          email: string | null
+          is_owner: boolean
+          role: string
+          user_id: string
+        }[]
+      }
+      grant_credits: {
+        Args: {
+          p_amount: number
+          p_document_id?: string
+          p_function_name?: string
+          p_payment_id?: string
+          p_reason: string
+          p_replace?: boolean
+          p_type?: string
+          p_user_id: string
+        }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -397,6 +829,35 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_document_member: {
+        Args: {
+          _document_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_document_owner: {
+        Args: {
+          _document_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      record_document_prompt_version: {
+        Args: {
+          p_document_id: string
+          p_prompt_version: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      resolve_document_comment: {
+        Args: {
+          p_comment_id: string
+          p_resolved: boolean
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -0,0 +1,174 @@
+import { collab, getVersion, sendableSteps } from "@tiptap/pm/collab";
+import { Schema } from "@tiptap/pm/model";
+import { EditorState } from "@tiptap/pm/state";
+import { describe, expect, it } from "vitest";
+import {
+    type CollaborationEditor,
+    createCollaborationSync,
+} from "./collaborationSync";
+import { type LocalStepLog, createLocalStepLog } from "@/test-utils/localStepLog";
+
+const DOCUMENT_ID = "document-1";
+
+const schema = new Schema({
+    nodes: {
+        doc: { content: "paragraph+" },
+        paragraph: { content: "text*", toDOM: () => ["p", 0] },
+        text: {},
+    },
+});
+
+const docJSON = (text: string) => ({
+    type: "doc",
+    content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+});
+
+// 공동 편집 참여자 한 명 (EditorView 없이 상태만 갱신하는 Tiptap Editor 대역)
+const joinDocument = (
+    log: LocalStepLog,
+    clientID: string,
+    snapshot: { text: string; version: number },
+) => {
+    let state = EditorState.create({
+        doc: schema.nodeFromJSON(docJSON(snapshot.text)),
+        plugins: [collab({ version: snapshot.version, clientID })],
+    });
+    const editor: CollaborationEditor = {
+        get state() {
+            return state;
+        },
+        schema,
+        isDestroyed: false,
+        view: {
+            dispatch: (tr) => {
+                state = state.apply(tr);
+            },
+        },
+        registerPlugin: (plugin) => {
+            state = state.reconfigure({ plugins: [...state.plugins, plugin] });
+        },
+        unregisterPlugin: (name) => {
+            state = state.reconfigure({
+                plugins: state.plugins.filter(
+                    (plugin) =>
+                        !(plugin as unknown as { key: string }).key.startsWith(
+                            `${name}$`,
+                        ),
+                ),
+            });
+        },
+    };
+    const { sync } = createCollaborationSync(editor, log, {
+        documentId: DOCUMENT_ID,
+        clientID,
+        userId: `user-${clientID}`,
+    });
+
+    return {
+        sync,
+        text: () => state.doc.textContent,
+        version: () => getVersion(state),
+        synced: () => sendableSteps(state) === null,
+        insert: (text: string, at: "start" | "end") => {
+            const pos = at === "start" ? 1 : state.doc.content.size - 1;
+            editor.view.dispatch(state.tr.insertText(text, pos));
+        },
+        save: () =>
+            log.saveSnapshot(
+                DOCUMENT_ID,
+                state.doc.toJSON(),
+                getVersion(state),
+            ),
+    };
+};
+
+describe("createCollaborationSync with the local step log", () => {
+    it("rebases concurrent edits onto the same version order", async () => {
+        const log = createLocalStepLog();
+        const alice = joinDocument(log, "alice", { text: "hello", version: 0 });
+        const bob = joinDocument(log, "bob", { text: "hello", version: 0 });
+
+        alice.insert(" world", "end");
+        bob.insert("oh ", "start");
+
+        await alice.sync();
+        // bob의 버전 1은 충돌 → alice의 step을 받아 rebase 후 버전 2로 전송
+        await bob.sync();
+        await alice.sync();
+
+        expect(alice.text()).toBe("oh hello world");
+        expect(bob.text()).toBe("oh hello world");
+        expect(alice.version()).toBe(2);
+        expect(bob.version()).toBe(2);
+        expect(alice.synced() && bob.synced()).toBe(true);
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([1, 2]);
+    });
+
+    it("compacts steps at or below the saved version", async () => {
+        const log = createLocalStepLog();
+        const alice = joinDocument(log, "alice", { text: "hello", version: 0 });
+
+        alice.insert(" world", "end");
+        await alice.sync();
+        alice.insert("!", "end");
+        await alice.sync();
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([1, 2]);
+
+        expect(alice.save()).toBe(true);
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([]);
+
+        alice.insert("?", "end");
+        await alice.sync();
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([3]);
+
+        // 더 오래된 버전으로는 덮어쓰지 않음
+        expect(log.saveSnapshot(DOCUMENT_ID, docJSON("stale"), 1)).toBe(false);
+        expect(await log.loadSnapshot(DOCUMENT_ID)).toEqual({
+            content: docJSON("hello world!"),
+            version: 2,
+        });
+    });
+
+    it("reloads the saved content when the missed steps were compacted", async () => {
+        const log = createLocalStepLog();
+        const alice = joinDocument(log, "alice", { text: "hello", version: 0 });
+        const carol = joinDocument(log, "carol", { text: "hello", version: 0 });
+
+        alice.insert(" world", "end");
+        await alice.sync();
+        alice.save();
+        alice.insert("!", "end");
+        await alice.sync();
+
+        // carol은 버전 0에 머물러 있어 버전 1은 받을 수 없음 → 저장된 내용(버전 1)에서 다시 시작
+        carol.insert("stale ", "start");
+        await carol.sync();
+
+        expect(carol.text()).toBe("hello world!");
+        expect(carol.version()).toBe(2);
+        expect(carol.synced()).toBe(true);
+
+        carol.insert(" bye", "end");
+        await carol.sync();
+        await alice.sync();
+        expect(alice.text()).toBe("hello world! bye");
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([2, 3]);
+    });
+
+    it("rejects pushes at compacted versions even when nothing newer is logged", async () => {
+        const log = createLocalStepLog();
+        const alice = joinDocument(log, "alice", { text: "hello", version: 0 });
+        const carol = joinDocument(log, "carol", { text: "hello", version: 0 });
+
+        alice.insert(" world", "end");
+        await alice.sync();
+        alice.save();
+
+        carol.insert("stale ", "start");
+        await carol.sync();
+
+        expect(carol.text()).toBe("hello world");
+        expect(carol.version()).toBe(1);
+        expect(log.stepVersions(DOCUMENT_ID)).toEqual([]);
+    });
+});
@@ -0,0 +1,196 @@
+import type { JSONContent } from "@tiptap/core";
+import {
+    collab,
+    getVersion,
+    receiveTransaction,
+    sendableSteps,
+} from "@tiptap/pm/collab";
+import { Slice, type Schema } from "@tiptap/pm/model";
+import type { EditorState, Plugin, Transaction } from "@tiptap/pm/state";
+import { ReplaceStep, Step } from "@tiptap/pm/transform";
+
+/** step 로그의 한 행 (document_steps) */
+export interface DocumentStepRow {
+    version: number;
+    step: unknown;
+    client_id: string;
+}
+
+/**
+ * 로컬 step 전송 결과
+ * - conflict: 다른 참여자가 먼저 같은 버전을 기록함 → 받아서 rebase 후 재시도
+ * - compacted: 저장된 버전(documents.collab_version) 이하라 이미 압축된 버전 → 저장된 내용으로 다시 시작
+ */
+export type PushStepsResult = "ok" | "conflict" | "compacted";
+
+/**
+ * prosemirror-collab의 중앙 step 로그
+ * 운영은 document_steps 테이블(useDocumentCollaboration), 테스트는 메모리 step 로그(test-utils/localStepLog)
+ */
+export interface DocumentStepLog {
+    /** afterVersion 다음 버전부터 버전 순으로 최대 limit개 */
+    pullSteps(
+        documentId: string,
+        afterVersion: number,
+        limit: number,
+    ): Promise<DocumentStepRow[]>;
+    /** version 다음 버전부터 steps를 차례로 기록 (하나라도 충돌하면 전부 기록하지 않음) */
+    pushSteps(
+        documentId: string,
+        push: {
+            version: number;
+            steps: unknown[];
+            clientID: string;
+            userId: string;
+        },
+    ): Promise<PushStepsResult>;
+    /** 저장된 문서 내용과 그 내용에 해당하는 step 버전 */
+    loadSnapshot(
+        documentId: string,
+    ): Promise<{ content: JSONContent | null; version: number }>;
+}
+
+/** 동기화에 필요한 에디터 기능 (Tiptap Editor가 그대로 만족) */
+export interface CollaborationEditor {
+    readonly state: EditorState;
+    readonly schema: Schema;
+    readonly isDestroyed: boolean;
+    readonly view: { dispatch: (tr: Transaction) => void };
+    registerPlugin(plugin: Plugin): unknown;
+    unregisterPlugin(name: string): unknown;
+}
+
+// 한 번에 가져올 step 수 (더 있으면 이어서 조회)
+const PULL_BATCH = 500;
+// 저장된 내용으로 문서를 교체하는 step의 client id (어느 참여자의 step도 아님)
+const SNAPSHOT_CLIENT_ID = "snapshot";
+
+/**
+ * 저장된 문서 내용으로 교체하고 collab 버전을 그 내용의 버전으로 맞춤
+ * 아직 보내지 않은 로컬 step은 압축된 버전 위에서 만든 것이라 버림
+ */
+const resetToSnapshot = (
+    editor: CollaborationEditor,
+    content: JSONContent | null,
+    version: number,
+    clientID: string,
+) => {
+    // 교체 step 하나를 확정된 step으로 받아 version이 되도록 한 버전 앞에서 시작
+    editor.unregisterPlugin("collab");
+    editor.registerPlugin(collab({ version: version - 1, clientID }));
+
+    const doc =
+        content?.type === "doc"
+            ? editor.schema.nodeFromJSON(content)
+            : editor.schema.topNodeType.createAndFill()!;
+    const step = new ReplaceStep(
+        0,
+        editor.state.doc.content.size,
+        new Slice(doc.content, 0, 0),
+    );
+    editor.view.dispatch(
+        receiveTransaction(editor.state, [step], [SNAPSHOT_CLIENT_ID]),
+    );
+};
+
+/**
+ * 공동 편집 step 동기화 (pull → rebase → push 반복)
+ * - 로컬 step을 보낼 버전에 다른 참여자가 먼저 쓰면(conflict) 누락된 step을 받아 rebase 후 다시 전송
+ * - 저장 시 collab_version 이하 step은 압축되므로, 그보다 뒤처진 참여자는 저장된 내용으로 다시 시작
+ */
+export function createCollaborationSync(
+    editor: CollaborationEditor,
+    log: DocumentStepLog,
+    session: { documentId: string; clientID: string; userId: string },
+) {
+    const { documentId, clientID, userId } = session;
+    let disposed = false;
+    let syncing = false;
+    let syncRequested = false;
+
+    const stopped = () => disposed || editor.isDestroyed;
+
+    // 서버에 쌓인 새 step을 순서대로 받아 로컬 미확정 step을 rebase
+    // 로컬 버전 바로 다음 step이 이미 압축되었으면 false
+    const pullSteps = async (): Promise<boolean> => {
+        for (;;) {
+            const version = getVersion(editor.state);
+            const data = await log.pullSteps(documentId, version, PULL_BATCH);
+            if (stopped() || !data.length) return true;
+            if (data[0].version > version + 1) return false;
+
+            // 버전이 이어지는 부분까지만 적용
+            const rows = data.filter(
+                (row, index) => row.version === version + index + 1,
+            );
+            const steps = rows.map((row) =>
+                Step.fromJSON(editor.schema, row.step),
+            );
+            editor.view.dispatch(
+                receiveTransaction(
+                    editor.state,
+                    steps,
+                    rows.map((row) => row.client_id),
+                    { mapSelectionBackward: true },
+                ),
+            );
+
+            if (data.length < PULL_BATCH) return true;
+        }
+    };
+
+    // 로컬 미확정 step 전송 (성공하면 다음 pull에서 자기 step으로 확정됨)
+    const pushSteps = async (): Promise<PushStepsResult | null> => {
+        const sendable = sendableSteps(editor.state);
+        if (!sendable) return null;
+
+        return log.pushSteps(documentId, {
+            version: sendable.version,
+            steps: sendable.steps.map((step) => step.toJSON()),
+            clientID,
+            userId,
+        });
+    };
+
+    const resync = async () => {
+        const snapshot = await log.loadSnapshot(documentId);
+        if (stopped()) return;
+        resetToSnapshot(editor, snapshot.content, snapshot.version, clientID);
+    };
+
+    const sync = async () => {
+        if (syncing) {
+            syncRequested = true;
+            return;
+        }
+        syncing = true;
+        try {
+            do {
+                syncRequested = false;
+                const continuous = await pullSteps();
+                if (stopped()) return;
+                if (!continuous) {
+                    await resync();
+                    syncRequested = true;
+                    continue;
+                }
+
+                const result = await pushSteps();
+                if (result === "compacted") await resync();
+                // 보냈으면 자기 step 확정, 충돌이면 rebase 후 재전송을 위해 다시 pull
+                if (result) syncRequested = true;
+            } while (syncRequested && !stopped());
+        } catch (error) {
+            console.error("Collaboration sync error:", error);
+        } finally {
+            syncing = false;
+        }
+    };
+
+    return {
+        sync,
+        dispose: () => {
+            disposed = true;
+        },
+    };
+}
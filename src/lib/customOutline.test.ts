@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+    MAX_COLUMN_LENGTH,
+    MAX_GUIDE_LENGTH,
+    MAX_HEADING_LENGTH,
+    MAX_OUTLINE_SECTIONS,
+    MAX_TABLE_COLUMNS,
+    MAX_TABLE_ROWS,
+    MAX_TARGET_LENGTH,
+    createOutlineSection,
+    normalizeOutline,
+} from "./customOutline";
+
+describe("normalizeOutline", () => {
+    it("drops empty headings and columns", () => {
+        const { sections } = normalizeOutline({
+            sections: [
+                createOutlineSection({ heading: "  " }),
+                createOutlineSection({
+                    heading: " 1. 회사 소개 ",
+                    guide: "  ",
+                    table: { columns: ["구분", " ", "내용 "], rows: 3 },
+                }),
+                createOutlineSection({
+                    heading: "2. 일정",
+                    table: { columns: [" "], rows: 3 },
+                }),
+            ],
+        });
+
+        expect(sections).toHaveLength(2);
+        expect(sections[0]).toMatchObject({
+            heading: "1. 회사 소개",
+            guide: undefined,
+            table: { columns: ["구분", "내용"], rows: 3 },
+        });
+        expect(sections[1].table).toBeUndefined();
+    });
+
+    it("clamps values to the server schema bounds", () => {
+        const { sections } = normalizeOutline({
+            sections: Array.from({ length: MAX_OUTLINE_SECTIONS + 5 }, () =>
+                createOutlineSection({
+                    heading: "가".repeat(MAX_HEADING_LENGTH + 50),
+                    targetLength: MAX_TARGET_LENGTH * 3,
+                    guide: "나".repeat(MAX_GUIDE_LENGTH + 1),
+                    table: {
+                        columns: Array.from(
+                            { length: MAX_TABLE_COLUMNS + 2 },
+                            () => "다".repeat(MAX_COLUMN_LENGTH + 10),
+                        ),
+                        rows: 99.6,
+                    },
+                }),
+            ),
+        });
+
+        expect(sections).toHaveLength(MAX_OUTLINE_SECTIONS);
+        const [section] = sections;
+        expect(section.heading).toHaveLength(MAX_HEADING_LENGTH);
+        expect(section.targetLength).toBe(MAX_TARGET_LENGTH);
+        expect(section.guide).toHaveLength(MAX_GUIDE_LENGTH);
+        expect(section.table?.columns).toHaveLength(MAX_TABLE_COLUMNS);
+        expect(section.table?.columns[0]).toHaveLength(MAX_COLUMN_LENGTH);
+        expect(section.table?.rows).toBe(MAX_TABLE_ROWS);
+    });
+
+    it("rounds fractional numbers and raises them to the minimum", () => {
+        const [section] = normalizeOutline({
+            sections: [
+                createOutlineSection({
+                    heading: "1. 개요",
+                    targetLength: -120.4,
+                    table: { columns: ["구분"], rows: 0.2 },
+                }),
+            ],
+        }).sections;
+
+        expect(section.targetLength).toBe(0);
+        expect(section.table?.rows).toBe(1);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * 자유양식(CUSTOM) 목차 정의
+ *
+ * 정부 양식을 따르지 않는 민간 액셀러레이터/오픈이노베이션 지원서를 위해
+ * 사용자가 직접 목차(제목, 목표 분량, 표 구성)를 정의합니다.
+ * documents.custom_outline 컬럼에 저장되며, 같은 구조를
+ * Edge Function(supabase/functions/_shared/prompts/customOutline.ts)이 프롬프트로 변환합니다.
+ */
+
+export interface OutlineTableSchema {
+    /** 표 헤더 (열 이름) */
+    columns: string[];
+    /** 작성할 행 수 */
+    rows: number;
+}
+
+export interface OutlineSection {
+    id: string;
+    /** 목차 제목 (예: "1. 회사 소개") */
+    heading: string;
+    /** 1: 대목차(#), 2: 소목차(###) */
+    level: 1 | 2;
+    /** 목표 분량 (자) - 0이면 분량 제한 없음 */
+    targetLength: number;
+    /** 작성 가이드 (선택) */
+    guide?: string;
+    /** 표 구성 (선택) */
+    table?: OutlineTableSchema;
+}
+
+export interface CustomOutline {
+    sections: OutlineSection[];
+}
+
+// Edge Function의 CustomOutlineSchema와 같은 한도 (넘으면 요청이 400으로 거부됨)
+export const MAX_OUTLINE_SECTIONS = 30;
+export const MAX_HEADING_LENGTH = 200;
+export const MAX_TARGET_LENGTH = 10000;
+export const MAX_GUIDE_LENGTH = 1000;
+export const MAX_TABLE_COLUMNS = 8;
+export const MAX_COLUMN_LENGTH = 100;
+export const MAX_TABLE_ROWS = 20;
+
+const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), max);
+
+export const createOutlineSection = (
+    partial: Partial<OutlineSection> = {},
+): OutlineSection => ({
+    id: crypto.randomUUID(),
+    heading: "",
+    level: 1,
+    targetLength: 500,
+    ...partial,
+});
+
+// 새 자유양식 문서의 기본 목차
+export const createDefaultOutline = (): CustomOutline => ({
+    sections: [
+        createOutlineSection({ heading: "1. 회사 및 팀 소개" }),
+        createOutlineSection({ heading: "2. 문제 정의 및 해결 방안" }),
+        createOutlineSection({ heading: "3. 시장 분석 및 사업화 전략" }),
+        createOutlineSection({
+            heading: "4. 추진 일정",
+            targetLength: 0,
+            table: { columns: ["구분", "추진 내용", "추진 기간"], rows: 4 },
+        }),
+    ],
+});
+
+/**
+ * 제목이 비어 있는 항목/열을 정리하고 길이·분량을 서버 한도 안으로 맞춘 목차 (저장 및 요청 전 사용)
+ */
+export const normalizeOutline = (outline: CustomOutline): CustomOutline => ({
+    sections: outline.sections
+        .filter((section) => section.heading.trim())
+        .slice(0, MAX_OUTLINE_SECTIONS)
+        .map((section) => {
+            const columns = (section.table?.columns || [])
+                .map((column) => column.trim().slice(0, MAX_COLUMN_LENGTH))
+                .filter(Boolean)
+                .slice(0, MAX_TABLE_COLUMNS);
+            return {
+                ...section,
+                heading: section.heading.trim().slice(0, MAX_HEADING_LENGTH),
+                level: section.level === 2 ? 2 : 1,
+                guide:
+                    section.guide?.trim().slice(0, MAX_GUIDE_LENGTH) ||
+                    undefined,
+                targetLength: clamp(
+                    Math.round(section.targetLength || 0),
+                    0,
+                    MAX_TARGET_LENGTH,
+                ),
+                table:
+                    columns.length > 0
+                        ? {
+                              columns,
+                              rows: clamp(
+                                  Math.round(section.table?.rows || 1),
+                                  1,
+                                  MAX_TABLE_ROWS,
+                              ),
+                          }
+                        : undefined,
+            };
+        }),
+});
+
+/**
+ * documents.custom_outline(JSON) 값을 목차로 변환 (형식이 맞지 않으면 null)
+ */
+export const parseCustomOutline = (value: unknown): CustomOutline | null => {
+    if (!value || typeof value !== "object") return null;
+    const sections = (value as { sections?: unknown }).sections;
+    if (!Array.isArray(sections) || sections.length === 0) return null;
+    return value as CustomOutline;
+};
+
+// 제목 비교용 (공백/기호 차이 무시)
+export const normalizeHeadingText = (text: string): string =>
+    text.replace(/[\s#*]/g, "").toLowerCase();
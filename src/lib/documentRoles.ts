@@ -0,0 +1,36 @@
+/**
+ * 문서 공유 권한
+ *
+ * 서버(document_role / can_edit_document / can_comment_document)와 같은 규칙으로
+ * 화면에서 편집/댓글 기능 노출 여부를 결정합니다. 실제 권한 검사는 RLS가 담당합니다.
+ */
+
+export type DocumentRole = "owner" | "editor" | "commenter" | "viewer";
+
+/** 초대/공유 링크로 부여할 수 있는 권한 (소유자 제외) */
+export type ShareRole = Exclude<DocumentRole, "owner">;
+
+export const SHARE_ROLES: ShareRole[] = ["viewer", "commenter", "editor"];
+
+export const DOCUMENT_ROLE_LABELS: Record<DocumentRole, string> = {
+    owner: "소유자",
+    editor: "편집자",
+    commenter: "댓글 작성자",
+    viewer: "뷰어",
+};
+
+export const SHARE_ROLE_DESCRIPTIONS: Record<ShareRole, string> = {
+    viewer: "문서를 볼 수만 있습니다.",
+    commenter: "문서를 보고 댓글을 남길 수 있습니다.",
+    editor: "문서를 함께 편집할 수 있습니다.",
+};
+
+export const isDocumentRole = (value: unknown): value is DocumentRole =>
+    value === "owner" ||
+    SHARE_ROLES.includes(value as ShareRole);
+
+export const canEditDocument = (role: DocumentRole | null | undefined) =>
+    role === "owner" || role === "editor";
+
+export const canCommentDocument = (role: DocumentRole | null | undefined) =>
+    canEditDocument(role) || role === "commenter";
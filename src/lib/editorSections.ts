@@ -0,0 +1,143 @@
+/**
+ * 에디터 문서를 장(섹션) 단위로 다루는 유틸리티
+ *
+ * 장 = 제목(heading) 노드부터 같은 수준 이상의 다음 제목 직전까지.
+ * 장 단위 다시 쓰기에서 해당 범위만 직렬화/교체하는 데 사용합니다.
+ */
+
+import {
+    createDocument,
+    generateJSON,
+    type Editor,
+    type JSONContent,
+} from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+export interface EditorSection {
+    /** 제목 노드 위치 */
+    headingPos: number;
+    /** 본문 시작 위치 (제목 노드 바로 뒤) */
+    bodyFrom: number;
+    /** 본문 끝 위치 (다음 장 제목 직전 또는 문서 끝) */
+    to: number;
+    level: number;
+    heading: string;
+}
+
+// tiptap-markdown 이 editor.storage.markdown 에 두는 파서/직렬화기 (타입 선언에는 없음)
+interface MarkdownStorageInternals {
+    parser: { parse: (content: string) => string };
+    serializer: { serialize: (node: ProseMirrorNode) => string };
+}
+
+const getMarkdownStorage = (editor: Editor): MarkdownStorageInternals =>
+    (editor.storage as unknown as { markdown: MarkdownStorageInternals })
+        .markdown;
+
+// 앞뒤 문맥으로 보낼 최대 글자 수
+const CONTEXT_BEFORE_LENGTH = 3000;
+const CONTEXT_AFTER_LENGTH = 1500;
+
+/**
+ * headingPos 위치의 제목으로 시작하는 장 범위 (제목이 아니면 null)
+ */
+export const getSectionAt = (
+    doc: ProseMirrorNode,
+    headingPos: number,
+): EditorSection | null => {
+    const heading = doc.nodeAt(headingPos);
+    if (!heading || heading.type.name !== "heading") return null;
+
+    const level: number = heading.attrs.level ?? 1;
+    const bodyFrom = headingPos + heading.nodeSize;
+    let to = doc.content.size;
+
+    // 최상위 블록만 순회하며 같은 수준 이상의 다음 제목을 찾음
+    doc.forEach((node, offset) => {
+        if (to !== doc.content.size || offset < bodyFrom) return;
+        if (node.type.name === "heading" && (node.attrs.level ?? 1) <= level) {
+            to = offset;
+        }
+    });
+
+    return {
+        headingPos,
+        bodyFrom,
+        to,
+        level,
+        heading: heading.textContent.trim(),
+    };
+};
+
+/**
+ * 장 본문(제목 제외)을 마크다운으로 직렬화
+ */
+export const serializeSectionBody = (
+    editor: Editor,
+    section: EditorSection,
+): string => {
+    if (section.bodyFrom >= section.to) return "";
+    const slice = editor.state.doc.cut(section.bodyFrom, section.to);
+    return getMarkdownStorage(editor).serializer.serialize(slice).trim();
+};
+
+/**
+ * 장 앞뒤의 일반 텍스트 문맥 (모델이 내용 중복/모순을 피하도록 참고용)
+ */
+export const getSectionContext = (
+    doc: ProseMirrorNode,
+    section: EditorSection,
+): { contextBefore: string; contextAfter: string } => ({
+    contextBefore: doc
+        .textBetween(0, section.headingPos, "\n")
+        .slice(-CONTEXT_BEFORE_LENGTH),
+    contextAfter: doc
+        .textBetween(section.to, doc.content.size, "\n")
+        .slice(0, CONTEXT_AFTER_LENGTH),
+});
+
+/**
+ * AI가 작성한 본문 마크다운을 에디터 노드로 변환
+ * (코드블록 감싸기나 제목 반복처럼 모델이 자주 붙이는 군더더기는 제거)
+ */
+export const markdownToSectionNodes = (
+    editor: Editor,
+    markdown: string,
+    heading: string,
+): JSONContent[] => {
+    const lines = markdown
+        .replace(/^```(?:markdown|md)?\s*\n?/i, "")
+        .replace(/\n?```\s*$/, "")
+        .trim()
+        .split("\n");
+
+    // 첫 줄에 장 제목을 다시 쓴 경우 제거
+    const firstLine = lines[0]?.replace(/^#+\s*/, "").replace(/\*\*/g, "").trim();
+    if (firstLine && firstLine === heading) lines.shift();
+
+    const html = getMarkdownStorage(editor).parser.parse(lines.join("\n").trim());
+    return generateJSON(html, editor.extensionManager.extensions).content || [];
+};
+
+/**
+ * 마크다운 전체로 문서를 갱신하되, 실제로 달라진 구간만 교체
+ * (공동 편집 중 AI 스트리밍이 매 청크마다 문서 전체를 덮어쓰는 step을 만들지 않도록)
+ */
+export const replaceWithMarkdownDiff = (editor: Editor, markdown: string) => {
+    const html = getMarkdownStorage(editor).parser.parse(markdown);
+    const next = createDocument(html, editor.schema);
+    const { state } = editor;
+
+    const start = state.doc.content.findDiffStart(next.content);
+    if (start === null) return;
+
+    let { a: endA, b: endB } = state.doc.content.findDiffEnd(next.content)!;
+    // 반복되는 내용 때문에 끝 위치가 시작 위치보다 앞서면 보정
+    const overlap = start - Math.min(endA, endB);
+    if (overlap > 0) {
+        endA += overlap;
+        endB += overlap;
+    }
+
+    editor.view.dispatch(state.tr.replace(start, endA, next.slice(start, endB)));
+};
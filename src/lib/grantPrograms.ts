@@ -0,0 +1,136 @@
+/**
+ * 지원사업(grant program) 레지스트리 - 클라이언트 측
+ *
+ * 지원사업별로 흩어져 있던 분기(ItemInputModal, ExportButton, DocumentEditor,
+ * useChat, hwpxExportService)를 한 곳에 모은 정의입니다.
+ * 시스템 프롬프트/사용자 프롬프트 템플릿/집행계획 표 양식은 Edge Function 쪽
+ * 레지스트리(supabase/functions/_shared/grantPrograms.ts)에 같은 id로 정의합니다.
+ */
+
+export type GrantType =
+    | "PRE_STARTUP"
+    | "YOUTH_ACADEMY"
+    | "EARLY_STARTUP"
+    | "STARTUP_CENTRAL"
+    | "CUSTOM";
+
+/**
+ * HWPX 템플릿이 사용하는 ProjectData 필드 묶음
+ * - summary: 창업 아이템 개요 표 (item_name, summary_* 등)
+ * - narrative: 1-1 ~ 4-1 줄글 섹션 (prob_*, sol_*, scale_*, team_competency)
+ * - generalInfo: 일반현황 표 (info_*, business_type, support_field, tech_field, region_type)
+ * - team / partners / schedule: 4-2, 4-3, 2-2/3-2 표
+ * - budgetPhased: 1단계/2단계 분리 집행계획 표 (budget_p1_*, budget_p2_*)
+ * - budgetSelfFunded: 자기부담사업비 포함 단일 집행계획 표 (budget_*, cash_*, physical_*, total_*)
+ */
+export type ProjectFieldGroup =
+    | "summary"
+    | "narrative"
+    | "generalInfo"
+    | "team"
+    | "partners"
+    | "schedule"
+    | "budgetPhased"
+    | "budgetSelfFunded";
+
+export interface GrantProgram {
+    id: GrantType;
+    /** 화면 표시용 이름 (예: "2025 예비창업패키지") */
+    name: string;
+    /** documents.support_type 컬럼 값 */
+    supportType: string;
+    /** public/ 아래 HWPX 템플릿 경로 (없으면 HWPX 양식 내보내기 미지원) */
+    hwpxTemplate?: string;
+    /** 템플릿이 사용하는 ProjectData 필드 묶음 */
+    fieldGroups: ProjectFieldGroup[];
+    /**
+     * 자기부담사업비 비율을 정하는 지역 구분 (hwpxFillEngine getRegionRatios)
+     * 일반현황에서 지방우대 지역을 고르지 않는 양식에만 지정
+     */
+    budgetRegionType?: string;
+    /** 선택 불가 (준비 중) */
+    disabled?: boolean;
+    /** 양식 선택 목록에 노출하지 않음 */
+    hidden?: boolean;
+}
+
+const STANDARD_FIELD_GROUPS: ProjectFieldGroup[] = [
+    "summary",
+    "narrative",
+    "team",
+    "partners",
+    "schedule",
+];
+
+/**
+ * 등록된 지원사업 목록 (양식 선택 UI에 이 순서대로 노출)
+ * 새 지원사업은 여기에 항목 하나, Edge Function 레지스트리에 항목 하나를 추가하면 됩니다.
+ */
+export const GRANT_PROGRAMS: GrantProgram[] = [
+    {
+        id: "PRE_STARTUP",
+        name: "2025 예비창업패키지",
+        supportType: "preliminary",
+        hwpxTemplate: "/template_2025_pre.hwpx",
+        fieldGroups: [...STANDARD_FIELD_GROUPS, "budgetPhased"],
+    },
+    {
+        id: "YOUTH_ACADEMY",
+        name: "2025 청년창업사관학교",
+        supportType: "youth_academy",
+        hwpxTemplate: "/template_2025_youth.hwpx",
+        fieldGroups: [...STANDARD_FIELD_GROUPS, "budgetSelfFunded"],
+        // 정부지원 70% 이하, 자기부담 현금 10% 이상·현물 20% 이하
+        budgetRegionType: "지방우대 비해당 지역",
+    },
+    {
+        id: "EARLY_STARTUP",
+        name: "2026 초기창업패키지",
+        supportType: "early_startup",
+        hwpxTemplate: "/template_2026_early.hwpx",
+        fieldGroups: [
+            ...STANDARD_FIELD_GROUPS,
+            "generalInfo",
+            "budgetSelfFunded",
+        ],
+    },
+    {
+        id: "STARTUP_CENTRAL",
+        name: "2025 창업중심대학",
+        supportType: "startup_central",
+        fieldGroups: STANDARD_FIELD_GROUPS,
+        disabled: true,
+        hidden: true,
+    },
+    {
+        id: "CUSTOM",
+        name: "자유양식",
+        supportType: "custom",
+        fieldGroups: [],
+    },
+];
+
+export const DEFAULT_GRANT_TYPE: GrantType = "PRE_STARTUP";
+
+const findProgram = (id?: string | null): GrantProgram | undefined =>
+    GRANT_PROGRAMS.find((program) => program.id === id);
+
+/**
+ * id로 지원사업 조회 (알 수 없는 id면 기본 지원사업 반환)
+ */
+export const getGrantProgram = (id?: string | null): GrantProgram =>
+    findProgram(id) || findProgram(DEFAULT_GRANT_TYPE)!;
+
+/**
+ * documents.support_type 값으로 지원사업 조회 (알 수 없는 값이면 기본 지원사업 반환)
+ */
+export const getGrantProgramBySupportType = (
+    supportType?: string | null,
+): GrantProgram =>
+    GRANT_PROGRAMS.find((program) => program.supportType === supportType) ||
+    getGrantProgram(DEFAULT_GRANT_TYPE);
+
+export const usesFieldGroup = (
+    program: GrantProgram,
+    group: ProjectFieldGroup,
+): boolean => program.fieldGroups.includes(group);
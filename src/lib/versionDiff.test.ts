@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, diffTables, extractVersionBlocks } from "./versionDiff";
+
+const paragraph = (text: string) => ({
+    type: "paragraph",
+    content: [{ type: "text", text }],
+});
+
+const table = (rows: string[][]) => ({
+    type: "table",
+    content: rows.map((row) => ({
+        type: "tableRow",
+        content: row.map((text) => ({
+            type: "tableCell",
+            content: [paragraph(text)],
+        })),
+    })),
+});
+
+describe("extractVersionBlocks", () => {
+    it("separates lines and tables and keeps heading levels", () => {
+        const blocks = extractVersionBlocks({
+            type: "doc",
+            content: [
+                {
+                    type: "heading",
+                    attrs: { level: 2 },
+                    content: [{ type: "text", text: "1. 개요" }],
+                },
+                paragraph("  본문  "),
+                { type: "paragraph" },
+                table([
+                    ["구분", "내용"],
+                    ["재료비", "1,000,000"],
+                ]),
+            ],
+        });
+
+        expect(blocks.lines).toEqual(["## 1. 개요", "본문"]);
+        expect(blocks.tables).toEqual([
+            [
+                ["구분", "내용"],
+                ["재료비", "1,000,000"],
+            ],
+        ]);
+    });
+
+    it("falls back to plain text lines without JSON content", () => {
+        expect(extractVersionBlocks(null, "첫 줄\n\n 둘째 줄 ")).toEqual({
+            lines: ["첫 줄", "둘째 줄"],
+            tables: [],
+        });
+    });
+});
+
+describe("diffLines", () => {
+    it("aligns unchanged lines and pairs edits side by side", () => {
+        expect(
+            diffLines(["a", "b", "c", "d"], ["a", "B", "c", "d", "e"]),
+        ).toEqual([
+            { type: "same", left: "a", right: "a" },
+            { type: "changed", left: "b", right: "B" },
+            { type: "same", left: "c", right: "c" },
+            { type: "same", left: "d", right: "d" },
+            { type: "added", right: "e" },
+        ]);
+    });
+
+    it("marks lines missing on the right as removed", () => {
+        expect(diffLines(["a", "b", "c"], ["a", "c"])).toEqual([
+            { type: "same", left: "a", right: "a" },
+            { type: "removed", left: "b" },
+            { type: "same", left: "c", right: "c" },
+        ]);
+    });
+});
+
+describe("diffTables", () => {
+    it("compares tables with the same index cell by cell", () => {
+        const [first, second] = diffTables(
+            [
+                [
+                    ["구분", "금액"],
+                    ["재료비", "100"],
+                ],
+            ],
+            [
+                [
+                    ["구분", "금액"],
+                    ["재료비", "200"],
+                    ["인건비", "300"],
+                ],
+                [["새 표"]],
+            ],
+        );
+
+        expect([...first.changedCells]).toEqual(["1:1", "2:0", "2:1"]);
+        expect(second.left).toBeNull();
+        expect([...second.changedCells]).toEqual(["0:0"]);
+    });
+});
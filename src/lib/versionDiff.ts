@@ -0,0 +1,216 @@
+/**
+ * 문서 버전 비교 (버전 기록 패널)
+ *
+ * Tiptap JSON에서 본문 문단과 표를 분리해 추출하고,
+ * 본문은 줄 단위 LCS diff, 표는 같은 순번의 표끼리 셀 단위로 비교합니다.
+ */
+
+import type { JSONContent } from "@tiptap/react";
+
+export type TableMatrix = string[][];
+
+export interface VersionBlocks {
+    /** 표를 제외한 문단/제목 텍스트 (한 블록 = 한 줄) */
+    lines: string[];
+    tables: TableMatrix[];
+}
+
+export type DiffRowType = "same" | "added" | "removed" | "changed";
+
+export interface DiffRow {
+    type: DiffRowType;
+    left?: string;
+    right?: string;
+}
+
+export interface TableDiff {
+    index: number;
+    left: TableMatrix | null;
+    right: TableMatrix | null;
+    /** 변경된 셀 ("행:열") */
+    changedCells: Set<string>;
+}
+
+// LCS 표 크기 상한 (이보다 크면 앞뒤 공통 부분만 맞추고 나머지는 변경으로 표시)
+const MAX_LCS_CELLS = 1_000_000;
+
+const nodeText = (node: JSONContent): string => {
+    if (node.type === "text") return node.text || "";
+    if (node.type === "hardBreak") return "\n";
+    return (node.content || []).map(nodeText).join("");
+};
+
+const tableToMatrix = (table: JSONContent): TableMatrix =>
+    (table.content || []).map((row) =>
+        (row.content || []).map((cell) =>
+            (cell.content || [])
+                .map(nodeText)
+                .join(" ")
+                .trim(),
+        ),
+    );
+
+/**
+ * 버전 내용에서 본문 줄과 표 추출 (JSON이 없으면 plain_text 줄 사용)
+ */
+export const extractVersionBlocks = (
+    content: JSONContent | null | undefined,
+    plainText?: string | null,
+): VersionBlocks => {
+    if (!content || content.type !== "doc" || !content.content?.length) {
+        return {
+            lines: (plainText || "")
+                .split("\n")
+                .map((line) => line.trim())
+                .filter(Boolean),
+            tables: [],
+        };
+    }
+
+    const lines: string[] = [];
+    const tables: TableMatrix[] = [];
+    for (const node of content.content) {
+        if (node.type === "table") {
+            tables.push(tableToMatrix(node));
+            continue;
+        }
+        const text = nodeText(node).trim();
+        if (!text) continue;
+        const prefix =
+            node.type === "heading"
+                ? `${"#".repeat(node.attrs?.level || 1)} `
+                : "";
+        lines.push(prefix + text);
+    }
+    return { lines, tables };
+};
+
+// 연속된 삭제/추가 줄을 좌우로 짝지어 "changed" 행으로 합침
+const pairChanges = (removed: string[], added: string[]): DiffRow[] => {
+    const rows: DiffRow[] = [];
+    const length = Math.max(removed.length, added.length);
+    for (let i = 0; i < length; i++) {
+        const left = removed[i];
+        const right = added[i];
+        if (left !== undefined && right !== undefined) {
+            rows.push({ type: "changed", left, right });
+        } else if (left !== undefined) {
+            rows.push({ type: "removed", left });
+        } else {
+            rows.push({ type: "added", right });
+        }
+    }
+    return rows;
+};
+
+/**
+ * 줄 단위 좌우 비교 (왼쪽: 이전 버전, 오른쪽: 비교 대상)
+ */
+export const diffLines = (left: string[], right: string[]): DiffRow[] => {
+    // 앞뒤 공통 줄은 LCS 계산에서 제외
+    let start = 0;
+    while (
+        start < left.length &&
+        start < right.length &&
+        left[start] === right[start]
+    ) {
+        start++;
+    }
+    let endLeft = left.length;
+    let endRight = right.length;
+    while (
+        endLeft > start &&
+        endRight > start &&
+        left[endLeft - 1] === right[endRight - 1]
+    ) {
+        endLeft--;
+        endRight--;
+    }
+
+    const rows: DiffRow[] = left
+        .slice(0, start)
+        .map((line): DiffRow => ({ type: "same", left: line, right: line }));
+
+    const a = left.slice(start, endLeft);
+    const b = right.slice(start, endRight);
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        rows.push(...pairChanges(a, b));
+    } else {
+        // lcs[i][j] = a[i..], b[j..] 의 최장 공통 부분열 길이
+        const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+            new Array<number>(b.length + 1).fill(0),
+        );
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i][j] =
+                    a[i] === b[j]
+                        ? lcs[i + 1][j + 1] + 1
+                        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        let removed: string[] = [];
+        let added: string[] = [];
+        const flush = () => {
+            rows.push(...pairChanges(removed, added));
+            removed = [];
+            added = [];
+        };
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                flush();
+                rows.push({ type: "same", left: a[i], right: b[j] });
+                i++;
+                j++;
+            } else if (
+                j >= b.length ||
+                (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+            ) {
+                removed.push(a[i++]);
+            } else {
+                added.push(b[j++]);
+            }
+        }
+        flush();
+    }
+
+    rows.push(
+        ...left
+            .slice(endLeft)
+            .map((line): DiffRow => ({ type: "same", left: line, right: line })),
+    );
+    return rows;
+};
+
+/**
+ * 같은 순번의 표끼리 셀 단위 비교
+ */
+export const diffTables = (
+    left: TableMatrix[],
+    right: TableMatrix[],
+): TableDiff[] => {
+    const diffs: TableDiff[] = [];
+    const count = Math.max(left.length, right.length);
+    for (let index = 0; index < count; index++) {
+        const l = left[index] ?? null;
+        const r = right[index] ?? null;
+        const changedCells = new Set<string>();
+        const rowCount = Math.max(l?.length ?? 0, r?.length ?? 0);
+        for (let row = 0; row < rowCount; row++) {
+            const colCount = Math.max(
+                l?.[row]?.length ?? 0,
+                r?.[row]?.length ?? 0,
+            );
+            for (let col = 0; col < colCount; col++) {
+                if ((l?.[row]?.[col] ?? "") !== (r?.[row]?.[col] ?? "")) {
+                    changedCells.add(`${row}:${col}`);
+                }
+            }
+        }
+        diffs.push({ index, left: l, right: r, changedCells });
+    }
+    return diffs;
+};
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Link2Off, Loader2, LogIn } from "lucide-react";
+import AuthModal from "@/components/AuthModal";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { PENDING_SHARE_TOKEN_KEY } from "@/hooks/useDocumentShareLinks";
+
+/**
+ * 공유 링크(/app/share/:token) 진입 화면
+ * 로그인한 사용자를 링크의 권한으로 문서 멤버에 추가한 뒤 문서로 이동
+ */
+export default function AcceptShareLink() {
+    const { token } = useParams<{ token: string }>();
+    const navigate = useNavigate();
+    const { user, loading } = useAuth();
+    const [error, setError] = useState<string | null>(null);
+    const [authMode, setAuthMode] = useState<"login" | "signup">("login");
+    const [isAuthOpen, setIsAuthOpen] = useState(false);
+    const acceptedRef = useRef(false);
+
+    useEffect(() => {
+        if (loading || !user || !token || acceptedRef.current) return;
+        acceptedRef.current = true;
+        sessionStorage.removeItem(PENDING_SHARE_TOKEN_KEY);
+
+        const accept = async () => {
+            const { data: documentId, error } = await supabase.rpc(
+                "accept_document_share_link",
+                { p_token: token },
+            );
+
+            if (error || !documentId) {
+                console.error("Error accepting share link:", error);
+                setError(
+                    error?.message.includes("INVALID_SHARE_LINK")
+                        ? "만료되었거나 삭제된 공유 링크입니다."
+                        : "공유 문서를 여는 데 실패했습니다.",
+                );
+                return;
+            }
+
+            navigate(`/app/document/${documentId}`, { replace: true });
+        };
+
+        accept();
+    }, [loading, user, token, navigate]);
+
+    if (!loading && !user) {
+        return (
+            <div className="h-full flex items-center justify-center p-4">
+                <div className="bg-card border border-border rounded-2xl p-8 text-center shadow-lg max-w-md">
+                    <LogIn size={48} className="mx-auto text-primary mb-4" />
+                    <h3 className="text-xl font-bold text-foreground mb-2">
+                        공유받은 문서를 열려면
+                        <br />
+                        로그인이 필요합니다
+                    </h3>
+                    <p className="text-muted-foreground mb-6 text-sm">
+                        로그인하면 공유받은 권한으로 문서에 바로 참여합니다.
+                    </p>
+                    <Button
+                        className="w-full"
+                        onClick={() => {
+                            if (token) {
+                                sessionStorage.setItem(PENDING_SHARE_TOKEN_KEY, token);
+                            }
+                            setAuthMode("login");
+                            setIsAuthOpen(true);
+                        }}
+                    >
+                        로그인하기
+                    </Button>
+                </div>
+                <AuthModal
+                    isOpen={isAuthOpen}
+                    onClose={() => setIsAuthOpen(false)}
+                    mode={authMode}
+                    setMode={setAuthMode}
+                />
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="h-full flex items-center justify-center p-4">
+                <div className="bg-card border border-border rounded-2xl p-8 text-center shadow-lg max-w-md">
+                    <Link2Off
+                        size={48}
+                        className="mx-auto text-muted-foreground mb-4"
+                    />
+                    <h3 className="text-xl font-bold text-foreground mb-2">
+                        문서를 열 수 없습니다
+                    </h3>
+                    <p className="text-muted-foreground mb-6 text-sm">
+                        {error}
+                    </p>
+                    <Button className="w-full" onClick={() => navigate("/app")}>
+                        내 문서함으로 이동
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+    );
+}
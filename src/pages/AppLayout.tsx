@@ -4,6 +4,7 @@ import { AppSidebar } from "@/components/app/AppSidebar";
 import { ItemInputModal } from "@/components/app/ItemInputModal";
 import { useAuth } from "@/hooks/useAuth";
 import { useDocuments } from "@/hooks/useDocuments";
+import { PENDING_SHARE_TOKEN_KEY } from "@/hooks/useDocumentShareLinks";
 import { Loader2, FileText, Plus, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -42,6 +43,15 @@ export default function AppLayout() {
     }, 150);
   };
 
+  // 공유 링크에서 로그인한 경우 링크 수락 화면으로 복귀
+  useEffect(() => {
+    if (!user) return;
+    const pendingShareToken = sessionStorage.getItem(PENDING_SHARE_TOKEN_KEY);
+    if (pendingShareToken && !location.pathname.startsWith("/app/share/")) {
+      navigate(`/app/share/${pendingShareToken}`, { replace: true });
+    }
+  }, [user, location.pathname, navigate]);
+
   // [랜딩 로직] 무료 회원/비로그인 사용자 문서가 0개일 때만 입력창 자동 오픈
   // 문서가 1개 이상 있으면 구독 제한 모달 표시
   useEffect(() => {
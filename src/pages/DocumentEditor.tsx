@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useNavigate, useLocation } from "react-router-dom";
 import {
     MessageSquare,
@@ -6,10 +6,13 @@ import {
     Loader2,
     Lock,
     LogIn,
-    ChevronDown,
-    ChevronUp,
+    History,
+    Users,
+    MessageSquareText,
+    FileUp,
 } from "lucide-react";
 import html2canvas from "html2canvas";
+import type { Editor, JSONContent } from "@tiptap/react";
 import { supabase } from "@/integrations/supabase/client";
 import {
     TiptapEditor,
@@ -28,17 +31,52 @@ import {
     BusinessInfo,
 } from "@/components/app/BusinessInfoPanel";
 import {
+    extractChartDataFromDoc,
     extractChartDataFromText,
     removeChartDataFromText,
 } from "@/utils/chartDataParser";
+import { importDocxFile } from "@/utils/docxImport";
+import { uploadEditorImage } from "@/utils/imageUpload";
+import { importHwpxFile } from "@/utils/hwpxImportService";
+import { parseEditorContent } from "@/utils/editorParser";
+import {
+    renderStructuredPlan,
+    type StructuredPlan,
+} from "@/utils/structuredPlan";
 import { EditableMarkdownContent } from "@/components/hwpx/EditableMarkdownContent";
-import { HwpxDiagnosticTests } from "@/components/app/HwpxDiagnosticTests";
+import { VersionHistoryPanel } from "@/components/app/VersionHistoryPanel";
+import { ShareDocumentDialog } from "@/components/app/ShareDocumentDialog";
+import { DocumentCommentsPanel } from "@/components/app/DocumentCommentsPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { useDebouncedCallback } from "@/hooks/useDebouncedCallback";
+import { useSectionRegeneration } from "@/hooks/useSectionRegeneration";
+import { useInlineRewrite } from "@/hooks/useInlineRewrite";
+import {
+    useDocumentVersions,
+    type DocumentVersion,
+    type DocumentVersionSource,
+} from "@/hooks/useDocumentVersions";
+import {
+    getCollaborationSaveState,
+    type CollaborationSession,
+    type Collaborator,
+} from "@/hooks/useDocumentCollaboration";
+import {
+    canEditDocument,
+    isDocumentRole,
+    type DocumentRole,
+} from "@/lib/documentRoles";
+import {
+    getGrantProgram,
+    getGrantProgramBySupportType,
+    usesFieldGroup,
+    type GrantType,
+} from "@/lib/grantPrograms";
+import { type CustomOutline, parseCustomOutline } from "@/lib/customOutline";
 // PdfUploader removed - PDF text extraction now integrated into AI assistant
 
 /**
@@ -277,6 +315,9 @@ interface DocumentData {
     updated_at: string;
     support_type?: string;
     hwpx_template_path?: string;
+    custom_outline?: unknown;
+    collab_version?: number;
+    user_id?: string;
 }
 
 export default function DocumentEditor() {
@@ -305,8 +346,23 @@ export default function DocumentEditor() {
     // 무료 회원을 위한 스크롤 감지 상태 (구독 유도 버튼 표시용)
     const [showSubscriptionCTA, setShowSubscriptionCTA] = useState(false);
 
-    // HWPX 진단 테스트 패널 토글
-    const [showDiagnosticTests, setShowDiagnosticTests] = useState(false);
+    // 버전 기록 패널
+    const [showVersionHistory, setShowVersionHistory] = useState(false);
+
+    // 공동 편집 멤버 관리 / 현재 접속 중인 다른 참여자
+    const [showShareDialog, setShowShareDialog] = useState(false);
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+    // 공유 권한 (뷰어/댓글 작성자는 읽기 전용) 및 검토 댓글 패널
+    const [documentRole, setDocumentRole] = useState<DocumentRole | null>(
+        null,
+    );
+    const [showComments, setShowComments] = useState(false);
+    const [commentQuote, setCommentQuote] = useState("");
+
+    // 기존 사업계획서(.docx / 내보낸 .hwpx) 불러오기
+    const [importing, setImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // PDF uploader removed - PDF text extraction now integrated into AI assistant
 
@@ -317,6 +373,14 @@ export default function DocumentEditor() {
     const chartPreviewRef = useRef<ChartPreviewHandle>(null);
     const businessInfoRef = useRef<BusinessInfoPanelHandle>(null);
 
+    // 스트리밍 콜백(handleDocumentContent)에서 최신 값을 읽기 위한 ref
+    const titleRef = useRef("");
+    const plainTextRef = useRef("");
+    titleRef.current = title;
+    plainTextRef.current = plainText;
+    // 이번 AI 작성 스트림의 시작 전 백업을 이미 남겼는지 여부
+    const aiSnapshotTakenRef = useRef(false);
+
     // 2026 초기창업패키지 일반현황 정보
     const [businessInfo, setBusinessInfo] = useState<BusinessInfo | null>(null);
 
@@ -331,6 +395,8 @@ export default function DocumentEditor() {
         profile?.plan_type === "monthly" || profile?.plan_type === "season";
     const isRestrictedUser = !isPaidUser;
     const isGuestUser = !user;
+    const canEdit = canEditDocument(documentRole);
+    const sharingEnabled = !!user && !!id && !id.startsWith("guest-");
 
     // [확인됨] 여기서 파일 경로를 받습니다.
     const initialPrompt = (location.state as any)?.initialPrompt;
@@ -342,44 +408,120 @@ export default function DocumentEditor() {
     const stateHwpxParsedPlainText = (location.state as any)
         ?.hwpxParsedPlainText;
     const stateHwpxTemplatePath = (location.state as any)?.hwpxTemplatePath;
+    const stateCustomOutline = (
+        location.state as { customOutline?: CustomOutline } | null
+    )?.customOutline;
 
     // Derive grantType and hwpxTemplatePath from database OR location.state
     // Database takes precedence for persistence across sessions
+    // 자유양식(custom) 문서 중 사용자 정의 목차가 있는 문서는 HWPX 템플릿 흐름을 타지 않음
+    const hasCustomOutline = !!(document?.custom_outline || stateCustomOutline);
     const isCustomTemplate =
-        document?.support_type === "custom" || stateIsCustomTemplate;
-
-    // Map support_type to grantType
-    const deriveGrantTypeFromSupportType = (
-        supportType?: string,
-    ):
-        | "PRE_STARTUP"
-        | "YOUTH_ACADEMY"
-        | "EARLY_STARTUP"
-        | "STARTUP_CENTRAL"
-        | "CUSTOM" => {
-        switch (supportType) {
-            case "early_startup":
-                return "EARLY_STARTUP";
-            case "youth_academy":
-                return "YOUTH_ACADEMY";
-            case "custom":
-                return "CUSTOM";
-            case "preliminary":
-            default:
-                return "PRE_STARTUP";
-        }
-    };
+        (document?.support_type === "custom" && !hasCustomOutline) ||
+        stateIsCustomTemplate;
 
-    const grantType = isCustomTemplate
+    // Map support_type to grantType via the grant-program registry
+    const grantType: GrantType = isCustomTemplate
         ? "CUSTOM"
         : stateGrantType ||
-          deriveGrantTypeFromSupportType(document?.support_type);
-    const supportType =
-        document?.support_type ||
-        (stateGrantType === "EARLY_STARTUP" ? "early_startup" : "preliminary");
+          getGrantProgramBySupportType(document?.support_type).id;
+    const grantProgram = getGrantProgram(grantType);
+    const supportType = document?.support_type || grantProgram.supportType;
     const hwpxTemplatePath =
         document?.hwpx_template_path || stateHwpxTemplatePath;
     const hwpxParsedPlainText = stateHwpxParsedPlainText;
+    const customOutline =
+        grantType === "CUSTOM" && !isCustomTemplate
+            ? parseCustomOutline(document?.custom_outline ?? stateCustomOutline)
+            : null;
+
+    const getEditor = useCallback(() => editorRef.current?.editor, []);
+
+    // HWPX 내보내기용 차트 데이터 (AI 응답의 [CHART_DATA] 우선, 없으면 문서 속 차트 노드)
+    const exportChartData = useMemo<ChartData>(
+        () => ({ ...extractChartDataFromDoc(content), ...chartData }),
+        [content, chartData],
+    );
+
+    // 실시간 공동 편집 (로그인 사용자의 일반 에디터 문서만, HWPX 템플릿 문서는 제외)
+    const collaborationSession = useMemo<CollaborationSession | null>(
+        () =>
+            user && id && !id.startsWith("guest-") && document && !isCustomTemplate
+                ? {
+                      documentId: id,
+                      version: document.collab_version ?? 0,
+                      user: {
+                          id: user.id,
+                          name:
+                              profile?.display_name ||
+                              user.email?.split("@")[0] ||
+                              "참여자",
+                      },
+                  }
+                : null,
+        [user, id, document, isCustomTemplate, profile?.display_name],
+    );
+
+    // 버전 기록 (AI 작성 / 수동 저장 / 복원 시점 스냅샷)
+    const {
+        versions,
+        loading: versionsLoading,
+        enabled: versionsEnabled,
+        fetchVersions,
+        getVersion,
+        createVersion,
+    } = useDocumentVersions(id);
+
+    const snapshotVersion = useCallback(
+        (
+            source: DocumentVersionSource,
+            options: {
+                content?: JSONContent;
+                plainText?: string;
+                label?: string;
+            } = {},
+        ) => {
+            if (!canEdit) return Promise.resolve(null);
+            const editor = editorRef.current?.editor;
+            const versionContent = isCustomTemplate
+                ? null
+                : (options.content ?? editor?.getJSON() ?? editorContentRef.current);
+            const versionText =
+                options.plainText ??
+                (isCustomTemplate ? plainTextRef.current : editor?.getText()) ??
+                plainTextRef.current;
+            return createVersion({
+                title: titleRef.current,
+                content: versionContent,
+                plainText: versionText,
+                source,
+                label: options.label,
+            });
+        },
+        [canEdit, isCustomTemplate, createVersion],
+    );
+
+    // 장 단위 다시 쓰기 (에디터 제목의 "다시 쓰기" 버튼)
+    const { regenerateSection } = useSectionRegeneration({
+        getEditor,
+        documentId: id,
+        grantType,
+        customOutline,
+        isStreaming,
+        onBeforeApply: async () => {
+            await snapshotVersion("before_ai");
+        },
+        onApplied: (heading) =>
+            snapshotVersion("ai_generation", {
+                label: `섹션 다시 쓰기: ${heading}`,
+            }),
+    });
+
+    // 선택 영역 다듬기 (에디터 버블 메뉴)
+    const { rewriteSelection, cancelRewrite, isRewriting } = useInlineRewrite({
+        getEditor,
+        documentId: id,
+    });
 
     // Debug logging
     console.log(
@@ -407,8 +549,10 @@ export default function DocumentEditor() {
         setTitle("");
         setContent(null);
         setPlainText("");
+        setDocumentRole(null);
         setLoading(true);
         editorContentRef.current = null;
+        aiSnapshotTakenRef.current = false;
 
         const fetchDocument = async () => {
             if (!id) return;
@@ -419,6 +563,7 @@ export default function DocumentEditor() {
                     const stored = localStorage.getItem("guest_document");
                     if (stored) {
                         const guestDoc = JSON.parse(stored);
+                        setDocumentRole("owner");
                         setDocument(guestDoc);
                         setTitle(guestDoc.title);
                         setContent(guestDoc.content || {});
@@ -461,6 +606,20 @@ export default function DocumentEditor() {
                     return;
                 }
 
+                // 공유받은 문서면 멤버 권한 확인 (에디터 생성 전에 결정해야 AI 기능 노출이 맞음)
+                const {
+                    data: { user: authUser },
+                } = await supabase.auth.getUser();
+                let role: DocumentRole = "owner";
+                if (authUser && data.user_id !== authUser.id) {
+                    const { data: memberRole } = await supabase.rpc(
+                        "document_role",
+                        { _document_id: id, _user_id: authUser.id },
+                    );
+                    role = isDocumentRole(memberRole) ? memberRole : "viewer";
+                }
+
+                setDocumentRole(role);
                 setDocument(data);
                 setTitle(data.title);
                 setContent(data.content || {});
@@ -541,7 +700,20 @@ export default function DocumentEditor() {
     }, [plainText, isRestrictedUser, showSubscriptionCTA]);
 
     const saveDocument = async (showToast = false) => {
-        if (!id) return;
+        if (!id || !canEdit) return;
+
+        // 공동 편집 중 아직 전송되지 않은 변경이 있으면 내용과 step 버전이 어긋나므로 동기화 후 저장
+        const collabState = getCollaborationSaveState(editorRef.current?.editor);
+        if (collabState && !collabState.synced) {
+            debouncedSave();
+            if (showToast)
+                toast({
+                    title: "동기화 중",
+                    description: "공동 편집 변경 사항을 반영한 뒤 저장합니다.",
+                });
+            return;
+        }
+
         setSaving(true);
 
         try {
@@ -571,14 +743,20 @@ export default function DocumentEditor() {
             }
 
             // Regular document - save to database
-            const { error } = await supabase
+            let query = supabase
                 .from("documents")
                 .update({
                     title,
                     content: editorContentRef.current,
                     plain_text: plainText,
+                    ...(collabState && { collab_version: collabState.version }),
                 })
                 .eq("id", id);
+            // 다른 참여자가 더 최신 버전을 이미 저장했다면 덮어쓰지 않음
+            if (collabState) {
+                query = query.lte("collab_version", collabState.version);
+            }
+            const { error } = await query;
 
             if (error) throw error;
             if (showToast)
@@ -627,6 +805,15 @@ export default function DocumentEditor() {
             );
             setIsStreaming(isCurrentlyStreaming);
 
+            // AI가 내용을 덮어쓰기 전에 현재 문서를 한 번 백업
+            if (isCurrentlyStreaming && !aiSnapshotTakenRef.current) {
+                aiSnapshotTakenRef.current = true;
+                snapshotVersion("before_ai");
+            }
+            if (!isCurrentlyStreaming) {
+                aiSnapshotTakenRef.current = false;
+            }
+
             // 채팅 메시지 업데이트 (BusinessInfoPanel에서 사용자 입력 정보 추출용)
             if (chatPanelRef.current) {
                 const messages = chatPanelRef.current.getMessages();
@@ -668,6 +855,9 @@ export default function DocumentEditor() {
                 setPlainText(mergedContent);
 
                 if (!isCurrentlyStreaming) {
+                    snapshotVersion("ai_generation", {
+                        plainText: mergedContent,
+                    });
                     debouncedSave();
                 }
                 return;
@@ -696,19 +886,220 @@ export default function DocumentEditor() {
                             setContent(finalContent);
                             editorContentRef.current = finalContent;
                             setPlainText(finalText);
+                            snapshotVersion("ai_generation", {
+                                content: finalContent,
+                                plainText: finalText,
+                            });
                         }
                         // Save immediately when streaming completes (not debounced)
                         saveDocument(false);
                     }, 100);
                 } else {
                     // Custom template: content is already in plainText, just save immediately
+                    snapshotVersion("ai_generation", {
+                        plainText: cleanedContent,
+                    });
                     saveDocument(false);
                 }
             }
         },
-        [isCustomTemplate, hwpxParsedPlainText],
+        [isCustomTemplate, hwpxParsedPlainText, snapshotVersion],
     );
 
+    // 구조화 작성 결과: 검증된 JSON 값으로 문서를 새로 만들어 교체 (태그·제목 해석 없음)
+    const handleStructuredPlan = useCallback(
+        async (plan: StructuredPlan) => {
+            const editor = editorRef.current?.editor;
+            if (!editor) return;
+
+            const {
+                content: generated,
+                businessInfo,
+                chartData: planChartData,
+            } = renderStructuredPlan(plan, grantProgram);
+
+            await snapshotVersion("before_ai");
+            editor.commands.setContent(generated);
+            handleContentUpdate(editor.getJSON(), editor.getText());
+            snapshotVersion("ai_generation", {
+                content: editor.getJSON(),
+                plainText: editor.getText(),
+            });
+
+            if (Object.keys(planChartData).length > 0) {
+                setChartData(planChartData);
+            }
+            if (Object.keys(businessInfo).length > 0) {
+                businessInfoRef.current?.setBusinessInfo(businessInfo);
+            }
+            if (chatPanelRef.current) {
+                const messages = chatPanelRef.current.getMessages();
+                setChatMessagesContent(
+                    messages.map((m) => m.content).join("\n"),
+                );
+            }
+        },
+        [grantProgram, snapshotVersion, handleContentUpdate],
+    );
+
+    // 저장 버튼: 저장 후 수동 저장 버전으로 기록
+    const handleManualSave = async () => {
+        await saveDocument(true);
+        snapshotVersion("manual_save");
+    };
+
+    const handleOpenVersionHistory = () => {
+        fetchVersions();
+        setShowVersionHistory(true);
+    };
+
+    // 에디터에서 선택한 부분을 인용해 댓글 패널 열기
+    const handleOpenComments = () => {
+        const editor = editorRef.current?.editor;
+        let quote = "";
+        if (editor && !editor.state.selection.empty) {
+            const { from, to } = editor.state.selection;
+            quote = editor.state.doc.textBetween(from, to, " ");
+        } else if (isCustomTemplate) {
+            quote = window.getSelection()?.toString() || "";
+        }
+        setCommentQuote(quote);
+        setShowComments(true);
+    };
+
+    // 선택한 버전으로 복원 (현재 내용은 먼저 백업)
+    const handleRestoreVersion = async (version: DocumentVersion) => {
+        await snapshotVersion("before_restore");
+
+        if (isCustomTemplate) {
+            setPlainText(version.plain_text || "");
+        } else {
+            const editor = editorRef.current?.editor;
+            if (!editor) return;
+            editor.commands.setContent(version.content as JSONContent);
+            handleContentUpdate(editor.getJSON(), editor.getText());
+        }
+        debouncedSave();
+
+        setShowVersionHistory(false);
+        toast({
+            title: "복원 완료",
+            description: "선택한 버전으로 문서를 되돌렸습니다.",
+        });
+    };
+
+    // 불러온 문서가 지원사업 양식 항목으로 몇 개 인식되는지 확인
+    const countRecognizedFields = (content: JSONContent, text: string) =>
+        Object.values(parseEditorContent(content, text, grantProgram)).filter(
+            (value) => value?.trim(),
+        ).length;
+
+    const importDocx = async (file: File, editor: Editor) => {
+        // 이미지는 스토리지에 올려 URL로 넣음 (게스트는 올릴 수 없어 이미지를 건너뜀)
+        const { content: imported, stats } = await importDocxFile(file, {
+            uploadImage: user ? uploadEditorImage : undefined,
+        });
+
+        await snapshotVersion("before_import", { label: file.name });
+        editor.commands.setContent(imported);
+        handleContentUpdate(editor.getJSON(), editor.getText());
+
+        const recognized = countRecognizedFields(
+            editor.getJSON(),
+            editor.getText(),
+        );
+        toast({
+            title: "불러오기 완료",
+            description:
+                `${file.name}에서 제목 ${stats.headings}개, 표 ${stats.tables}개, ` +
+                `이미지 ${stats.images}개를 불러왔습니다. ` +
+                (stats.skippedImages
+                    ? `이미지 ${stats.skippedImages}개는 올리지 못해 제외했습니다. `
+                    : "") +
+                `양식 항목 ${recognized}개가 인식되었습니다.`,
+        });
+    };
+
+    // 이 서비스에서 내보낸 HWPX: 원본 양식과 비교해 항목 값과 사업자 정보를 복원
+    const importHwpx = async (file: File, editor: Editor) => {
+        const { content: imported, businessInfo, report } =
+            await importHwpxFile(file, grantProgram);
+
+        await snapshotVersion("before_import", { label: file.name });
+        editor.commands.setContent(imported);
+        handleContentUpdate(editor.getJSON(), editor.getText());
+        businessInfoRef.current?.setBusinessInfo(businessInfo);
+
+        const unmatched = report.unmatchedPlaceholders.length;
+        toast({
+            title: "불러오기 완료",
+            description:
+                `${file.name}에서 양식 항목 ` +
+                `${report.recoveredPlaceholders.length}개를 복원했습니다.` +
+                (unmatched > 0
+                    ? ` 위치를 찾지 못한 항목 ${unmatched}개는 비워 두었습니다.`
+                    : ""),
+        });
+    };
+
+    // 문서 불러오기 (.docx / .hwpx): 현재 내용은 먼저 백업한 뒤 에디터 내용을 교체
+    const handleImportFile = async (
+        e: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        const fileName = file.name.toLowerCase();
+        const isHwpx = fileName.endsWith(".hwpx");
+        if (!isHwpx && !fileName.endsWith(".docx")) {
+            toast({
+                variant: "destructive",
+                title: "지원하지 않는 파일 형식",
+                description:
+                    "Word 문서(.docx) 또는 한글 문서(.hwpx)만 불러올 수 있습니다.",
+            });
+            return;
+        }
+        if (isHwpx && !grantProgram.hwpxTemplate) {
+            toast({
+                variant: "destructive",
+                title: "지원하지 않는 파일 형식",
+                description: `${grantProgram.name}은 HWPX 불러오기를 지원하지 않습니다.`,
+            });
+            return;
+        }
+        if (file.size > 20 * 1024 * 1024) {
+            toast({
+                variant: "destructive",
+                title: "파일 크기 초과",
+                description: "20MB 이하의 파일만 불러올 수 있습니다.",
+            });
+            return;
+        }
+
+        const editor = editorRef.current?.editor;
+        if (!editor) return;
+
+        setImporting(true);
+        try {
+            if (isHwpx) await importHwpx(file, editor);
+            else await importDocx(file, editor);
+        } catch (error) {
+            console.error("Document import error:", error);
+            toast({
+                variant: "destructive",
+                title: "불러오기 실패",
+                description: isHwpx
+                    ? "한글 문서를 읽는 중 오류가 발생했습니다. " +
+                      "이 서비스에서 내보낸 양식인지 확인해 주세요."
+                    : "Word 문서를 읽는 중 오류가 발생했습니다.",
+            });
+        } finally {
+            setImporting(false);
+        }
+    };
+
     // 3개 차트 캡처 함수
     const getChartImages = async (): Promise<{
         image_market_growth?: string;
@@ -784,6 +1175,7 @@ export default function DocumentEditor() {
                 <Input
                     value={title}
                     onChange={handleTitleChange}
+                    readOnly={!canEdit}
                     className="text-lg font-semibold border-none bg-transparent focus-visible:ring-0 px-0 h-auto"
                     placeholder="제목 없는 문서"
                 />
@@ -794,6 +1186,7 @@ export default function DocumentEditor() {
                         plainText={plainText}
                         grantType={grantType}
                         supportType={supportType}
+                        customOutline={customOutline}
                         hwpxTemplatePath={hwpxTemplatePath}
                         originalPlainText={hwpxParsedPlainText}
                         businessInfo={businessInfo}
@@ -813,27 +1206,107 @@ export default function DocumentEditor() {
                         }}
                         getChartImages={getChartImages}
                     />
-                    <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => saveDocument(true)}
-                        disabled={saving}
-                    >
-                        {saving ? (
-                            <Loader2 size={16} className="animate-spin mr-2" />
-                        ) : (
-                            <Save size={16} className="mr-2" />
-                        )}
-                        저장
-                    </Button>
-                    <Button
-                        variant={chatOpen ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setChatOpen(!chatOpen)}
-                    >
-                        <MessageSquare size={16} className="mr-2" />
-                        AI 어시스턴트
-                    </Button>
+                    {canEdit && !isCustomTemplate && (
+                        <>
+                            <input
+                                ref={importInputRef}
+                                type="file"
+                                accept=".docx,.hwpx"
+                                onChange={handleImportFile}
+                                className="hidden"
+                            />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => importInputRef.current?.click()}
+                                disabled={importing || isStreaming}
+                            >
+                                {importing ? (
+                                    <Loader2
+                                        size={16}
+                                        className="animate-spin mr-2"
+                                    />
+                                ) : (
+                                    <FileUp size={16} className="mr-2" />
+                                )}
+                                불러오기
+                            </Button>
+                        </>
+                    )}
+                    {canEdit && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleManualSave}
+                            disabled={saving}
+                        >
+                            {saving ? (
+                                <Loader2
+                                    size={16}
+                                    className="animate-spin mr-2"
+                                />
+                            ) : (
+                                <Save size={16} className="mr-2" />
+                            )}
+                            저장
+                        </Button>
+                    )}
+                    {collaborationSession && (
+                        <>
+                            {collaborators.length > 0 && (
+                                <div className="hidden sm:flex -space-x-2">
+                                    {collaborators.slice(0, 4).map((c) => (
+                                        <div
+                                            key={c.userId}
+                                            title={`${c.name} (접속 중)`}
+                                            className="h-7 w-7 rounded-full border-2 border-card text-white text-xs font-semibold flex items-center justify-center"
+                                            style={{ backgroundColor: c.color }}
+                                        >
+                                            {c.name.charAt(0)}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setShowShareDialog(true)}
+                            >
+                                <Users size={16} className="mr-2" />
+                                공유
+                            </Button>
+                        </>
+                    )}
+                    {sharingEnabled && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleOpenComments}
+                        >
+                            <MessageSquareText size={16} className="mr-2" />
+                            댓글
+                        </Button>
+                    )}
+                    {versionsEnabled && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleOpenVersionHistory}
+                        >
+                            <History size={16} className="mr-2" />
+                            버전 기록
+                        </Button>
+                    )}
+                    {canEdit && (
+                        <Button
+                            variant={chatOpen ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setChatOpen(!chatOpen)}
+                        >
+                            <MessageSquare size={16} className="mr-2" />
+                            AI 어시스턴트
+                        </Button>
+                    )}
                 </div>
             </header>
 
@@ -848,38 +1321,6 @@ export default function DocumentEditor() {
                     <div className="min-h-full">
                         {isCustomTemplate ? (
                             <div className="p-6 max-w-5xl mx-auto pb-32 space-y-4">
-                                {/* HWPX 진단 테스트 패널 */}
-                                <div className="border border-border rounded-lg overflow-hidden">
-                                    <button
-                                        onClick={() =>
-                                            setShowDiagnosticTests(
-                                                !showDiagnosticTests,
-                                            )
-                                        }
-                                        className="w-full flex items-center justify-between p-3 bg-accent/50 hover:bg-accent transition-colors text-sm font-medium"
-                                    >
-                                        <span>
-                                            🔬 HWPX 내보내기 진단 테스트
-                                        </span>
-                                        {showDiagnosticTests ? (
-                                            <ChevronUp size={16} />
-                                        ) : (
-                                            <ChevronDown size={16} />
-                                        )}
-                                    </button>
-                                    {showDiagnosticTests && (
-                                        <div className="p-4">
-                                            <HwpxDiagnosticTests
-                                                templatePath={hwpxTemplatePath}
-                                                markdownContent={plainText}
-                                                fileName={
-                                                    title || "custom_export"
-                                                }
-                                            />
-                                        </div>
-                                    )}
-                                </div>
-
                                 <EditableMarkdownContent
                                     key={`custom-${id}-${plainText.length}`}
                                     content={plainText}
@@ -887,6 +1328,7 @@ export default function DocumentEditor() {
                                         setPlainText(newContent);
                                         debouncedSave();
                                     }}
+                                    readOnly={!canEdit}
                                 />
                             </div>
                         ) : (
@@ -897,8 +1339,22 @@ export default function DocumentEditor() {
                                     content={content}
                                     onUpdate={handleContentUpdate}
                                     isStreaming={isStreaming}
+                                    editable={canEdit}
+                                    onRegenerateSection={
+                                        canEdit ? regenerateSection : undefined
+                                    }
+                                    onRewriteSelection={
+                                        canEdit ? rewriteSelection : undefined
+                                    }
+                                    onCancelRewrite={cancelRewrite}
+                                    isRewriting={isRewriting}
+                                    collaboration={collaborationSession}
+                                    onCollaboratorsChange={setCollaborators}
                                     slotAfterHeading={
-                                        grantType === "EARLY_STARTUP" ? (
+                                        usesFieldGroup(
+                                            grantProgram,
+                                            "generalInfo",
+                                        ) ? (
                                             <BusinessInfoPanel
                                                 ref={businessInfoRef}
                                                 defaultCompanyName={title}
@@ -955,22 +1411,66 @@ export default function DocumentEditor() {
                     )}
                 </div>
 
-                {chatOpen && (
+                {chatOpen && canEdit && (
                     <div className="w-full md:w-96 shrink-0 border-l border-border bg-card">
                         <ChatPanel
                             ref={chatPanelRef}
                             documentContext={plainText}
                             onDocumentContent={handleDocumentContent}
+                            onStructuredPlan={handleStructuredPlan}
                             documentId={id}
                             uploadedFilePath={uploadedFilePath}
                             uploadedFileName={uploadedFileName}
                             isCustomTemplate={isCustomTemplate}
                             grantType={grantType}
+                            customOutline={customOutline}
                         />
                     </div>
                 )}
             </div>
 
+            {/* 내보내기용 차트 캡처 영역 (화면 밖에 렌더링해 html2canvas로 이미지화) */}
+            {!isCustomTemplate && (
+                <div
+                    aria-hidden
+                    className="fixed top-0 -left-[10000px] w-[800px] pointer-events-none"
+                >
+                    <ChartPreview ref={chartPreviewRef} data={exportChartData} />
+                </div>
+            )}
+
+            {versionsEnabled && (
+                <VersionHistoryPanel
+                    open={showVersionHistory}
+                    onOpenChange={setShowVersionHistory}
+                    versions={versions}
+                    loading={versionsLoading}
+                    getVersion={getVersion}
+                    currentContent={isCustomTemplate ? null : content}
+                    currentPlainText={plainText}
+                    onRestore={canEdit ? handleRestoreVersion : undefined}
+                />
+            )}
+
+            {collaborationSession && (
+                <ShareDocumentDialog
+                    open={showShareDialog}
+                    onOpenChange={setShowShareDialog}
+                    documentId={id}
+                    collaborators={collaborators}
+                />
+            )}
+
+            {sharingEnabled && (
+                <DocumentCommentsPanel
+                    open={showComments}
+                    onOpenChange={setShowComments}
+                    documentId={id}
+                    role={documentRole}
+                    selectedText={commentQuote}
+                />
+            )}
+
             {/* 비로그인 사용자용 로그인 유도 오버레이 */}
             {isGuestUser && showGuestLoginOverlay && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center">
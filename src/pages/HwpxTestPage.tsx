@@ -31,16 +31,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EditableMarkdownContent } from "@/components/hwpx/EditableMarkdownContent";
-import {
-    exportCustomHwpx,
-    exportCustomHwpxPassthrough,
-    exportCustomHwpxJszipOnly,
-    exportCustomHwpxReadWriteOnly,
-    exportCustomHwpxSimpleReplace,
-    exportCustomHwpxRegexTest,
-    exportCustomHwpxEscapeTest,
-    exportCustomHwpxFull,
-} from "@/utils/hwpxCustomExportService";
+import { exportCustomHwpx } from "@/utils/hwpxCustomExportService";
 import {
     testDownloadRawTemplate,
     testJszipPassthrough,
@@ -188,214 +179,7 @@ export default function HwpxTestPage() {
         }
     };
 
-    // Test 1: Passthrough - just duplicate original file (CLIENT-SIDE)
-    const handlePassthroughTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({ title: "테스트 1: 원본 파일 복제 중...", duration: 3000 });
-
-            await exportCustomHwpxPassthrough(templatePath, "test_passthrough");
-
-            toast({
-                title: "테스트 1 완료",
-                description: "원본 파일 복제 성공. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("Passthrough test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 1 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 2: JSZip only (no modifications) - to test if JSZip itself corrupts the file
-    const handleJszipOnlyTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({
-                title: "테스트 2: JSZip 로드 후 재생성 (수정 없음)...",
-                duration: 3000,
-            });
-
-            await exportCustomHwpxJszipOnly(templatePath, "test_jszip_only");
-
-            toast({
-                title: "테스트 2 완료",
-                description: "JSZip 재생성 완료. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("JSZip-only test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 2 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 3: Read XML as string and write back unchanged - tests if zip.file(string) corrupts
-    const handleReadWriteTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({
-                title: "테스트 3: XML 읽기/쓰기 (수정 없음)...",
-                duration: 3000,
-            });
-
-            await exportCustomHwpxReadWriteOnly(templatePath, "test_readwrite");
-
-            toast({
-                title: "테스트 3 완료",
-                description: "XML 읽기/쓰기 완료. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("Read/Write test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 3 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 4: Simple hardcoded replacement
-    const handleSimpleReplaceTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({ title: "테스트 4: 간단한 텍스트 치환...", duration: 3000 });
-
-            await exportCustomHwpxSimpleReplace(
-                templatePath,
-                "test_simple_replace",
-            );
-
-            toast({
-                title: "테스트 4 완료",
-                description: "간단 치환 완료. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("Simple replace test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 4 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 5: Regex pattern test (same regex as full export but hardcoded values)
-    const handleRegexTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({ title: "테스트 5: Regex 패턴 테스트...", duration: 3000 });
-
-            await exportCustomHwpxRegexTest(templatePath, "test_regex");
-
-            toast({
-                title: "테스트 5 완료",
-                description: "Regex 패턴 치환 완료. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("Regex test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 5 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 6: Escape XML test (tests if escapeXmlChars is the problem)
-    const handleEscapeTest = async () => {
-        if (!templatePath) {
-            toast({
-                variant: "destructive",
-                title: "먼저 HWPX 파일을 업로드하고 분석해주세요.",
-            });
-            return;
-        }
-
-        setIsExporting(true);
-        try {
-            toast({ title: "테스트 6: Escape XML 테스트...", duration: 3000 });
-
-            await exportCustomHwpxEscapeTest(templatePath, "test_escape");
-
-            toast({
-                title: "테스트 6 완료",
-                description: "Escape XML 치환 완료. 한글에서 열어보세요.",
-            });
-        } catch (error) {
-            console.error("Escape test error:", error);
-            toast({
-                variant: "destructive",
-                title: "테스트 6 실패",
-                description:
-                    error instanceof Error ? error.message : "알 수 없는 오류",
-            });
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    // Test 7: Full export with changesMap (the actual logic)
+    // Full export (same path as the editor's custom form export)
     const handleFullExport = async () => {
         if (!templatePath || !markdownContent) {
             toast({
@@ -408,25 +192,25 @@ export default function HwpxTestPage() {
 
         setIsExporting(true);
         try {
-            toast({ title: "테스트 7: 전체 Export...", duration: 3000 });
+            toast({ title: "HWPX 내보내는 중...", duration: 3000 });
 
             const exportFileName =
                 hwpxFile?.name.replace(".hwpx", "") || "exported_document";
-            await exportCustomHwpxFull(
+            await exportCustomHwpx(
                 templatePath,
                 markdownContent,
                 `${exportFileName}_full`,
             );
 
             toast({
-                title: "테스트 7 완료",
-                description: "전체 Export 완료. 한글에서 열어보세요.",
+                title: "내보내기 완료",
+                description: "한글에서 열어보세요.",
             });
         } catch (error) {
             console.error("Full export error:", error);
             toast({
                 variant: "destructive",
-                title: "테스트 7 실패",
+                title: "내보내기 실패",
                 description:
                     error instanceof Error ? error.message : "알 수 없는 오류",
             });
@@ -645,134 +429,8 @@ export default function HwpxTestPage() {
                                     {/* Test Buttons */}
                                     <div className="flex flex-wrap gap-2 p-3 bg-accent/50 rounded-lg border">
                                         <span className="text-sm font-medium w-full mb-1">
-                                            내보내기 테스트:
+                                            내보내기:
                                         </span>
-                                        <Button
-                                            onClick={handlePassthroughTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="outline"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트1: 원본복제
-                                        </Button>
-                                        <Button
-                                            onClick={handleJszipOnlyTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="secondary"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트2: JSZip만
-                                        </Button>
-                                        <Button
-                                            onClick={handleReadWriteTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="secondary"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트3: XML읽기/쓰기
-                                        </Button>
-                                        <Button
-                                            onClick={handleSimpleReplaceTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="secondary"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트4: 간단치환
-                                        </Button>
-                                        <Button
-                                            onClick={handleRegexTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="secondary"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트5: Regex패턴
-                                        </Button>
-                                        <Button
-                                            onClick={handleEscapeTest}
-                                            disabled={
-                                                isExporting || !templatePath
-                                            }
-                                            variant="secondary"
-                                            size="sm"
-                                        >
-                                            {isExporting ? (
-                                                <Loader2
-                                                    size={16}
-                                                    className="animate-spin mr-2"
-                                                />
-                                            ) : (
-                                                <Download
-                                                    size={16}
-                                                    className="mr-2"
-                                                />
-                                            )}
-                                            테스트6: EscapeXml
-                                        </Button>
                                         <Button
                                             onClick={handleFullExport}
                                             disabled={
@@ -792,7 +450,7 @@ export default function HwpxTestPage() {
                                                     className="mr-2"
                                                 />
                                             )}
-                                            테스트7: 전체Export
+                                            HWPX 내보내기
                                         </Button>
                                     </div>
                                 </CardHeader>
@@ -0,0 +1,103 @@
+import type { JSONContent } from "@tiptap/core";
+import type {
+    DocumentStepLog,
+    DocumentStepRow,
+} from "@/lib/collaborationSync";
+
+interface LocalDocument {
+    content: JSONContent | null;
+    collabVersion: number;
+    steps: Map<number, DocumentStepRow>;
+}
+
+export interface LocalStepLog extends DocumentStepLog {
+    /**
+     * 문서 저장 (DocumentEditor.saveDocument와 같은 규칙)
+     * 더 최신 버전이 이미 저장되어 있으면 false, 저장하면 그 버전 이하 step을 압축
+     */
+    saveSnapshot(
+        documentId: string,
+        content: JSONContent,
+        version: number,
+    ): boolean;
+    /** 로그에 남아 있는 step 버전 목록 */
+    stepVersions(documentId: string): number[];
+}
+
+/**
+ * document_steps 테이블과 documents.collab_version을 메모리에서 흉내 내는 step 로그
+ * Supabase 없이 공동 편집 동기화를 테스트할 때 사용하며, 마이그레이션과 같은 규칙으로 동작
+ * - (document_id, version) 기본키: 이미 있는 버전을 쓰면 conflict
+ * - compact_document_steps 트리거: 저장하면 collab_version 이하 step 삭제
+ * - reject_compacted_document_steps 트리거: collab_version 이하 버전을 쓰면 compacted
+ */
+export function createLocalStepLog(): LocalStepLog {
+    const documents = new Map<string, LocalDocument>();
+
+    const getDocument = (documentId: string): LocalDocument => {
+        let document = documents.get(documentId);
+        if (!document) {
+            document = { content: null, collabVersion: 0, steps: new Map() };
+            documents.set(documentId, document);
+        }
+        return document;
+    };
+
+    return {
+        async pullSteps(documentId, afterVersion, limit) {
+            return [...getDocument(documentId).steps.values()]
+                .filter((row) => row.version > afterVersion)
+                .sort((a, b) => a.version - b.version)
+                .slice(0, limit);
+        },
+
+        async pushSteps(documentId, { version, steps, clientID }) {
+            const document = getDocument(documentId);
+            const rows = steps.map((step, index) => ({
+                version: version + index + 1,
+                // 테이블의 jsonb 컬럼처럼 값으로 저장
+                step: JSON.parse(JSON.stringify(step)),
+                client_id: clientID,
+            }));
+
+            if (rows.some((row) => row.version <= document.collabVersion)) {
+                return "compacted";
+            }
+            if (rows.some((row) => document.steps.has(row.version))) {
+                return "conflict";
+            }
+            for (const row of rows) document.steps.set(row.version, row);
+            return "ok";
+        },
+
+        async loadSnapshot(documentId) {
+            const document = getDocument(documentId);
+            return {
+                content: document.content,
+                version: document.collabVersion,
+            };
+        },
+
+        saveSnapshot(documentId, content, version) {
+            const document = getDocument(documentId);
+            if (document.collabVersion > version) return false;
+
+            document.content = content;
+            if (version > document.collabVersion) {
+                document.collabVersion = version;
+                for (const stepVersion of document.steps.keys()) {
+                    if (stepVersion <= version) {
+                        document.steps.delete(stepVersion);
+                    }
+                }
+            }
+            return true;
+        },
+
+        stepVersions(documentId) {
+            return [...getDocument(documentId).steps.keys()].sort(
+                (a, b) => a - b,
+            );
+        },
+    };
+}
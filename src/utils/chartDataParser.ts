@@ -3,6 +3,7 @@
  * Extracts [CHART_DATA] blocks and converts them to structured data
  */
 
+import type { JSONContent } from '@tiptap/react';
 import { 
   MarketGrowthData, 
   BusinessModelData, 
@@ -103,3 +104,32 @@ export function removeChartDataFromText(text: string): string {
 export function hasChartData(text: string): boolean {
   return text.includes('[CHART_DATA]') && text.includes('[/CHART_DATA]');
 }
+
+/**
+ * Collect chart data from chart nodes (chartBlock) in editor JSON content
+ * Used to re-render charts for export after the [CHART_DATA] block is gone
+ */
+export function extractChartDataFromDoc(doc: JSONContent | null | undefined): ParsedChartData {
+  const result: ParsedChartData = {};
+
+  const visit = (node: JSONContent) => {
+    if (node.type === 'chartBlock' && node.attrs?.chartDataStr) {
+      try {
+        const parsed = JSON.parse(node.attrs.chartDataStr);
+        if (node.attrs.type === 'market-growth' && Array.isArray(parsed) && !result.marketGrowth) {
+          result.marketGrowth = parsed;
+        } else if (node.attrs.type === 'bm-diagram' && parsed?.platform && !result.businessModel) {
+          result.businessModel = parsed;
+        } else if (node.attrs.type === 'tam-sam-som' && parsed?.tam && !result.tamSamSom) {
+          result.tamSamSom = parsed;
+        }
+      } catch (e) {
+        console.error('Failed to parse chart node data:', e);
+      }
+    }
+    node.content?.forEach(visit);
+  };
+
+  if (doc) visit(doc);
+  return result;
+}
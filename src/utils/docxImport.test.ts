@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { importDocxFile } from "./docxImport";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS =
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const A_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+
+const STYLES_XML =
+    `<w:styles xmlns:w="${W_NS}">` +
+    `<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>` +
+    `</w:styles>`;
+
+const NUMBERING_XML =
+    `<w:numbering xmlns:w="${W_NS}">` +
+    `<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>` +
+    `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+    `</w:numbering>`;
+
+const RELS_XML =
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId5" Type="${R_NS}/image" Target="media/image1.png"/>` +
+    `</Relationships>`;
+
+const run = (text: string, rPr = "") =>
+    `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ""}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+const numbered = (text: string) =>
+    `<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>${run(text)}</w:p>`;
+
+const cell = (text: string, tcPr = "") =>
+    `<w:tc>${tcPr ? `<w:tcPr>${tcPr}</w:tcPr>` : ""}<w:p>${run(text)}</w:p></w:tc>`;
+
+const DOCUMENT_XML =
+    `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" xmlns:a="${A_NS}"><w:body>` +
+    `<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr>${run("1-1. 개발 필요성")}</w:p>` +
+    `<w:p>${run("핵심 ")}${run("기능", "<w:b/>")}</w:p>` +
+    numbered("시범 운영") +
+    numbered("정식 출시") +
+    `<w:tbl>` +
+    `<w:tr>${cell("구분", '<w:gridSpan w:val="2"/>')}</w:tr>` +
+    `<w:tr>${cell("재료비", '<w:vMerge w:val="restart"/>')}${cell("100")}</w:tr>` +
+    `<w:tr>${cell("", "<w:vMerge/>")}${cell("200")}</w:tr>` +
+    `</w:tbl>` +
+    `<w:p><w:r><w:drawing><a:graphic><a:graphicData><a:blip r:embed="rId5"/></a:graphicData></a:graphic></w:drawing></w:r></w:p>` +
+    `</w:body></w:document>`;
+
+const buildDocx = async () => {
+    const zip = new JSZip();
+    zip.file("word/document.xml", DOCUMENT_XML);
+    zip.file("word/styles.xml", STYLES_XML);
+    zip.file("word/numbering.xml", NUMBERING_XML);
+    zip.file("word/_rels/document.xml.rels", RELS_XML);
+    zip.file("word/media/image1.png", new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    return zip.generateAsync({ type: "arraybuffer" });
+};
+
+describe("importDocxFile", () => {
+    it("converts headings, marks, numbered lists, merged tables and images", async () => {
+        const uploaded: File[] = [];
+        const { content, stats } = await importDocxFile(await buildDocx(), {
+            uploadImage: async (file) => {
+                uploaded.push(file);
+                return "https://storage.example/image1.png";
+            },
+        });
+
+        const [heading, paragraph, first, second, table, image] =
+            content.content ?? [];
+        expect(heading).toEqual({
+            type: "heading",
+            attrs: { level: 2 },
+            content: [{ type: "text", text: "1-1. 개발 필요성", marks: undefined }],
+        });
+        expect(paragraph.content).toEqual([
+            { type: "text", text: "핵심 ", marks: undefined },
+            { type: "text", text: "기능", marks: [{ type: "bold" }] },
+        ]);
+        expect(first.content?.map((node) => node.text).join("")).toBe("1. 시범 운영");
+        expect(second.content?.map((node) => node.text).join("")).toBe("2. 정식 출시");
+
+        const rows = table.content ?? [];
+        expect(rows).toHaveLength(3);
+        expect(rows[0].content?.[0].attrs).toEqual({ colspan: 2, rowspan: 1 });
+        expect(rows[1].content?.[0].attrs).toEqual({ colspan: 1, rowspan: 2 });
+        expect(rows[2].content).toHaveLength(1);
+
+        expect(image).toEqual({
+            type: "image",
+            attrs: { src: "https://storage.example/image1.png" },
+        });
+        expect(uploaded.map((file) => [file.name, file.type])).toEqual([
+            ["image1.png", "image/png"],
+        ]);
+        expect(stats).toEqual({
+            headings: 1,
+            // 본문 3개 + 표 셀 4개
+            paragraphs: 7,
+            tables: 1,
+            images: 1,
+            skippedImages: 0,
+        });
+    });
+
+    it("skips images when no uploader is given or the upload fails", async () => {
+        const docx = await buildDocx();
+
+        const withoutUploader = await importDocxFile(docx);
+        const failedUpload = await importDocxFile(docx, {
+            uploadImage: () => Promise.reject(new Error("quota exceeded")),
+        });
+
+        for (const { content, stats } of [withoutUploader, failedUpload]) {
+            expect(content.content?.some((node) => node.type === "image")).toBe(
+                false,
+            );
+            expect(stats.images).toBe(0);
+            expect(stats.skippedImages).toBe(1);
+        }
+    });
+});
@@ -0,0 +1,536 @@
+/**
+ * DOCX 불러오기 (클라이언트 사이드)
+ * 작년 사업계획서(.docx)를 Tiptap JSON으로 변환해 에디터에서 바로 이어 쓸 수 있게 함
+ * - 제목 스타일(Heading 1~3, 제목 1~3, 개요 수준) → heading
+ * - 굵게/기울임/밑줄/취소선 → marks
+ * - 목록 → "• " / "1. " 접두어 문단 (에디터는 HWPX 파싱 정확도를 위해 목록 노드를 쓰지 않음)
+ * - 표 → table (gridSpan → colspan, vMerge → rowspan)
+ * - 이미지 → uploadImage로 스토리지에 올린 URL image 노드 (uploadImage가 없거나 실패하면 건너뜀)
+ * 변환 결과의 표는 editorParser가 그대로 읽어 ProjectData로 매핑함
+ */
+
+import JSZip from "jszip";
+import type { JSONContent } from "@tiptap/react";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS =
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const A_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+
+const MAX_HEADING_LEVEL = 3;
+
+// 브라우저에서 표시할 수 있는 이미지 형식만 (EMF/WMF 등은 제외)
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    bmp: "image/bmp",
+    webp: "image/webp",
+};
+
+type ListFormat = "bullet" | "ordered";
+
+export interface DocxImportStats {
+    headings: number;
+    paragraphs: number;
+    tables: number;
+    images: number;
+    /** 형식을 지원하지 않거나 파일이 없어 빠진 이미지 */
+    skippedImages: number;
+}
+
+export interface DocxImportResult {
+    content: JSONContent;
+    stats: DocxImportStats;
+}
+
+export interface DocxImportOptions {
+    /** 이미지 파일을 올리고 에디터에 넣을 URL을 반환 (utils/imageUpload의 uploadEditorImage) */
+    uploadImage?: (file: File) => Promise<string>;
+}
+
+interface DocxContext {
+    zip: JSZip;
+    /** 문단 스타일 ID → 제목 수준 (0이면 본문) */
+    headingLevels: Map<string, number>;
+    /** 문단 스타일 ID → 스타일에 지정된 목록 번호 */
+    styleNumbering: Map<string, { numId: string; level: number }>;
+    /** numId → 수준별 목록 형식 */
+    listFormats: Map<string, ListFormat[]>;
+    /** 관계 ID → word/ 기준 파일 경로 */
+    relationships: Map<string, string>;
+    /** "numId:level" → 현재 번호 */
+    listCounters: Map<string, number>;
+    uploadImage?: (file: File) => Promise<string>;
+    stats: DocxImportStats;
+}
+
+const parseXml = (xml: string): Document =>
+    new DOMParser().parseFromString(xml, "application/xml");
+
+const readXml = async (
+    zip: JSZip,
+    path: string,
+): Promise<Document | null> => {
+    const file = zip.file(path);
+    return file ? parseXml(await file.async("string")) : null;
+};
+
+const childElements = (element: Element, localName?: string): Element[] =>
+    Array.from(element.children).filter(
+        (child) =>
+            child.namespaceURI === W_NS &&
+            (!localName || child.localName === localName),
+    );
+
+const elementsByTag = (doc: Document, localName: string): Element[] =>
+    Array.from(doc.getElementsByTagNameNS(W_NS, localName));
+
+const firstChild = (element: Element | null | undefined, localName: string) =>
+    element ? (childElements(element, localName)[0] ?? null) : null;
+
+const wAttr = (element: Element | null, name: string): string | null =>
+    element?.getAttributeNS(W_NS, name) ?? null;
+
+// <w:b/>, <w:b w:val="true"/> → 켜짐 / <w:b w:val="0"/> → 꺼짐
+const isToggleOn = (element: Element | null): boolean => {
+    if (!element) return false;
+    const value = wAttr(element, "val");
+    return value === null || !["0", "false", "none"].includes(value);
+};
+
+// ============= 스타일 / 번호 / 관계 =============
+
+const loadHeadingLevels = (styles: Document | null): Map<string, number> => {
+    const levels = new Map<string, number>();
+    if (!styles) return levels;
+
+    const basedOn = new Map<string, string>();
+    for (const style of elementsByTag(styles, "style")) {
+        if (wAttr(style, "type") !== "paragraph") continue;
+        const styleId = wAttr(style, "styleId");
+        if (!styleId) continue;
+
+        const name = (wAttr(firstChild(style, "name"), "val") || "").trim();
+        const outline = wAttr(
+            firstChild(firstChild(style, "pPr"), "outlineLvl"),
+            "val",
+        );
+        const nameMatch = name.match(/^(?:heading|제목)\s*(\d)$/i);
+
+        let level = 0;
+        if (outline !== null && Number(outline) < 9) {
+            level = Number(outline) + 1;
+        } else if (nameMatch) {
+            level = Number(nameMatch[1]);
+        } else if (/^(title|제목)$/i.test(name)) {
+            level = 1;
+        }
+
+        levels.set(styleId, level);
+        const parent = wAttr(firstChild(style, "basedOn"), "val");
+        if (parent) basedOn.set(styleId, parent);
+    }
+
+    // 제목 스타일을 상속한 사용자 스타일도 제목으로 취급
+    for (const styleId of levels.keys()) {
+        let current = styleId;
+        const visited = new Set<string>();
+        while (!levels.get(current) && basedOn.has(current)) {
+            if (visited.has(current)) break;
+            visited.add(current);
+            current = basedOn.get(current)!;
+        }
+        levels.set(styleId, levels.get(current) ?? 0);
+    }
+    return levels;
+};
+
+const loadStyleNumbering = (
+    styles: Document | null,
+): Map<string, { numId: string; level: number }> => {
+    const numbering = new Map<string, { numId: string; level: number }>();
+    if (!styles) return numbering;
+
+    for (const style of elementsByTag(styles, "style")) {
+        const styleId = wAttr(style, "styleId");
+        const numPr = firstChild(firstChild(style, "pPr"), "numPr");
+        const numId = wAttr(firstChild(numPr, "numId"), "val");
+        if (!styleId || !numId || numId === "0") continue;
+        const level = Number(wAttr(firstChild(numPr, "ilvl"), "val") ?? 0);
+        numbering.set(styleId, { numId, level });
+    }
+    return numbering;
+};
+
+const loadListFormats = (
+    numbering: Document | null,
+): Map<string, ListFormat[]> => {
+    const formats = new Map<string, ListFormat[]>();
+    if (!numbering) return formats;
+
+    const abstractFormats = new Map<string, ListFormat[]>();
+    for (const abstract of elementsByTag(numbering, "abstractNum")) {
+        const levels: ListFormat[] = [];
+        for (const lvl of childElements(abstract, "lvl")) {
+            const numFmt = wAttr(firstChild(lvl, "numFmt"), "val");
+            levels[Number(wAttr(lvl, "ilvl") ?? 0)] =
+                numFmt === "bullet" || numFmt === "none" ? "bullet" : "ordered";
+        }
+        abstractFormats.set(wAttr(abstract, "abstractNumId") ?? "", levels);
+    }
+
+    for (const num of elementsByTag(numbering, "num")) {
+        const abstractId = wAttr(firstChild(num, "abstractNumId"), "val");
+        formats.set(
+            wAttr(num, "numId") ?? "",
+            abstractFormats.get(abstractId ?? "") ?? [],
+        );
+    }
+    return formats;
+};
+
+const loadRelationships = (rels: Document | null): Map<string, string> => {
+    const relationships = new Map<string, string>();
+    if (!rels) return relationships;
+
+    for (const rel of Array.from(rels.getElementsByTagName("Relationship"))) {
+        if (rel.getAttribute("TargetMode") === "External") continue;
+        const id = rel.getAttribute("Id");
+        const target = rel.getAttribute("Target");
+        if (!id || !target) continue;
+        const path = target.startsWith("/")
+            ? target.slice(1)
+            : `word/${target.replace(/^\.\//, "")}`;
+        relationships.set(id, path);
+    }
+    return relationships;
+};
+
+// ============= 본문 변환 =============
+
+const loadImage = async (
+    ctx: DocxContext,
+    relId: string | null,
+): Promise<JSONContent | null> => {
+    const path = relId ? ctx.relationships.get(relId) : undefined;
+    const extension = path?.split(".").pop()?.toLowerCase() ?? "";
+    const mimeType = IMAGE_MIME_TYPES[extension];
+    const file = path ? ctx.zip.file(path) : null;
+
+    if (!path || !file || !mimeType || !ctx.uploadImage) {
+        ctx.stats.skippedImages++;
+        return null;
+    }
+
+    // 문서에 base64로 넣으면 저장·공동 편집 step마다 이미지가 통째로 실리므로 스토리지에 올림
+    let src: string;
+    try {
+        const blob = await file.async("blob");
+        const name = path.slice(path.lastIndexOf("/") + 1);
+        src = await ctx.uploadImage(new File([blob], name, { type: mimeType }));
+    } catch (error) {
+        console.error("DOCX image upload failed:", path, error);
+        ctx.stats.skippedImages++;
+        return null;
+    }
+
+    ctx.stats.images++;
+    return { type: "image", attrs: { src } };
+};
+
+const runMarks = (rPr: Element | null): JSONContent["marks"] => {
+    const marks: NonNullable<JSONContent["marks"]> = [];
+    if (isToggleOn(firstChild(rPr, "b"))) marks.push({ type: "bold" });
+    if (isToggleOn(firstChild(rPr, "i"))) marks.push({ type: "italic" });
+    if (isToggleOn(firstChild(rPr, "u"))) marks.push({ type: "underline" });
+    if (
+        isToggleOn(firstChild(rPr, "strike")) ||
+        isToggleOn(firstChild(rPr, "dstrike"))
+    ) {
+        marks.push({ type: "strike" });
+    }
+    return marks.length > 0 ? marks : undefined;
+};
+
+/**
+ * 문단 안의 글자(run)와 이미지를 수집
+ * 하이퍼링크·변경 추적(삽입)·필드 안의 run도 포함, 삭제된 글자는 제외
+ */
+const collectInline = async (
+    ctx: DocxContext,
+    element: Element,
+    inline: JSONContent[],
+    images: JSONContent[],
+) => {
+    for (const child of childElements(element)) {
+        switch (child.localName) {
+            case "r": {
+                const marks = runMarks(firstChild(child, "rPr"));
+                for (const part of childElements(child)) {
+                    if (part.localName === "t" && part.textContent) {
+                        inline.push({
+                            type: "text",
+                            text: part.textContent,
+                            marks,
+                        });
+                    } else if (part.localName === "tab") {
+                        inline.push({ type: "text", text: "\t", marks });
+                    } else if (
+                        (part.localName === "br" &&
+                            wAttr(part, "type") !== "page") ||
+                        part.localName === "cr"
+                    ) {
+                        inline.push({ type: "hardBreak" });
+                    } else if (
+                        part.localName === "drawing" ||
+                        part.localName === "pict"
+                    ) {
+                        const blip =
+                            part.getElementsByTagNameNS(A_NS, "blip")[0] ??
+                            null;
+                        const imageData =
+                            part.getElementsByTagName("v:imagedata")[0] ?? null;
+                        const relId =
+                            blip?.getAttributeNS(R_NS, "embed") ??
+                            imageData?.getAttributeNS(R_NS, "id") ??
+                            null;
+                        const image = await loadImage(ctx, relId);
+                        if (image) images.push(image);
+                    }
+                }
+                break;
+            }
+            case "hyperlink":
+            case "ins":
+            case "smartTag":
+            case "fldSimple":
+            case "sdt":
+            case "sdtContent":
+            case "customXml":
+                await collectInline(ctx, child, inline, images);
+                break;
+            default:
+                break;
+        }
+    }
+};
+
+const listPrefix = (
+    ctx: DocxContext,
+    numId: string,
+    level: number,
+): string => {
+    const format = ctx.listFormats.get(numId)?.[level] ?? "bullet";
+    const indent = "  ".repeat(level);
+    if (format === "bullet") return `${indent}• `;
+
+    const key = `${numId}:${level}`;
+    const count = (ctx.listCounters.get(key) ?? 0) + 1;
+    ctx.listCounters.set(key, count);
+    // 상위 번호가 바뀌면 하위 번호는 1부터 다시
+    for (const counterKey of Array.from(ctx.listCounters.keys())) {
+        const [id, lvl] = counterKey.split(":");
+        if (id === numId && Number(lvl) > level) {
+            ctx.listCounters.delete(counterKey);
+        }
+    }
+    return `${indent}${count}. `;
+};
+
+const convertParagraph = async (
+    ctx: DocxContext,
+    paragraph: Element,
+): Promise<JSONContent[]> => {
+    const pPr = firstChild(paragraph, "pPr");
+    const styleId = wAttr(firstChild(pPr, "pStyle"), "val");
+    const outline = wAttr(firstChild(pPr, "outlineLvl"), "val");
+
+    let level = styleId ? (ctx.headingLevels.get(styleId) ?? 0) : 0;
+    if (outline !== null && Number(outline) < 9) level = Number(outline) + 1;
+
+    const inline: JSONContent[] = [];
+    const images: JSONContent[] = [];
+    await collectInline(ctx, paragraph, inline, images);
+
+    const hasText = inline.some((node) => node.text?.trim());
+    const nodes: JSONContent[] = [];
+
+    if (level > 0 && hasText) {
+        ctx.stats.headings++;
+        nodes.push({
+            type: "heading",
+            attrs: { level: Math.min(level, MAX_HEADING_LEVEL) },
+            content: inline.filter((node) => node.type === "text"),
+        });
+    } else if (hasText || images.length === 0) {
+        const numPr = firstChild(pPr, "numPr");
+        const styleList = styleId ? ctx.styleNumbering.get(styleId) : undefined;
+        const numId =
+            wAttr(firstChild(numPr, "numId"), "val") ?? styleList?.numId;
+        if (hasText && numId && numId !== "0") {
+            const listLevel = Number(
+                wAttr(firstChild(numPr, "ilvl"), "val") ??
+                    styleList?.level ??
+                    0,
+            );
+            inline.unshift({
+                type: "text",
+                text: listPrefix(ctx, numId, listLevel),
+            });
+        }
+
+        if (hasText) ctx.stats.paragraphs++;
+        nodes.push(
+            inline.length > 0
+                ? { type: "paragraph", content: inline }
+                : { type: "paragraph" },
+        );
+    }
+
+    // 이미지는 블록 노드라 문단 뒤에 배치
+    return [...nodes, ...images];
+};
+
+/**
+ * 표 변환: 격자 열 위치를 따라가며 세로 병합(vMerge)을 시작 셀의 rowspan으로 합침
+ */
+const convertTable = async (
+    ctx: DocxContext,
+    table: Element,
+): Promise<JSONContent | null> => {
+    const rows: JSONContent[] = [];
+    // 격자 열 번호 → 세로 병합이 시작된 셀
+    const mergeOrigins = new Map<number, JSONContent>();
+
+    for (const tr of childElements(table, "tr")) {
+        const trPr = firstChild(tr, "trPr");
+        const isHeaderRow = !!firstChild(trPr, "tblHeader");
+        let column = Number(wAttr(firstChild(trPr, "gridBefore"), "val") ?? 0);
+        const cells: JSONContent[] = [];
+
+        for (const tc of childElements(tr, "tc")) {
+            const tcPr = firstChild(tc, "tcPr");
+            const colspan = Number(
+                wAttr(firstChild(tcPr, "gridSpan"), "val") ?? 1,
+            );
+            const vMerge = firstChild(tcPr, "vMerge");
+            const startColumn = column;
+            column += colspan;
+
+            if (vMerge && wAttr(vMerge, "val") !== "restart") {
+                const origin = mergeOrigins.get(startColumn);
+                if (origin?.attrs) {
+                    origin.attrs.rowspan = Number(origin.attrs.rowspan) + 1;
+                    continue;
+                }
+            }
+
+            const content = await convertBlocks(ctx, tc);
+            const cell: JSONContent = {
+                type: isHeaderRow ? "tableHeader" : "tableCell",
+                attrs: { colspan, rowspan: 1 },
+                content: content.length > 0 ? content : [{ type: "paragraph" }],
+            };
+            cells.push(cell);
+
+            if (vMerge) mergeOrigins.set(startColumn, cell);
+            else mergeOrigins.delete(startColumn);
+        }
+
+        if (cells.length > 0) rows.push({ type: "tableRow", content: cells });
+    }
+
+    if (rows.length === 0) return null;
+    ctx.stats.tables++;
+    return { type: "table", content: rows };
+};
+
+const convertBlocks = async (
+    ctx: DocxContext,
+    container: Element,
+): Promise<JSONContent[]> => {
+    const blocks: JSONContent[] = [];
+
+    for (const child of childElements(container)) {
+        if (child.localName === "p") {
+            blocks.push(...(await convertParagraph(ctx, child)));
+        } else if (child.localName === "tbl") {
+            const table = await convertTable(ctx, child);
+            if (table) blocks.push(table);
+        } else if (child.localName === "sdt") {
+            const sdtContent = firstChild(child, "sdtContent");
+            if (sdtContent) {
+                blocks.push(...(await convertBlocks(ctx, sdtContent)));
+            }
+        } else if (child.localName === "customXml") {
+            blocks.push(...(await convertBlocks(ctx, child)));
+        }
+    }
+
+    // 연속된 빈 문단은 하나로
+    return blocks.filter(
+        (block, index) =>
+            !(
+                block.type === "paragraph" &&
+                !block.content &&
+                blocks[index - 1]?.type === "paragraph" &&
+                !blocks[index - 1].content
+            ),
+    );
+};
+
+/**
+ * DOCX 파일을 에디터 문서(Tiptap JSON)로 변환
+ */
+export const importDocxFile = async (
+    file: Blob | ArrayBuffer,
+    options: DocxImportOptions = {},
+): Promise<DocxImportResult> => {
+    const zip = await JSZip.loadAsync(file);
+    const documentXml = await readXml(zip, "word/document.xml");
+    const body = documentXml?.getElementsByTagNameNS(W_NS, "body")[0];
+    if (!documentXml || !body) {
+        throw new Error("word/document.xml not found");
+    }
+    if (documentXml.getElementsByTagName("parsererror").length > 0) {
+        throw new Error("word/document.xml is not well-formed");
+    }
+
+    const styles = await readXml(zip, "word/styles.xml");
+    const ctx: DocxContext = {
+        zip,
+        headingLevels: loadHeadingLevels(styles),
+        styleNumbering: loadStyleNumbering(styles),
+        listFormats: loadListFormats(await readXml(zip, "word/numbering.xml")),
+        relationships: loadRelationships(
+            await readXml(zip, "word/_rels/document.xml.rels"),
+        ),
+        listCounters: new Map(),
+        uploadImage: options.uploadImage,
+        stats: {
+            headings: 0,
+            paragraphs: 0,
+            tables: 0,
+            images: 0,
+            skippedImages: 0,
+        },
+    };
+
+    const blocks = await convertBlocks(ctx, body);
+    // 문서 앞뒤의 빈 문단 제거
+    const isEmptyParagraph = (block?: JSONContent) =>
+        block?.type === "paragraph" && !block.content;
+    while (isEmptyParagraph(blocks[0])) blocks.shift();
+    while (isEmptyParagraph(blocks[blocks.length - 1])) blocks.pop();
+
+    console.log("📥 DOCX 불러오기:", ctx.stats);
+    return {
+        content: {
+            type: "doc",
+            content: blocks.length > 0 ? blocks : [{ type: "paragraph" }],
+        },
+        stats: ctx.stats,
+    };
+};
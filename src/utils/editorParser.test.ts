@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { extractRichTextFromEditor, parseEditorContent } from "./editorParser";
+
+const cell = (text: string) => ({
+    type: "tableCell",
+    content: [
+        {
+            type: "paragraph",
+            content: text ? [{ type: "text", text }] : [],
+        },
+    ],
+});
+
+const table = (rows: string[][]) => ({
+    type: "table",
+    content: rows.map((row) => ({
+        type: "tableRow",
+        content: row.map(cell),
+    })),
+});
+
+const parse = (...tables: ReturnType<typeof table>[]) =>
+    parseEditorContent({ type: "doc", content: tables }, "");
+
+describe("parseEditorContent", () => {
+    it("keeps every team and schedule row beyond the template rows", () => {
+        const data = parse(
+            table([
+                ["구분", "직위", "담당 업무", "보유 역량", "구성 상태"],
+                ...Array.from({ length: 25 }, (_, i) => [
+                    `팀원${i + 1}`,
+                    `개발자${i + 1}`,
+                    `업무${i + 1}`,
+                    "",
+                    "",
+                ]),
+            ]),
+            table([
+                ["순번", "추진 내용", "추진기간", "세부 내용"],
+                ...Array.from({ length: 40 }, (_, i) => [
+                    `${i + 1}`,
+                    `과제${i + 1}`,
+                    "2026.01 ~ 2026.02",
+                    "",
+                ]),
+            ]),
+        );
+
+        expect(data.team_25_position).toBe("개발자25");
+        expect(data.team_25_role).toBe("업무25");
+        expect(data.schedule_40_task).toBe("과제40");
+    });
+
+    it("merges budget rows of the same category instead of overwriting", () => {
+        const data = parse(
+            table([
+                ["비목", "산출근거", "금액"],
+                ["재료비", "서버 부품", "1,000,000"],
+                ["재료비", "시제품 재료", "500,000"],
+                ["교육비", "직무 교육", "200,000"],
+                ["회의비", "", "100,000"],
+            ]),
+        );
+
+        expect(data.budget_material_basis).toBe("서버 부품\n시제품 재료");
+        expect(data.budget_material_amount).toBe((1_500_000).toLocaleString());
+        // 매핑되지 않는 비목은 기타로 합침
+        expect(data.budget_etc_basis).toBe("직무 교육");
+        expect(data.budget_etc_amount).toBe((300_000).toLocaleString());
+    });
+});
+
+describe("extractRichTextFromEditor", () => {
+    it("keeps marks and list formatting of a prose section", () => {
+        const listItem = (text: string) => ({
+            type: "listItem",
+            content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+        });
+
+        const richText = extractRichTextFromEditor({
+            type: "doc",
+            content: [
+                {
+                    type: "heading",
+                    attrs: { level: 3 },
+                    content: [{ type: "text", text: "2-1-1. 창업 아이템 개발 방안" }],
+                },
+                {
+                    type: "paragraph",
+                    content: [
+                        { type: "text", text: "핵심 " },
+                        { type: "text", text: "기능", marks: [{ type: "bold" }] },
+                    ],
+                },
+                { type: "bulletList", content: [listItem("첫 단계")] },
+                { type: "paragraph", content: [{ type: "text", text: "1. 시범 운영" }] },
+                { type: "paragraph", content: [{ type: "text", text: "2. 정식 출시" }] },
+            ],
+        });
+
+        const run = (text: string, bold = false) => ({
+            text,
+            bold,
+            italic: false,
+            underline: false,
+            strike: false,
+        });
+
+        expect(richText.sol_develop).toEqual([
+            { runs: [run("핵심 "), run("기능", true)] },
+            { runs: [] },
+            { runs: [run("첫 단계")], list: "bullet", listId: 1 },
+            { runs: [] },
+            { runs: [run("시범 운영")], list: "ordered", listId: 2 },
+            { runs: [] },
+            { runs: [run("정식 출시")], list: "ordered", listId: 2 },
+        ]);
+    });
+});
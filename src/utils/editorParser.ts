@@ -5,6 +5,14 @@
  * - 텍스트 흘러넘침 완전 방지
  */
 
+import type { JSONContent } from "@tiptap/react";
+import { type GrantProgram, usesFieldGroup } from "@/lib/grantPrograms";
+import type {
+    HwpxRichParagraph,
+    HwpxRichRun,
+    HwpxRichTextMap,
+} from "./hwpxRichText";
+
 export interface ProjectData {
     [key: string]: string | undefined;
     item_name?: string;
@@ -55,7 +63,7 @@ export interface ProjectData {
     tech_field?: string;
     region_type?: string;
 
-    // 팀 구성 현황 (최대 5명)
+    // 팀 구성 현황 (템플릿 행 수를 넘으면 내보내기 시 행 복제)
     team_1_position?: string;
     team_1_role?: string;
     team_1_competency?: string;
@@ -87,10 +95,12 @@ export interface ProjectData {
     image_tam_sam_som?: string;
 }
 
-const MAX_TEAM_ROWS = 10;
-const MAX_PARTNER_ROWS = 10;
-const MAX_MATERIAL_ROWS = 5;
-const MAX_SCHEDULE_ROWS = 15;
+// 양식 템플릿의 플레이스홀더 행 수 (빈 값으로 미리 채우는 범위)
+// 표를 읽을 때는 행 수를 제한하지 않음 → HWPX 내보내기 시 데이터 개수만큼 행 복제 (hwpxTableRows)
+const TEMPLATE_TEAM_ROWS = 6;
+const TEMPLATE_PARTNER_ROWS = 3;
+const TEMPLATE_SCHEDULE_ROWS = 7;
+const TEMPLATE_OVERALL_SCHEDULE_ROWS = 9;
 
 // ============= 유틸리티 함수 =============
 
@@ -132,6 +142,115 @@ const refineText = (text: string): string => {
     return processed.trim();
 };
 
+// ============= 서식 있는 텍스트 (HWPX 내보내기용) =============
+
+const BULLET_PREFIX = /^[\s]*[•\-*]\s*/;
+const NUMBER_PREFIX = /^[\s]*\d+\.\s*/;
+
+const refineRunText = (text: string): string =>
+    text
+        .replace(/하나\)/g, "첫째,")
+        .replace(/둘\)/g, "둘째,")
+        .replace(/셋\)/g, "셋째,")
+        .replace(/넷\)/g, "넷째,")
+        .replace(/다섯\)/g, "다섯째,");
+
+/**
+ * 인라인 노드 → run 목록 (hardBreak 기준으로 문단 분리)
+ */
+const extractRichLines = (node: JSONContent): HwpxRichRun[][] => {
+    const lines: HwpxRichRun[][] = [[]];
+    const isHeading = node.type === "heading";
+
+    for (const child of node.content || []) {
+        if (child.type === "hardBreak") {
+            lines.push([]);
+            continue;
+        }
+        if (child.type !== "text" || !child.text) continue;
+
+        const marks: string[] = (child.marks || []).map((m) => m.type);
+        lines[lines.length - 1].push({
+            text: refineRunText(child.text),
+            bold: isHeading || marks.includes("bold"),
+            italic: marks.includes("italic"),
+            underline: marks.includes("underline"),
+            strike: marks.includes("strike"),
+        });
+    }
+    return lines;
+};
+
+/**
+ * 본문에 직접 입력된 "• ", "1. " 머리를 목록 서식으로 변환
+ */
+const toListParagraph = (runs: HwpxRichRun[]): HwpxRichParagraph => {
+    const first = runs[0];
+    if (!first) return { runs };
+
+    for (const [pattern, list] of [
+        [BULLET_PREFIX, "bullet"],
+        [NUMBER_PREFIX, "ordered"],
+    ] as const) {
+        if (pattern.test(first.text)) {
+            const text = first.text.replace(pattern, "");
+            return { runs: [{ ...first, text }, ...runs.slice(1)], list };
+        }
+    }
+    return { runs };
+};
+
+/**
+ * Tiptap 블록 노드 → 서식 있는 문단 목록
+ * 굵게/기울임/밑줄/취소선 마크와 글머리표/번호 목록을 유지
+ */
+const nodeToRichParagraphs = (
+    node: JSONContent,
+    nextListId: () => number,
+): HwpxRichParagraph[] => {
+    if (node.type === "paragraph" || node.type === "heading") {
+        return extractRichLines(node)
+            .filter((runs) => runs.some((run) => run.text.trim()))
+            .map(toListParagraph);
+    }
+
+    if (node.type === "bulletList" || node.type === "orderedList") {
+        const list = node.type === "bulletList" ? "bullet" : "ordered";
+        const listId = nextListId();
+        return (node.content || []).flatMap((item) =>
+            (item.content || []).flatMap((child) =>
+                nodeToRichParagraphs(child, nextListId).map((paragraph) =>
+                    // 중첩 목록은 자기 서식 유지, 나머지는 현재 목록 항목으로
+                    paragraph.list ? paragraph : { ...paragraph, list, listId },
+                ),
+            ),
+        );
+    }
+
+    return (node.content || []).flatMap((child) =>
+        nodeToRichParagraphs(child, nextListId),
+    );
+};
+
+/**
+ * 본문에서 직접 입력한 번호 문단이 연속되면 같은 번호 목록으로 묶음
+ */
+const assignTextListIds = (
+    paragraphs: HwpxRichParagraph[],
+    nextListId: () => number,
+): HwpxRichParagraph[] => {
+    let currentId: number | undefined;
+    return paragraphs.map((paragraph) => {
+        if (paragraph.list !== "ordered") {
+            if (paragraph.runs.length > 0) currentId = undefined;
+            return paragraph;
+        }
+        if (paragraph.listId !== undefined) return paragraph;
+        currentId ??= nextListId();
+        return { ...paragraph, listId: currentId };
+    });
+};
+
 const findTableByKeyword = (tables: any[], keywords: string[]): any | null => {
     for (const table of tables) {
         const tableText = extractNodeText(table).replace(/\s/g, "");
@@ -182,7 +301,7 @@ const initializeAllKeys = (data: ProjectData): void => {
     basicKeys.forEach((k) => (data[k] = ""));
 
     // 팀 구성
-    for (let i = 1; i <= MAX_TEAM_ROWS; i++) {
+    for (let i = 1; i <= TEMPLATE_TEAM_ROWS; i++) {
         data[`team_${i}_position`] = "";
         data[`team_${i}_role`] = "";
         data[`team_${i}_competency`] = "";
@@ -190,14 +309,14 @@ const initializeAllKeys = (data: ProjectData): void => {
     }
 
     // 파트너
-    for (let i = 1; i <= MAX_PARTNER_ROWS; i++) {
+    for (let i = 1; i <= TEMPLATE_PARTNER_ROWS; i++) {
         data[`partner_${i}_name`] = "";
         data[`partner_${i}_competency`] = "";
         data[`partner_${i}_plan`] = "";
         data[`partner_${i}_date`] = "";
     }
 
-    // 예산 - 단일 표 형식 (2026 초기창업패키지)
+    // 예산 - 단일 표 형식 (2026 초기창업패키지, 청년창업사관학교)
     // 비목: 재료비, 인건비, 외주용역비, 광고선전비, 지급수수료, 창업활동비, 기타
     const budget_categories = [
         "material",
@@ -214,11 +333,23 @@ const initializeAllKeys = (data: ProjectData): void => {
         data[`budget_${cat}_amount`] = "";
     }
 
+    // 예산 - 1단계/2단계 분리 표 형식 (2025 예비창업패키지)
+    // 2단계에는 무형자산취득비 비목이 추가됨
+    for (const phase of ["budget_p1", "budget_p2"]) {
+        for (const cat of [...budget_categories, "intangible"]) {
+            data[`${phase}_${cat}_basis`] = "";
+            data[`${phase}_${cat}_amount`] = "";
+        }
+        data[`${phase}_total_amount`] = "";
+    }
+
     // 일정
-    for (let i = 1; i <= MAX_SCHEDULE_ROWS; i++) {
+    for (let i = 1; i <= TEMPLATE_SCHEDULE_ROWS; i++) {
         data[`schedule_${i}_task`] = "";
         data[`schedule_${i}_period`] = "";
         data[`schedule_${i}_detail`] = "";
+    }
+    for (let i = 1; i <= TEMPLATE_OVERALL_SCHEDULE_ROWS; i++) {
         data[`overall_schedule_${i}_task`] = "";
         data[`overall_schedule_${i}_period`] = "";
         data[`overall_schedule_${i}_detail`] = "";
@@ -287,7 +418,7 @@ const parseScheduleTable = (table: any, data: ProjectData, prefix: string) => {
     if (!table) return;
     const rows = table.content || [];
     let rowIdx = 1;
-    for (let i = 1; i < rows.length && rowIdx <= MAX_SCHEDULE_ROWS; i++) {
+    for (let i = 1; i < rows.length; i++) {
         const cells = rows[i].content || [];
         if (cells.length < 2) continue;
 
@@ -311,6 +442,29 @@ const parseScheduleTable = (table: any, data: ProjectData, prefix: string) => {
     }
 };
 
+// 예산 표는 비목마다 양식 행이 하나로 고정 (재료비 등은 반복 행 그룹이 아님)
+// 같은 비목 행이 여러 개면 덮어쓰지 않고 산출근거는 줄바꿈으로 잇고 금액은 합산
+const addBudgetRow = (
+    data: ProjectData,
+    key: string,
+    basis: string,
+    amount: string,
+) => {
+    const prevBasis = data[`${key}_basis`];
+    const prevAmount = data[`${key}_amount`];
+    data[`${key}_basis`] = [prevBasis, basis].filter(Boolean).join("\n");
+
+    const amountValue = parseNumber(amount);
+    if (!prevAmount || !amountValue) {
+        data[`${key}_amount`] = prevAmount || amountValue;
+        return;
+    }
+    const toNumber = (value: string) => Number(value.replace(/,/g, ""));
+    data[`${key}_amount`] = (
+        toNumber(prevAmount) + toNumber(amountValue)
+    ).toLocaleString();
+};
+
 const parseBudgetTable = (table: any, data: ProjectData, prefix: string) => {
     if (!table) return;
     const rows = table.content || [];
@@ -328,6 +482,7 @@ const parseBudgetTable = (table: any, data: ProjectData, prefix: string) => {
         홍보: "advertising",
         창업활동: "activity",
         활동: "activity",
+        무형자산: "intangible",
         기타: "etc",
     };
 
@@ -346,20 +501,11 @@ const parseBudgetTable = (table: any, data: ProjectData, prefix: string) => {
 
         if (!basis && !amt) continue;
 
-        let found = false;
-        for (const [keyword, key] of Object.entries(categoryMap)) {
-            if (cat.includes(keyword)) {
-                data[`${prefix}_${key}_basis`] = basis;
-                data[`${prefix}_${key}_amount`] = parseNumber(amt);
-                found = true;
-                break;
-            }
-        }
-
-        if (!found) {
-            data[`${prefix}_etc_basis`] = basis;
-            data[`${prefix}_etc_amount`] = parseNumber(amt);
-        }
+        const key =
+            Object.entries(categoryMap).find(([keyword]) =>
+                cat.includes(keyword),
+            )?.[1] ?? "etc";
+        addBudgetRow(data, `${prefix}_${key}`, basis, amt);
     }
 };
 
@@ -370,7 +516,7 @@ const parseTeamTable = (table: any, data: ProjectData) => {
 
     console.log(`🔍 parseTeamTable: found ${rows.length} rows`);
 
-    for (let i = 1; i < rows.length && idx <= MAX_TEAM_ROWS; i++) {
+    for (let i = 1; i < rows.length; i++) {
         const cells = rows[i].content || [];
         console.log(`  Row ${i}: ${cells.length} cells`);
         if (cells.length < 2) continue;
@@ -418,10 +564,7 @@ const parsePartnerTable = (table: any, data: ProjectData) => {
 
     console.log(`🔍 parsePartnerTable: found ${rows.length} rows`);
 
-    // 최대 3개만 처리
-    const MAX_PARTNERS = 3;
-
-    for (let i = 1; i < rows.length && idx <= MAX_PARTNERS; i++) {
+    for (let i = 1; i < rows.length; i++) {
         const cells = rows[i].content || [];
         console.log(`  Row ${i}: ${cells.length} cells`);
         if (cells.length < 2) continue;
@@ -532,26 +675,44 @@ const isSectionHeader = (text: string): boolean => {
     return false;
 };
 
-const extractGranularSections = (content: any[], data: ProjectData): void => {
+const extractGranularSections = (
+    content: any[],
+    data: ProjectData,
+    richText?: HwpxRichTextMap,
+): void => {
     let currentKey = "";
     const paragraphs: Map<string, string[]> = new Map();
+    let listCount = 0;
+    const nextListId = () => ++listCount;
+
+    const addRichParagraphs = (key: string, node: JSONContent) => {
+        if (!richText) return;
+        const rich = nodeToRichParagraphs(node, nextListId);
+        if (rich.length === 0) return;
+
+        // 일반 텍스트와 같이 블록 사이에 빈 문단 추가
+        const existing = richText[key] || [];
+        richText[key] =
+            existing.length > 0 ? [...existing, { runs: [] }, ...rich] : rich;
+    };
 
-    const addParagraph = (key: string, text: string) => {
-        if (!key || !text) return;
+    const addParagraph = (key: string, text: string): boolean => {
+        if (!key || !text) return false;
 
         // 섹션 헤더는 본문에서 제외
         if (isSectionHeader(text)) {
             console.log(`⛔ Skipping header: [${text.substring(0, 50)}...]`);
-            return;
+            return false;
         }
 
         const refined = refineText(text);
-        if (!refined) return;
+        if (!refined) return false;
 
         if (!paragraphs.has(key)) {
             paragraphs.set(key, []);
         }
         paragraphs.get(key)!.push(refined);
+        return true;
     };
 
     for (const node of content) {
@@ -587,8 +748,14 @@ const extractGranularSections = (content: any[], data: ProjectData): void => {
         }
 
         // 본문 추가
-        if (currentKey) {
-            addParagraph(currentKey, text);
+        if (currentKey && addParagraph(currentKey, text)) {
+            addRichParagraphs(currentKey, node);
+        }
+    }
+
+    if (richText) {
+        for (const key of Object.keys(richText)) {
+            richText[key] = assignTextListIds(richText[key], nextListId);
         }
     }
 
@@ -604,6 +771,7 @@ const extractGranularSections = (content: any[], data: ProjectData): void => {
 export const parseEditorContent = (
     content: any,
     plainText: string,
+    program?: GrantProgram,
 ): ProjectData => {
     console.log("🚀 Parsing started (v300 - Complete Rewrite)");
     const data: ProjectData = {};
@@ -629,7 +797,7 @@ export const parseEditorContent = (
     if (scheduleTables[1])
         parseScheduleTable(scheduleTables[1], data, "overall_schedule");
 
-    // 예산 테이블 - 단일 표 형식 (2026 초기창업패키지)
+    // 예산 테이블 - 지원사업에 따라 단일 표 또는 1단계/2단계 분리 표
     const budgetTables = tables.filter((t: any) => {
         const text = extractNodeText(t);
         return (
@@ -640,8 +808,16 @@ export const parseEditorContent = (
             text.includes("집행계획")
         );
     });
-    // 첫 번째 예산 테이블만 사용 (단일 표)
-    if (budgetTables[0]) parseBudgetTable(budgetTables[0], data, "budget");
+    if (program && usesFieldGroup(program, "budgetPhased")) {
+        // 1단계/2단계 분리 표 형식 (2025 예비창업패키지)
+        if (budgetTables[0])
+            parseBudgetTable(budgetTables[0], data, "budget_p1");
+        if (budgetTables[1])
+            parseBudgetTable(budgetTables[1], data, "budget_p2");
+    } else if (budgetTables[0]) {
+        // 첫 번째 예산 테이블만 사용 (단일 표)
+        parseBudgetTable(budgetTables[0], data, "budget");
+    }
 
     // 팀 테이블 - 구분/직위/담당업무/보유역량/구성상태 구조
     const teamTable = tables.find((t: any) => {
@@ -742,3 +918,17 @@ export const parseEditorContent = (
 };
 
 export const extractDataFromEditor = parseEditorContent;
+
+/**
+ * 줄글 섹션의 서식 있는 텍스트 추출 (HWPX 내보내기에서 굵게/목록 유지용)
+ * 섹션 경계는 parseEditorContent와 동일하게 감지
+ */
+export const extractRichTextFromEditor = (
+    content: JSONContent | null | undefined,
+): HwpxRichTextMap => {
+    const richText: HwpxRichTextMap = {};
+    if (!content?.content) return richText;
+
+    extractGranularSections(content.content, {}, richText);
+    return richText;
+};
@@ -0,0 +1,135 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import type { ProjectData } from "./editorParser";
+import { HWPX_FILE_ORDER, HWPX_MIMETYPE, fillHwpxTemplate } from "./hwpxFillEngine";
+import { findTextNodes, parseXml } from "./hwpxXml";
+
+// 지원사업 고정 양식 골든 테스트: 같은 데이터로 채운 section0.xml 본문 텍스트가 바뀌면 실패
+// 양식이나 채우기 규칙을 의도적으로 바꿨다면 스냅샷을 갱신 (env -u CI npx vitest run <이 파일> -u)
+
+const loadTemplate = (fileName: string) =>
+    readFile(path.resolve(__dirname, "../../public", fileName));
+
+const COMMON_DATA: ProjectData = {
+    item_name: "AI 기반 사업계획서 작성 도구",
+    item_category: "정보·통신",
+    summary_overview:
+        "초기 창업자를 위한 사업계획서 작성 서비스\n지원사업 양식에 맞춰 초안을 작성하고 HWPX로 내보냄",
+    summary_problem: "양식 작성에 평균 2주 & 반복 수정이 필요함",
+    summary_solution: "<양식 자동 채우기>와 AI 초안 작성",
+    prob_market: "예비창업자 연 10만 명, R&D 과제 신청 증가",
+    sol_develop: "1단계 MVP 개발\n2단계 양식 확대",
+    team_1_position: "대표",
+    team_1_role: "사업 총괄",
+    team_1_competency: "창업 경험 5년",
+    team_1_status: "재직",
+    team_2_position: "개발자",
+    team_2_role: "서비스 개발",
+    team_2_competency: "웹 개발 7년",
+    team_2_status: "채용 예정",
+    schedule_1_task: "MVP 개발",
+    schedule_1_period: "2025.06 ~ 2025.08",
+    schedule_1_detail: "핵심 기능 구현",
+    schedule_2_task: "시범 운영",
+    schedule_2_period: "2025.09 ~ 2025.10",
+    schedule_2_detail: "사용자 50명 대상",
+};
+
+// 내보낸 HWPX의 ZIP 구조 검사 (mimetype 첫 항목·무압축, 파일 순서, CRC)
+const expectValidHwpxZip = async (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    // 첫 로컬 파일 헤더: 시그니처 PK\x03\x04, 압축 방식 0(STORE), 파일 이름 mimetype
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    const nameLength = view.getUint16(26, true);
+    const extraLength = view.getUint16(28, true);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(bytes.subarray(30, 30 + nameLength))).toBe("mimetype");
+    const dataStart = 30 + nameLength + extraLength;
+    expect(
+        decoder.decode(
+            bytes.subarray(dataStart, dataStart + HWPX_MIMETYPE.length),
+        ),
+    ).toBe(HWPX_MIMETYPE);
+
+    const zip = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    const entries = Object.keys(zip.files).filter((name) => !zip.files[name].dir);
+    expect(entries).toEqual(HWPX_FILE_ORDER);
+    for (const name of entries) {
+        await expect(zip.file(name)!.async("uint8array")).resolves.toBeDefined();
+    }
+    return zip;
+};
+
+const sectionText = (xml: string) =>
+    findTextNodes(parseXml(xml))
+        .map((node) => node.value)
+        .filter((text) => text.trim() !== "")
+        .join("\n");
+
+describe.each([
+    {
+        template: "template_2025_pre.hwpx",
+        data: {
+            ...COMMON_DATA,
+            company_name: "주식회사 테스트",
+            representative_job: "대표",
+            budget_p1_personnel_amount: "10,000,000",
+            budget_p1_personnel_basis: "개발자 1명 × 5개월",
+            budget_p2_outsourcing_amount: "5,000,000",
+            budget_p2_outsourcing_basis: "디자인 외주",
+        },
+    },
+    {
+        template: "template_2026_early.hwpx",
+        data: {
+            ...COMMON_DATA,
+            info_company_name: "주식회사 테스트",
+            info_est_date: "2024.03.01",
+            info_reg_number: "123-45-67890",
+            info_address: "서울특별시 강남구",
+            budget_personnel_amount: "10,000,000",
+            budget_personnel_basis: "개발자 1명 × 5개월",
+            cash_personnel_amount: "1,000,000",
+            physical_personnel_amount: "500,000",
+        },
+    },
+    {
+        template: "template_2025_youth.hwpx",
+        data: {
+            ...COMMON_DATA,
+            region_type: "지방우대 비해당 지역",
+            budget_personnel_amount: "21000000",
+            budget_personnel_basis: "개발자 1명 × 7개월",
+        },
+    },
+])("fillHwpxTemplate: $template", ({ template, data }) => {
+    it("fills section0.xml and keeps a valid HWPX package", async () => {
+        const { bytes, report } = await fillHwpxTemplate(
+            await loadTemplate(template),
+            data,
+        );
+
+        const zip = await expectValidHwpxZip(bytes);
+        const section = await zip.file("Contents/section0.xml")!.async("string");
+
+        expect(report.xmlErrors).toEqual([]);
+        expect(report.unresolvedMarkers).toEqual([]);
+        expect(report.unplacedValues).toEqual([]);
+        expect(report.filledPlaceholders).toEqual(
+            expect.arrayContaining(["item_name", "summary_overview", "team_2_role"]),
+        );
+        expect(section).not.toMatch(/\{\{[^}]*\}\}/);
+        expect(section).not.toContain("linesegarray");
+        // 특수 문자는 XML 엔티티로, 여러 줄 값은 문단으로 나뉨
+        expect(section).toContain("R&amp;D");
+        expect(section).toContain("&lt;양식 자동 채우기&gt;");
+        expect(section).toContain(">1단계 MVP 개발<");
+        expect(section).toContain(">2단계 양식 확대<");
+
+        expect(report.tableRowChanges).toMatchSnapshot();
+        expect(sectionText(section)).toMatchSnapshot();
+    });
+});
@@ -0,0 +1,853 @@
+/**
+ * HWPX 템플릿 채우기 엔진 (순수 함수)
+ * (templateBytes, ProjectData) → outputBytes
+ *
+ * fetch / DOM / console 의존성이 없어 브라우저, Node, Deno에서 동일하게 동작함
+ * 다운로드와 진단 로그는 호출 측(hwpxExportService)에서 담당
+ */
+
+import JSZip from "jszip";
+import type { ProjectData } from "./editorParser";
+import {
+    dataUrlToBinaryImage,
+    registerBinaryItems,
+    registerManifestEntries,
+    replaceMarkerWithPic,
+    type HwpxBinaryImage,
+} from "./hwpxImageEmbed";
+import {
+    OWPML_NS,
+    findElements,
+    findPlaceholders,
+    findTextNodes,
+    getAttribute,
+    normalizePlaceholders,
+    parseXml,
+    removeElements,
+    replaceTextRange,
+    serializeXml,
+    setText,
+    type XmlDocument,
+    type XmlText,
+} from "./hwpxXml";
+import {
+    createHeaderStyles,
+    replaceRichPlaceholders,
+    type HwpxRichTextMap,
+} from "./hwpxRichText";
+import { resizeTableRows, type HwpxTableRowChange } from "./hwpxTableRows";
+
+export const HWPX_MIMETYPE = "application/hwp+zip";
+
+// HWPX 파일 순서 (2025 템플릿과 동일)
+export const HWPX_FILE_ORDER = [
+    "mimetype",
+    "version.xml",
+    "Contents/header.xml",
+    "Contents/section0.xml",
+    "Preview/PrvText.txt",
+    "Scripts/headerScripts",
+    "Scripts/sourceScripts",
+    "settings.xml",
+    "Preview/PrvImage.png",
+    "META-INF/container.rdf",
+    "Contents/content.hpf",
+    "META-INF/container.xml",
+    "META-INF/manifest.xml",
+];
+
+export interface HwpxCheckboxState {
+    /** 체크박스 그룹 이름 (지원 분야 등) */
+    group: string;
+    /** 데이터에 입력된 값 */
+    value: string;
+    /** 체크(☑)된 항목. 입력값이 선택지와 맞지 않으면 null */
+    selected: string | null;
+}
+
+export interface HwpxFileIssue {
+    file: string;
+    message: string;
+}
+
+export interface HwpxFillReport {
+    /** 값이 채워진 플레이스홀더 */
+    filledPlaceholders: string[];
+    /** 굵게/목록 등 서식을 유지해 채운 플레이스홀더 (filledPlaceholders에도 포함) */
+    formattedPlaceholders: string[];
+    /** 값이 빈 문자열이라 비워진 플레이스홀더 */
+    emptyPlaceholders: string[];
+    /** 데이터에 키 자체가 없어 비워진 플레이스홀더 */
+    missingPlaceholders: string[];
+    /** 양식에 들어갈 자리가 없어 빠진 값 (표 행 수 초과 등) */
+    unplacedValues: string[];
+    /** 치환 후에도 section*.xml 본문에 남은 {{...}} */
+    unresolvedMarkers: HwpxFileIssue[];
+    /** XML 구조 오류 (태그 짝 불일치, 잘못된 엔티티) */
+    xmlErrors: HwpxFileIssue[];
+    checkboxes: HwpxCheckboxState[];
+    /** ☑/☐ 표시를 붙인 선택지 수 */
+    checkboxReplacements: number;
+    removedLinesegArrays: number;
+    /** 데이터 개수에 맞춰 행을 늘리거나 줄인 표 */
+    tableRowChanges: HwpxTableRowChange[];
+    /** 삽입된 이미지의 BinData 경로 */
+    embeddedImages: string[];
+    /** HWPX_FILE_ORDER 중 템플릿에 없어 건너뛴 파일 */
+    missingFiles: string[];
+}
+
+export interface HwpxFillOptions {
+    /** 플레이스홀더별 서식 있는 텍스트 (없는 키는 일반 텍스트로 채움) */
+    richText?: HwpxRichTextMap;
+}
+
+export interface HwpxFillResult {
+    bytes: Uint8Array;
+    report: HwpxFillReport;
+}
+
+// 이미지 마커 → 차트 캡처 이미지(data URL)가 담긴 데이터 키
+const IMAGE_MARKER_KEYS: Record<string, string> = {
+    "{{IMAGE_MARKET_GROWTH}}": "image_market_growth",
+    "{{IMAGE_BM_DIAGRAM}}": "image_bm_diagram",
+    "{{IMAGE_TAM_SAM_SOM}}": "image_tam_sam_som",
+};
+
+// 이미지 마커 - 삽입할 이미지가 없으면 빈 문자열로 치환
+const IMAGE_MARKERS_TO_REMOVE = [
+    "{{IMAGE_MARKET_GROWTH}}",
+    "{{IMAGE_BM_DIAGRAM}}",
+    "{{IMAGE_TAM_SAM_SOM}}",
+    "{{IMAGE_PROBLEM_PROCESS}}",
+];
+
+// 네임스페이스 접두어 감지 함수
+export const detectNamespacePrefix = (xmlContent: string): string => {
+    const match = xmlContent.match(/<(\w+):p\b/);
+    return match ? match[1] : "hp";
+};
+
+const SECTION_FILE_PATTERN = /^Contents\/section\d+\.xml$/;
+const OPF_NS = "http://www.idpf.org/2007/opf/";
+
+/**
+ * 본문 섹션 파일(Contents/section*.xml) 목록 (문서 순서)
+ * content.hpf의 spine 순서를 따르고, spine에 없는 섹션은 번호순으로 뒤에 붙임
+ * (문자열 정렬은 section10이 section2보다 앞에 오므로 번호로 비교)
+ */
+export const listSectionFiles = async (zip: JSZip): Promise<string[]> => {
+    const sectionNumber = (path: string) =>
+        Number(path.match(/section(\d+)\.xml$/)?.[1] ?? 0);
+    const sections = Object.keys(zip.files)
+        .filter((path) => SECTION_FILE_PATTERN.test(path))
+        .sort((a, b) => sectionNumber(a) - sectionNumber(b));
+
+    const hpf = await zip.file("Contents/content.hpf")?.async("string");
+    if (!hpf) return sections;
+
+    const packageXml = parseXml(hpf);
+    const hrefById = new Map<string, string>();
+    for (const item of findElements(packageXml, OPF_NS, "item")) {
+        const id = getAttribute(item, "id");
+        const href = getAttribute(item, "href");
+        if (id && href) hrefById.set(id, href);
+    }
+
+    const spine: string[] = [];
+    for (const itemref of findElements(packageXml, OPF_NS, "itemref")) {
+        const href = hrefById.get(getAttribute(itemref, "idref") ?? "");
+        if (href && sections.includes(href) && !spine.includes(href)) {
+            spine.push(href);
+        }
+    }
+    return [...spine, ...sections.filter((path) => !spine.includes(path))];
+};
+
+/**
+ * 여러 run으로 쪼개진 플레이스홀더를 {{key}} 하나로 정리 (XML 구조 모델에서 처리)
+ */
+export const cleanXmlPlaceholders = (
+    content: string,
+): { cleaned: string; cleanedCount: number } => {
+    const document = parseXml(content);
+    const cleanedCount = normalizePlaceholders(document);
+    return {
+        cleaned: cleanedCount > 0 ? serializeXml(document) : content,
+        cleanedCount,
+    };
+};
+
+// 지원 분야 체크박스 (제조, 지식서비스)
+const SUPPORT_FIELD_OPTIONS = ["제조", "지식서비스"];
+
+// 전문기술분야 체크박스
+const TECH_FIELD_OPTIONS = [
+    { text: "기계·소재", variations: ["기계·소재", "기계.소재"] },
+    { text: "전기·전자", variations: ["전기·전자", "전기.전자"] },
+    { text: "정보·통신", variations: ["정보·통신", "정보.통신"] },
+    { text: "화공·섬유", variations: ["화공·섬유", "화공.섬유"] },
+    {
+        text: "바이오·의료·생명",
+        variations: ["바이오·의료·생명", "바이오.의료.생명"],
+    },
+    { text: "에너지·자원", variations: ["에너지·자원", "에너지.자원"] },
+    { text: "공예·디자인", variations: ["공예·디자인", "공예.디자인"] },
+];
+
+// 지방우대 지역 체크박스
+const REGION_OPTIONS = [
+    "특별지원 지역",
+    "우대지원 지역",
+    "일반지역",
+    "지방우대 비해당 지역",
+];
+
+// 체크박스로 표현되는 데이터 키 (본문 플레이스홀더가 아님)
+const CHECKBOX_KEYS = ["support_field", "tech_field", "region_type"];
+
+const isTechFieldSelected = (selected: string, text: string): boolean =>
+    selected.replace(/·/g, ".") === text.replace(/·/g, ".") ||
+    selected === text;
+
+/**
+ * 체크박스 그룹별 선택 결과 (내보내기 리포트용)
+ */
+const getCheckboxStates = (data: ProjectData): HwpxCheckboxState[] => {
+    const supportField = data["support_field"] || "";
+    const techField = data["tech_field"] || "";
+    const region = data["region_type"] || "";
+
+    return [
+        {
+            group: "지원 분야",
+            value: supportField,
+            selected: SUPPORT_FIELD_OPTIONS.includes(supportField)
+                ? supportField
+                : null,
+        },
+        {
+            group: "전문기술분야",
+            value: techField,
+            selected:
+                TECH_FIELD_OPTIONS.find(({ text }) =>
+                    isTechFieldSelected(techField, text),
+                )?.text ?? null,
+        },
+        {
+            group: "지방우대 지역",
+            value: region,
+            selected: REGION_OPTIONS.includes(region) ? region : null,
+        },
+    ];
+};
+
+/**
+ * 체크박스 치환 함수
+ * 템플릿의 빈 셀(체크박스 영역)에 ☑ 또는 ☐ 문자 삽입
+ * 구조: 빈 셀 <hp:run.../> 다음에 텍스트 셀 <hp:t>옵션</hp:t>
+ * 반환: 표시를 붙인 선택지 수
+ */
+const replaceCheckboxes = (
+    document: XmlDocument,
+    data: ProjectData,
+): number => {
+    // 글자가 선택지와 정확히 같은 hp:t만 대상 (본문 중의 같은 단어는 제외)
+    const optionTexts = findElements(document, OWPML_NS.paragraph, "t")
+        .filter(
+            (element) =>
+                element.children.length === 1 &&
+                element.children[0].type === "text",
+        )
+        .map((element) => element.children[0] as XmlText);
+    let marked = 0;
+
+    const markOption = (option: string, isSelected: boolean) => {
+        const checkChar = isSelected ? "☑ " : "☐ ";
+        for (const node of optionTexts) {
+            if (node.value !== option) continue;
+            setText(node, checkChar + option);
+            marked++;
+        }
+    };
+
+    const selectedSupportField = data["support_field"] || "";
+    for (const option of SUPPORT_FIELD_OPTIONS) {
+        markOption(option, selectedSupportField === option);
+    }
+
+    const selectedTechField = data["tech_field"] || "";
+    for (const { text, variations } of TECH_FIELD_OPTIONS) {
+        const isSelected = isTechFieldSelected(selectedTechField, text);
+        for (const variant of variations) {
+            markOption(variant, isSelected);
+        }
+    }
+
+    const selectedRegion = data["region_type"] || "";
+    for (const option of REGION_OPTIONS) {
+        markOption(option, selectedRegion === option);
+    }
+
+    return marked;
+};
+
+/**
+ * 채워진 양식에서 ☑ 표시된 체크박스 값 읽기 (replaceCheckboxes의 역변환)
+ * HWPX 불러오기에서 support_field / tech_field / region_type 복원에 사용
+ */
+export const readCheckboxSelections = (content: string): ProjectData => {
+    const prefix = detectNamespacePrefix(content);
+    const isChecked = (option: string) =>
+        new RegExp(
+            `<${prefix}:t>☑\\s*${escapeRegExp(option)}</${prefix}:t>`,
+        ).test(content);
+
+    const selections: ProjectData = {};
+    const supportField = SUPPORT_FIELD_OPTIONS.find(isChecked);
+    if (supportField) selections["support_field"] = supportField;
+    const techField = TECH_FIELD_OPTIONS.find(({ variations }) =>
+        variations.some(isChecked),
+    );
+    if (techField) selections["tech_field"] = techField.text;
+    const region = REGION_OPTIONS.find(isChecked);
+    if (region) selections["region_type"] = region;
+    return selections;
+};
+
+// 정규식 특수문자 이스케이프
+const escapeRegExp = (str: string): string => {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
+/**
+ * 지역별 자기부담비율 계산
+ * - 특별지원 지역: 정부 90%, 자기부담 10% (현금만)
+ * - 우대지원 지역: 정부 80%, 자기부담 20% (현금 10%, 현물 10%)
+ * - 일반지역: 정부 75%, 자기부담 25% (현금 10%, 현물 15%)
+ * - 지방우대 비해당 지역: 정부 70%, 자기부담 30% (현금 10%, 현물 20%)
+ */
+const getRegionRatios = (
+    regionType: string,
+): { govRatio: number; cashRatio: number; physicalRatio: number } => {
+    switch (regionType) {
+        case "특별지원 지역":
+            return { govRatio: 0.9, cashRatio: 0.1, physicalRatio: 0 };
+        case "우대지원 지역":
+            return { govRatio: 0.8, cashRatio: 0.1, physicalRatio: 0.1 };
+        case "일반지역":
+            return { govRatio: 0.75, cashRatio: 0.1, physicalRatio: 0.15 };
+        case "지방우대 비해당 지역":
+            return { govRatio: 0.7, cashRatio: 0.1, physicalRatio: 0.2 };
+        default:
+            return { govRatio: 0.75, cashRatio: 0.1, physicalRatio: 0.15 }; // 기본값: 일반지역
+    }
+};
+
+/**
+ * 금액을 천원 단위 문자열로 변환 (예: 3000000 → "3,000천원")
+ */
+const formatThousandWon = (amount: number): string => {
+    const thousands = Math.round(amount / 1000);
+    return `${thousands.toLocaleString()}천원`;
+};
+
+/**
+ * 사업비 집행 계획 데이터 계산
+ * BusinessInfo의 비목별 금액과 산출 근거를 사용
+ * 정부지원사업비는 최대 1억원(100,000천원)
+ */
+const calculateBudgetData = (data: ProjectData): ProjectData => {
+    const regionType = data["region_type"] || "일반지역";
+    const { govRatio, cashRatio, physicalRatio } = getRegionRatios(regionType);
+
+    // 정부지원사업비 (사용자 입력값 또는 기본 1억원)
+    const govAmount = Number(data["budget_gov_amount"]) || 100000000;
+
+    // 총사업비 계산 (정부지원사업비 / 정부비율)
+    const totalProjectAmount = Math.round(govAmount / govRatio);
+    const selfCashAmount = Math.round(totalProjectAmount * cashRatio);
+    const selfPhysicalAmount = Math.round(totalProjectAmount * physicalRatio);
+
+    // 일반현황 표의 사업비 (백만원 단위)
+    data["budget_gov"] = `${Math.round(govAmount / 1000000)}백만원`;
+    data["budget_self_cash"] = `${Math.round(selfCashAmount / 1000000)}백만원`;
+    data["budget_self_kind"] =
+        selfPhysicalAmount > 0
+            ? `${Math.round(selfPhysicalAmount / 1000000)}백만원`
+            : "0";
+    data["budget_total"] = `${Math.round(totalProjectAmount / 1000000)}백만원`;
+
+    // 사업비 집행 계획 표 - BusinessInfo에서 비목별 금액 가져오기
+    const budgetItems = {
+        material: Number(data["budget_material_amount"]) || 3000000,
+        personnel: Number(data["budget_personnel_amount"]) || 50000000,
+        outsourcing: Number(data["budget_outsourcing_amount"]) || 20000000,
+        advertising: Number(data["budget_advertising_amount"]) || 10000000,
+        commission: Number(data["budget_commission_amount"]) || 5000000,
+        activity: Number(data["budget_activity_amount"]) || 7000000,
+        etc: Number(data["budget_etc_amount"]) || 5000000,
+    };
+
+    // 각 비목에 대해 자기부담(현금/현물) 계산
+    let totalGovSum = 0;
+    let totalCashSum = 0;
+    let totalPhysicalSum = 0;
+    let totalAllSum = 0;
+
+    for (const [key, govBudget] of Object.entries(budgetItems)) {
+        // 해당 비목의 총 금액 = 정부지원 / 정부비율
+        const totalItemAmount = Math.round(govBudget / govRatio);
+        const cashAmount = Math.round(totalItemAmount * cashRatio);
+        const physicalAmount = Math.round(totalItemAmount * physicalRatio);
+        const totalAmount = govBudget + cashAmount + physicalAmount;
+
+        totalGovSum += govBudget;
+        totalCashSum += cashAmount;
+        totalPhysicalSum += physicalAmount;
+        totalAllSum += totalAmount;
+
+        // 천원 단위로 변환
+        data[`budget_${key}_amount`] = formatThousandWon(govBudget);
+        data[`cash_${key}_amount`] = formatThousandWon(cashAmount);
+        data[`physical_${key}_amount`] =
+            physicalAmount > 0 ? formatThousandWon(physicalAmount) : "-";
+        data[`total_${key}_amount`] = formatThousandWon(totalAmount);
+
+        // 산출 근거 (BusinessInfo에서 가져오기)
+        const basisKey = `budget_${key}_basis`;
+        if (!data[basisKey] || data[basisKey] === "") {
+            // 기본 산출 근거
+            const defaultBasis: Record<string, string> = {
+                material: "개발 장비 및 재료 구매",
+                personnel: "개발 인력 인건비",
+                outsourcing: "전문 외주 개발 비용",
+                advertising: "마케팅 및 홍보비",
+                commission: "법률/회계 자문료",
+                activity: "창업 활동 비용",
+                etc: "기타 운영 비용",
+            };
+            data[basisKey] = defaultBasis[key] || "";
+        }
+    }
+
+    // physical_budget_material_amount (템플릿의 오타 대응)
+    data["physical_budget_material_amount"] =
+        data["physical_material_amount"] || "-";
+
+    // 합계 행
+    data["total_grant"] = formatThousandWon(totalGovSum);
+    data["total_cash"] = formatThousandWon(totalCashSum);
+    data["total_physical"] =
+        totalPhysicalSum > 0 ? formatThousandWon(totalPhysicalSum) : "-";
+    data["total_for_all"] = formatThousandWon(totalAllSum);
+
+    return data;
+};
+
+// 값의 줄바꿈 표기(\\n 문자열, <br>, CRLF)를 \n으로 통일
+const normalizeLineBreaks = (text: string): string =>
+    text
+        .replace(/\\n/g, "\n")
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/\r\n|\r/g, "\n");
+
+/**
+ * 변수 치환 함수
+ * 여러 줄 값은 줄마다 플레이스홀더 문단을 나누어 같은 문단/글자 모양으로 이어 씀
+ */
+const replaceVariables = (
+    document: XmlDocument,
+    data: ProjectData,
+): {
+    replacedVars: string[];
+    emptyVars: string[];
+    missingVars: string[];
+} => {
+    const replacedVars: string[] = [];
+    const emptyVars: string[] = [];
+    const missingVars: string[] = [];
+
+    // 뒤에서부터 채워야 앞쪽 플레이스홀더의 글자 위치가 유지됨
+    for (const placeholder of findPlaceholders(document).reverse()) {
+        const { key, textNode, start, end } = placeholder;
+        const rawValue = data[key];
+        const value =
+            rawValue === undefined || rawValue === null ? "" : String(rawValue);
+
+        if (value.trim() !== "") {
+            replacedVars.push(key);
+            replaceTextRange(textNode, start, end, normalizeLineBreaks(value));
+        } else {
+            if (rawValue === undefined || rawValue === null) {
+                missingVars.push(key);
+            } else {
+                emptyVars.push(key);
+            }
+            replaceTextRange(textNode, start, end, "");
+        }
+    }
+
+    // 잔여 플레이스홀더 정리 (변수 이름이 아닌 {{...}}, 닫히지 않은 {{key})
+    for (const textNode of findTextNodes(document)) {
+        const cleaned = textNode.value
+            .replace(/\{\{[^}]*\}\}/g, "")
+            .replace(/\{\{[a-zA-Z0-9_]+\}/g, "");
+        if (cleaned !== textNode.value) setText(textNode, cleaned);
+    }
+
+    return {
+        replacedVars: replacedVars.reverse(),
+        emptyVars: emptyVars.reverse(),
+        missingVars: missingVars.reverse(),
+    };
+};
+
+/**
+ * XML 구조 검사 (태그 짝, 엔티티)
+ * DOMParser가 없는 환경(Node/Deno)에서도 동작하도록 토큰 단위로 직접 검사
+ * 문제가 없으면 null
+ */
+const findXmlError = (xml: string): string | null => {
+    const stack: string[] = [];
+    const tokenPattern =
+        /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/?[^<>]*>|[^<]+|</g;
+    const badEntity = /&(?!(?:[a-zA-Z][\w.-]*|#\d+|#x[0-9a-fA-F]+);)/;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(xml)) !== null) {
+        const token = match[0];
+        const position = match.index;
+
+        if (token === "<") return `닫히지 않은 태그 (위치 ${position})`;
+        if (token[0] !== "<") {
+            if (badEntity.test(token)) {
+                return `이스케이프되지 않은 & 문자 (위치 ${position})`;
+            }
+            continue;
+        }
+        if (token.startsWith("<!") || token.startsWith("<?")) continue;
+
+        const name = token.match(/^<\/?([\w:.-]+)/)?.[1];
+        if (!name) return `잘못된 태그 (위치 ${position})`;
+
+        if (token.startsWith("</")) {
+            const open = stack.pop();
+            if (open !== name) {
+                return `</${name}> 태그가 <${open ?? "없음"}>와 짝이 맞지 않음 (위치 ${position})`;
+            }
+        } else if (!token.endsWith("/>")) {
+            stack.push(name);
+        }
+    }
+
+    if (stack.length > 0) {
+        return `<${stack[stack.length - 1]}> 태그가 닫히지 않음`;
+    }
+    return null;
+};
+
+/**
+ * 본문 텍스트(태그 제외)에 남은 {{...}} 마커 수집
+ */
+const findUnresolvedMarkers = (xml: string): string[] => {
+    const text = xml.replace(/<[^>]+>/g, "");
+    return Array.from(
+        new Set(text.match(/\{\{[^{}]{0,60}\}?\}?/g) || []),
+    );
+};
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+/**
+ * 데이터에 담긴 차트 캡처 이미지를 마커별 HWPX 바이너리로 변환
+ */
+const collectMarkerImages = (
+    data: ProjectData,
+): Map<string, HwpxBinaryImage> => {
+    const images = new Map<string, HwpxBinaryImage>();
+    let index = 1;
+    for (const [marker, key] of Object.entries(IMAGE_MARKER_KEYS)) {
+        const dataUrl = data[key];
+        if (!dataUrl) continue;
+        const image = dataUrlToBinaryImage(dataUrl, index);
+        if (image) {
+            images.set(marker, image);
+            index++;
+        }
+    }
+    return images;
+};
+
+// 이미 압축된 이미지와 스크립트는 압축하지 않고 그대로 저장
+const isStoredFile = (filePath: string): boolean =>
+    /\.(?:png|jpe?g|gif|bmp)$/i.test(filePath) ||
+    filePath.startsWith("Scripts/");
+
+/**
+ * HWPX 템플릿에 데이터를 채워 새 HWPX 바이트를 생성
+ *
+ * CRITICAL: HWPX 파일 구조 요구사항
+ * 1. mimetype 파일이 ZIP의 첫 번째 엔트리여야 함
+ * 2. mimetype 파일은 압축되지 않아야 함 (STORE 메서드)
+ * 3. mimetype 내용은 정확히 "application/hwp+zip"이어야 함
+ */
+export const fillHwpxTemplate = async (
+    templateBytes: ArrayBuffer | Uint8Array,
+    data: ProjectData,
+    options: HwpxFillOptions = {},
+): Promise<HwpxFillResult> => {
+    // 지역별 자기부담비율에 따른 사업비 데이터 계산
+    const enrichedData = calculateBudgetData({ ...data });
+
+    const originalZip = await JSZip.loadAsync(templateBytes);
+    // 플레이스홀더·체크박스·이미지 마커는 본문 섹션에만 있음
+    const sectionFiles = await listSectionFiles(originalZip);
+
+    const report: HwpxFillReport = {
+        filledPlaceholders: [],
+        formattedPlaceholders: [],
+        emptyPlaceholders: [],
+        missingPlaceholders: [],
+        unplacedValues: [],
+        unresolvedMarkers: [],
+        xmlErrors: [],
+        checkboxes: getCheckboxStates(enrichedData),
+        checkboxReplacements: 0,
+        removedLinesegArrays: 0,
+        tableRowChanges: [],
+        embeddedImages: [],
+        missingFiles: [],
+    };
+
+    // 수정된 XML 파일들을 저장할 맵
+    const modifiedXmlFiles = new Map<string, string>();
+
+    // 차트 이미지 (BinData에 저장하고 마커 위치에 hp:pic으로 삽입)
+    const markerImages = collectMarkerImages(enrichedData);
+    const embeddedImages: HwpxBinaryImage[] = [];
+    // 삽입한 hp:pic 수 (섹션을 넘어 이어지는 id/instid 번호)
+    let picSequence = 0;
+
+    // 서식 있는 텍스트용 글자/문단 모양 (header.xml에 추가)
+    const headerXml = await originalZip
+        .file("Contents/header.xml")
+        ?.async("string");
+    const headerStyles =
+        headerXml && options.richText ? createHeaderStyles(headerXml) : null;
+
+    for (const xmlFile of sectionFiles) {
+        let fileContent = await originalZip.file(xmlFile)?.async("string");
+        if (!fileContent) continue;
+
+        const prefix = detectNamespacePrefix(fileContent);
+
+        // 반복 행 표 (팀 구성, 일정, 협력 기관) → 데이터 개수만큼 행 복제/삭제
+        // 행 번호를 읽어야 하므로 분리된 플레이스홀더를 먼저 정리
+        const { result: resizedContent, changes: rowChanges } =
+            resizeTableRows(
+                cleanXmlPlaceholders(fileContent).cleaned,
+                enrichedData,
+                prefix,
+            );
+        if (rowChanges.length > 0) {
+            fileContent = resizedContent;
+            report.tableRowChanges.push(...rowChanges);
+        }
+
+        // 이후 단계는 XML 구조 모델에서 처리 (건드리지 않은 부분은 원문 유지)
+        const document = parseXml(fileContent);
+        const normalizedCount = normalizePlaceholders(document);
+
+        // ============================================
+        // CRITICAL FIX: linesegarray 요소 제거
+        // linesegarray는 라인 레이아웃 정보(horzsize, textpos 등)를 담고 있음
+        // 텍스트 치환 후 이 값들이 유효하지 않게 되어 문서가 손상됨
+        // 2025 템플릿: 0개, 2026 템플릿: 451개 (이것이 손상의 원인)
+        // ============================================
+        const linesegCount = removeElements(
+            document,
+            OWPML_NS.paragraph,
+            "linesegarray",
+        );
+        report.removedLinesegArrays += linesegCount;
+
+        // 서식 있는 텍스트 → 플레이스홀더 문단을 hp:p / hp:run으로 재생성
+        const formattedKeys =
+            headerStyles && options.richText
+                ? replaceRichPlaceholders(
+                      document,
+                      options.richText,
+                      headerStyles,
+                  )
+                : [];
+
+        // 이미지 마커 → hp:pic
+        let insertedPics = 0;
+        for (const [marker, image] of markerImages) {
+            const inserted = replaceMarkerWithPic(
+                document,
+                marker,
+                image,
+                () => ++picSequence,
+            );
+            if (inserted > 0 && !embeddedImages.includes(image)) {
+                embeddedImages.push(image);
+            }
+            insertedPics += inserted;
+        }
+
+        // 남은 이미지 마커 제거 (캡처된 차트가 없는 경우)
+        for (const placeholder of findPlaceholders(document).reverse()) {
+            if (IMAGE_MARKERS_TO_REMOVE.includes(`{{${placeholder.key}}}`)) {
+                const { textNode, start, end } = placeholder;
+                replaceTextRange(textNode, start, end, "");
+            }
+        }
+
+        // 체크박스 치환 (☐ / ☑)
+        const checkboxReplacements = replaceCheckboxes(document, enrichedData);
+
+        const { replacedVars, emptyVars, missingVars } = replaceVariables(
+            document,
+            enrichedData,
+        );
+
+        const result = serializeXml(document);
+        if (
+            replacedVars.length > 0 ||
+            checkboxReplacements > 0 ||
+            insertedPics > 0 ||
+            rowChanges.length > 0 ||
+            formattedKeys.length > 0 ||
+            normalizedCount > 0 ||
+            linesegCount > 0
+        ) {
+            modifiedXmlFiles.set(xmlFile, result);
+        }
+        report.filledPlaceholders.push(...formattedKeys, ...replacedVars);
+        report.formattedPlaceholders.push(...formattedKeys);
+        report.emptyPlaceholders.push(...emptyVars);
+        report.missingPlaceholders.push(...missingVars);
+        report.checkboxReplacements += checkboxReplacements;
+
+        for (const marker of findUnresolvedMarkers(result)) {
+            report.unresolvedMarkers.push({ file: xmlFile, message: marker });
+        }
+    }
+
+    report.filledPlaceholders = unique(report.filledPlaceholders);
+    report.formattedPlaceholders = unique(report.formattedPlaceholders);
+    report.emptyPlaceholders = unique(report.emptyPlaceholders);
+    report.missingPlaceholders = unique(report.missingPlaceholders);
+
+    // 값은 있는데 양식 어디에도 들어가지 못한 항목 (체크박스/이미지 키 제외)
+    const usedKeys = new Set([
+        ...report.filledPlaceholders,
+        ...report.emptyPlaceholders,
+    ]);
+    report.unplacedValues = Object.entries(data)
+        .filter(
+            ([key, value]) =>
+                !!value?.trim() &&
+                !usedKeys.has(key) &&
+                !CHECKBOX_KEYS.includes(key) &&
+                !Object.values(IMAGE_MARKER_KEYS).includes(key),
+        )
+        .map(([key]) => key);
+
+    // 서식용으로 추가한 charPr / paraPr / 글머리표 / 번호 반영
+    if (headerStyles?.changed) {
+        modifiedXmlFiles.set("Contents/header.xml", headerStyles.headerXml);
+    }
+
+    // 삽입한 이미지를 content.hpf / manifest.xml에 등록
+    if (embeddedImages.length > 0) {
+        const contentHpf = await originalZip
+            .file("Contents/content.hpf")
+            ?.async("string");
+        if (contentHpf) {
+            modifiedXmlFiles.set(
+                "Contents/content.hpf",
+                registerBinaryItems(contentHpf, embeddedImages),
+            );
+        }
+        const manifestXml =
+            modifiedXmlFiles.get("META-INF/manifest.xml") ??
+            (await originalZip.file("META-INF/manifest.xml")?.async("string"));
+        if (manifestXml) {
+            modifiedXmlFiles.set(
+                "META-INF/manifest.xml",
+                registerManifestEntries(manifestXml, embeddedImages),
+            );
+        }
+        report.embeddedImages = embeddedImages.map((image) => image.path);
+    }
+
+    // 수정한 XML이 여전히 올바른 구조인지 확인
+    for (const [filePath, xml] of modifiedXmlFiles) {
+        const error = findXmlError(xml);
+        if (error) report.xmlErrors.push({ file: filePath, message: error });
+    }
+
+    // ============================================
+    // HWPX 파일 재구성 (2025와 동일한 파일 순서 강제)
+    // ============================================
+    const newZip = new JSZip();
+    // 섹션이 여러 개인 양식은 section0 자리에 모든 섹션을 문서 순서대로 배치
+    const fileOrder = HWPX_FILE_ORDER.flatMap((filePath) =>
+        filePath === "Contents/section0.xml" && sectionFiles.length > 0
+            ? sectionFiles
+            : [filePath],
+    );
+
+    for (const filePath of fileOrder) {
+        const file = originalZip.files[filePath];
+        if (!file) {
+            report.missingFiles.push(filePath);
+            continue;
+        }
+
+        if (filePath === "mimetype") {
+            // mimetype은 정확한 내용으로, STORE 압축
+            newZip.file("mimetype", HWPX_MIMETYPE, { compression: "STORE" });
+        } else if (modifiedXmlFiles.has(filePath)) {
+            newZip.file(filePath, modifiedXmlFiles.get(filePath)!, {
+                compression: "DEFLATE",
+            });
+        } else {
+            // 원본 파일 그대로
+            const content = await file.async("uint8array");
+            newZip.file(filePath, content, {
+                compression: isStoredFile(filePath) ? "STORE" : "DEFLATE",
+            });
+        }
+
+        // 한컴 저장 순서와 같이 BinData는 header.xml 바로 뒤에 배치
+        if (filePath === "Contents/header.xml") {
+            for (const image of embeddedImages) {
+                newZip.file(image.path, image.bytes, { compression: "STORE" });
+            }
+        }
+    }
+
+    // 순서 목록에 없는 파일 (업로드 양식의 BinData 이미지 등)은 원래 순서대로 뒤에 붙임
+    for (const [filePath, file] of Object.entries(originalZip.files)) {
+        if (file.dir || fileOrder.includes(filePath)) continue;
+        newZip.file(filePath, await file.async("uint8array"), {
+            compression: isStoredFile(filePath) ? "STORE" : "DEFLATE",
+        });
+    }
+
+    // CRITICAL: generateAsync에 compression 옵션을 주면 개별 파일 설정이 무시됨
+    const bytes = await newZip.generateAsync({ type: "uint8array" });
+
+    return { bytes, report };
+};
+
+/**
+ * 다운로드 전에 사용자 확인이 필요한 문제가 있는지 여부
+ * (빈 플레이스홀더는 작성하지 않은 항목일 수 있어 경고로만 표시)
+ */
+export const hasBlockingIssues = (report: HwpxFillReport): boolean =>
+    report.unresolvedMarkers.length > 0 || report.xmlErrors.length > 0;
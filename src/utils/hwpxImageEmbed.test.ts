@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { replaceMarkerWithPic, type HwpxBinaryImage } from "./hwpxImageEmbed";
+import { OWPML_NS, parseXml, serializeXml } from "./hwpxXml";
+
+const IMAGE: HwpxBinaryImage = {
+    id: "chart1",
+    path: "BinData/chart1.png",
+    mediaType: "image/png",
+    bytes: new Uint8Array(),
+    pixelWidth: 400,
+    pixelHeight: 200,
+};
+
+// 한컴 기본값(hp/hc)과 다른 접두어를 쓰는 섹션
+const section = (body: string) =>
+    `<sec xmlns:p="${OWPML_NS.paragraph}" xmlns:core="${OWPML_NS.core}">${body}</sec>`;
+
+const paragraph = (text: string) => `<p:p><p:run><p:t>${text}</p:t></p:run></p:p>`;
+
+describe("replaceMarkerWithPic", () => {
+    it("uses the document prefixes and a new id for every marker", () => {
+        const document = parseXml(
+            section(paragraph("앞 {{CHART}} 뒤") + paragraph("{{CHART}}")),
+        );
+        let sequence = 0;
+
+        const inserted = replaceMarkerWithPic(
+            document,
+            "{{CHART}}",
+            IMAGE,
+            () => ++sequence,
+        );
+        const xml = serializeXml(document);
+
+        expect(inserted).toBe(2);
+        expect(xml).not.toMatch(/<h[pc]:/);
+        expect(xml).toContain('<core:img binaryItemIDRef="chart1"');
+        expect(xml).toContain('<core:pt2 x="42520" y="21260"/>');
+        const ids = [...xml.matchAll(/<p:pic id="(\d+)"/g)].map(
+            (match) => match[1],
+        );
+        expect(new Set(ids).size).toBe(2);
+        expect(xml).toContain("<p:t>앞 </p:t>");
+    });
+});
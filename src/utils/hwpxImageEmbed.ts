@@ -0,0 +1,211 @@
+/**
+ * HWPX 이미지 삽입
+ * 전략: PNG를 BinData/에 저장 → content.hpf / manifest.xml에 등록 → 마커 위치에 hp:pic 삽입
+ */
+
+import {
+    findPlaceholders,
+    OWPML_NS,
+    parseXmlFragment,
+    prefixFor,
+    replaceTextRangeWithElements,
+    type XmlDocument,
+} from "./hwpxXml";
+
+export interface HwpxBinaryImage {
+    /** content.hpf 항목 ID (hc:img의 binaryItemIDRef) */
+    id: string;
+    /** ZIP 내부 경로 (BinData/chart1.png) */
+    path: string;
+    mediaType: string;
+    bytes: Uint8Array;
+    /** 원본 픽셀 크기 (비율 계산용) */
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+// HWPUNIT = 1/7200 inch
+// 본문 폭(A4 210mm - 좌우 여백)에 맞춘 최대 크기: 폭 150mm, 높이 200mm
+const MAX_PIC_WIDTH = 42520;
+const MAX_PIC_HEIGHT = 56692;
+
+// hp:pic id/instid - 템플릿 기존 개체 ID와 겹치지 않도록 큰 값에서 시작
+const PIC_ID_BASE = 1900000000;
+
+/** 그림 요소에 쓰는 네임스페이스 접두어 (문서 선언에서 찾은 값) */
+export interface PicPrefixes {
+    /** hp:pic 등 문단 네임스페이스 */
+    paragraph: string;
+    /** hc:img, hc:pt0 등 코어 네임스페이스 */
+    core: string;
+}
+
+/**
+ * base64 PNG data URL → HWPX 바이너리 이미지
+ * html2canvas 캡처 결과(image/png)만 지원
+ */
+export const dataUrlToBinaryImage = (
+    dataUrl: string,
+    index: number,
+): HwpxBinaryImage | null => {
+    const match = dataUrl.match(/^data:image\/png;base64,(.+)$/);
+    if (!match) return null;
+
+    const binary = atob(match[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    // PNG 시그니처(8) + IHDR 길이/타입(8) 다음에 width, height (big-endian uint32)
+    if (bytes.length < 24) return null;
+    const view = new DataView(bytes.buffer);
+    const pixelWidth = view.getUint32(16);
+    const pixelHeight = view.getUint32(20);
+    if (!pixelWidth || !pixelHeight) return null;
+
+    return {
+        id: `chart${index}`,
+        path: `BinData/chart${index}.png`,
+        mediaType: "image/png",
+        bytes,
+        pixelWidth,
+        pixelHeight,
+    };
+};
+
+/**
+ * 본문 폭에 맞춘 그림 크기 (HWPUNIT, 비율 유지)
+ */
+const fitPicSize = (image: HwpxBinaryImage) => {
+    const ratio = image.pixelHeight / image.pixelWidth;
+    let width = MAX_PIC_WIDTH;
+    let height = Math.round(width * ratio);
+    if (height > MAX_PIC_HEIGHT) {
+        height = MAX_PIC_HEIGHT;
+        width = Math.round(height / ratio);
+    }
+    return { width, height };
+};
+
+/**
+ * 글자처럼 취급(treatAsChar)하는 hp:pic 요소 생성
+ * 문단 흐름 안에 놓여 앞뒤 본문과 함께 이동함
+ * sequence: 문서 전체에서 삽입 순서 (id/instid가 그림마다 달라야 함)
+ */
+export const buildPicXml = (
+    image: HwpxBinaryImage,
+    sequence: number,
+    prefixes: PicPrefixes,
+): string => {
+    const { paragraph: p, core: c } = prefixes;
+    const { width, height } = fitPicSize(image);
+    const picId = PIC_ID_BASE + sequence;
+
+    return (
+        `<${p}:pic id="${picId}" zOrder="${sequence}" numberingType="PICTURE" textWrap="TOP_AND_BOTTOM" textFlow="BOTH_SIDES" lock="0" dropcapstyle="None" href="" groupLevel="0" instid="${picId}" reverse="0">` +
+        `<${p}:offset x="0" y="0"/>` +
+        `<${p}:orgSz width="${width}" height="${height}"/>` +
+        `<${p}:curSz width="${width}" height="${height}"/>` +
+        `<${p}:flip horizontal="0" vertical="0"/>` +
+        `<${p}:rotationInfo angle="0" centerX="${Math.round(width / 2)}" centerY="${Math.round(height / 2)}" rotateimage="1"/>` +
+        `<${p}:renderingInfo>` +
+        `<${c}:transMatrix e1="1" e2="0" e3="0" e4="0" e5="1" e6="0"/>` +
+        `<${c}:scaMatrix e1="1" e2="0" e3="0" e4="0" e5="1" e6="0"/>` +
+        `<${c}:rotMatrix e1="1" e2="0" e3="0" e4="0" e5="1" e6="0"/>` +
+        `</${p}:renderingInfo>` +
+        `<${c}:img binaryItemIDRef="${image.id}" bright="0" contrast="0" effect="REAL_PIC" alpha="0"/>` +
+        `<${p}:imgRect>` +
+        `<${c}:pt0 x="0" y="0"/><${c}:pt1 x="${width}" y="0"/>` +
+        `<${c}:pt2 x="${width}" y="${height}"/><${c}:pt3 x="0" y="${height}"/>` +
+        `</${p}:imgRect>` +
+        `<${p}:imgClip left="0" right="${width}" top="0" bottom="${height}"/>` +
+        `<${p}:inMargin left="0" right="0" top="0" bottom="0"/>` +
+        `<${p}:imgDim dimwidth="${width}" dimheight="${height}"/>` +
+        `<${p}:effects/>` +
+        `<${p}:sz width="${width}" widthRelTo="ABSOLUTE" height="${height}" heightRelTo="ABSOLUTE" protect="0"/>` +
+        `<${p}:pos treatAsChar="1" affectLSpacing="0" flowWithText="1" allowOverlap="0" holdAnchorAndSO="0" vertRelTo="PARA" horzRelTo="COLUMN" vertAlign="TOP" horzAlign="LEFT" vertOffset="0" horzOffset="0"/>` +
+        `<${p}:outMargin left="0" right="0" top="0" bottom="0"/>` +
+        `</${p}:pic>`
+    );
+};
+
+/**
+ * 텍스트 마커를 hp:pic으로 교체
+ * hp:pic은 hp:run의 자식이어야 하므로 마커를 감싼 hp:t를 나누고 그 사이에 그림을 넣음
+ * 접두어는 마커 문단에 선언된 네임스페이스에서 찾고, 마커마다 nextSequence()로 새 번호를 받음
+ * 반환: 교체한 마커 수
+ */
+export const replaceMarkerWithPic = (
+    document: XmlDocument,
+    marker: string,
+    image: HwpxBinaryImage,
+    nextSequence: () => number,
+): number => {
+    const placeholders = findPlaceholders(document).filter(
+        ({ key }) => `{{${key}}}` === marker,
+    );
+
+    // 뒤에서부터 교체해야 같은 글자 노드 안의 앞쪽 위치가 유지됨
+    for (const { paragraph, textNode, start, end } of placeholders.reverse()) {
+        const picXml = buildPicXml(image, nextSequence(), {
+            paragraph: prefixFor(paragraph, OWPML_NS.paragraph),
+            core: prefixFor(paragraph, OWPML_NS.core),
+        });
+        replaceTextRangeWithElements(
+            textNode,
+            start,
+            end,
+            parseXmlFragment(picXml, paragraph),
+        );
+    }
+    return placeholders.length;
+};
+
+/**
+ * content.hpf의 opf:manifest에 BinData 항목 등록
+ */
+export const registerBinaryItems = (
+    contentHpf: string,
+    images: HwpxBinaryImage[],
+): string => {
+    return contentHpf.replace(
+        /<\/(\w+:)?manifest>/,
+        (closeTag, nsPrefix = "") => {
+            const items = images
+                .map(
+                    (image) =>
+                        `<${nsPrefix}item id="${image.id}" href="${image.path}" media-type="${image.mediaType}" isEmbeded="1"/>`,
+                )
+                .join("");
+            return items + closeTag;
+        },
+    );
+};
+
+/**
+ * META-INF/manifest.xml에 BinData 파일 항목 등록
+ * 한컴 템플릿의 manifest는 비어 있는 self-closing 요소일 수 있음
+ */
+export const registerManifestEntries = (
+    manifestXml: string,
+    images: HwpxBinaryImage[],
+): string => {
+    const prefixMatch = manifestXml.match(/<(\w+):manifest\b/);
+    const p = prefixMatch ? `${prefixMatch[1]}:` : "";
+    const entries = images
+        .map(
+            (image) =>
+                `<${p}file-entry ${p}full-path="${image.path}" ${p}media-type="${image.mediaType}"/>`,
+        )
+        .join("");
+
+    const selfClosing = new RegExp(`(<${p}manifest\\b[^>]*?)\\s*/>`);
+    if (selfClosing.test(manifestXml)) {
+        return manifestXml.replace(
+            selfClosing,
+            `$1>${entries}</${p}manifest>`,
+        );
+    }
+    return manifestXml.replace(`</${p}manifest>`, `${entries}</${p}manifest>`);
+};
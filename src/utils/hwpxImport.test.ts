@@ -0,0 +1,44 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { ProjectData } from "./editorParser";
+import { fillHwpxTemplate } from "./hwpxFillEngine";
+import { recoverProjectData } from "./hwpxImport";
+
+const loadTemplate = (fileName: string) =>
+    readFile(path.resolve(__dirname, "../../public", fileName));
+
+const DATA: ProjectData = {
+    item_name: "AI 기반 사업계획서 작성 도구",
+    item_category: "정보·통신",
+    info_company_name: "주식회사 테스트",
+    summary_overview:
+        "초기 창업자를 위한 사업계획서 작성 서비스\n지원사업 양식에 맞춰 초안을 작성하고 HWPX로 내보냄",
+    prob_market: "예비창업자 연 10만 명, R&D 과제 신청 증가",
+    sol_develop: "1단계 MVP 개발\n2단계 양식 확대",
+    team_1_position: "대표",
+    team_1_role: "사업 총괄",
+    team_2_position: "개발자",
+    team_2_role: "서비스 개발",
+    schedule_1_task: "MVP 개발",
+    schedule_1_period: "2025.06 ~ 2025.08",
+    schedule_2_task: "시범 운영",
+    schedule_2_period: "2025.09 ~ 2025.10",
+    schedule_3_task: "정식 출시",
+    schedule_3_period: "2025.11 ~ 2025.12",
+};
+
+describe("recoverProjectData", () => {
+    it("reads back the values fillHwpxTemplate wrote", async () => {
+        const template = await loadTemplate("template_2026_early.hwpx");
+        const { bytes } = await fillHwpxTemplate(template, DATA);
+
+        const { data, report } = await recoverProjectData(template, bytes);
+
+        expect(data).toMatchObject(DATA);
+        expect(report.matchedTables).toBe(report.templateTables);
+        expect(report.recoveredPlaceholders).toEqual(
+            expect.arrayContaining(Object.keys(DATA)),
+        );
+    });
+});
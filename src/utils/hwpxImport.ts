@@ -0,0 +1,596 @@
+/**
+ * HWPX 되불러오기 엔진 (순수 함수)
+ * (templateBytes, filledBytes) → ProjectData
+ *
+ * 내보낸 뒤 한글에서 고친 양식을 다시 에디터로 가져오기 위해 원본 템플릿과 나란히 비교
+ * → 표 안의 플레이스홀더: 짝이 맞는 표의 같은 행/열(colAddr) 셀에서 값 읽기
+ *   반복 행(팀 구성, 일정, 협력 기관)은 늘어난/줄어든 행 수만큼 번호를 다시 매겨 읽음
+ * → 본문 플레이스홀더: 양쪽에 그대로 남은 고정 문단(소제목 등)과 표를 기준점으로 맞추고
+ *   기준점 사이의 문단을 값으로 읽음
+ * 한글에서 다시 저장해도 셀 주소와 고정 문구는 유지되므로 사용자가 고친 내용까지 복원됨
+ */
+
+import JSZip from "jszip";
+import type { ProjectData } from "./editorParser";
+import {
+    cleanXmlPlaceholders,
+    detectNamespacePrefix,
+    listSectionFiles,
+    readCheckboxSelections,
+} from "./hwpxFillEngine";
+import { TABLE_ROW_GROUPS, findInnermostTables } from "./hwpxTableRows";
+
+export interface HwpxImportReport {
+    /** 값을 읽어 온 플레이스홀더 */
+    recoveredPlaceholders: string[];
+    /** 위치를 맞추지 못해 값을 읽지 못한 플레이스홀더 */
+    unmatchedPlaceholders: string[];
+    /** 플레이스홀더가 있는 템플릿 표 중 채워진 문서에서 짝을 찾은 표 수 */
+    matchedTables: number;
+    templateTables: number;
+}
+
+export interface HwpxImportResult {
+    data: ProjectData;
+    report: HwpxImportReport;
+}
+
+interface HwpxCell {
+    col: number;
+    text: string;
+}
+
+type HwpxRow = HwpxCell[];
+
+type HwpxBlock =
+    | { kind: "paragraph"; text: string }
+    | { kind: "table"; table: number };
+
+interface HwpxFlow {
+    blocks: HwpxBlock[];
+    tables: HwpxRow[][];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([a-zA-Z0-9_]+)\}\}/g;
+const ELLIPSIS_ROW_TEXTS = ["...", "…"];
+// 가장 안쪽 표 자리에 남겨 두는 표시 (문단 흐름 안에서 표 위치 유지)
+const TABLE_REF_PATTERN = /^<tableRef n="(\d+)"\/>$/;
+
+const escapeRegExp = (text: string): string =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const decodeXmlText = (text: string): string =>
+    text
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+            String.fromCodePoint(parseInt(hex, 16)),
+        )
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+
+// 비교용 정규화: 공백과 체크박스 표시(☐/☑)는 무시
+const normalize = (text: string): string => text.replace(/[\s☐☑]+/g, "");
+
+const placeholderKeys = (text: string): string[] =>
+    Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+
+// 차트 이미지 마커는 값이 아니라 그림으로 바뀌므로 복원 대상이 아님
+const isValueKey = (key: string): boolean => !key.startsWith("IMAGE_");
+
+const hasPlaceholder = (text: string): boolean =>
+    placeholderKeys(text).some(isValueKey);
+
+// 문단 사이 빈 줄은 최대 한 줄, 앞뒤 공백 제거
+const cleanValue = (text: string): string =>
+    text
+        .split("\n")
+        .map((line) => line.replace(/\s+$/, ""))
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+
+// ============= XML → 문단/표 흐름 =============
+
+/**
+ * 문단 단위 텍스트 추출 (hp:t 안의 글자, 줄바꿈·탭 포함)
+ * 표 표시를 만나면 그 자리에 표 블록을 넣음
+ */
+const scanBlocks = (xml: string, prefix: string): HwpxBlock[] => {
+    const blocks: HwpxBlock[] = [];
+    const openParagraphs: Array<{ kind: "paragraph"; text: string }> = [];
+    let textDepth = 0;
+
+    const append = (text: string) => {
+        const current = openParagraphs[openParagraphs.length - 1];
+        if (current && textDepth > 0) current.text += text;
+    };
+
+    for (const [token] of xml.matchAll(/<[^>]+>|[^<]+/g)) {
+        if (token[0] !== "<") {
+            append(decodeXmlText(token));
+            continue;
+        }
+
+        const tableRef = token.match(TABLE_REF_PATTERN);
+        if (tableRef) {
+            blocks.push({ kind: "table", table: Number(tableRef[1]) });
+            continue;
+        }
+
+        const tag = token.match(/^<(\/?)([\w.-]+):([\w.-]+)/);
+        if (!tag || tag[2] !== prefix) continue;
+        const closing = tag[1] === "/";
+        const selfClosing = token.endsWith("/>");
+
+        switch (tag[3]) {
+            case "p":
+                if (closing) {
+                    openParagraphs.pop();
+                } else if (!selfClosing) {
+                    const paragraph = { kind: "paragraph" as const, text: "" };
+                    blocks.push(paragraph);
+                    openParagraphs.push(paragraph);
+                }
+                break;
+            case "t":
+                if (closing) textDepth = Math.max(0, textDepth - 1);
+                else if (!selfClosing) textDepth++;
+                break;
+            case "lineBreak":
+                append("\n");
+                break;
+            case "tab":
+                append("\t");
+                break;
+        }
+    }
+    return blocks;
+};
+
+const paragraphTexts = (blocks: HwpxBlock[]): string[] =>
+    blocks.flatMap((block) => (block.kind === "paragraph" ? [block.text] : []));
+
+const parseTable = (table: string, prefix: string): HwpxRow[] => {
+    const p = prefix;
+    const rows = table.match(new RegExp(`<${p}:tr\\b[\\s\\S]*?</${p}:tr>`, "g"));
+
+    return (rows || []).map((row) =>
+        (row.match(new RegExp(`<${p}:tc\\b[\\s\\S]*?</${p}:tc>`, "g")) || []).map(
+            (cell, index) => {
+                const address =
+                    cell.match(new RegExp(`<${p}:cellAddr\\b[^>]*>`))?.[0] ?? "";
+                const col = address.match(/\bcolAddr="(\d+)"/)?.[1];
+                return {
+                    col: col !== undefined ? Number(col) : index,
+                    text: paragraphTexts(scanBlocks(cell, p)).join("\n"),
+                };
+            },
+        ),
+    );
+};
+
+/**
+ * 섹션 XML → 문단/표 흐름
+ * 가장 안쪽 표는 셀 단위로 따로 읽고, 바깥(틀) 표의 문단은 본문 흐름에 포함
+ */
+const parseFlow = (xml: string): HwpxFlow => {
+    const prefix = detectNamespacePrefix(xml);
+    const ranges = findInnermostTables(xml, prefix).sort((a, b) => a[0] - b[0]);
+
+    const tables: HwpxRow[][] = [];
+    let outer = "";
+    let cursor = 0;
+    for (const [start, end] of ranges) {
+        outer += xml.substring(cursor, start) + `<tableRef n="${tables.length}"/>`;
+        tables.push(parseTable(xml.substring(start, end), prefix));
+        cursor = end;
+    }
+    outer += xml.substring(cursor);
+
+    return { blocks: scanBlocks(outer, prefix), tables };
+};
+
+/**
+ * 본문 섹션 XML을 순서대로 이어 붙임 (한글에서 다시 저장하면 섹션이 나뉠 수 있음)
+ */
+const readSections = async (zip: JSZip): Promise<string> => {
+    const sections = await listSectionFiles(zip);
+    const contents = await Promise.all(
+        sections.map((path) => zip.file(path)!.async("string")),
+    );
+    return contents.join("");
+};
+
+// ============= 값 추출 =============
+
+const staticPattern = (text: string): string => {
+    const words = text.split(/[\s☐☑]+/).filter(Boolean);
+    return words.length > 0
+        ? `[\\s☐☑]*${words.map(escapeRegExp).join("[\\s☐☑]*")}[\\s☐☑]*`
+        : "\\s*";
+};
+
+/**
+ * 템플릿 문구(고정 글자 + {{키}})와 채워진 글자를 맞춰 키별 값 추출
+ * 고정 글자의 공백 차이는 무시, 고정 글자가 바뀌었으면 null
+ */
+const matchTemplateText = (
+    templateText: string,
+    filledText: string,
+): Record<string, string> | null => {
+    const keys: string[] = [];
+    let pattern = "";
+    let cursor = 0;
+    for (const match of templateText.matchAll(PLACEHOLDER_PATTERN)) {
+        pattern += staticPattern(templateText.substring(cursor, match.index));
+        pattern += "([\\s\\S]*?)";
+        keys.push(match[1]);
+        cursor = match.index! + match[0].length;
+    }
+    pattern += staticPattern(templateText.substring(cursor));
+
+    const match = filledText.match(new RegExp(`^${pattern}$`));
+    if (!match) return null;
+    return Object.fromEntries(
+        keys.map((key, index) => [key, cleanValue(match[index + 1])]),
+    );
+};
+
+/**
+ * 복원한 값을 모으는 수집기 (같은 키가 여러 곳에 있으면 먼저 읽은 값 유지)
+ */
+const createCollector = () => {
+    const data: ProjectData = {};
+    const recovered = new Set<string>();
+    const unmatched = new Set<string>();
+
+    const read = (templateText: string, filledText: string | null) => {
+        const keys = placeholderKeys(templateText).filter(isValueKey);
+        const values =
+            filledText === null
+                ? null
+                : matchTemplateText(templateText, filledText);
+
+        for (const key of keys) {
+            if (!values) {
+                unmatched.add(key);
+                continue;
+            }
+            if (!data[key]) data[key] = values[key] ?? "";
+            recovered.add(key);
+        }
+    };
+
+    return {
+        read,
+        miss: (templateText: string) => read(templateText, null),
+        result: () => {
+            const recoveredKeys = Array.from(recovered);
+            return {
+                data,
+                recoveredPlaceholders: recoveredKeys,
+                unmatchedPlaceholders: Array.from(unmatched).filter(
+                    (key) => !recovered.has(key),
+                ),
+            };
+        },
+    };
+};
+
+type Collector = ReturnType<typeof createCollector>;
+
+// ============= 표 =============
+
+const rowText = (row: HwpxRow): string =>
+    row.map((cell) => cell.text).join("");
+
+const detectRowGroup = (row: HwpxRow): string | null => {
+    const text = rowText(row);
+    const found = TABLE_ROW_GROUPS.filter((group) =>
+        new RegExp(`\\{\\{${group}_\\d+_\\w+\\}\\}`).test(text),
+    );
+    return found.length === 1 ? found[0] : null;
+};
+
+const isEllipsisRow = (row: HwpxRow | undefined): boolean =>
+    !!row && ELLIPSIS_ROW_TEXTS.includes(rowText(row).trim());
+
+// 표의 고정 문구 (머리글 등) - 표끼리 짝을 맞출 때 사용
+const tableSignature = (rows: HwpxRow[]): string[] =>
+    rows
+        .flat()
+        .filter((cell) => !hasPlaceholder(cell.text))
+        .map((cell) => normalize(cell.text))
+        .filter((text) => text && !/^\d+$/.test(text) && text !== "...");
+
+/**
+ * 템플릿 표마다 채워진 문서에서 같은 순서로 짝이 되는 표 찾기
+ * 고정 문구가 60% 이상 겹치는 첫 표를 짝으로 봄 (사용자가 표를 추가해도 건너뜀)
+ */
+const matchTables = (
+    templateTables: HwpxRow[][],
+    filledTables: HwpxRow[][],
+): Map<number, number> => {
+    const pairs = new Map<number, number>();
+    const filledSignatures = filledTables.map(
+        (rows) => new Set(tableSignature(rows)),
+    );
+
+    let cursor = 0;
+    templateTables.forEach((rows, templateIndex) => {
+        const signature = tableSignature(rows);
+        for (let index = cursor; index < filledTables.length; index++) {
+            const overlap = signature.filter((text) =>
+                filledSignatures[index].has(text),
+            ).length;
+            const matches =
+                signature.length === 0
+                    ? index === cursor
+                    : overlap / signature.length >= 0.6;
+            if (matches) {
+                pairs.set(templateIndex, index);
+                cursor = index + 1;
+                return;
+            }
+        }
+    });
+    return pairs;
+};
+
+/**
+ * 템플릿 행 → 채워진 행 짝 맞추기
+ * 반복 행 구간은 채워진 표의 남는 행 수만큼 늘어났다고 보고 번호를 다시 매김
+ * (내보내기에서 삭제되는 "..." 안내 행도 반영)
+ */
+const pairRows = (
+    templateRows: HwpxRow[],
+    filledRows: HwpxRow[],
+): Array<{ template: HwpxRow; filled: HwpxRow | null; renumber?: [string, number] }> => {
+    const groups = templateRows.map(detectRowGroup);
+    const runs: Array<{ start: number; end: number; group: string }> = [];
+    groups.forEach((group, index) => {
+        if (!group) return;
+        const last = runs[runs.length - 1];
+        if (last && last.group === group && last.end === index - 1) {
+            last.end = index;
+        } else {
+            runs.push({ start: index, end: index, group });
+        }
+    });
+
+    // 반복 구간이 없거나 둘 이상이면 행 순서 그대로
+    if (runs.length !== 1) {
+        return templateRows.map((template, index) => ({
+            template,
+            filled: filledRows[index] ?? null,
+        }));
+    }
+
+    const [{ start, end, group }] = runs;
+    const hasEllipsis = isEllipsisRow(templateRows[end + 1]);
+    const runLength = end - start + 1;
+    const fixedRows = templateRows.length - runLength - (hasEllipsis ? 1 : 0);
+    let filledRunLength = Math.max(0, filledRows.length - fixedRows);
+    // 행 구조를 건드리지 못한 경우(병합 셀) "..." 행이 그대로 남아 있음
+    const keptEllipsis =
+        hasEllipsis &&
+        filledRunLength > 0 &&
+        isEllipsisRow(filledRows[start + filledRunLength - 1]);
+    if (keptEllipsis) filledRunLength--;
+
+    const pairs: Array<{
+        template: HwpxRow;
+        filled: HwpxRow | null;
+        renumber?: [string, number];
+    }> = [];
+    let cursor = 0;
+    for (let index = 0; index < templateRows.length; index++) {
+        if (index === start) {
+            for (let i = 0; i < filledRunLength; i++) {
+                pairs.push({
+                    template: templateRows[start + Math.min(i, runLength - 1)],
+                    filled: filledRows[cursor++] ?? null,
+                    renumber: [group, i + 1],
+                });
+            }
+            index = end;
+            continue;
+        }
+        if (hasEllipsis && index === end + 1) {
+            if (keptEllipsis) cursor++;
+            continue;
+        }
+        pairs.push({
+            template: templateRows[index],
+            filled: filledRows[cursor++] ?? null,
+        });
+    }
+    return pairs;
+};
+
+const readTable = (
+    templateRows: HwpxRow[],
+    filledRows: HwpxRow[] | null,
+    collector: Collector,
+) => {
+    if (!filledRows) {
+        for (const cell of templateRows.flat()) collector.miss(cell.text);
+        return;
+    }
+
+    for (const { template, filled, renumber } of pairRows(
+        templateRows,
+        filledRows,
+    )) {
+        for (const cell of template) {
+            if (!hasPlaceholder(cell.text)) continue;
+
+            const templateText = renumber
+                ? cell.text.replace(
+                      new RegExp(`\\{\\{${renumber[0]}_\\d+_`, "g"),
+                      `{{${renumber[0]}_${renumber[1]}_`,
+                  )
+                : cell.text;
+            const filledCell = filled?.find(({ col }) => col === cell.col);
+            collector.read(templateText, filledCell?.text ?? null);
+        }
+    }
+};
+
+// ============= 본문 문단 =============
+
+/**
+ * 두 흐름에서 기준점(고정 문단, 짝이 맞는 표)의 최장 공통 부분열
+ * 반환값: [템플릿 블록 위치, 채워진 블록 위치] 쌍 목록
+ */
+const alignAnchors = (
+    templateKeys: Array<string | null>,
+    filledKeys: Array<string | null>,
+): Array<[number, number]> => {
+    const n = templateKeys.length;
+    const m = filledKeys.length;
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * width + j] =
+                templateKeys[i] !== null && templateKeys[i] === filledKeys[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(
+                          lengths[(i + 1) * width + j],
+                          lengths[i * width + j + 1],
+                      );
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (templateKeys[i] !== null && templateKeys[i] === filledKeys[j]) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+};
+
+const readParagraphs = (
+    template: HwpxFlow,
+    filled: HwpxFlow,
+    tablePairs: Map<number, number>,
+    collector: Collector,
+) => {
+    const filledToTemplateTable = new Map(
+        Array.from(tablePairs, ([t, f]) => [f, t]),
+    );
+
+    const templateKeys = template.blocks.map((block) => {
+        if (block.kind === "table") {
+            return tablePairs.has(block.table) ? `table:${block.table}` : null;
+        }
+        const text = normalize(block.text);
+        return text && !hasPlaceholder(block.text) ? `p:${text}` : null;
+    });
+    const filledKeys = filled.blocks.map((block) => {
+        if (block.kind === "table") {
+            const templateTable = filledToTemplateTable.get(block.table);
+            return templateTable !== undefined ? `table:${templateTable}` : null;
+        }
+        const text = normalize(block.text);
+        return text ? `p:${text}` : null;
+    });
+
+    const anchors = alignAnchors(templateKeys, filledKeys);
+    const bounds: Array<[number, number]> = [
+        [-1, -1],
+        ...anchors,
+        [template.blocks.length, filled.blocks.length],
+    ];
+
+    for (let index = 0; index + 1 < bounds.length; index++) {
+        const [templateStart, filledStart] = bounds[index];
+        const [templateEnd, filledEnd] = bounds[index + 1];
+
+        const placeholders = paragraphTexts(
+            template.blocks.slice(templateStart + 1, templateEnd),
+        ).filter(hasPlaceholder);
+        if (placeholders.length === 0) continue;
+
+        const gap = paragraphTexts(
+            filled.blocks.slice(filledStart + 1, filledEnd),
+        );
+
+        if (placeholders.length === 1) {
+            collector.read(placeholders[0], gap.join("\n"));
+        } else if (placeholders.length === gap.length) {
+            placeholders.forEach((text, i) => collector.read(text, gap[i]));
+        } else {
+            // 기준점 사이에 플레이스홀더 문단이 여럿이면 경계를 알 수 없음
+            placeholders.forEach((text) => collector.miss(text));
+        }
+    }
+};
+
+/**
+ * 내보낸(또는 한글에서 고친) HWPX에서 ProjectData 복원
+ */
+export const recoverProjectData = async (
+    templateBytes: ArrayBuffer | Uint8Array,
+    filledBytes: ArrayBuffer | Uint8Array,
+): Promise<HwpxImportResult> => {
+    const [templateZip, filledZip] = await Promise.all([
+        JSZip.loadAsync(templateBytes),
+        JSZip.loadAsync(filledBytes),
+    ]);
+
+    const templateXml = cleanXmlPlaceholders(
+        await readSections(templateZip),
+    ).cleaned;
+    const filledXml = await readSections(filledZip);
+    if (!filledXml) {
+        throw new Error("HWPX 본문(Contents/section*.xml)을 찾을 수 없습니다.");
+    }
+
+    const template = parseFlow(templateXml);
+    const filled = parseFlow(filledXml);
+    const tablePairs = matchTables(template.tables, filled.tables);
+    const collector = createCollector();
+
+    const valueTables = template.tables
+        .map((rows, index) => ({ rows, index }))
+        .filter(({ rows }) => rows.flat().some((cell) => hasPlaceholder(cell.text)));
+    for (const { rows, index } of valueTables) {
+        const pair = tablePairs.get(index);
+        readTable(
+            rows,
+            pair !== undefined ? filled.tables[pair] : null,
+            collector,
+        );
+    }
+    readParagraphs(template, filled, tablePairs, collector);
+
+    const { data, recoveredPlaceholders, unmatchedPlaceholders } =
+        collector.result();
+
+    return {
+        data: { ...data, ...readCheckboxSelections(filledXml) },
+        report: {
+            recoveredPlaceholders,
+            unmatchedPlaceholders,
+            matchedTables: valueTables.filter(({ index }) =>
+                tablePairs.has(index),
+            ).length,
+            templateTables: valueTables.length,
+        },
+    };
+};
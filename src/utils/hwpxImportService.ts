@@ -0,0 +1,70 @@
+/**
+ * HWPX 불러오기 서비스 (템플릿 로드 → 값 복원 → 에디터 문서/사업자 정보 생성)
+ * 값 복원 자체는 hwpxImport(순수 함수)에서 수행
+ */
+
+import type { JSONContent } from "@tiptap/react";
+import type { BusinessInfo } from "@/components/app/BusinessInfoPanel";
+import type { GrantProgram } from "@/lib/grantPrograms";
+import type { ProjectData } from "./editorParser";
+import { recoverProjectData, type HwpxImportReport } from "./hwpxImport";
+import {
+    buildEditorContent,
+    businessInfoFromProjectData,
+} from "./projectDataDocument";
+
+export interface HwpxImportOutcome {
+    content: JSONContent;
+    businessInfo: Partial<BusinessInfo>;
+    data: ProjectData;
+    report: HwpxImportReport;
+}
+
+/**
+ * 이 서비스로 내보낸 HWPX(한글에서 고쳐 저장한 파일 포함)를 에디터로 불러오기
+ * 지원사업의 원본 템플릿과 비교해 값을 읽으므로 해당 지원사업 양식만 가능
+ */
+export const importHwpxFile = async (
+    file: Blob | ArrayBuffer,
+    program: GrantProgram,
+): Promise<HwpxImportOutcome> => {
+    if (!program.hwpxTemplate) {
+        throw new Error(`${program.name} HWPX 양식은 아직 지원되지 않습니다.`);
+    }
+    console.log(`🚀 HWPX 불러오기: template: ${program.hwpxTemplate}`);
+
+    const response = await fetch(program.hwpxTemplate);
+    if (!response.ok)
+        throw new Error(`Template load failed: ${response.status}`);
+
+    const [templateBytes, filledBytes] = await Promise.all([
+        response.arrayBuffer(),
+        file instanceof Blob ? file.arrayBuffer() : Promise.resolve(file),
+    ]);
+    const { data, report } = await recoverProjectData(
+        templateBytes,
+        filledBytes,
+    );
+
+    console.log(
+        `✅ 복원 ${report.recoveredPlaceholders.length}개 / 실패 ${report.unmatchedPlaceholders.length}개 / 표 ${report.matchedTables}/${report.templateTables}`,
+    );
+    if (report.unmatchedPlaceholders.length > 0) {
+        console.warn(
+            "⚠️ 위치를 찾지 못한 항목:",
+            report.unmatchedPlaceholders,
+        );
+    }
+    if (report.recoveredPlaceholders.length === 0) {
+        throw new Error(
+            `${program.name} 양식으로 내보낸 HWPX 파일이 아닙니다.`,
+        );
+    }
+
+    return {
+        content: buildEditorContent(data, program),
+        businessInfo: businessInfoFromProjectData(data),
+        data,
+        report,
+    };
+};
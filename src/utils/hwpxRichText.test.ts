@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createHeaderStyles, replaceRichPlaceholders } from "./hwpxRichText";
+import { OWPML_NS, parseXml, serializeXml } from "./hwpxXml";
+
+// 글자 모양 0, 문단 모양 0만 있는 최소 header.xml
+const HEADER_XML =
+    `<hh:head xmlns:hh="${OWPML_NS.head}"><hh:refList>` +
+    `<hh:charProperties itemCnt="1"><hh:charPr id="0" height="1000">` +
+    `<hh:offset hangul="0"/><hh:underline type="NONE" shape="SOLID" color="#000000"/>` +
+    `<hh:strikeout shape="NONE" color="#000000"/></hh:charPr></hh:charProperties>` +
+    `<hh:paraProperties itemCnt="1"><hh:paraPr id="0">` +
+    `<hh:heading type="NONE" idRef="0" level="0"/></hh:paraPr></hh:paraProperties>` +
+    `</hh:refList></hh:head>`;
+
+const section = (body: string) =>
+    parseXml(`<hs:sec xmlns:hs="${OWPML_NS.section}" xmlns:hp="${OWPML_NS.paragraph}">${body}</hs:sec>`);
+
+const placeholderParagraph = (key: string) =>
+    `<hp:p id="1" paraPrIDRef="0" styleIDRef="0"><hp:run charPrIDRef="0"><hp:t>{{${key}}}</hp:t></hp:run></hp:p>`;
+
+describe("replaceRichPlaceholders", () => {
+    it("rebuilds a placeholder paragraph with marked runs and list paragraphs", () => {
+        const document = section(placeholderParagraph("sol_develop"));
+        const styles = createHeaderStyles(HEADER_XML);
+
+        const replaced = replaceRichPlaceholders(
+            document,
+            {
+                sol_develop: [
+                    { runs: [{ text: "핵심 " }, { text: "기능", bold: true }] },
+                    { runs: [{ text: "첫 단계", underline: true }], list: "bullet" },
+                    { runs: [{ text: "둘째 단계" }], list: "ordered", listId: 1 },
+                ],
+            },
+            styles,
+        );
+        const xml = serializeXml(document);
+
+        expect(replaced).toEqual(["sol_develop"]);
+        expect(xml).not.toContain("{{sol_develop}}");
+        expect(xml.match(/<hp:p /g)).toHaveLength(3);
+        // 서식 없는 run은 원래 글자 모양, 굵게/밑줄은 새로 추가한 글자 모양
+        expect(xml).toContain('<hp:run charPrIDRef="0"><hp:t>핵심 </hp:t></hp:run>');
+        expect(xml).toContain('<hp:run charPrIDRef="1"><hp:t>기능</hp:t></hp:run>');
+        expect(xml).toContain('<hp:run charPrIDRef="2"><hp:t>첫 단계</hp:t></hp:run>');
+        expect(xml).toContain('paraPrIDRef="1"');
+        expect(xml).toContain('paraPrIDRef="2"');
+
+        const header = styles.headerXml;
+        expect(styles.changed).toBe(true);
+        expect(header).toContain('<hh:charProperties itemCnt="3">');
+        expect(header).toMatch(/<hh:charPr id="1"[^]*?<hh:bold\/><hh:underline type="NONE"/);
+        expect(header).toMatch(/<hh:charPr id="2"[^]*?<hh:underline type="BOTTOM"/);
+        expect(header).toContain('<hh:heading type="BULLET" idRef="1" level="0"/>');
+        expect(header).toContain('<hh:heading type="NUMBER" idRef="1" level="0"/>');
+        expect(header).toContain('<hh:paraProperties itemCnt="3">');
+    });
+
+    it("leaves placeholders that share a paragraph with other text", () => {
+        const document = section(
+            `<hp:p paraPrIDRef="0"><hp:run charPrIDRef="0"><hp:t>제목: {{item_name}}</hp:t></hp:run></hp:p>`,
+        );
+        const styles = createHeaderStyles(HEADER_XML);
+
+        const replaced = replaceRichPlaceholders(
+            document,
+            { item_name: [{ runs: [{ text: "도구", bold: true }] }] },
+            styles,
+        );
+
+        expect(replaced).toEqual([]);
+        expect(serializeXml(document)).toContain("제목: {{item_name}}");
+        expect(styles.changed).toBe(false);
+    });
+});
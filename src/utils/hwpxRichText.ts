@@ -0,0 +1,311 @@
+/**
+ * HWPX 서식 있는 텍스트 (굵게/기울임/밑줄/취소선, 글머리표/번호 목록)
+ * 전략: 플레이스홀더 문단을 통째로 hp:p / hp:run으로 다시 생성
+ * → 글자 모양은 플레이스홀더 run의 charPr을 복제해 bold/italic만 더한 charPr을 header.xml에 추가
+ * → 목록은 플레이스홀더 문단의 paraPr을 복제해 글머리표(BULLET)/번호(NUMBER) 머리를 지정
+ * 줄 간격·여백은 복제한 paraPr에 그대로 남아 템플릿 양식을 유지함
+ */
+
+import {
+    OWPML_NS,
+    appendChildren,
+    cloneElementShallow,
+    createElement,
+    createText,
+    findPlaceholders,
+    getAttribute,
+    isPlaceholderOnlyParagraph,
+    replaceNode,
+    setAttribute,
+    type XmlDocument,
+    type XmlElement,
+} from "./hwpxXml";
+
+export interface HwpxRichRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+}
+
+export interface HwpxRichParagraph {
+    runs: HwpxRichRun[];
+    list?: "bullet" | "ordered";
+    /** 같은 번호 목록에 속한 문단끼리 같은 값 (목록마다 1부터 다시 시작) */
+    listId?: number;
+}
+
+/** 플레이스홀더 키 → 서식 있는 문단 */
+export type HwpxRichTextMap = Record<string, HwpxRichParagraph[]>;
+
+type RunMarks = Omit<HwpxRichRun, "text">;
+
+const HP = OWPML_NS.paragraph;
+
+const hasMarks = ({ bold, italic, underline, strike }: RunMarks): boolean =>
+    !!(bold || italic || underline || strike);
+
+/**
+ * refList의 항목 목록(hh:charProperties 등)에 새 항목 추가 후 itemCnt 갱신
+ */
+const appendToList = (
+    headerXml: string,
+    listTag: string,
+    itemXml: string,
+): string =>
+    headerXml.replace(
+        new RegExp(`(<hh:${listTag}\\b[^>]*itemCnt=")(\\d+)("[^>]*>)([\\s\\S]*?)(</hh:${listTag}>)`),
+        (_, open, count, openEnd, items, close) =>
+            `${open}${Number(count) + 1}${openEnd}${items}${itemXml}${close}`,
+    );
+
+const nextItemId = (headerXml: string, itemTag: string): number => {
+    const ids = Array.from(
+        headerXml.matchAll(new RegExp(`<hh:${itemTag} id="(\\d+)"`, "g")),
+        (match) => Number(match[1]),
+    );
+    return ids.length > 0 ? Math.max(...ids) + 1 : 0;
+};
+
+/**
+ * header.xml 글자/문단 모양 레지스트리
+ * 같은 (원본 ID, 서식) 조합은 한 번만 추가
+ */
+export const createHeaderStyles = (initialHeaderXml: string) => {
+    let headerXml = initialHeaderXml;
+    let changed = false;
+    const charPrCache = new Map<string, string>();
+    const paraPrCache = new Map<string, string>();
+    let bulletId: string | null = null;
+
+    // refList 안에서 hh:paraProperties 바로 앞 (numberings → bullets → paraProperties 순서)
+    const insertBeforeParaProperties = (xml: string) => {
+        headerXml = headerXml.replace(/<hh:paraProperties\b/, `${xml}$&`);
+    };
+
+    const charPrFor = (baseId: string, marks: RunMarks): string => {
+        if (!hasMarks(marks)) return baseId;
+
+        const key = [
+            baseId,
+            marks.bold,
+            marks.italic,
+            marks.underline,
+            marks.strike,
+        ].join(":");
+        const cached = charPrCache.get(key);
+        if (cached) return cached;
+
+        const base = headerXml.match(
+            new RegExp(`<hh:charPr id="${baseId}"[\\s\\S]*?</hh:charPr>`),
+        )?.[0];
+        if (!base) return baseId;
+
+        // 원본 글자 모양에 이미 있는 굵게/기울임은 유지
+        const bold = marks.bold || base.includes("<hh:bold/>");
+        const italic = marks.italic || base.includes("<hh:italic/>");
+
+        const id = String(nextItemId(headerXml, "charPr"));
+        let clone = base
+            .replace(`id="${baseId}"`, `id="${id}"`)
+            .replace(/<hh:(bold|italic)\/>/g, "");
+
+        // 스키마 순서: offset → italic → bold → underline
+        const emphasis =
+            (italic ? "<hh:italic/>" : "") + (bold ? "<hh:bold/>" : "");
+        clone = clone.replace(/<hh:underline\b/, `${emphasis}$&`);
+        if (marks.underline) {
+            clone = clone.replace(
+                /(<hh:underline\b[^>]*type=")NONE"/,
+                '$1BOTTOM"',
+            );
+        }
+        if (marks.strike) {
+            clone = clone.replace(
+                /(<hh:strikeout\b[^>]*shape=")NONE"/,
+                '$1SOLID"',
+            );
+        }
+
+        headerXml = appendToList(headerXml, "charProperties", clone);
+        charPrCache.set(key, id);
+        changed = true;
+        return id;
+    };
+
+    const ensureBullet = (): string => {
+        if (bulletId) return bulletId;
+
+        const existing = headerXml.match(/<hh:bullet id="(\d+)"/)?.[1];
+        if (existing) {
+            bulletId = existing;
+            return bulletId;
+        }
+
+        bulletId = "1";
+        insertBeforeParaProperties(
+            `<hh:bullets itemCnt="1"><hh:bullet id="1" char="•" useImage="0">` +
+                `<hh:paraHead level="0" align="LEFT" useInstWidth="0" autoIndent="1" widthAdjust="0" textOffsetType="PERCENT" textOffset="50" numFormat="DIGIT" charPrIDRef="4294967295" checkable="0"/>` +
+                `</hh:bullet></hh:bullets>`,
+        );
+        changed = true;
+        return bulletId;
+    };
+
+    // 번호 목록은 목록마다 새 numbering을 만들어 1부터 다시 시작
+    const addNumbering = (): string => {
+        const id = String(Math.max(1, nextItemId(headerXml, "numbering")));
+        const numbering =
+            `<hh:numbering id="${id}" start="1">` +
+            `<hh:paraHead start="1" level="1" align="LEFT" useInstWidth="1" autoIndent="1" widthAdjust="0" textOffsetType="PERCENT" textOffset="50" numFormat="DIGIT" charPrIDRef="4294967295" checkable="0">^1.</hh:paraHead>` +
+            `</hh:numbering>`;
+
+        if (/<hh:numberings\b/.test(headerXml)) {
+            headerXml = appendToList(headerXml, "numberings", numbering);
+        } else if (/<hh:bullets\b/.test(headerXml)) {
+            headerXml = headerXml.replace(
+                /<hh:bullets\b/,
+                `<hh:numberings itemCnt="1">${numbering}</hh:numberings>$&`,
+            );
+        } else {
+            insertBeforeParaProperties(
+                `<hh:numberings itemCnt="1">${numbering}</hh:numberings>`,
+            );
+        }
+        changed = true;
+        return id;
+    };
+
+    const listParaPrFor = (
+        baseId: string,
+        list: "bullet" | "ordered",
+        listId = 0,
+    ): string => {
+        const key = `${baseId}:${list}:${list === "ordered" ? listId : ""}`;
+        const cached = paraPrCache.get(key);
+        if (cached) return cached;
+
+        const base = headerXml.match(
+            new RegExp(`<hh:paraPr id="${baseId}"[\\s\\S]*?</hh:paraPr>`),
+        )?.[0];
+        if (!base) return baseId;
+
+        const heading =
+            list === "bullet"
+                ? `<hh:heading type="BULLET" idRef="${ensureBullet()}" level="0"/>`
+                : `<hh:heading type="NUMBER" idRef="${addNumbering()}" level="0"/>`;
+
+        const id = String(nextItemId(headerXml, "paraPr"));
+        const clone = base
+            .replace(`id="${baseId}"`, `id="${id}"`)
+            .replace(/<hh:heading\b[^>]*\/>/, heading);
+
+        headerXml = appendToList(headerXml, "paraProperties", clone);
+        paraPrCache.set(key, id);
+        changed = true;
+        return id;
+    };
+
+    return {
+        charPrFor,
+        listParaPrFor,
+        get changed() {
+            return changed;
+        },
+        get headerXml() {
+            return headerXml;
+        },
+    };
+};
+
+export type HwpxHeaderStyles = ReturnType<typeof createHeaderStyles>;
+
+/**
+ * 플레이스홀더 문단 하나를 서식 있는 문단들로 생성
+ * 문단 속성(paraPrIDRef 외)은 플레이스홀더 문단을 그대로 복제
+ */
+const buildRichParagraphs = (
+    paragraphs: HwpxRichParagraph[],
+    template: XmlElement,
+    baseCharPr: string,
+    styles: HwpxHeaderStyles,
+): XmlElement[] => {
+    const baseParaPr = getAttribute(template, "paraPrIDRef");
+    const createRun = (charPr: string, text?: string) =>
+        createElement(
+            template,
+            HP,
+            "run",
+            { charPrIDRef: charPr },
+            text
+                ? [createElement(template, HP, "t", {}, [createText(text)])]
+                : [],
+        );
+
+    return paragraphs.map((paragraph) => {
+        const element = cloneElementShallow(template);
+        if (baseParaPr !== undefined && paragraph.list) {
+            setAttribute(
+                element,
+                "paraPrIDRef",
+                styles.listParaPrFor(
+                    baseParaPr,
+                    paragraph.list,
+                    paragraph.listId,
+                ),
+            );
+        }
+
+        const runs = paragraph.runs
+            .filter((run) => run.text)
+            .map((run) =>
+                createRun(styles.charPrFor(baseCharPr, run), run.text),
+            );
+        appendChildren(
+            element,
+            ...(runs.length > 0 ? runs : [createRun(baseCharPr)]),
+        );
+        return element;
+    });
+};
+
+/**
+ * 문단에 플레이스홀더만 단독으로 있는 경우 서식 있는 문단으로 교체
+ * 다른 글자와 섞인 플레이스홀더는 건드리지 않음 (일반 텍스트 치환으로 처리)
+ * 반환: 교체한 플레이스홀더 키
+ */
+export const replaceRichPlaceholders = (
+    document: XmlDocument,
+    richText: HwpxRichTextMap,
+    styles: HwpxHeaderStyles,
+): string[] => {
+    const replacedKeys: string[] = [];
+
+    for (const placeholder of findPlaceholders(document)) {
+        const paragraphs = richText[placeholder.key];
+        if (!paragraphs || paragraphs.length === 0) continue;
+        if (!isPlaceholderOnlyParagraph(placeholder)) continue;
+
+        // 플레이스홀더를 감싼 hp:t → hp:run의 글자 모양
+        const textElement = placeholder.textNode.parent;
+        const run = textElement?.type === "element" ? textElement.parent : null;
+        const charPr =
+            run?.type === "element"
+                ? getAttribute(run, "charPrIDRef")
+                : undefined;
+
+        replacedKeys.push(placeholder.key);
+        replaceNode(
+            placeholder.paragraph,
+            ...buildRichParagraphs(
+                paragraphs,
+                placeholder.paragraph,
+                charPr ?? "0",
+                styles,
+            ),
+        );
+    }
+
+    return replacedKeys;
+};
@@ -0,0 +1,268 @@
+/**
+ * HWPX 표 행 확장/축소
+ * 전략: {{team_1_*}}처럼 번호가 붙은 플레이스홀더 행을 데이터 개수에 맞춰 복제하거나 삭제
+ * → 셀 스타일(borderFillIDRef, charPrIDRef)은 원본 행을 그대로 복제해 유지
+ * → rowAddr / rowCnt / 표 높이는 다시 계산
+ *
+ * 플레이스홀더가 정리(cleanXmlPlaceholders)된 뒤에 호출해야 함
+ */
+
+import type { ProjectData } from "./editorParser";
+
+// 행 단위로 반복되는 플레이스홀더 그룹 ({{group_N_field}})
+// 예산 표(재료비 등 비목)는 비목마다 행이 고정된 {{budget_material_basis}} 형식이라 포함하지 않음
+// → 같은 비목 행이 여러 개면 editorParser가 한 행으로 합침
+export const TABLE_ROW_GROUPS = [
+    "team",
+    "partner",
+    "schedule",
+    "overall_schedule",
+] as const;
+
+export type TableRowGroup = (typeof TABLE_ROW_GROUPS)[number];
+
+export interface HwpxTableRowChange {
+    group: TableRowGroup;
+    /** 템플릿에 있던 플레이스홀더 행 수 */
+    templateRows: number;
+    /** 데이터에 맞춘 최종 행 수 */
+    rows: number;
+}
+
+// 표 끝의 "..." 안내 행 (작성 예시용, 실제 내용 없음)
+const ELLIPSIS_ROW_TEXTS = ["...", "…"];
+
+const stripTags = (xml: string): string => xml.replace(/<[^>]+>/g, "");
+
+/**
+ * 데이터에 값이 있는 마지막 행 번호 (없으면 0)
+ */
+const countDataRows = (data: ProjectData, group: TableRowGroup): number => {
+    const keyPattern = new RegExp(`^${group}_(\\d+)_`);
+    let count = 0;
+    for (const [key, value] of Object.entries(data)) {
+        const match = key.match(keyPattern);
+        if (match && value?.trim()) {
+            count = Math.max(count, Number(match[1]));
+        }
+    }
+    return count;
+};
+
+/**
+ * 행에 들어 있는 반복 그룹 (한 그룹의 플레이스홀더만 있는 행만 인정)
+ */
+const detectRowGroup = (row: string): TableRowGroup | null => {
+    const text = stripTags(row);
+    const found = new Set<TableRowGroup>();
+    for (const group of TABLE_ROW_GROUPS) {
+        if (new RegExp(`\\{\\{${group}_\\d+_\\w+\\}\\}`).test(text)) {
+            found.add(group);
+        }
+    }
+    return found.size === 1 ? Array.from(found)[0] : null;
+};
+
+/**
+ * 행의 플레이스홀더 번호와 첫 칸 순번을 index로 변경
+ */
+const setRowIndex = (
+    row: string,
+    group: TableRowGroup,
+    index: number,
+    prefix: string,
+): string => {
+    let result = row.replace(
+        new RegExp(`\\{\\{${group}_\\d+_`, "g"),
+        `{{${group}_${index}_`,
+    );
+
+    // 첫 칸이 순번(숫자)이면 새 번호로 교체
+    const firstCell = result.match(
+        new RegExp(`<${prefix}:tc\\b[\\s\\S]*?</${prefix}:tc>`),
+    )?.[0];
+    if (firstCell && /^\d+$/.test(stripTags(firstCell).trim())) {
+        const renumbered = firstCell.replace(
+            new RegExp(`(<${prefix}:t>)\\d+(</${prefix}:t>)`),
+            `$1${index}$2`,
+        );
+        result = result.replace(firstCell, renumbered);
+    }
+    return result;
+};
+
+const getRowHeight = (row: string, prefix: string): number => {
+    const pattern = new RegExp(`<${prefix}:cellSz\\b[^>]*\\bheight="(\\d+)"`);
+    return Number(row.match(pattern)?.[1] ?? 0);
+};
+
+const getMaxRowSpan = (row: string, prefix: string): number => {
+    const pattern = new RegExp(
+        `<${prefix}:cellSpan\\b[^>]*\\browSpan="(\\d+)"`,
+        "g",
+    );
+    return Math.max(
+        1,
+        ...Array.from(row.matchAll(pattern), (match) => Number(match[1])),
+    );
+};
+
+/**
+ * 다른 표를 포함하지 않는 가장 안쪽 표의 [시작, 끝) 위치
+ */
+export const findInnermostTables = (
+    content: string,
+    prefix: string,
+): Array<[number, number]> => {
+    const tagPattern = new RegExp(`<(/?)${prefix}:tbl\\b[^>]*>`, "g");
+    const stack: Array<{ start: number; hasChild: boolean }> = [];
+    const ranges: Array<[number, number]> = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(content)) !== null) {
+        if (!match[1]) {
+            if (stack.length > 0) stack[stack.length - 1].hasChild = true;
+            stack.push({ start: match.index, hasChild: false });
+            continue;
+        }
+        const open = stack.pop();
+        if (open && !open.hasChild) {
+            ranges.push([open.start, match.index + match[0].length]);
+        }
+    }
+    return ranges;
+};
+
+/**
+ * 표 하나의 반복 행을 데이터 개수에 맞춤
+ */
+const resizeTable = (
+    table: string,
+    data: ProjectData,
+    prefix: string,
+    changes: HwpxTableRowChange[],
+): string => {
+    const rowPattern = new RegExp(
+        `<${prefix}:tr\\b[^>]*>[\\s\\S]*?</${prefix}:tr>`,
+        "g",
+    );
+    const rows = table.match(rowPattern);
+    if (!rows) return table;
+
+    const firstRowStart = table.indexOf(rows[0]);
+    const lastRowEnd =
+        table.lastIndexOf(rows[rows.length - 1]) + rows[rows.length - 1].length;
+    let head = table.substring(0, firstRowStart);
+    const tail = table.substring(lastRowEnd);
+
+    const newRows: string[] = [];
+    let heightDelta = 0;
+    let changed = false;
+
+    let i = 0;
+    while (i < rows.length) {
+        const group = detectRowGroup(rows[i]);
+        if (!group) {
+            newRows.push(rows[i]);
+            i++;
+            continue;
+        }
+
+        // 같은 그룹 행이 연속된 구간 [runStart, runEnd]
+        const runStart = i;
+        while (i + 1 < rows.length && detectRowGroup(rows[i + 1]) === group) {
+            i++;
+        }
+        const runEnd = i;
+        i++;
+
+        const hasEllipsisRow =
+            i < rows.length &&
+            ELLIPSIS_ROW_TEXTS.includes(stripTags(rows[i]).trim());
+
+        // 구간 안팎에 걸친 병합 셀이 있으면 행 구조를 건드리지 않음
+        const runEndWithEllipsis = hasEllipsisRow ? runEnd + 1 : runEnd;
+        const crossesMergedCell = rows.some((row, position) => {
+            const span = getMaxRowSpan(row, prefix);
+            if (position >= runStart && position <= runEndWithEllipsis) {
+                return span > 1;
+            }
+            return position < runStart && position + span - 1 >= runStart;
+        });
+        if (crossesMergedCell) {
+            newRows.push(...rows.slice(runStart, runEnd + 1));
+            continue;
+        }
+
+        const templateRows = runEnd - runStart + 1;
+        // 데이터가 없어도 표 모양을 위해 빈 행 하나는 남김
+        const targetRows = Math.max(1, countDataRows(data, group));
+
+        for (let index = 1; index <= targetRows; index++) {
+            const source = rows[runStart + Math.min(index, templateRows) - 1];
+            newRows.push(setRowIndex(source, group, index, prefix));
+        }
+        for (let position = runStart; position <= runEnd; position++) {
+            heightDelta -= getRowHeight(rows[position], prefix);
+        }
+        for (let index = 1; index <= targetRows; index++) {
+            heightDelta += getRowHeight(
+                rows[runStart + Math.min(index, templateRows) - 1],
+                prefix,
+            );
+        }
+
+        if (hasEllipsisRow) {
+            heightDelta -= getRowHeight(rows[i], prefix);
+            i++;
+        }
+
+        changes.push({ group, templateRows, rows: targetRows });
+        changed = true;
+    }
+
+    if (!changed) return table;
+
+    // rowAddr: 셀이 시작하는 행 번호 → 행 위치대로 다시 매김
+    const renumberedRows = newRows.map((row, position) =>
+        row.replace(/\browAddr="\d+"/g, `rowAddr="${position}"`),
+    );
+
+    head = head.replace(/\browCnt="\d+"/, `rowCnt="${newRows.length}"`);
+    head = head.replace(
+        new RegExp(`(<${prefix}:sz\\b[^>]*\\bheight=")(\\d+)(")`),
+        (_, before, height, after) =>
+            `${before}${Math.max(0, Number(height) + heightDelta)}${after}`,
+    );
+
+    return head + renumberedRows.join("") + tail;
+};
+
+/**
+ * 섹션 XML의 모든 표에서 반복 행을 데이터 개수에 맞춰 복제/삭제
+ */
+export const resizeTableRows = (
+    content: string,
+    data: ProjectData,
+    prefix: string,
+): { result: string; changes: HwpxTableRowChange[] } => {
+    let changes: HwpxTableRowChange[] = [];
+    let result = content;
+
+    // 뒤에서부터 교체해야 앞쪽 표의 위치가 유지됨
+    const tables = findInnermostTables(content, prefix).sort(
+        (a, b) => b[0] - a[0],
+    );
+    for (const [start, end] of tables) {
+        const table = result.substring(start, end);
+        const tableChanges: HwpxTableRowChange[] = [];
+        const resized = resizeTable(table, data, prefix, tableChanges);
+        if (resized !== table) {
+            result =
+                result.substring(0, start) + resized + result.substring(end);
+            changes = [...tableChanges, ...changes];
+        }
+    }
+
+    return { result, changes };
+};
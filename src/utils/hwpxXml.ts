@@ -0,0 +1,677 @@
+/**
+ * OWPML(HWPX) XML 구조 모델
+ * 정규식 치환 대신 요소 트리로 읽고 고친 뒤 다시 문자열로 직렬화
+ * → 건드리지 않은 요소/글자는 원문 그대로 출력 (파싱 후 바로 직렬화하면 바이트 단위로 동일)
+ * → 요소는 접두어가 아니라 네임스페이스 URI로 찾으므로 hp:/hs:/hh: 접두어가 달라도 동작
+ * → 문단 분리·요소 삽입은 트리에서 처리하므로 </hp:t> 등 닫는 태그 짝이 어긋나지 않음
+ *
+ * DOMParser가 없는 환경(Node/Deno)에서도 동작하도록 직접 토큰 단위로 파싱
+ */
+
+export const OWPML_NS = {
+    paragraph: "http://www.hancom.co.kr/hwpml/2011/paragraph",
+    section: "http://www.hancom.co.kr/hwpml/2011/section",
+    head: "http://www.hancom.co.kr/hwpml/2011/head",
+    core: "http://www.hancom.co.kr/hwpml/2011/core",
+} as const;
+
+const HP = OWPML_NS.paragraph;
+
+export interface XmlAttribute {
+    name: string;
+    value: string;
+}
+
+export interface XmlElement {
+    type: "element";
+    /** 접두어 포함 이름 (hp:p) */
+    name: string;
+    namespace: string | null;
+    attributes: XmlAttribute[];
+    children: XmlNode[];
+    parent: XmlParent | null;
+    /** 원문 시작/끝 태그 (끝 태그가 ""이면 원문이 빈 요소 태그) - 속성을 고치면 null */
+    source: { start: string; end: string } | null;
+}
+
+export interface XmlText {
+    type: "text";
+    value: string;
+    parent: XmlParent | null;
+    /** 원문 (엔티티 포함) - 값을 고치면 null */
+    source: string | null;
+}
+
+/** XML 선언, 주석, CDATA, 처리 명령 - 원문 그대로 유지 */
+export interface XmlRaw {
+    type: "raw";
+    source: string;
+    parent: XmlParent | null;
+}
+
+export interface XmlDocument {
+    type: "document";
+    children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | XmlText | XmlRaw;
+export type XmlParent = XmlElement | XmlDocument;
+
+// ============= 파싱 / 직렬화 =============
+
+const TOKEN_PATTERN =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/?[^<>]*>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    lt: "<",
+    gt: ">",
+    amp: "&",
+    quot: '"',
+    apos: "'",
+};
+
+const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity) => {
+        if (entity[0] !== "#") return NAMED_ENTITIES[entity] ?? match;
+        return String.fromCodePoint(
+            entity[1] === "x"
+                ? parseInt(entity.substring(2), 16)
+                : Number(entity.substring(1)),
+        );
+    });
+
+const escapeText = (text: string): string =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (text: string): string =>
+    escapeText(text).replace(/"/g, "&quot;");
+
+const prefixOf = (name: string): string =>
+    name.includes(":") ? name.substring(0, name.indexOf(":")) : "";
+
+export const localNameOf = (name: string): string =>
+    name.substring(name.indexOf(":") + 1);
+
+// xmlns / xmlns:접두어 선언을 접두어 → URI 목록에 반영
+const declareNamespaces = (
+    scope: Map<string, string>,
+    attributes: XmlAttribute[],
+) => {
+    for (const { name, value } of attributes) {
+        if (name === "xmlns") scope.set("", value);
+        else if (name.startsWith("xmlns:")) scope.set(name.substring(6), value);
+    }
+};
+
+/**
+ * 요소 위치에서 유효한 접두어 → 네임스페이스 URI 목록
+ */
+const namespacesInScope = (element: XmlParent | null): Map<string, string> => {
+    const chain: XmlElement[] = [];
+    let node = element;
+    while (node && node.type === "element") {
+        chain.unshift(node);
+        node = node.parent;
+    }
+    const scope = new Map<string, string>();
+    for (const { attributes } of chain) declareNamespaces(scope, attributes);
+    return scope;
+};
+
+interface OpenElement {
+    element: XmlElement;
+    scope: Map<string, string>;
+}
+
+const parseNodes = (
+    xml: string,
+    root: XmlParent,
+    initialScope: Map<string, string>,
+): XmlNode[] => {
+    const top: XmlNode[] = [];
+    const stack: OpenElement[] = [];
+
+    const append = (node: XmlNode) => {
+        const open = stack[stack.length - 1];
+        node.parent = open ? open.element : root;
+        (open ? open.element.children : top).push(node);
+    };
+
+    for (const match of xml.matchAll(TOKEN_PATTERN)) {
+        const token = match[0];
+        if (token === "<") {
+            throw new Error(`닫히지 않은 태그 (위치 ${match.index})`);
+        }
+        if (token[0] !== "<") {
+            append({
+                type: "text",
+                value: decodeEntities(token),
+                parent: null,
+                source: token,
+            });
+            continue;
+        }
+        if (token.startsWith("<!") || token.startsWith("<?")) {
+            append({ type: "raw", source: token, parent: null });
+            continue;
+        }
+
+        const name = token.match(/^<\/?([^\s/>]+)/)?.[1];
+        if (!name) throw new Error(`잘못된 태그 (위치 ${match.index})`);
+
+        if (token.startsWith("</")) {
+            const open = stack.pop();
+            if (!open || open.element.name !== name) {
+                const expected = open?.element.name ?? "없음";
+                throw new Error(
+                    `</${name}> 태그가 <${expected}>와 짝이 맞지 않음 (위치 ${match.index})`,
+                );
+            }
+            open.element.source!.end = token;
+            continue;
+        }
+
+        const attributes = Array.from(
+            token.matchAll(ATTRIBUTE_PATTERN),
+            ([, attrName, double, single]) => ({
+                name: attrName,
+                value: decodeEntities(double ?? single),
+            }),
+        );
+        const parentScope = stack[stack.length - 1]?.scope ?? initialScope;
+        let scope = parentScope;
+        if (
+            attributes.some((attribute) => attribute.name.startsWith("xmlns"))
+        ) {
+            scope = new Map(parentScope);
+            declareNamespaces(scope, attributes);
+        }
+
+        const element: XmlElement = {
+            type: "element",
+            name,
+            namespace: scope.get(prefixOf(name)) ?? null,
+            attributes,
+            children: [],
+            parent: null,
+            source: { start: token, end: "" },
+        };
+        append(element);
+        if (!token.endsWith("/>")) stack.push({ element, scope });
+    }
+
+    if (stack.length > 0) {
+        const { element } = stack[stack.length - 1];
+        throw new Error(`<${element.name}> 태그가 닫히지 않음`);
+    }
+    return top;
+};
+
+/**
+ * XML 문자열 → 문서 트리 (구조가 잘못되었으면 Error)
+ */
+export const parseXml = (xml: string): XmlDocument => {
+    const document: XmlDocument = { type: "document", children: [] };
+    document.children = parseNodes(xml, document, new Map());
+    return document;
+};
+
+/**
+ * 조각 XML → 노드 목록 (scope 요소에 선언된 네임스페이스 접두어 사용 가능)
+ * 반환된 노드는 아직 트리에 붙지 않은 상태
+ */
+export const parseXmlFragment = (xml: string, scope: XmlElement): XmlNode[] => {
+    const holder: XmlDocument = { type: "document", children: [] };
+    const nodes = parseNodes(xml, holder, namespacesInScope(scope));
+    nodes.forEach((node) => (node.parent = null));
+    return nodes;
+};
+
+const buildStartTag = (element: XmlElement, selfClosing: boolean): string => {
+    const attributes = element.attributes
+        .map(({ name, value }) => ` ${name}="${escapeAttribute(value)}"`)
+        .join("");
+    return `<${element.name}${attributes}${selfClosing ? "/>" : ">"}`;
+};
+
+const serializeNode = (node: XmlNode, out: string[]) => {
+    if (node.type === "raw") {
+        out.push(node.source);
+        return;
+    }
+    if (node.type === "text") {
+        out.push(node.source ?? escapeText(node.value));
+        return;
+    }
+
+    const { source, children } = node;
+    const wasEmptyTag = !source || source.end === "";
+    if (children.length === 0 && wasEmptyTag) {
+        out.push(source?.start ?? buildStartTag(node, true));
+        return;
+    }
+
+    out.push(
+        source && !wasEmptyTag ? source.start : buildStartTag(node, false),
+    );
+    for (const child of children) serializeNode(child, out);
+    out.push(source && !wasEmptyTag ? source.end : `</${node.name}>`);
+};
+
+export const serializeXml = (node: XmlDocument | XmlNode): string => {
+    const out: string[] = [];
+    if (node.type === "document") {
+        for (const child of node.children) serializeNode(child, out);
+    } else {
+        serializeNode(node, out);
+    }
+    return out.join("");
+};
+
+// ============= 조회 =============
+
+export const isElement = (
+    node: XmlNode | XmlParent | null | undefined,
+    namespace: string,
+    localName: string,
+): node is XmlElement =>
+    !!node &&
+    node.type === "element" &&
+    node.namespace === namespace &&
+    localNameOf(node.name) === localName;
+
+/**
+ * 하위 요소 중 (네임스페이스, 이름)이 같은 요소를 문서 순서대로
+ */
+export const findElements = (
+    root: XmlParent,
+    namespace: string,
+    localName: string,
+): XmlElement[] => {
+    const found: XmlElement[] = [];
+    const visit = (parent: XmlParent) => {
+        for (const child of parent.children) {
+            if (child.type !== "element") continue;
+            if (isElement(child, namespace, localName)) found.push(child);
+            visit(child);
+        }
+    };
+    visit(root);
+    return found;
+};
+
+export const childElements = (parent: XmlParent): XmlElement[] =>
+    parent.children.filter(
+        (child): child is XmlElement => child.type === "element",
+    );
+
+export const getAttribute = (
+    element: XmlElement,
+    name: string,
+): string | undefined =>
+    element.attributes.find((attribute) => attribute.name === name)?.value;
+
+/**
+ * 네임스페이스에 대응하는 접두어 (새 요소 이름을 지을 때 사용)
+ */
+export const prefixFor = (scope: XmlElement, namespace: string): string => {
+    for (const [prefix, uri] of namespacesInScope(scope)) {
+        if (uri === namespace) return prefix;
+    }
+    throw new Error(`네임스페이스가 선언되지 않음: ${namespace}`);
+};
+
+// ============= 수정 =============
+
+export const setText = (node: XmlText, value: string) => {
+    node.value = value;
+    node.source = null;
+};
+
+export const setAttribute = (
+    element: XmlElement,
+    name: string,
+    value: string,
+) => {
+    const attribute = element.attributes.find((attr) => attr.name === name);
+    if (attribute?.value === value) return;
+    if (attribute) attribute.value = value;
+    else element.attributes.push({ name, value });
+    element.source = null;
+};
+
+export const createText = (value: string): XmlText => ({
+    type: "text",
+    value,
+    parent: null,
+    source: null,
+});
+
+/**
+ * 새 요소 생성 - 접두어는 scope 위치에서 선언된 것을 사용
+ */
+export const createElement = (
+    scope: XmlElement,
+    namespace: string,
+    localName: string,
+    attributes: Record<string, string> = {},
+    children: XmlNode[] = [],
+): XmlElement => {
+    const prefix = prefixFor(scope, namespace);
+    const element: XmlElement = {
+        type: "element",
+        name: prefix ? `${prefix}:${localName}` : localName,
+        namespace,
+        attributes: Object.entries(attributes).map(([name, value]) => ({
+            name,
+            value,
+        })),
+        children: [],
+        parent: null,
+        source: null,
+    };
+    appendChildren(element, ...children);
+    return element;
+};
+
+/**
+ * 시작 태그(속성)만 복제한 빈 요소 - 원문 시작 태그를 그대로 재사용
+ */
+export const cloneElementShallow = (element: XmlElement): XmlElement => ({
+    ...element,
+    attributes: element.attributes.map((attribute) => ({ ...attribute })),
+    children: [],
+    parent: null,
+    source: element.source && { ...element.source },
+});
+
+export const removeNode = (node: XmlNode) => {
+    if (!node.parent) return;
+    const siblings = node.parent.children;
+    siblings.splice(siblings.indexOf(node), 1);
+    node.parent = null;
+};
+
+const adopt = (parent: XmlParent, nodes: XmlNode[]): XmlNode[] => {
+    for (const node of nodes) {
+        removeNode(node);
+        node.parent = parent;
+    }
+    return nodes;
+};
+
+export const appendChildren = (parent: XmlParent, ...nodes: XmlNode[]) => {
+    parent.children.push(...adopt(parent, nodes));
+};
+
+export const insertAfter = (reference: XmlNode, ...nodes: XmlNode[]) => {
+    const parent = reference.parent;
+    if (!parent) throw new Error("부모가 없는 노드 뒤에는 삽입할 수 없음");
+    adopt(parent, nodes);
+    parent.children.splice(parent.children.indexOf(reference) + 1, 0, ...nodes);
+};
+
+export const replaceNode = (node: XmlNode, ...replacements: XmlNode[]) => {
+    if (!node.parent) throw new Error("부모가 없는 노드는 교체할 수 없음");
+    insertAfter(node, ...replacements);
+    removeNode(node);
+};
+
+/**
+ * 요소를 자식 위치 index에서 둘로 나눔
+ * 앞부분은 원래 요소에 남고, 뒷부분은 같은 시작 태그의 새 요소로 원래 요소 바로 뒤에 놓임
+ */
+export const splitElement = (
+    element: XmlElement,
+    index: number,
+): XmlElement => {
+    const tail = cloneElementShallow(element);
+    appendChildren(tail, ...element.children.slice(index));
+    insertAfter(element, tail);
+    return tail;
+};
+
+/**
+ * (네임스페이스, 이름)이 같은 하위 요소를 모두 제거하고 제거한 개수 반환
+ */
+export const removeElements = (
+    root: XmlParent,
+    namespace: string,
+    localName: string,
+): number => {
+    const elements = findElements(root, namespace, localName);
+    elements.forEach(removeNode);
+    return elements.length;
+};
+
+// ============= OWPML 문단 / 글자 =============
+
+/**
+ * 문단(hp:p)에 직접 속한 글자 노드 (hp:t 안의 글자, 표 안의 하위 문단 제외)
+ */
+export const paragraphTextNodes = (paragraph: XmlElement): XmlText[] => {
+    const nodes: XmlText[] = [];
+    const visit = (parent: XmlElement, inText: boolean) => {
+        for (const child of parent.children) {
+            if (child.type === "text") {
+                if (inText) nodes.push(child);
+            } else if (child.type === "element" && !isElement(child, HP, "p")) {
+                visit(child, inText || isElement(child, HP, "t"));
+            }
+        }
+    };
+    visit(paragraph, false);
+    return nodes;
+};
+
+/**
+ * 모든 hp:t 안의 글자 노드 (문서 순서)
+ */
+export const findTextNodes = (root: XmlParent): XmlText[] =>
+    findElements(root, HP, "t").flatMap((element) =>
+        element.children.filter(
+            (child): child is XmlText => child.type === "text",
+        ),
+    );
+
+export const paragraphText = (paragraph: XmlElement): string =>
+    paragraphTextNodes(paragraph)
+        .map((node) => node.value)
+        .join("");
+
+const isEmptyTextElement = (element: XmlElement): boolean =>
+    element.children.every((child) => child.type === "text" && !child.value);
+
+/**
+ * 글자 노드의 offset 위치에서 문단까지의 조상(hp:t, hp:run, hp:p)을 모두 둘로 나눔
+ * 반환: 새 문단 맨 앞의 글자 노드 (offset 뒤의 글자)
+ */
+export const splitParagraphAt = (
+    textNode: XmlText,
+    offset: number,
+): XmlText => {
+    const tail = createText(textNode.value.substring(offset));
+    setText(textNode, textNode.value.substring(0, offset));
+    insertAfter(textNode, tail);
+
+    let node: XmlNode = tail;
+    let parent = tail.parent;
+    while (parent && parent.type === "element") {
+        const rest = splitElement(parent, parent.children.indexOf(node));
+        if (isElement(parent, HP, "p")) return tail;
+        node = rest;
+        parent = rest.parent;
+    }
+    throw new Error("문단(hp:p) 밖의 글자는 나눌 수 없음");
+};
+
+/**
+ * 글자 범위를 값으로 교체
+ * 줄바꿈마다 문단을 나누어 같은 문단/글자 모양의 새 문단으로 이어 씀
+ */
+export const replaceTextRange = (
+    textNode: XmlText,
+    start: number,
+    end: number,
+    value: string,
+) => {
+    const before = textNode.value.substring(0, start);
+    const after = textNode.value.substring(end);
+    const [first, ...rest] = value.split("\n");
+
+    setText(textNode, before + first + (rest.length === 0 ? after : ""));
+    let node = textNode;
+    rest.forEach((line, index) => {
+        node = splitParagraphAt(node, node.value.length);
+        setText(node, line + (index === rest.length - 1 ? after : ""));
+    });
+};
+
+/**
+ * 글자 범위를 요소(그림 등)로 교체 - hp:t를 나누고 그 사이(hp:run 안)에 삽입
+ * 비게 된 hp:t는 남기지 않음
+ */
+export const replaceTextRangeWithElements = (
+    textNode: XmlText,
+    start: number,
+    end: number,
+    elements: XmlNode[],
+) => {
+    const textElement = textNode.parent;
+    if (!isElement(textElement, HP, "t")) {
+        throw new Error("hp:t 밖의 글자에는 요소를 넣을 수 없음");
+    }
+
+    const tail = createText(textNode.value.substring(end));
+    setText(textNode, textNode.value.substring(0, start));
+    insertAfter(textNode, tail);
+    const tailElement = splitElement(
+        textElement,
+        textElement.children.indexOf(tail),
+    );
+    insertAfter(textElement, ...elements);
+
+    for (const element of [textElement, tailElement]) {
+        if (isEmptyTextElement(element)) removeNode(element);
+    }
+};
+
+// ============= 플레이스홀더 =============
+
+export interface XmlPlaceholder {
+    key: string;
+    paragraph: XmlElement;
+    textNode: XmlText;
+    start: number;
+    end: number;
+}
+
+const SPLIT_PLACEHOLDER_PATTERN = /\{\s*\{([^{}]*?)\}\s*\}/g;
+const PLACEHOLDER_PATTERN = /\{\{([a-zA-Z0-9_]+)\}\}/g;
+
+/**
+ * 여러 hp:run / hp:t로 쪼개진 플레이스홀더({{ / key / }})를 첫 글자 노드 하나로 모음
+ * 한글에서 편집한 템플릿은 글자 모양이 바뀌는 곳마다 run이 나뉘어 있음
+ * 반환: 정리한 플레이스홀더 수
+ */
+export const normalizePlaceholders = (root: XmlParent): number => {
+    let normalizedCount = 0;
+
+    for (const paragraph of findElements(root, HP, "p")) {
+        const nodes = paragraphTextNodes(paragraph);
+        const text = nodes.map((node) => node.value).join("");
+        if (!text.includes("{")) continue;
+
+        const offsets: number[] = [];
+        nodes.reduce((offset, node) => {
+            offsets.push(offset);
+            return offset + node.value.length;
+        }, 0);
+        const touched = new Set<XmlText>();
+
+        const matches = Array.from(text.matchAll(SPLIT_PLACEHOLDER_PATTERN));
+        for (const match of matches.reverse()) {
+            const key = match[1].replace(/\s+/g, "");
+            if (!/^[a-zA-Z0-9_]+$/.test(key)) continue;
+
+            const start = match.index!;
+            const end = start + match[0].length;
+            const normalized = `{{${key}}}`;
+            let first = 0;
+            while (first + 1 < nodes.length && offsets[first + 1] <= start) {
+                first++;
+            }
+            const inOneNode = end <= offsets[first] + nodes[first].value.length;
+            if (match[0] === normalized && inOneNode) continue;
+
+            nodes.forEach((node, index) => {
+                const nodeStart = offsets[index];
+                const nodeEnd = nodeStart + node.value.length;
+                if (nodeEnd <= start || nodeStart >= end || !node.value) return;
+
+                const localStart = Math.max(start, nodeStart) - nodeStart;
+                const localEnd = Math.min(end, nodeEnd) - nodeStart;
+                setText(
+                    node,
+                    node.value.substring(0, localStart) +
+                        (index === first ? normalized : "") +
+                        node.value.substring(localEnd),
+                );
+                touched.add(node);
+            });
+            normalizedCount++;
+        }
+
+        // 플레이스홀더 조각만 있던 hp:t는 비어 있으므로 제거
+        for (const node of touched) {
+            const textElement = node.parent;
+            if (
+                textElement?.type === "element" &&
+                isElement(textElement, HP, "t") &&
+                isEmptyTextElement(textElement)
+            ) {
+                removeNode(textElement);
+            }
+        }
+    }
+    return normalizedCount;
+};
+
+/**
+ * 정리된 플레이스홀더 위치 목록 (문서 순서)
+ * 값을 채우면 위치가 바뀌므로 교체할 때는 뒤에서부터 처리
+ */
+export const findPlaceholders = (root: XmlParent): XmlPlaceholder[] => {
+    const placeholders: XmlPlaceholder[] = [];
+    for (const paragraph of findElements(root, HP, "p")) {
+        for (const textNode of paragraphTextNodes(paragraph)) {
+            for (const match of textNode.value.matchAll(PLACEHOLDER_PATTERN)) {
+                placeholders.push({
+                    key: match[1],
+                    paragraph,
+                    textNode,
+                    start: match.index!,
+                    end: match.index! + match[0].length,
+                });
+            }
+        }
+    }
+    return placeholders;
+};
+
+/**
+ * 문단에 플레이스홀더 하나만 있고 다른 개체(표, 구역 설정 등)가 없는지
+ * 문단을 통째로 다시 만들어도 되는 경우에만 true
+ */
+export const isPlaceholderOnlyParagraph = (placeholder: XmlPlaceholder) => {
+    const { paragraph, key } = placeholder;
+    if (paragraphText(paragraph).trim() !== `{{${key}}}`) return false;
+
+    return childElements(paragraph).every(
+        (run) =>
+            isElement(run, HP, "linesegarray") ||
+            (isElement(run, HP, "run") &&
+                childElements(run).every((child) => isElement(child, HP, "t"))),
+    );
+};
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// 비공개 버킷 이미지의 서명 URL 유효 기간 (7일)
+const SIGNED_URL_EXPIRES_IN = 60 * 60 * 24 * 7;
+
+/**
+ * 에디터에 넣을 이미지를 project_files 버킷에 올리고 서명 URL을 반환
+ * (툴바 이미지 삽입, DOCX 불러오기 공용)
+ * 파일 정보는 이후 URL 재발급을 위해 uploaded_files에 기록
+ */
+export const uploadEditorImage = async (file: File): Promise<string> => {
+    const {
+        data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const fileExt = file.name.split(".").pop();
+    // 문서 한 개에서 여러 장을 연달아 올려도 경로가 겹치지 않도록 임의 값 추가
+    const fileName = `${user.id}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+        .from("project_files")
+        .upload(fileName, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+
+    const { data: signedData, error: signError } = await supabase.storage
+        .from("project_files")
+        .createSignedUrl(fileName, SIGNED_URL_EXPIRES_IN);
+
+    if (signError) throw signError;
+    if (!signedData?.signedUrl)
+        throw new Error("Failed to generate signed URL");
+
+    await supabase.from("uploaded_files").insert({
+        user_id: user.id,
+        file_name: file.name,
+        file_path: fileName,
+        file_type: file.type,
+        file_size: file.size,
+    });
+
+    return signedData.signedUrl;
+};
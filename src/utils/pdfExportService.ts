@@ -0,0 +1,506 @@
+/**
+ * PDF 내보내기 (클라이언트 사이드, jsPDF)
+ * - 한글 폰트(나눔고딕)를 public/fonts에서 불러와 PDF에 포함 (인쇄 대화상자 사용 안 함)
+ * - 0번 섹션 개요 표는 정부 양식과 같은 레이아웃으로 다시 그림
+ * - 표는 jspdf-autotable로 colspan/rowspan 유지
+ * - 제목(heading)마다 PDF 책갈피(outline) 생성
+ */
+
+import { jsPDF } from "jspdf";
+import autoTable, { type CellDef, type RowInput } from "jspdf-autotable";
+import type { JSONContent } from "@tiptap/react";
+import { isSection0Table, type Section0Data } from "./section0Data";
+
+const PDF_FONT = "NanumGothic";
+const PDF_FONT_FILES = [
+    { file: "NanumGothic-Regular.ttf", style: "normal" },
+    { file: "NanumGothic-Bold.ttf", style: "bold" },
+] as const;
+
+// A4 기준 (mm)
+const PAGE_MARGIN = 20;
+const PT_TO_MM = 0.3528;
+const BODY_FONT_SIZE = 10.5;
+const TABLE_FONT_SIZE = 9;
+const LINE_HEIGHT = 1.6;
+const BLOCK_GAP = 3;
+const LIST_INDENT = 6;
+const MAX_IMAGE_HEIGHT = 120;
+const HEADING_FONT_SIZES: Record<number, number> = { 1: 16, 2: 14, 3: 12 };
+const LABEL_FILL: [number, number, number] = [231, 230, 230];
+
+// 차트 블록 type → 캡처 이미지 키 (DocumentEditor.getChartImages)
+const CHART_IMAGE_KEYS: Record<string, string> = {
+    "market-growth": "image_market_growth",
+    "bm-diagram": "image_bm_diagram",
+    "tam-sam-som": "image_tam_sam_som",
+};
+
+export interface PdfExportInput {
+    title: string;
+    /** 내보낼 최상위 노드 (자유양식은 목차 순서로 재배치된 노드) */
+    nodes: JSONContent[];
+    section0?: Section0Data | null;
+    /** 차트 캡처 이미지 (data URL) */
+    chartImages?: Record<string, string | undefined>;
+}
+
+interface TextSegment {
+    text: string;
+    bold: boolean;
+}
+
+type jsPDFWithAutoTable = jsPDF & { lastAutoTable?: { finalY: number } };
+
+// 폰트 파일은 수 MB라 한 번만 내려받음
+const fontCache = new Map<string, string>();
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const registerKoreanFonts = async (doc: jsPDF) => {
+    for (const { file, style } of PDF_FONT_FILES) {
+        let base64 = fontCache.get(file);
+        if (!base64) {
+            const response = await fetch(`/fonts/${file}`);
+            if (!response.ok) {
+                throw new Error(`Font load failed: ${response.status}`);
+            }
+            base64 = arrayBufferToBase64(await response.arrayBuffer());
+            fontCache.set(file, base64);
+        }
+        doc.addFileToVFS(file, base64);
+        doc.addFont(file, PDF_FONT, style);
+    }
+    doc.setFont(PDF_FONT, "normal");
+};
+
+const loadImageDataUrl = async (src: string): Promise<string | null> => {
+    if (src.startsWith("data:image/")) return src;
+    try {
+        const response = await fetch(src);
+        if (!response.ok) return null;
+        const blob = await response.blob();
+        return await new Promise((resolve) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => resolve(null);
+            reader.readAsDataURL(blob);
+        });
+    } catch {
+        return null;
+    }
+};
+
+const nodeText = (node: JSONContent): string => {
+    if (node.type === "hardBreak") return "\n";
+    if (node.text) return node.text;
+    return (node.content || []).map(nodeText).join("");
+};
+
+const cellText = (cell: JSONContent): string =>
+    (cell.content || []).map(nodeText).join("\n").trim();
+
+const inlineSegments = (node: JSONContent, forceBold = false): TextSegment[] =>
+    (node.content || []).flatMap((child): TextSegment[] => {
+        if (child.type === "hardBreak") return [{ text: "\n", bold: false }];
+        if (child.type !== "text" || !child.text) return [];
+        const bold =
+            forceBold || !!child.marks?.some((mark) => mark.type === "bold");
+        return [{ text: child.text, bold }];
+    });
+
+/**
+ * 본문 흐름(세로 커서, 페이지 넘김, 책갈피)을 관리하는 PDF 작성기
+ */
+const createPdfWriter = (doc: jsPDFWithAutoTable) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - PAGE_MARGIN * 2;
+    let y = PAGE_MARGIN;
+
+    // 상위 제목 아래에 하위 제목을 중첩
+    const outlineStack: Array<{ level: number; item: unknown }> = [];
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - PAGE_MARGIN) {
+            doc.addPage();
+            y = PAGE_MARGIN;
+        }
+    };
+
+    const measure = (text: string, bold: boolean, size: number) => {
+        doc.setFont(PDF_FONT, bold ? "bold" : "normal");
+        doc.setFontSize(size);
+        return doc.getTextWidth(text);
+    };
+
+    /**
+     * 굵기가 섞인 텍스트를 폭에 맞춰 줄 단위로 나눔 (공백 기준, 긴 단어는 글자 단위)
+     */
+    const wrapSegments = (
+        segments: TextSegment[],
+        maxWidth: number,
+        size: number,
+    ): TextSegment[][] => {
+        const lines: TextSegment[][] = [[]];
+        let lineWidth = 0;
+
+        const push = (text: string, bold: boolean, width: number) => {
+            const line = lines[lines.length - 1];
+            const last = line[line.length - 1];
+            if (last && last.bold === bold) last.text += text;
+            else line.push({ text, bold });
+            lineWidth += width;
+        };
+        const newLine = () => {
+            lines.push([]);
+            lineWidth = 0;
+        };
+
+        for (const { text, bold } of segments) {
+            for (const token of text.split(/(\n|\s+)/)) {
+                if (!token) continue;
+                if (token === "\n") {
+                    newLine();
+                    continue;
+                }
+
+                const width = measure(token, bold, size);
+                if (lineWidth + width <= maxWidth) {
+                    push(token, bold, width);
+                } else if (/^\s+$/.test(token)) {
+                    newLine();
+                } else if (width <= maxWidth) {
+                    newLine();
+                    push(token, bold, width);
+                } else {
+                    for (const char of token) {
+                        const charWidth = measure(char, bold, size);
+                        if (lineWidth + charWidth > maxWidth) newLine();
+                        push(char, bold, charWidth);
+                    }
+                }
+            }
+        }
+        return lines;
+    };
+
+    const writeSegments = (
+        segments: TextSegment[],
+        options: { size?: number; indent?: number; marker?: string } = {},
+    ) => {
+        const size = options.size ?? BODY_FONT_SIZE;
+        const indent = options.indent ?? 0;
+        const lineHeight = size * PT_TO_MM * LINE_HEIGHT;
+        const x = PAGE_MARGIN + indent;
+        const lines = wrapSegments(segments, contentWidth - indent, size);
+
+        lines.forEach((line, index) => {
+            ensureSpace(lineHeight);
+            const baseline = y + size * PT_TO_MM;
+            if (index === 0 && options.marker) {
+                doc.setFont(PDF_FONT, "normal");
+                doc.setFontSize(size);
+                doc.text(options.marker, x - LIST_INDENT + 1, baseline);
+            }
+            let cursor = x;
+            for (const segment of line) {
+                doc.setFont(PDF_FONT, segment.bold ? "bold" : "normal");
+                doc.setFontSize(size);
+                doc.text(segment.text, cursor, baseline);
+                cursor += doc.getTextWidth(segment.text);
+            }
+            y += lineHeight;
+        });
+    };
+
+    const writeHeading = (node: JSONContent) => {
+        const level = Number(node.attrs?.level) || 1;
+        const size = HEADING_FONT_SIZES[level] ?? BODY_FONT_SIZE;
+        const text = nodeText(node).trim();
+        if (!text) return;
+
+        // 제목만 페이지 끝에 남지 않도록 본문 두 줄 공간까지 확보
+        y += BLOCK_GAP;
+        ensureSpace(
+            size * PT_TO_MM * LINE_HEIGHT +
+                BODY_FONT_SIZE * PT_TO_MM * LINE_HEIGHT * 2,
+        );
+
+        while (
+            outlineStack.length > 0 &&
+            outlineStack[outlineStack.length - 1].level >= level
+        ) {
+            outlineStack.pop();
+        }
+        const parent = outlineStack[outlineStack.length - 1]?.item ?? null;
+        const item = doc.outline.add(parent, text, {
+            pageNumber: doc.getCurrentPageInfo().pageNumber,
+        });
+        outlineStack.push({ level, item });
+
+        writeSegments([{ text, bold: true }], { size });
+        y += BLOCK_GAP / 2;
+    };
+
+    const writeList = (node: JSONContent, depth = 0) => {
+        let index = 0;
+        for (const item of node.content || []) {
+            if (item.type !== "listItem") continue;
+            index++;
+            const marker = node.type === "orderedList" ? `${index}.` : "•";
+            const indent = LIST_INDENT * (depth + 1);
+
+            let markerPending = true;
+            for (const child of item.content || []) {
+                const nested =
+                    child.type === "bulletList" || child.type === "orderedList";
+                if (nested) {
+                    writeList(child, depth + 1);
+                    continue;
+                }
+                writeSegments(inlineSegments(child), {
+                    indent,
+                    marker: markerPending ? marker : undefined,
+                });
+                markerPending = false;
+            }
+        }
+    };
+
+    const writeAutoTable = (
+        body: RowInput[],
+        columnStyles?: Record<number, { cellWidth: number }>,
+    ) => {
+        autoTable(doc, {
+            startY: y,
+            body,
+            theme: "grid",
+            margin: PAGE_MARGIN,
+            columnStyles,
+            styles: {
+                font: PDF_FONT,
+                fontSize: TABLE_FONT_SIZE,
+                cellPadding: 1.5,
+                lineColor: [0, 0, 0],
+                lineWidth: 0.1,
+                textColor: [0, 0, 0],
+                valign: "middle",
+            },
+        });
+        y = (doc.lastAutoTable?.finalY ?? y) + BLOCK_GAP * 2;
+    };
+
+    const writeTable = (node: JSONContent) => {
+        const body: RowInput[] = (node.content || [])
+            .filter((row) => row.type === "tableRow")
+            .map((row) =>
+                (row.content || []).map(
+                    (cell): CellDef => ({
+                        content: cellText(cell),
+                        colSpan: Number(cell.attrs?.colspan) || 1,
+                        rowSpan: Number(cell.attrs?.rowspan) || 1,
+                        styles:
+                            cell.type === "tableHeader"
+                                ? {
+                                      fontStyle: "bold",
+                                      fillColor: LABEL_FILL,
+                                      halign: "center",
+                                  }
+                                : {},
+                    }),
+                ),
+            );
+        if (body.length > 0) writeAutoTable(body);
+    };
+
+    // 0번 섹션 개요 표 (정부 양식 레이아웃: 15% / 35% / 15% / 35%)
+    const writeSection0Table = (data: Section0Data) => {
+        const label = (content: string, rowSpan = 1): CellDef => ({
+            content,
+            rowSpan,
+            styles: {
+                fontStyle: "bold",
+                fillColor: LABEL_FILL,
+                halign: "center",
+            },
+        });
+        const value = (content: string, colSpan = 1): CellDef => ({
+            content,
+            colSpan,
+        });
+        const hint = (content: string, colSpan = 1): CellDef => ({
+            content,
+            colSpan,
+            styles: { halign: "center", textColor: [136, 136, 136] },
+        });
+
+        writeAutoTable(
+            [
+                [
+                    label("명 칭"),
+                    value(data.itemName),
+                    label("범 주"),
+                    value(data.category),
+                ],
+                [label("아이템 개요"), value(data.overview, 3)],
+                [label("문제 인식"), value(data.problem, 3)],
+                [label("실현 가능성"), value(data.solution, 3)],
+                [label("성장전략"), value(data.growth, 3)],
+                [label("팀 구성"), value(data.team, 3)],
+                [
+                    label("이미지\n(참고자료)", 2),
+                    hint("(이미지 첨부)"),
+                    hint("(이미지 첨부)", 2),
+                ],
+                [hint("제품/서비스 개념도-1"), hint("제품/서비스 개념도-2", 2)],
+            ],
+            {
+                0: { cellWidth: contentWidth * 0.15 },
+                1: { cellWidth: contentWidth * 0.35 },
+                2: { cellWidth: contentWidth * 0.15 },
+                3: { cellWidth: contentWidth * 0.35 },
+            },
+        );
+    };
+
+    const writeImage = (dataUrl: string) => {
+        const { width, height } = doc.getImageProperties(dataUrl);
+        if (!width || !height) return;
+
+        let drawWidth = contentWidth;
+        let drawHeight = (height / width) * drawWidth;
+        if (drawHeight > MAX_IMAGE_HEIGHT) {
+            drawHeight = MAX_IMAGE_HEIGHT;
+            drawWidth = (width / height) * drawHeight;
+        }
+
+        ensureSpace(drawHeight);
+        const format = dataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+        doc.addImage(
+            dataUrl,
+            format,
+            PAGE_MARGIN + (contentWidth - drawWidth) / 2,
+            y,
+            drawWidth,
+            drawHeight,
+        );
+        y += drawHeight + BLOCK_GAP * 2;
+    };
+
+    const writeRule = () => {
+        ensureSpace(BLOCK_GAP * 2);
+        doc.setDrawColor(200, 200, 200);
+        const lineY = y + BLOCK_GAP;
+        doc.line(PAGE_MARGIN, lineY, pageWidth - PAGE_MARGIN, lineY);
+        y += BLOCK_GAP * 2;
+    };
+
+    const writeParagraph = (node: JSONContent) => {
+        writeSegments(inlineSegments(node));
+        y += BLOCK_GAP;
+    };
+
+    // 모든 페이지 하단에 "현재 / 전체" 쪽 번호
+    const writePageNumbers = () => {
+        const total = doc.getNumberOfPages();
+        for (let page = 1; page <= total; page++) {
+            doc.setPage(page);
+            doc.setFont(PDF_FONT, "normal");
+            doc.setFontSize(9);
+            doc.setTextColor(120, 120, 120);
+            doc.text(`${page} / ${total}`, pageWidth / 2, pageHeight - 10, {
+                align: "center",
+            });
+        }
+        doc.setTextColor(0, 0, 0);
+    };
+
+    return {
+        writeHeading,
+        writeParagraph,
+        writeList,
+        writeTable,
+        writeSection0Table,
+        writeImage,
+        writeRule,
+        writePageNumbers,
+    };
+};
+
+/**
+ * 문서 노드를 PDF로 변환
+ */
+export const createPdfDocument = async ({
+    title,
+    nodes,
+    section0,
+    chartImages = {},
+}: PdfExportInput): Promise<Blob> => {
+    const doc: jsPDFWithAutoTable = new jsPDF({ unit: "mm", format: "a4" });
+    await registerKoreanFonts(doc);
+    doc.setProperties({ title });
+    // 책갈피 패널을 펼친 상태로 열기
+    doc.setDisplayMode("fullwidth", "continuous", "UseOutlines");
+
+    const writer = createPdfWriter(doc);
+    let section0Handled = false;
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case "heading":
+                writer.writeHeading(node);
+                break;
+            case "paragraph":
+                writer.writeParagraph(node);
+                break;
+            case "bulletList":
+            case "orderedList":
+                writer.writeList(node);
+                break;
+            case "table":
+                if (!section0Handled && section0 && isSection0Table(node)) {
+                    writer.writeSection0Table(section0);
+                    section0Handled = true;
+                } else {
+                    writer.writeTable(node);
+                }
+                break;
+            case "chartBlock": {
+                const key = CHART_IMAGE_KEYS[String(node.attrs?.type)];
+                const dataUrl = key ? chartImages[key] : undefined;
+                if (dataUrl) writer.writeImage(dataUrl);
+                break;
+            }
+            case "image": {
+                const src = node.attrs?.src;
+                const dataUrl = src ? await loadImageDataUrl(String(src)) : null;
+                if (dataUrl) writer.writeImage(dataUrl);
+                break;
+            }
+            case "horizontalRule":
+                writer.writeRule();
+                break;
+            default: {
+                // 인용문 등 기타 블록은 텍스트만 유지
+                const text = nodeText(node).trim();
+                if (text) {
+                    writer.writeParagraph({
+                        type: "paragraph",
+                        content: [{ type: "text", text }],
+                    });
+                }
+            }
+        }
+    }
+
+    writer.writePageNumbers();
+    return doc.output("blob");
+};
@@ -0,0 +1,467 @@
+/**
+ * ProjectData → 에디터 문서 / 사업자 정보 변환
+ * HWPX 불러오기에서 복원한 값을 AI 생성 결과와 같은 구조(소제목, 표 머리글)로 다시 배치
+ * → parseEditorContent가 같은 값을 다시 읽어 내보내기까지 그대로 이어짐
+ */
+
+import type { JSONContent } from "@tiptap/react";
+import type { BusinessInfo } from "@/components/app/BusinessInfoPanel";
+import { type GrantProgram, usesFieldGroup } from "@/lib/grantPrograms";
+import type { ProjectData } from "./editorParser";
+
+// 비목 라벨 (parseBudgetTable의 categoryMap 키워드와 일치해야 함)
+const BUDGET_CATEGORY_LABELS: Record<string, string> = {
+    material: "재료비",
+    personnel: "인건비",
+    outsourcing: "외주용역비",
+    commission: "지급수수료",
+    advertising: "광고선전비",
+    activity: "창업활동비",
+    intangible: "무형자산취득비",
+    etc: "기타",
+};
+
+const PHASE_CATEGORIES: Record<string, string[]> = {
+    budget_p1: [
+        "material",
+        "personnel",
+        "outsourcing",
+        "advertising",
+        "activity",
+        "etc",
+    ],
+    budget_p2: [
+        "material",
+        "personnel",
+        "outsourcing",
+        "commission",
+        "advertising",
+        "activity",
+        "intangible",
+        "etc",
+    ],
+};
+
+const SELF_FUNDED_CATEGORIES = [
+    "material",
+    "personnel",
+    "outsourcing",
+    "advertising",
+    "commission",
+    "activity",
+    "etc",
+];
+
+const DEFAULT_SCHEDULE_ROWS = 4;
+const DEFAULT_TEAM_ROWS = 3;
+const DEFAULT_PARTNER_ROWS = 3;
+const MAX_BUSINESS_INFO_TEAM = 5;
+
+/**
+ * "3,000천원" / "100백만원" / "3,000,000" → 원 단위 숫자
+ * 내보내기(calculateBudgetData)가 단위를 붙여 쓴 값을 되돌릴 때 사용
+ */
+export const parseKoreanAmount = (text: string | undefined): number => {
+    if (!text) return 0;
+    const value = Number(text.replace(/[^\d.]/g, "")) || 0;
+    if (text.includes("백만원")) return Math.round(value * 1000000);
+    if (text.includes("천원")) return Math.round(value * 1000);
+    return Math.round(value);
+};
+
+const formatWon = (text: string | undefined): string => {
+    const amount = parseKoreanAmount(text);
+    return amount > 0 ? amount.toLocaleString("ko-KR") : "";
+};
+
+// ============= 노드 생성 =============
+
+const heading = (level: number, text: string): JSONContent => ({
+    type: "heading",
+    attrs: { level },
+    content: [{ type: "text", text }],
+});
+
+// 줄바꿈은 hardBreak로 유지
+const inlineContent = (text: string): JSONContent[] =>
+    text.split("\n").flatMap((line, index) => {
+        const nodes: JSONContent[] = index > 0 ? [{ type: "hardBreak" }] : [];
+        if (line) nodes.push({ type: "text", text: line });
+        return nodes;
+    });
+
+const paragraph = (text: string): JSONContent => {
+    const content = inlineContent(text);
+    return content.length > 0
+        ? { type: "paragraph", content }
+        : { type: "paragraph" };
+};
+
+const boldParagraph = (text: string): JSONContent => ({
+    type: "paragraph",
+    content: [{ type: "text", text, marks: [{ type: "bold" }] }],
+});
+
+// 빈 줄(문단 구분) 기준으로 문단 나누기 - parseEditorContent는 문단을 빈 줄로 이어 붙임
+const paragraphs = (text: string | undefined): JSONContent[] =>
+    (text || "")
+        .split(/\n\s*\n/)
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .map(paragraph);
+
+interface CellSpec {
+    text: string;
+    colspan?: number;
+    rowspan?: number;
+}
+
+const cell = (
+    type: "tableCell" | "tableHeader",
+    spec: CellSpec | string,
+): JSONContent => {
+    const { text, colspan = 1, rowspan = 1 } =
+        typeof spec === "string" ? { text: spec } : spec;
+    return {
+        type,
+        attrs: { colspan, rowspan, colwidth: null },
+        content: [paragraph(text)],
+    };
+};
+
+const table = (
+    header: string[] | null,
+    rows: Array<Array<CellSpec | string>>,
+): JSONContent => ({
+    type: "table",
+    content: [
+        ...(header
+            ? [
+                  {
+                      type: "tableRow",
+                      content: header.map((text) => cell("tableHeader", text)),
+                  },
+              ]
+            : []),
+        ...rows.map((row) => ({
+            type: "tableRow",
+            content: row.map((spec) => cell("tableCell", spec)),
+        })),
+    ],
+});
+
+// 번호가 붙은 반복 키(team_N_...)에서 값이 있는 마지막 번호
+const lastFilledIndex = (
+    data: ProjectData,
+    prefix: string,
+    fields: string[],
+): number => {
+    let last = 0;
+    for (const key of Object.keys(data)) {
+        const match = key.match(new RegExp(`^${prefix}_(\\d+)_(\\w+)$`));
+        if (match && fields.includes(match[2]) && data[key]?.trim()) {
+            last = Math.max(last, Number(match[1]));
+        }
+    }
+    return last;
+};
+
+// ============= 섹션별 표 =============
+
+const overviewTable = (data: ProjectData): JSONContent => {
+    const value = (key: string) => data[key] || "";
+    const summaryRow = (label: string, key: string) => [
+        label,
+        { text: value(key), colspan: 3 },
+    ];
+
+    return table(null, [
+        ["명 칭", value("item_name"), "범 주", value("item_category")],
+        summaryRow("아이템 개요", "summary_overview"),
+        summaryRow("문제 인식", "summary_problem"),
+        summaryRow("실현 가능성", "summary_solution"),
+        summaryRow("성장전략", "summary_scaleup"),
+        summaryRow("팀 구성", "summary_team"),
+        [
+            { text: "이미지\n(참고자료)", rowspan: 2 },
+            "",
+            { text: "", colspan: 2 },
+        ],
+        [
+            value("summary_image_1_caption"),
+            { text: value("summary_image_2_caption"), colspan: 2 },
+        ],
+    ]);
+};
+
+const scheduleTable = (data: ProjectData, prefix: string): JSONContent => {
+    const count = Math.max(
+        lastFilledIndex(data, prefix, ["task", "period", "detail"]),
+        DEFAULT_SCHEDULE_ROWS,
+    );
+    return table(
+        ["구분", "추진 내용", "추진 기간", "세부 내용"],
+        Array.from({ length: count }, (_, i) => [
+            `${i + 1}단계`,
+            data[`${prefix}_${i + 1}_task`] || "",
+            data[`${prefix}_${i + 1}_period`] || "",
+            data[`${prefix}_${i + 1}_detail`] || "",
+        ]),
+    );
+};
+
+const phasedBudgetTable = (data: ProjectData, phase: string): JSONContent =>
+    table(["비 목", "산 출 근 거", "정부지원사업비(원)"], [
+        ...PHASE_CATEGORIES[phase].map((category) => [
+            BUDGET_CATEGORY_LABELS[category],
+            data[`${phase}_${category}_basis`] || "",
+            data[`${phase}_${category}_amount`] || "",
+        ]),
+        ["합계", "", data[`${phase}_total_amount`] || ""],
+    ]);
+
+const selfFundedBudgetTable = (data: ProjectData): JSONContent =>
+    table(
+        [
+            "비 목",
+            "집행 계획",
+            "정부지원사업비(ⓐ)",
+            "자기부담사업비(ⓑ) 현금",
+            "자기부담사업비(ⓑ) 현물",
+            "합계(ⓐ+ⓑ)",
+        ],
+        [
+            ...SELF_FUNDED_CATEGORIES.map((category) => [
+                BUDGET_CATEGORY_LABELS[category],
+                data[`budget_${category}_basis`] || "",
+                formatWon(data[`budget_${category}_amount`]),
+                formatWon(data[`cash_${category}_amount`]),
+                formatWon(
+                    category === "material"
+                        ? data["physical_budget_material_amount"]
+                        : data[`physical_${category}_amount`],
+                ),
+                formatWon(data[`total_${category}_amount`]),
+            ]),
+            [
+                "합 계",
+                "",
+                formatWon(data["total_grant"]),
+                formatWon(data["total_cash"]),
+                formatWon(data["total_physical"]),
+                formatWon(data["total_for_all"]),
+            ],
+        ],
+    );
+
+const teamTable = (data: ProjectData): JSONContent => {
+    const count = Math.max(
+        lastFilledIndex(data, "team", ["position", "role", "competency"]),
+        DEFAULT_TEAM_ROWS,
+    );
+    return table(
+        ["구분", "직위", "담당 업무", "보유 역량(경력 및 학력 등)", "구성 상태"],
+        Array.from({ length: count }, (_, i) => [
+            i === 0 ? "대표자" : `팀원${i}`,
+            data[`team_${i + 1}_position`] || "",
+            data[`team_${i + 1}_role`] || "",
+            data[`team_${i + 1}_competency`] || "",
+            data[`team_${i + 1}_status`] || "",
+        ]),
+    );
+};
+
+const partnerTable = (data: ProjectData): JSONContent => {
+    const count = Math.max(
+        lastFilledIndex(data, "partner", ["name", "cap", "plan", "date"]),
+        DEFAULT_PARTNER_ROWS,
+    );
+    return table(
+        ["구분", "파트너명", "보유 역량", "협업 방안", "협력 시기"],
+        Array.from({ length: count }, (_, i) => [
+            `협력${i + 1}`,
+            data[`partner_${i + 1}_name`] || "",
+            data[`partner_${i + 1}_cap`] || "",
+            data[`partner_${i + 1}_plan`] || "",
+            data[`partner_${i + 1}_date`] || "",
+        ]),
+    );
+};
+
+/**
+ * 복원한 ProjectData로 에디터 문서 생성 (AI 생성 결과와 같은 소제목/표 구조)
+ */
+export const buildEditorContent = (
+    data: ProjectData,
+    program: GrantProgram,
+): JSONContent => {
+    const content: JSONContent[] = [];
+    const section = (title: string, key: string) => {
+        content.push(heading(3, title), ...paragraphs(data[key]));
+    };
+
+    if (usesFieldGroup(program, "summary")) {
+        content.push(heading(1, "창업 아이템 개요 (요약)"), overviewTable(data));
+    }
+
+    content.push(heading(1, "1. 문제 인식 (Problem)"));
+    section("1-1. 기존 시장의 문제점", "prob_necessity");
+    section("1-2. 개발 필요성", "prob_market");
+
+    content.push(
+        heading(1, "2. 실현 가능성 (Solution)"),
+        heading(3, "2-1. 창업 아이템의 개발·구체화 계획"),
+    );
+    section("2-1-1. 창업아이템 개발 방안", "sol_develop");
+    section("2-1-2. 차별성 및 경쟁력 확보 전략", "sol_diff");
+
+    if (usesFieldGroup(program, "schedule")) {
+        content.push(
+            heading(3, "2-2. 사업추진 일정 (협약기간 내)"),
+            scheduleTable(data, "schedule"),
+        );
+    }
+
+    if (usesFieldGroup(program, "budgetPhased")) {
+        content.push(
+            heading(3, "2-3. 정부지원사업비 집행계획"),
+            boldParagraph("<1단계 정부지원사업비 집행계획>"),
+            phasedBudgetTable(data, "budget_p1"),
+            boldParagraph("<2단계 정부지원사업비 집행계획>"),
+            phasedBudgetTable(data, "budget_p2"),
+        );
+    } else if (usesFieldGroup(program, "budgetSelfFunded")) {
+        content.push(
+            heading(3, "2-3. 정부지원사업비 집행계획"),
+            selfFundedBudgetTable(data),
+        );
+    }
+
+    content.push(
+        heading(1, "3. 성장전략 (Scale-up)"),
+        heading(3, "3-1. 사업화 추진 전략 (비즈니스 모델)"),
+    );
+    section("3-1-1. 비즈니스 모델(BM)", "scale_bm");
+    section("3-1-2. 시장 진입 전략", "scale_market");
+
+    if (
+        usesFieldGroup(program, "schedule") &&
+        lastFilledIndex(data, "overall_schedule", ["task", "period", "detail"]) > 0
+    ) {
+        content.push(
+            heading(3, "3-2. 사업추진 일정 (전체 사업단계)"),
+            scheduleTable(data, "overall_schedule"),
+        );
+    }
+    section("3-3. 중장기 사회적 가치 도입계획 (ESG)", "scale_esg");
+
+    content.push(heading(1, "4. 팀 구성 (Team)"));
+    section("4-1. 대표자 및 팀원의 보유 역량", "team_competency");
+    if (usesFieldGroup(program, "team")) {
+        content.push(heading(3, "4-2. 팀 구성(안)"), teamTable(data));
+    }
+    if (usesFieldGroup(program, "partners")) {
+        content.push(
+            heading(3, "4-3. 협력 기관 현황 및 협업 방안"),
+            partnerTable(data),
+        );
+    }
+
+    return { type: "doc", content };
+};
+
+// ============= 사업자 정보 =============
+
+const pickOption = <T extends string>(
+    value: string | undefined,
+    options: readonly T[],
+): T | undefined => options.find((option) => option === value?.trim());
+
+/**
+ * 복원한 ProjectData → 사업자 정보 패널 값 (값이 있는 항목만)
+ */
+export const businessInfoFromProjectData = (
+    data: ProjectData,
+): Partial<BusinessInfo> => {
+    const info: Partial<BusinessInfo> = {};
+    const assign = <K extends keyof BusinessInfo>(
+        key: K,
+        value: BusinessInfo[K] | undefined,
+    ) => {
+        if (value !== undefined && value !== "") info[key] = value;
+    };
+
+    assign("info_company_name", data["info_company_name"]);
+    assign("info_est_date", data["info_est_date"]);
+    assign("info_reg_number", data["info_reg_number"]);
+    assign("info_address", data["info_address"]);
+    assign(
+        "business_type",
+        pickOption(data["business_type"], ["개인사업자", "법인사업자"] as const),
+    );
+    assign(
+        "representative_type",
+        pickOption(data["representative_type"], [
+            "단독",
+            "공동",
+            "각자대표",
+        ] as const),
+    );
+    assign("item_name", data["item_name"]);
+    assign("target_output", data["target_output"]);
+    assign(
+        "support_field",
+        pickOption(data["support_field"], ["제조", "지식서비스"] as const),
+    );
+    assign(
+        "tech_field",
+        pickOption(data["tech_field"], [
+            "기계·소재",
+            "전기·전자",
+            "정보·통신",
+            "화공·섬유",
+            "바이오·의료·생명",
+            "에너지·자원",
+            "공예·디자인",
+        ] as const),
+    );
+    assign(
+        "region_type",
+        pickOption(data["region_type"], [
+            "특별지원 지역",
+            "우대지원 지역",
+            "일반지역",
+            "지방우대 비해당 지역",
+        ] as const),
+    );
+
+    assign("budget_gov", data["budget_gov"]);
+    assign("budget_self_cash", data["budget_self_cash"]);
+    assign("budget_self_kind", data["budget_self_kind"]);
+    assign("budget_total", data["budget_total"]);
+    const govAmount = parseKoreanAmount(data["budget_gov"]);
+    if (govAmount > 0) info.budget_gov_amount = govAmount;
+
+    for (const category of SELF_FUNDED_CATEGORIES) {
+        const basisKey = `budget_${category}_basis` as keyof BusinessInfo;
+        const amountKey = `budget_${category}_amount` as keyof BusinessInfo;
+        const basis = data[basisKey];
+        const amount = parseKoreanAmount(data[amountKey]);
+        if (basis) Object.assign(info, { [basisKey]: basis });
+        if (amount > 0) Object.assign(info, { [amountKey]: amount });
+    }
+
+    for (let i = 1; i <= MAX_BUSINESS_INFO_TEAM; i++) {
+        for (const field of ["position", "role", "competency"]) {
+            const value = data[`team_${i}_${field}`];
+            if (value) Object.assign(info, { [`team_${i}_${field}`]: value });
+        }
+        const status = pickOption(data[`team_${i}_status`], [
+            "확정",
+            "예정",
+        ] as const);
+        if (status) Object.assign(info, { [`team_${i}_status`]: status });
+    }
+
+    return info;
+};
@@ -0,0 +1,111 @@
+/**
+ * 사업계획서 0번 섹션(창업 아이템 개요 표) 데이터 추출
+ * DOCX / PDF 내보내기에서 정부 양식과 같은 고정 레이아웃 표를 다시 그릴 때 사용
+ */
+
+import type { JSONContent } from "@tiptap/react";
+
+// Section 0 data structure
+export interface Section0Data {
+    itemName: string;
+    category: string;
+    overview: string;
+    problem: string;
+    solution: string;
+    growth: string;
+    team: string;
+}
+
+const extractText = (node: JSONContent | undefined): string => {
+    if (!node) return "";
+    if (node.text) return node.text;
+    return (node.content || []).map(extractText).join("");
+};
+
+// Extract text from cell
+const getCellText = (cell: JSONContent | undefined): string => {
+    if (!cell?.content) return "";
+    return cell.content
+        .map((p) => {
+            if (p.type === "paragraph" && p.content) {
+                return p.content.map((t) => t.text || "").join("");
+            }
+            return "";
+        })
+        .join("\n");
+};
+
+// Check if this is the Section 0 table (첫 번째 테이블이고 명칭/범주 포함)
+export const isSection0Table = (node: JSONContent): boolean => {
+    if (node.type !== "table" || !node.content) return false;
+
+    const firstRow = node.content[0];
+    if (!firstRow?.content) return false;
+
+    const firstCellText = extractText(firstRow.content[0]);
+    return firstCellText.includes("명") && firstCellText.includes("칭");
+};
+
+// Extract Section 0 data from Tiptap content
+export const extractSection0Data = (
+    content: JSONContent | null | undefined,
+): Section0Data | null => {
+    if (!content?.content || !Array.isArray(content.content)) return null;
+
+    // Find the Section 0 table
+    for (const node of content.content) {
+        if (node.type === "table" && node.content) {
+            const data: Section0Data = {
+                itemName: "",
+                category: "",
+                overview: "",
+                problem: "",
+                solution: "",
+                growth: "",
+                team: "",
+            };
+
+            // Process rows
+            for (let rowIdx = 0; rowIdx < node.content.length; rowIdx++) {
+                const row = node.content[rowIdx];
+                if (row.type !== "tableRow" || !row.content) continue;
+
+                const cells = row.content;
+
+                // Row 0: 명칭 + 범주
+                if (rowIdx === 0 && cells.length >= 4) {
+                    data.itemName = getCellText(cells[1]);
+                    data.category = getCellText(cells[3]);
+                }
+                // Row 1: 범주 (duplicate row in some templates, skip)
+                // Row 2: 아이템 개요
+                else if (rowIdx === 2 && cells.length >= 2) {
+                    data.overview = getCellText(cells[1]);
+                }
+                // Row 3: 문제 인식
+                else if (rowIdx === 3 && cells.length >= 2) {
+                    data.problem = getCellText(cells[1]);
+                }
+                // Row 4: 실현 가능성
+                else if (rowIdx === 4 && cells.length >= 2) {
+                    data.solution = getCellText(cells[1]);
+                }
+                // Row 5: 성장전략
+                else if (rowIdx === 5 && cells.length >= 2) {
+                    data.growth = getCellText(cells[1]);
+                }
+                // Row 6: 팀 구성
+                else if (rowIdx === 6 && cells.length >= 2) {
+                    data.team = getCellText(cells[1]);
+                }
+            }
+
+            // Only return if we found meaningful data
+            if (data.itemName || data.overview || data.problem) {
+                return data;
+            }
+        }
+    }
+
+    return null;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { getGrantProgram } from "@/lib/grantPrograms";
+import { parseEditorContent } from "./editorParser";
+import {
+    projectDataFromStructuredPlan,
+    renderStructuredPlan,
+    type StructuredPlan,
+} from "./structuredPlan";
+
+const plan = (overrides: Partial<StructuredPlan["tables"]> = {}): StructuredPlan => ({
+    sections: {
+        item_name: "AI 기반 사업계획서 작성 도구",
+        prob_market: "예비창업자 연 10만 명, 양식 작성에 평균 2주 소요",
+        sol_develop: "1단계 MVP 개발\n2단계 양식 확대",
+    },
+    generalInfo: { info_company_name: "주식회사 테스트" },
+    tables: {
+        schedule: [
+            { task: "MVP 개발", period: "2026.01 ~ 2026.03", detail: "핵심 기능" },
+        ],
+        overallSchedule: [],
+        team: [
+            { position: "대표", role: "사업 총괄", competency: "창업 경험 5년", status: "재직" },
+            { position: "개발자", role: "서비스 개발", competency: "웹 개발 7년", status: "채용 예정" },
+        ],
+        partners: [
+            { name: "테스트랩", capability: "UX 검증", plan: "사용성 평가", period: "2026.04" },
+        ],
+        budget: [],
+        ...overrides,
+    },
+    charts: {},
+    chatMessage: "작성했습니다.",
+});
+
+describe("projectDataFromStructuredPlan", () => {
+    it("numbers table rows and merges phased budget rows by category", () => {
+        const data = projectDataFromStructuredPlan(
+            plan({
+                budget: [
+                    { phase: 1, category: "material", basis: "서버 부품", amount: 1_000_000 },
+                    { category: "material", basis: "시제품 재료", amount: 500_000 },
+                    { phase: 2, category: "outsourcing", basis: "디자인 외주", amount: 3_000_000 },
+                ],
+            }),
+            getGrantProgram("PRE_STARTUP"),
+        );
+
+        expect(data).toMatchObject({
+            item_name: "AI 기반 사업계획서 작성 도구",
+            schedule_1_task: "MVP 개발",
+            team_2_position: "개발자",
+            team_2_status: "채용 예정",
+            partner_1_cap: "UX 검증",
+            partner_1_date: "2026.04",
+            budget_p1_material_basis: "서버 부품, 시제품 재료",
+            budget_p1_material_amount: "1,500,000",
+            budget_p1_total_amount: "1,500,000",
+            budget_p2_outsourcing_amount: "3,000,000",
+            budget_p2_total_amount: "3,000,000",
+        });
+        // 일반현황은 해당 지원사업 양식에만 채움
+        expect(data.info_company_name).toBeUndefined();
+    });
+
+    it("fills grant, cash and in-kind totals for self-funded budgets", () => {
+        const data = projectDataFromStructuredPlan(
+            plan({
+                budget: [
+                    { category: "material", basis: "서버 부품", amount: 7_000_000, cash: 1_000_000, inKind: 2_000_000 },
+                    { category: "personnel", basis: "개발자 1명", amount: 14_000_000, cash: 2_000_000 },
+                ],
+            }),
+            getGrantProgram("EARLY_STARTUP"),
+        );
+
+        expect(data).toMatchObject({
+            info_company_name: "주식회사 테스트",
+            budget_material_amount: "7,000,000",
+            cash_material_amount: "1,000,000",
+            physical_budget_material_amount: "2,000,000",
+            total_material_amount: "10,000,000",
+            physical_personnel_amount: "",
+            total_grant: "21,000,000",
+            total_cash: "3,000,000",
+            total_physical: "2,000,000",
+            total_for_all: "26,000,000",
+        });
+    });
+});
+
+describe("renderStructuredPlan", () => {
+    it("builds a document that parseEditorContent reads back", () => {
+        const program = getGrantProgram("PRE_STARTUP");
+        const { content, data } = renderStructuredPlan(plan(), program);
+
+        const parsed = parseEditorContent(content, "", program);
+
+        for (const key of [
+            "item_name",
+            "prob_market",
+            "schedule_1_task",
+            "schedule_1_period",
+            "team_1_role",
+            "team_2_competency",
+        ]) {
+            expect(parsed[key], key).toBe(data[key]);
+        }
+        expect(parsed.sol_develop?.replace(/\n+/g, "\n")).toBe(
+            data.sol_develop,
+        );
+    });
+});
@@ -0,0 +1,242 @@
+/**
+ * 구조화 작성(chat mode: "plan") 응답 → ProjectData / 에디터 문서
+ * 서버(supabase/functions/_shared/prompts/structuredPlan.ts)가 스키마를 검증한 JSON을
+ * ProjectData 키로 펼친 뒤 buildEditorContent로 문서를 만듦
+ * → [DOCUMENT]/[CHAT] 태그나 마크다운 제목을 해석하지 않음
+ */
+
+import type { JSONContent } from "@tiptap/react";
+import type { BusinessInfo } from "@/components/app/BusinessInfoPanel";
+import { type GrantProgram, usesFieldGroup } from "@/lib/grantPrograms";
+import type { ParsedChartData } from "./chartDataParser";
+import type { ProjectData } from "./editorParser";
+import {
+    buildEditorContent,
+    businessInfoFromProjectData,
+} from "./projectDataDocument";
+
+export type BudgetCategory =
+    | "material"
+    | "personnel"
+    | "outsourcing"
+    | "commission"
+    | "advertising"
+    | "activity"
+    | "intangible"
+    | "etc";
+
+export interface StructuredScheduleRow {
+    task: string;
+    period: string;
+    detail: string;
+}
+
+export interface StructuredTeamRow {
+    position: string;
+    role: string;
+    competency: string;
+    status: string;
+}
+
+export interface StructuredPartnerRow {
+    name: string;
+    capability: string;
+    plan: string;
+    period: string;
+}
+
+export interface StructuredBudgetRow {
+    phase?: 1 | 2;
+    category: BudgetCategory;
+    basis: string;
+    amount: number;
+    cash?: number;
+    inKind?: number;
+}
+
+export interface StructuredPlan {
+    /** ProjectData 줄글/요약 필드 (prob_necessity, sol_develop 등) */
+    sections: Record<string, string>;
+    /** 일반현황 (info_company_name 등, 해당 지원사업만) */
+    generalInfo?: Record<string, string>;
+    tables: {
+        schedule: StructuredScheduleRow[];
+        overallSchedule: StructuredScheduleRow[];
+        team: StructuredTeamRow[];
+        partners: StructuredPartnerRow[];
+        budget: StructuredBudgetRow[];
+    };
+    charts: ParsedChartData;
+    chatMessage: string;
+}
+
+export interface StructuredPlanOutcome {
+    content: JSONContent;
+    businessInfo: Partial<BusinessInfo>;
+    chartData: ParsedChartData;
+    data: ProjectData;
+}
+
+const formatAmount = (amount: number): string =>
+    amount > 0 ? Math.round(amount).toLocaleString("ko-KR") : "";
+
+const assignRows = <T extends object>(
+    data: ProjectData,
+    prefix: string,
+    rows: T[],
+    keys: Record<string, keyof T>,
+) => {
+    rows.forEach((row, index) => {
+        for (const [field, key] of Object.entries(keys)) {
+            data[`${prefix}_${index + 1}_${field}`] = String(row[key] ?? "");
+        }
+    });
+};
+
+// 같은 비목이 여러 행이면 금액은 더하고 산출 근거는 이어 붙임
+interface BudgetTotals {
+    basis: string[];
+    amount: number;
+    cash: number;
+    inKind: number;
+}
+
+const groupBudget = (
+    rows: StructuredBudgetRow[],
+    groupKey: (row: StructuredBudgetRow) => string,
+): Map<string, BudgetTotals> => {
+    const groups = new Map<string, BudgetTotals>();
+    for (const row of rows) {
+        const key = groupKey(row);
+        const group = groups.get(key) || {
+            basis: [],
+            amount: 0,
+            cash: 0,
+            inKind: 0,
+        };
+        if (row.basis) group.basis.push(row.basis);
+        group.amount += row.amount || 0;
+        group.cash += row.cash || 0;
+        group.inKind += row.inKind || 0;
+        groups.set(key, group);
+    }
+    return groups;
+};
+
+// 1단계/2단계 표 (budget_p1_*, budget_p2_*)
+const assignPhasedBudget = (data: ProjectData, rows: StructuredBudgetRow[]) => {
+    for (const phase of [1, 2]) {
+        const prefix = `budget_p${phase}`;
+        const groups = groupBudget(
+            rows.filter((row) => (row.phase ?? 1) === phase),
+            (row) => row.category,
+        );
+        if (groups.size === 0) continue;
+
+        let total = 0;
+        for (const [category, group] of groups) {
+            data[`${prefix}_${category}_basis`] = group.basis.join(", ");
+            data[`${prefix}_${category}_amount`] = formatAmount(group.amount);
+            total += group.amount;
+        }
+        data[`${prefix}_total_amount`] = formatAmount(total);
+    }
+};
+
+// 자기부담사업비 포함 단일 표 (budget_*, cash_*, physical_*, total_*)
+const assignSelfFundedBudget = (
+    data: ProjectData,
+    rows: StructuredBudgetRow[],
+) => {
+    const totals = { grant: 0, cash: 0, inKind: 0 };
+    for (const [category, group] of groupBudget(rows, (row) => row.category)) {
+        const physicalKey =
+            category === "material"
+                ? "physical_budget_material_amount"
+                : `physical_${category}_amount`;
+        data[`budget_${category}_basis`] = group.basis.join(", ");
+        data[`budget_${category}_amount`] = formatAmount(group.amount);
+        data[`cash_${category}_amount`] = formatAmount(group.cash);
+        data[physicalKey] = formatAmount(group.inKind);
+        data[`total_${category}_amount`] = formatAmount(
+            group.amount + group.cash + group.inKind,
+        );
+        totals.grant += group.amount;
+        totals.cash += group.cash;
+        totals.inKind += group.inKind;
+    }
+    data["total_grant"] = formatAmount(totals.grant);
+    data["total_cash"] = formatAmount(totals.cash);
+    data["total_physical"] = formatAmount(totals.inKind);
+    data["total_for_all"] = formatAmount(
+        totals.grant + totals.cash + totals.inKind,
+    );
+};
+
+/**
+ * 구조화 응답 → ProjectData (지원사업 양식에 없는 표는 건너뜀)
+ */
+export const projectDataFromStructuredPlan = (
+    plan: StructuredPlan,
+    program: GrantProgram,
+): ProjectData => {
+    const data: ProjectData = { ...plan.sections };
+    const { tables } = plan;
+
+    if (usesFieldGroup(program, "generalInfo") && plan.generalInfo) {
+        Object.assign(data, plan.generalInfo);
+    }
+    if (usesFieldGroup(program, "schedule")) {
+        const scheduleKeys = {
+            task: "task",
+            period: "period",
+            detail: "detail",
+        } as const;
+        assignRows(data, "schedule", tables.schedule, scheduleKeys);
+        assignRows(
+            data,
+            "overall_schedule",
+            tables.overallSchedule,
+            scheduleKeys,
+        );
+    }
+    if (usesFieldGroup(program, "team")) {
+        assignRows(data, "team", tables.team, {
+            position: "position",
+            role: "role",
+            competency: "competency",
+            status: "status",
+        });
+    }
+    if (usesFieldGroup(program, "partners")) {
+        assignRows(data, "partner", tables.partners, {
+            name: "name",
+            cap: "capability",
+            plan: "plan",
+            date: "period",
+        });
+    }
+    if (usesFieldGroup(program, "budgetPhased")) {
+        assignPhasedBudget(data, tables.budget);
+    } else if (usesFieldGroup(program, "budgetSelfFunded")) {
+        assignSelfFundedBudget(data, tables.budget);
+    }
+
+    return data;
+};
+
+/**
+ * 구조화 응답으로 에디터 문서, 사업자 정보, 차트 데이터 생성
+ */
+export const renderStructuredPlan = (
+    plan: StructuredPlan,
+    program: GrantProgram,
+): StructuredPlanOutcome => {
+    const data = projectDataFromStructuredPlan(plan, program);
+    return {
+        content: buildEditorContent(data, program),
+        businessInfo: businessInfoFromProjectData(data),
+        chartData: plan.charts,
+        data,
+    };
+};
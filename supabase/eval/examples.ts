@@ -0,0 +1,26 @@
+// 하네스 사용 예시 프롬프트 (운영 코드에서는 쓰지 않음)
+// 버전 2는 초기창업패키지 초안 프롬프트에서 줄글·문체 규칙을 완화한 문구라, 버전 1과 비교하면 회귀로 실패합니다.
+//   deno run -A supabase/eval/promptEval.ts example/relaxed-rules
+//   → nounEnding, noBullets 회귀로 종료 코드 1
+
+import { PLAN_PROMPT_EARLY_STARTUP } from "../functions/_shared/prompts/systemPrompt_EarlyStartup.ts";
+import {
+  type PlanPrompt,
+  type VersionedPrompt,
+  resolvePrompt,
+} from "../functions/_shared/prompts/versions.ts";
+
+const base = resolvePrompt(PLAN_PROMPT_EARLY_STARTUP, "1").prompt;
+
+const relaxedSystem = base.system
+  .replace(/^1\. \*\*\[줄글 원칙\]:\*\*.*$/m, "1. **[가독성]:** 핵심 내용은 불렛(•)으로 짧게 정리하세요.")
+  .replace(/^3\. \*\*\[문체 규칙\]:\*\*.*$/m, "3. **[문체 규칙]:** 읽기 편한 경어체(~합니다)로 작성하세요.");
+
+export const EXAMPLE_RELAXED_RULES: VersionedPrompt<PlanPrompt> = {
+  id: "example/relaxed-rules",
+  current: "2",
+  versions: [
+    { version: "1", prompt: base },
+    { version: "2", prompt: { ...base, system: relaxedSystem } },
+  ],
+};
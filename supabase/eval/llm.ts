@@ -0,0 +1,166 @@
+// 평가용 LLM
+//   mock    네트워크 없이 프롬프트를 읽고 규칙을 따르는 척하는 응답을 만듦 (mockComplete 참고)
+//           → 양식 구조와 문체·불렛·분량 규칙 문구가 바뀐 회귀가 드러남. 실제 글 품질은 record/replay로 확인
+//   record  _shared/llm.ts 게이트웨이로 실제 호출하고 응답을 recordings/ 에 저장 (LLM_API_KEY 등 필요)
+//   replay  recordings/ 에 저장된 응답을 다시 채점 (오프라인, 같은 녹화로 규칙만 바꿔 볼 때)
+
+import { type LlmMessage, type LlmTask, completeChat } from "../functions/_shared/llm.ts";
+
+export type EvalLlmMode = "mock" | "record" | "replay";
+
+export const EVAL_LLM_MODES: EvalLlmMode[] = ["mock", "record", "replay"];
+
+export interface EvalCall {
+  // 녹화 파일 위치: recordings/<recordingId>/<sampleId>.md
+  recordingId: string;
+  sampleId: string;
+  task: LlmTask;
+  messages: LlmMessage[];
+}
+
+const RECORDINGS_DIR = new URL("./recordings/", import.meta.url);
+
+const recordingUrl = (call: Pick<EvalCall, "recordingId" | "sampleId">) =>
+  new URL(`${call.recordingId.replace(/[^\w@.+-]/g, "_")}/${call.sampleId}.md`, RECORDINGS_DIR);
+
+// mock 문장 (명사형 / 경어체 한 쌍)
+const MOCK_SENTENCES: [noun: string, polite: string][] = [
+  [
+    "목표 고객은 기존 방식으로 문제를 해결하는 데 평균 주 5시간 이상을 쓰고 있으며, 이 과정의 비용과 오류가 가장 큰 부담으로 확인됨.",
+    "목표 고객은 기존 방식으로 문제를 해결하는 데 평균 주 5시간 이상을 쓰고 있으며, 이 과정의 비용과 오류가 가장 큰 부담으로 확인됩니다.",
+  ],
+  [
+    "현장 인터뷰 30건에서 응답자의 70% 이상이 대체 수단이 있다면 유료로 전환할 의향이 있다고 답함.",
+    "현장 인터뷰 30건에서 응답자의 70% 이상이 대체 수단이 있다면 유료로 전환할 의향이 있다고 답했습니다.",
+  ],
+  [
+    "본 아이템은 수작업으로 처리하던 핵심 업무를 데이터 기반으로 자동화하여 처리 시간을 절반 이하로 줄이는 것을 목표로 함.",
+    "본 아이템은 수작업으로 처리하던 핵심 업무를 데이터 기반으로 자동화하여 처리 시간을 절반 이하로 줄이는 것을 목표로 합니다.",
+  ],
+  [
+    "협약 기간 내 최소 기능 제품을 완성하고 시범 고객 10곳에서 효과를 검증할 예정임.",
+    "협약 기간 내 최소 기능 제품을 완성하고 시범 고객 10곳에서 효과를 검증할 예정입니다.",
+  ],
+  [
+    "검증 결과를 바탕으로 가격 정책과 판매 채널을 확정하고, 초기 고객의 사례를 활용해 유사 업종으로 확장함.",
+    "검증 결과를 바탕으로 가격 정책과 판매 채널을 확정하고, 초기 고객의 사례를 활용해 유사 업종으로 확장합니다.",
+  ],
+  [
+    "이를 통해 사업 2차 연도에 손익분기점을 달성하는 것을 목표로 함.",
+    "이를 통해 사업 2차 연도에 손익분기점을 달성하는 것을 목표로 합니다.",
+  ],
+];
+
+// 분량 지시가 없을 때 쓰는 본문 길이 (모델이 보통 쓰는 짧은 분량)
+const MOCK_DEFAULT_CHARS = 150;
+
+interface MockStyle {
+  nounEnding: boolean; // 명사형 종결어미 지시가 있음
+  noBullets: boolean; // 불렛·번호 금지 지시가 있음
+  minChars: number; // 프롬프트 전체에 걸린 최소 분량 (항목별 지시가 없을 때)
+}
+
+const textOf = (message: LlmMessage) =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+
+const minCharsIn = (text: string) => {
+  const match = text.match(/최소\s*(\d+)\s*자|(\d+)\s*자\s*이상/);
+  return match ? Number(match[1] ?? match[2]) : null;
+};
+
+function readMockStyle(prompt: string): MockStyle {
+  // 표 칸 안내("최소 2줄 이상" 등)와 본문 자리([...])는 전체 규칙이 아님
+  const rules = prompt.split("\n").filter((line) => !/^[<[]/.test(line.trim()));
+  return {
+    nounEnding: /명사형/.test(prompt),
+    noBullets: rules.some((line) => /(불렛|번호)/.test(line) && /(쓰지|금지|말고)/.test(line)),
+    minChars: Math.max(0, ...rules.map((line) => minCharsIn(line) ?? 0)) || MOCK_DEFAULT_CHARS,
+  };
+}
+
+// 본문 자리 하나를 minChars 이상이 되도록 채움 (두 문장씩 문단, 불렛 금지가 없으면 불렛 목록)
+function mockProse(style: MockStyle, minChars: number, offset: number): string {
+  const sentences: string[] = [];
+  let length = 0;
+  for (let i = offset; length < minChars; i++) {
+    const [noun, polite] = MOCK_SENTENCES[i % MOCK_SENTENCES.length];
+    const sentence = style.nounEnding ? noun : polite;
+    sentences.push(sentence);
+    length += sentence.length + 1;
+  }
+  if (!style.noBullets) return sentences.map((sentence) => `- ${sentence}`).join("\n");
+
+  const paragraphs: string[] = [];
+  for (let i = 0; i < sentences.length; i += 2) paragraphs.push(sentences.slice(i, i + 2).join(" "));
+  return paragraphs.join("\n\n");
+}
+
+// 프롬프트를 읽고 흉내 낸 응답
+// - 작성 양식("필수 준수 양식" 표시 이후, 없으면 첫 # 제목 이후)의 목차와 표는 그대로 옮김
+// - 본문 자리([... 작성 ...], [... 자 이상 ...])는 프롬프트의 문체·불렛·분량 지시를 따른 문장으로 채움
+// 같은 프롬프트면 항상 같은 응답이 나오므로, 두 버전의 점수 차이는 문구 차이에서만 생김
+function mockComplete(messages: LlmMessage[]): string {
+  const texts = messages.map(textOf);
+  const style = readMockStyle(texts.join("\n"));
+  const form = [...texts]
+    .reverse()
+    .find((text) => /필수 준수 양식/.test(text) || /^# /m.test(text)) ?? "";
+  const lines = form.split("\n");
+  const markerIndex = lines.findIndex((line) => line.includes("필수 준수 양식"));
+  const start = markerIndex !== -1 ? markerIndex + 1 : lines.findIndex((line) => /^# /.test(line));
+
+  const output: string[] = [];
+  let proseCount = 0;
+  for (const line of lines.slice(Math.max(start, 0))) {
+    const trimmed = line.trim();
+    if (/^#{1,6}\s/.test(trimmed) || trimmed.startsWith("|")) {
+      output.push(trimmed);
+    } else if (/^\[[^\]]*(작성|자 이상)[^\]]*\]$/.test(trimmed)) {
+      output.push(mockProse(style, minCharsIn(trimmed) ?? style.minChars, proseCount++));
+    } else if (!trimmed && output[output.length - 1] !== "") {
+      output.push("");
+    }
+  }
+
+  const document = output.join("\n").trim();
+  const usesTags = texts.some((text) => text.includes("[DOCUMENT]"));
+  const chat = style.nounEnding ? "사업계획서 작성을 완료함." : "사업계획서 작성을 완료했습니다.";
+  return usesTags ? `[DOCUMENT]\n${document}\n[/DOCUMENT]\n\n[CHAT]\n${chat}\n[/CHAT]` : document;
+}
+
+async function saveRecording(url: URL, content: string) {
+  await Deno.mkdir(new URL(".", url), { recursive: true });
+  await Deno.writeTextFile(url, content);
+}
+
+export async function hasRecording(call: Pick<EvalCall, "recordingId" | "sampleId">): Promise<boolean> {
+  try {
+    return (await Deno.stat(recordingUrl(call))).isFile;
+  } catch {
+    return false;
+  }
+}
+
+// save: record 응답을 recordings/ 에 저장 (녹화 기준선과 비교할 때는 기준선을 덮어쓰지 않도록 false)
+// mock 응답은 실제 모델 응답이 아니므로 저장하지 않음
+export async function runEvalCall(mode: EvalLlmMode, call: EvalCall, save = true): Promise<string> {
+  const url = recordingUrl(call);
+  if (mode === "mock") return mockComplete(call.messages);
+
+  if (mode === "replay") {
+    try {
+      return await Deno.readTextFile(url);
+    } catch {
+      throw new Error(`Recording not found: ${url.pathname} (먼저 --llm record 로 녹화하세요)`);
+    }
+  }
+
+  const { content, model } = await completeChat({ task: call.task, messages: call.messages });
+  if (save) {
+    await saveRecording(url, content);
+    console.log(`  recorded ${call.recordingId} / ${call.sampleId} (${model}, ${content.length}자)`);
+  }
+  return content;
+}
@@ -0,0 +1,286 @@
+// 프롬프트 A/B 평가 하네스 (오프라인)
+// 고정 샘플 아이디어(samples.ts)를 같은 프롬프트의 두 버전으로 작성시키고 rules.ts 규칙으로 채점해
+// B 버전이 A보다 나빠진 규칙이 있으면 종료 코드 1로 실패합니다.
+//
+// 사용법 (저장소 루트에서)
+//   deno run -A supabase/eval/promptEval.ts --list
+//   deno run -A supabase/eval/promptEval.ts plan/early-startup [--a 1] [--b 2] [--llm mock|record|replay]
+//       [--grant EARLY_STARTUP] [--samples smart-farm,edu-tutor] [--tolerance 0.02]
+//   deno run -A supabase/eval/promptEval.ts example/relaxed-rules   (회귀로 실패하는 비교 예시, examples.ts)
+//
+// --b 기본값은 current 버전, --a 기본값은 versions 목록에서 그 앞 버전입니다.
+// 앞 버전이 없으면 --a 로 비교할 버전을 지정하거나 --llm record 로 녹화 기준선과 비교합니다.
+//   녹화 기준선이 없으면 B를 녹화해 기준선으로 저장하고 비교 없이 끝남
+//   있으면 A는 그 녹화를 다시 채점하고, B는 새로 호출하되 기준선을 덮어쓰지 않음
+//   (mock·replay는 같은 프롬프트의 같은 응답끼리 비교하게 되므로 기준선 비교에 쓰지 않음)
+//   기준선을 다시 만들려면 recordings/<녹화 id>/ 를 지우고 다시 실행
+// --grant 는 chat/system 평가에 쓸 지원사업 (2-3 집행계획 표와 채팅 지시가 달라짐)
+// LLM 모드는 llm.ts 참고. 업로드 템플릿(chat/custom-template)과 구조화 작성(chat/structured-plan)은
+// 출력 형식이 달라 대상이 아닙니다.
+
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import {
+  GRANT_PROGRAMS,
+  type GrantProgramPrompts,
+  fillPlanUserPrompt,
+  getGrantProgram,
+} from "../functions/_shared/grantPrograms.ts";
+import type { LlmMessage, LlmTask } from "../functions/_shared/llm.ts";
+import { withChatInstruction } from "../functions/_shared/prompts/chatInstructions.ts";
+import {
+  CHAT_SYSTEM_PROMPT,
+  buildChatSystemPrompt,
+} from "../functions/_shared/prompts/chatSystemPrompt.ts";
+import {
+  type PlanPrompt,
+  type VersionedPrompt,
+  combineVersionIds,
+  resolvePrompt,
+} from "../functions/_shared/prompts/versions.ts";
+import { EXAMPLE_RELAXED_RULES } from "./examples.ts";
+import { EVAL_LLM_MODES, type EvalLlmMode, hasRecording, runEvalCall } from "./llm.ts";
+import { RULE_IDS, type RuleId, type RuleResult, ruleScore, scoreDocument } from "./rules.ts";
+import { EVAL_SAMPLES, type EvalSample, buildChatRequest } from "./samples.ts";
+
+interface EvalRequest {
+  // 녹화 id (이 요청을 만든 프롬프트 버전 id들, 지원사업이 달라지면 #grantType 포함)
+  recordingId: string;
+  messages: LlmMessage[];
+}
+
+interface EvalTarget {
+  prompt: VersionedPrompt<unknown>;
+  task: LlmTask;
+  build(version: string, sample: EvalSample, grantType: string): EvalRequest;
+}
+
+const programList = Object.values(GRANT_PROGRAMS) as GrantProgramPrompts[];
+
+// chat 태그 방식 요청 (시스템 프롬프트 + 지원사업별 지시를 붙인 사용자 메시지)
+function buildChatRequestMessages(
+  program: GrantProgramPrompts,
+  systemVersion: string | undefined,
+  instructionVersion: string | undefined,
+  sample: EvalSample,
+): EvalRequest {
+  const system = buildChatSystemPrompt(program.id, null, systemVersion);
+  const instruction = resolvePrompt(program.chatInstruction, instructionVersion);
+  return {
+    recordingId: `${combineVersionIds(system.versionId, instruction.versionId)}#${program.id}`,
+    messages: [
+      { role: "system", content: system.prompt },
+      ...withChatInstruction([{ role: "user" as const, content: buildChatRequest(sample) }], instruction.prompt),
+    ],
+  };
+}
+
+// generate-plan 요청 (시스템 프롬프트 + 입력값을 채운 사용자 프롬프트)
+function planTarget(planPrompt: VersionedPrompt<PlanPrompt>): EvalTarget {
+  return {
+    prompt: planPrompt,
+    task: "plan",
+    build(version, sample) {
+      const { versionId, prompt } = resolvePrompt(planPrompt, version);
+      return {
+        recordingId: versionId,
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: fillPlanUserPrompt(prompt.userTemplate, sample) },
+        ],
+      };
+    },
+  };
+}
+
+function buildTargets(): Map<string, EvalTarget> {
+  const targets = new Map<string, EvalTarget>();
+
+  for (const program of programList) {
+    targets.set(program.planPrompt.id, planTarget(program.planPrompt));
+
+    // 같은 지시를 쓰는 지원사업이 여럿이면 먼저 등록된 지원사업으로 평가
+    if (!targets.has(program.chatInstruction.id)) {
+      targets.set(program.chatInstruction.id, {
+        prompt: program.chatInstruction,
+        task: "chat",
+        build: (version, sample) => buildChatRequestMessages(program, undefined, version, sample),
+      });
+    }
+  }
+
+  targets.set(CHAT_SYSTEM_PROMPT.id, {
+    prompt: CHAT_SYSTEM_PROMPT,
+    task: "chat",
+    build(version, sample, grantType) {
+      const program = getGrantProgram(grantType) ?? GRANT_PROGRAMS.EARLY_STARTUP;
+      return buildChatRequestMessages(program, version, undefined, sample);
+    },
+  });
+
+  targets.set(EXAMPLE_RELAXED_RULES.id, planTarget(EXAMPLE_RELAXED_RULES));
+
+  return targets;
+}
+
+interface VariantReport {
+  label: string;
+  scores: Record<RuleId, number>;
+  results: { sampleId: string; rules: RuleResult[] }[];
+}
+
+async function runVariant(
+  target: EvalTarget,
+  version: string,
+  samples: EvalSample[],
+  grantType: string,
+  mode: EvalLlmMode,
+  save = true,
+): Promise<VariantReport> {
+  const results: VariantReport["results"] = [];
+  for (const sample of samples) {
+    const { recordingId, messages } = target.build(version, sample, grantType);
+    const output = await runEvalCall(
+      mode,
+      { recordingId, sampleId: sample.id, task: target.task, messages },
+      save,
+    );
+    results.push({ sampleId: sample.id, rules: scoreDocument(output) });
+  }
+
+  const scores = Object.fromEntries(
+    RULE_IDS.map((rule) => {
+      const perSample = results.map(({ rules }) => ruleScore(rules.find((r) => r.rule === rule)!));
+      return [rule, perSample.reduce((sum, score) => sum + score, 0) / perSample.length];
+    }),
+  ) as Record<RuleId, number>;
+
+  const label = `${target.prompt.id}@${version}${mode === "replay" ? " (녹화)" : ""}`;
+  return { label, scores, results };
+}
+
+const formatScore = (score: number) => score.toFixed(3);
+
+function printComparison(a: VariantReport, b: VariantReport, tolerance: number): RuleId[] {
+  const regressed: RuleId[] = [];
+  console.log(`\n${"rule".padEnd(16)}${"A".padStart(8)}${"B".padStart(8)}${"Δ".padStart(9)}`);
+  for (const rule of RULE_IDS) {
+    const delta = b.scores[rule] - a.scores[rule];
+    const failed = delta < -tolerance;
+    if (failed) regressed.push(rule);
+    const signedDelta = `${delta >= 0 ? "+" : ""}${formatScore(delta)}`;
+    console.log(
+      rule.padEnd(16) +
+        formatScore(a.scores[rule]).padStart(8) +
+        formatScore(b.scores[rule]).padStart(8) +
+        signedDelta.padStart(9) +
+        (failed ? "  ✗ 회귀" : ""),
+    );
+  }
+
+  // 회귀한 규칙은 B의 위반 사례를 몇 개 보여 줌
+  for (const rule of regressed) {
+    console.log(`\n[${rule}] B 위반 사례`);
+    for (const { sampleId, rules } of b.results) {
+      const violations = rules.find((r) => r.rule === rule)!.violations;
+      for (const violation of violations.slice(0, 3)) console.log(`  ${sampleId}: ${violation}`);
+    }
+  }
+  return regressed;
+}
+
+// 샘플마다 이 버전의 녹화가 있는지
+async function hasBaseline(
+  target: EvalTarget,
+  version: string,
+  samples: EvalSample[],
+  grantType: string,
+): Promise<boolean> {
+  for (const sample of samples) {
+    const { recordingId } = target.build(version, sample, grantType);
+    if (!(await hasRecording({ recordingId, sampleId: sample.id }))) return false;
+  }
+  return true;
+}
+
+function listTargets(targets: Map<string, EvalTarget>) {
+  for (const [id, target] of targets) {
+    const versions = target.prompt.versions.map((entry) => entry.version).join(", ");
+    console.log(`${id.padEnd(34)} current ${target.prompt.current}  (versions: ${versions})`);
+  }
+}
+
+function usageError(message: string): never {
+  console.error(message);
+  Deno.exit(2);
+}
+
+async function main() {
+  const args = parse(Deno.args, {
+    string: ["a", "b", "llm", "grant", "samples", "tolerance"],
+    boolean: ["list"],
+    default: { llm: "mock", grant: "EARLY_STARTUP", tolerance: "0" },
+  });
+  const targets = buildTargets();
+
+  if (args.list) {
+    listTargets(targets);
+    return;
+  }
+
+  const promptId = String(args._[0] ?? "");
+  const target = targets.get(promptId);
+  if (!target) {
+    console.error(`평가할 프롬프트 id를 지정하세요: ${promptId || "(없음)"}\n`);
+    listTargets(targets);
+    Deno.exit(2);
+  }
+
+  const mode = args.llm as EvalLlmMode;
+  if (!EVAL_LLM_MODES.includes(mode)) usageError(`--llm 은 ${EVAL_LLM_MODES.join(", ")} 중 하나`);
+  if (!getGrantProgram(args.grant)) usageError(`등록되지 않은 --grant: ${args.grant}`);
+  const tolerance = Number(args.tolerance);
+  if (!Number.isFinite(tolerance) || tolerance < 0) usageError("--tolerance 는 0 이상의 숫자");
+
+  const versions = target.prompt.versions.map((entry) => entry.version);
+  const versionB = args.b ?? target.prompt.current;
+  // 앞 버전이 없으면 같은 버전의 녹화를 기준선으로 비교
+  const previous = versions[versions.indexOf(versionB) - 1];
+  const againstBaseline = !args.a && !previous;
+  if (againstBaseline && mode !== "record") {
+    usageError(
+      `${promptId}@${versionB} 앞 버전이 없습니다. --a 로 비교할 버전을 지정하거나 --llm record 로 녹화 기준선과 비교하세요`,
+    );
+  }
+  const versionA = args.a ?? previous ?? versionB;
+  for (const version of [versionA, versionB]) {
+    if (!versions.includes(version)) usageError(`등록되지 않은 버전: ${promptId}@${version}`);
+  }
+
+  const sampleIds = args.samples?.split(",").map((id) => id.trim());
+  const samples = sampleIds ? EVAL_SAMPLES.filter((sample) => sampleIds.includes(sample.id)) : EVAL_SAMPLES;
+  if (samples.length === 0) usageError(`샘플 없음: ${args.samples}`);
+
+  const grantNote = promptId === CHAT_SYSTEM_PROMPT.id ? `, 지원사업 ${args.grant}` : "";
+  if (againstBaseline && !(await hasBaseline(target, versionB, samples, args.grant))) {
+    console.log(`${promptId}@${versionB}: 녹화 기준선이 없어 B를 녹화합니다 (샘플 ${samples.length}개${grantNote})`);
+    await runVariant(target, versionB, samples, args.grant, mode);
+    console.log(`\n기준선 녹화 완료 - 다음 실행부터 이 녹화와 비교`);
+    return;
+  }
+
+  const baselineNote = againstBaseline ? " 녹화 기준선" : "";
+  console.log(
+    `${promptId}: A=${versionA}${baselineNote} B=${versionB} (llm: ${mode}, 샘플 ${samples.length}개${grantNote})`,
+  );
+  const a = await runVariant(target, versionA, samples, args.grant, againstBaseline ? "replay" : mode);
+  const b = await runVariant(target, versionB, samples, args.grant, mode, !againstBaseline);
+
+  const regressed = printComparison(a, b, tolerance);
+  if (regressed.length > 0) {
+    console.error(`\n${b.label} 가 ${a.label} 보다 나빠짐: ${regressed.join(", ")}`);
+    Deno.exit(1);
+  }
+  console.log(`\n회귀 없음 (${b.label} vs ${a.label})`);
+}
+
+await main();
@@ -0,0 +1,160 @@
+// 사업계획서 출력 규칙 채점
+// 모든 프롬프트가 요구하는 공통 규칙만 봅니다.
+//   nounEnding    줄글 문장이 명사형 종결어미(~함, ~임, ~됨, ~음 등 받침 ㅁ)로 끝나는지
+//   sectionLength 표가 없는 줄글 목차의 본문이 MIN_SECTION_CHARS자 이상인지
+//   tableColumns  마크다운 표의 모든 행이 헤더와 같은 열 수인지 (구분선 포함)
+//   noBullets     줄글에 불렛(•, -, *)이나 번호 매기기(1.)가 없는지
+
+export const MIN_SECTION_CHARS = 350;
+
+export type RuleId = "nounEnding" | "sectionLength" | "tableColumns" | "noBullets";
+
+export const RULE_IDS: RuleId[] = ["nounEnding", "sectionLength", "tableColumns", "noBullets"];
+
+export interface RuleResult {
+  rule: RuleId;
+  checked: number;
+  passed: number;
+  violations: string[];
+}
+
+interface Section {
+  heading: string;
+  prose: string[];
+  tables: string[][];
+}
+
+// 검사 대상이 없으면 만점
+export const ruleScore = (result: RuleResult) =>
+  result.checked === 0 ? 1 : result.passed / result.checked;
+
+// chat 응답은 [DOCUMENT] 안쪽만 채점
+export function extractDocument(output: string): string {
+  const match = output.match(/\[DOCUMENT\]([\s\S]*?)(?:\[\/DOCUMENT\]|$)/);
+  return match ? match[1] : output;
+}
+
+// **<1단계 ...>** 처럼 굵은 글씨만 있는 줄은 표 제목으로 보고 줄글에서 제외
+const isLabelLine = (line: string) => /^\*\*[^*]+\*\*:?$/.test(line) || /^-{3,}$/.test(line);
+
+function splitSections(markdown: string): Section[] {
+  const lines = markdown
+    .replace(/<table[\s\S]*?<\/table>/g, "")
+    .replace(/<[^>]+>/g, "")
+    .split("\n")
+    .map((line) => line.trim());
+
+  const sections: Section[] = [{ heading: "(서두)", prose: [], tables: [] }];
+  let table: string[] | null = null;
+  for (const line of lines) {
+    const current = sections[sections.length - 1];
+    if (line.startsWith("|")) {
+      if (!table) {
+        table = [];
+        current.tables.push(table);
+      }
+      table.push(line);
+      continue;
+    }
+    table = null;
+    if (/^#{1,6}\s/.test(line)) {
+      sections.push({ heading: line.replace(/^#+\s*/, ""), prose: [], tables: [] });
+    } else if (line && !isLabelLine(line)) {
+      current.prose.push(line);
+    }
+  }
+  return sections.filter((section) => section.prose.length > 0 || section.tables.length > 0);
+}
+
+const short = (text: string) => (text.length > 40 ? `${text.slice(0, 40)}…` : text);
+
+// 마지막 글자의 받침이 ㅁ이면 명사형 (함, 임, 됨, 음, 짐 ...)
+function endsWithNounForm(sentence: string): boolean {
+  let text = sentence.replace(/[\s.!?…"'”’*~]+$/, "");
+  while (/\s*\([^()]*\)$/.test(text)) {
+    text = text.replace(/\s*\([^()]*\)$/, "").replace(/[\s.!?…"'”’*~]+$/, "");
+  }
+  const code = text.charCodeAt(text.length - 1);
+  if (code < 0xac00 || code > 0xd7a3) return false;
+  return (code - 0xac00) % 28 === 16;
+}
+
+const splitSentences = (line: string) =>
+  line
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[가-힣]/.test(sentence) && !sentence.endsWith(":"));
+
+const countCells = (row: string) => row.replace(/^\|/, "").replace(/\|$/, "").split("|").length;
+
+const isSeparatorRow = (row: string) =>
+  row
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .every((cell) => /^\s*:?-{3,}:?\s*$/.test(cell));
+
+function checkNounEnding(sections: Section[]): RuleResult {
+  const result: RuleResult = { rule: "nounEnding", checked: 0, passed: 0, violations: [] };
+  for (const section of sections) {
+    for (const sentence of section.prose.flatMap(splitSentences)) {
+      result.checked++;
+      if (endsWithNounForm(sentence)) result.passed++;
+      else result.violations.push(`${section.heading}: "…${sentence.slice(-30)}"`);
+    }
+  }
+  return result;
+}
+
+function checkSectionLength(sections: Section[]): RuleResult {
+  const result: RuleResult = { rule: "sectionLength", checked: 0, passed: 0, violations: [] };
+  for (const section of sections.slice(1)) {
+    if (section.tables.length > 0 || section.prose.length === 0) continue;
+    const length = section.prose.join(" ").replace(/\s+/g, " ").length;
+    result.checked++;
+    if (length >= MIN_SECTION_CHARS) result.passed++;
+    else result.violations.push(`${section.heading}: ${length}자`);
+  }
+  return result;
+}
+
+function checkTableColumns(sections: Section[]): RuleResult {
+  const result: RuleResult = { rule: "tableColumns", checked: 0, passed: 0, violations: [] };
+  for (const section of sections) {
+    for (const table of section.tables) {
+      result.checked++;
+      const columns = countCells(table[0]);
+      const problems: string[] = [];
+      if (table.length < 2 || !isSeparatorRow(table[1])) problems.push("구분선 없음");
+      table.forEach((row, index) => {
+        const cells = countCells(row);
+        if (cells !== columns) problems.push(`${index + 1}행 ${cells}열`);
+      });
+      if (problems.length === 0) result.passed++;
+      else result.violations.push(`${section.heading}: 헤더 ${columns}열, ${problems.join(", ")}`);
+    }
+  }
+  return result;
+}
+
+function checkNoBullets(sections: Section[]): RuleResult {
+  const result: RuleResult = { rule: "noBullets", checked: 0, passed: 0, violations: [] };
+  for (const section of sections) {
+    for (const line of section.prose) {
+      result.checked++;
+      if (!/^([-*+•·▪◦]|\d+[.)])\s+/.test(line)) result.passed++;
+      else result.violations.push(`${section.heading}: "${short(line)}"`);
+    }
+  }
+  return result;
+}
+
+export function scoreDocument(output: string): RuleResult[] {
+  const sections = splitSections(extractDocument(output));
+  return [
+    checkNounEnding(sections),
+    checkSectionLength(sections),
+    checkTableColumns(sections),
+    checkNoBullets(sections),
+  ];
+}
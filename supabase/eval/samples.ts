@@ -0,0 +1,61 @@
+// 프롬프트 평가용 고정 사업 아이디어
+// 녹화(recordings/)가 샘플 id로 저장되므로 기존 샘플의 내용을 바꾸면 다시 녹화해야 합니다.
+
+import type { PlanInput } from "../functions/_shared/grantPrograms.ts";
+
+export interface EvalSample extends Required<PlanInput> {
+  id: string;
+}
+
+export const EVAL_SAMPLES: EvalSample[] = [
+  {
+    id: "smart-farm",
+    businessIdea: "AI 기반 소규모 스마트팜 생육 관리 서비스",
+    problemDescription: "소규모 농가는 온습도·양액 관리를 경험에 의존해 수확량 편차가 크고 병해 대응이 늦음",
+    targetCustomer: "시설원예 면적 1,000평 이하의 소규모 농가",
+    solution: "저가 센서 키트와 생육 예측 모델로 관수·환기 시점을 알려 주는 구독형 앱",
+    teamInfo: "대표: 농업공학 석사, 스마트팜 장비 영업 5년 / CTO: 임베디드 개발 7년",
+  },
+  {
+    id: "senior-care",
+    businessIdea: "독거 어르신 생활 패턴 감지 돌봄 플랫폼",
+    problemDescription: "독거 어르신의 이상 징후를 보호자와 지자체가 제때 알기 어려움",
+    targetCustomer: "독거 노인 가구의 자녀 보호자, 지자체 돌봄 담당 부서",
+    solution: "전력·문 열림 센서 데이터로 평소 생활 패턴을 학습해 이상 시 알림을 보내는 서비스",
+    teamInfo: "대표: 사회복지사 8년 / 팀원: 데이터 분석가 4년, 하드웨어 엔지니어 6년",
+  },
+  {
+    id: "edu-tutor",
+    businessIdea: "중학생 수학 오답 분석 AI 튜터",
+    problemDescription: "학생별 취약 개념을 파악하지 못한 채 문제 풀이량만 늘리는 학습이 반복됨",
+    targetCustomer: "중학생 자녀를 둔 학부모, 소규모 수학 학원",
+    solution: "풀이 과정 사진을 분석해 오답 원인 개념을 찾고 맞춤 문제를 추천하는 앱",
+    teamInfo: "대표: 수학 강사 10년 / CTO: 컴퓨터비전 석사, 스타트업 개발 3년",
+  },
+  {
+    id: "upcycle-fashion",
+    businessIdea: "폐현수막 업사이클링 패션 잡화 브랜드",
+    problemDescription: "선거·행사 후 버려지는 현수막이 대부분 소각되어 환경 부담이 큼",
+    targetCustomer: "친환경 소비를 선호하는 20-30대, ESG 굿즈가 필요한 기업",
+    solution: "지자체와 폐현수막 수거 협약을 맺고 세척·재단 공정을 표준화해 가방과 파우치를 생산",
+    teamInfo: "대표: 패션디자인 전공, 잡화 MD 4년 / 팀원: 생산관리 6년",
+  },
+  {
+    id: "b2b-logistics",
+    businessIdea: "중소 제조사용 출고 물류 자동 배차 SaaS",
+    problemDescription: "중소 제조사는 전화와 엑셀로 화물차를 배차해 공차율과 배송 지연이 높음",
+    targetCustomer: "일 출고 20건 이상인 중소 제조·유통 기업",
+    solution: "주문 데이터를 연동해 최적 경로와 차량을 자동 배정하고 운송사와 실시간 공유",
+    teamInfo: "대표: 물류 컨설팅 9년 / CTO: 경로 최적화 알고리즘 박사",
+  },
+];
+
+// chat 요청용 사용자 메시지 (화면에서 사용자가 입력하는 첫 요청과 같은 형태)
+export function buildChatRequest(sample: EvalSample): string {
+  return `다음 사업 아이디어로 사업계획서를 작성해주세요.
+아이템: ${sample.businessIdea}
+문제: ${sample.problemDescription}
+타겟: ${sample.targetCustomer}
+솔루션: ${sample.solution}
+팀: ${sample.teamInfo}`;
+}
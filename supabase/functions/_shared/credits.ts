@@ -0,0 +1,142 @@
+// 크레딧 차감/지급 (AI 호출 전 서버에서 강제)
+// public.consume_credits / grant_credits 가 profiles 행을 잠근 상태로 잔액 변경과
+// credit_transactions 원장 기록을 한 번에 처리합니다.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const INSUFFICIENT_CREDITS = "INSUFFICIENT_CREDITS";
+
+export class InsufficientCreditsError extends Error {
+  readonly code = INSUFFICIENT_CREDITS;
+
+  constructor(
+    readonly remainingCredits: number,
+    readonly requiredCredits: number,
+  ) {
+    super("크레딧이 부족합니다.");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+export interface DeductCreditOptions {
+  amount?: number;
+  reason?: string;
+  functionName?: string; // 차감을 발생시킨 Edge Function 이름
+  documentId?: string | null;
+}
+
+// 잔액이 부족하면 InsufficientCreditsError를 던짐
+export async function deductCredit(
+  userId: string,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  options: DeductCreditOptions = {},
+): Promise<{ remainingCredits: number }> {
+  const { amount = 1, reason = "AI 생성", functionName, documentId } = options;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data, error } = await supabase.rpc("consume_credits", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_reason: reason,
+    p_function_name: functionName ?? null,
+    p_document_id: documentId ?? null,
+  });
+  if (error) throw new Error(`Credit deduction failed: ${error.message}`);
+
+  const result = Array.isArray(data) ? data[0] : data;
+  const remainingCredits = result?.remaining_credits ?? 0;
+  if (!result?.success) {
+    throw new InsufficientCreditsError(remainingCredits, amount);
+  }
+  return { remainingCredits };
+}
+
+export interface GrantCreditsParams {
+  userId: string;
+  amount: number;
+  reason: string;
+  type?: "grant" | "refund";
+  replace?: boolean; // true면 기존 잔액을 소멸(expiry) 처리한 뒤 지급 (플랜 구매)
+  paymentId?: string | null; // payments.imp_uid
+  functionName?: string;
+  documentId?: string | null;
+}
+
+// 크레딧 지급/환불 (service role 클라이언트 필요), 변경 후 잔액 반환
+export async function grantCredits(
+  supabaseAdmin: SupabaseClient,
+  params: GrantCreditsParams,
+): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("grant_credits", {
+    p_user_id: params.userId,
+    p_amount: params.amount,
+    p_reason: params.reason,
+    p_type: params.type ?? "grant",
+    p_replace: params.replace ?? false,
+    p_payment_id: params.paymentId ?? null,
+    p_function_name: params.functionName ?? null,
+    p_document_id: params.documentId ?? null,
+  });
+  if (error) throw new Error(`Credit grant failed: ${error.message}`);
+  return data as number;
+}
+
+export interface CreditCharge {
+  userId: string | null;
+  documentId?: string | null;
+  reason: string; // 환불 사유
+  functionName: string;
+}
+
+// AI 호출 전에 차감한 크레딧 1개를 환불
+// 게스트 체험(userId 없음)은 차감하지 않았으므로 생략, 환불 실패는 로그만 남김
+export async function refundCredit(
+  supabaseAdmin: SupabaseClient,
+  charge: CreditCharge,
+): Promise<void> {
+  if (!charge.userId) return;
+  await grantCredits(supabaseAdmin, {
+    userId: charge.userId,
+    amount: 1,
+    reason: charge.reason,
+    type: "refund",
+    functionName: charge.functionName,
+    documentId: charge.documentId,
+  }).catch((refundError) =>
+    console.error(`[${charge.functionName}] Credit refund failed:`, refundError)
+  );
+}
+
+// 생성이 실패하면(오류 응답·예외) 차감한 크레딧 환불
+export async function refundOnFailure(
+  supabaseAdmin: SupabaseClient,
+  charge: CreditCharge,
+  run: () => Promise<Response>,
+): Promise<Response> {
+  let response: Response | null = null;
+  try {
+    response = await run();
+    return response;
+  } finally {
+    if (!response?.ok) await refundCredit(supabaseAdmin, charge);
+  }
+}
+
+// 402 Payment Required 응답 (클라이언트는 error 코드로 구독 유도 UI 표시)
+export function insufficientCreditsResponse(
+  error: InsufficientCreditsError,
+  headers: Record<string, string>,
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: error.code,
+      message: error.message,
+      remainingCredits: error.remainingCredits,
+      requiredCredits: error.requiredCredits,
+    }),
+    {
+      status: 402,
+      headers: { ...headers, "Content-Type": "application/json" },
+    },
+  );
+}
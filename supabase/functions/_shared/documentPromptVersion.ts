@@ -0,0 +1,26 @@
+// 생성에 사용한 프롬프트 버전을 문서에 기록 (documents.prompt_version)
+// 버전 id는 _shared/prompts/versions.ts 참고
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// 기록 실패는 생성 자체를 막지 않도록 로그만 남김
+export async function recordDocumentPromptVersion(
+  supabaseAdmin: SupabaseClient,
+  params: { documentId: string | null | undefined; userId: string | null; promptVersion: string },
+): Promise<void> {
+  const { documentId, userId, promptVersion } = params;
+  console.log(`[prompt-version] ${documentId ?? "(no document)"}: ${promptVersion}`);
+  // 게스트 문서는 DB에 없음
+  if (!documentId || !userId) return;
+
+  const { data, error } = await supabaseAdmin.rpc("record_document_prompt_version", {
+    p_document_id: documentId,
+    p_user_id: userId,
+    p_prompt_version: promptVersion,
+  });
+  if (error) {
+    console.error(`[prompt-version] ${documentId}: record failed:`, error.message);
+  } else if (!data) {
+    console.warn(`[prompt-version] ${documentId}: document not found or not accessible`);
+  }
+}
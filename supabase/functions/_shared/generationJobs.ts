@@ -0,0 +1,391 @@
+// 생성 작업(generation_jobs) 기록 - 스트리밍 이어 받기 / 중단
+// chat 스트림을 클라이언트에 중계하면서 받은 내용을 주기적으로 저장합니다.
+// 연결이 끊겨도 업스트림은 끝까지 읽어 저장하므로 클라이언트는 generation-job 함수로
+// 글자 수(offset)부터 이어 받을 수 있습니다. 중단 요청은 작업 상태를 cancelled로 바꾸고,
+// 중계 루프가 다음 저장 시점에 이를 보고 업스트림 요청을 끊습니다.
+// 스트리밍이 없는 구조화 작성(kind: plan)도 같은 방식으로 실행하고, 완성된 JSON을 저장합니다.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// 받은 내용을 저장하는 간격 (중단 요청도 이 간격으로 감지)
+export const JOB_FLUSH_INTERVAL_MS = 1_000;
+// running 상태인데 이 시간 동안 저장이 없으면 중계가 죽은 것으로 보고 실패 처리
+export const JOB_STALE_MS = 90_000;
+// 결과를 기다리는 동안 응답이 유휴 상태로 끊기지 않도록 보내는 주석 간격
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// 사업계획서 한 편의 대략적인 분량 - 중단하면 이 분량 대비 작성된 비율만큼만 차감
+export const FULL_GENERATION_CHARS = 20_000;
+
+export type GenerationJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+// chat: [DOCUMENT]/[CHAT] 태그 스트림, plan: 스키마 검증을 통과한 구조화 작성 JSON
+export type GenerationJobKind = "chat" | "plan";
+
+export interface GenerationJob {
+  id: string;
+  user_id: string | null;
+  document_id: string | null;
+  status: GenerationJobStatus;
+  kind: GenerationJobKind;
+  content: string;
+  credits_charged: number;
+  credits_refunded: number;
+  updated_at: string;
+}
+
+export interface CreateGenerationJobParams {
+  userId: string | null;
+  documentId?: string | null;
+  functionName: string;
+  kind?: GenerationJobKind;
+  creditsCharged: number;
+}
+
+export async function createGenerationJob(
+  supabaseAdmin: SupabaseClient,
+  params: CreateGenerationJobParams,
+): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from("generation_jobs")
+    .insert({
+      user_id: params.userId,
+      document_id: params.documentId ?? null,
+      function_name: params.functionName,
+      kind: params.kind ?? "chat",
+      credits_charged: params.creditsCharged,
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Generation job creation failed: ${error.message}`);
+  return data.id as string;
+}
+
+export async function getGenerationJob(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+): Promise<GenerationJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from("generation_jobs")
+    .select("id, user_id, document_id, status, kind, content, credits_charged, credits_refunded, updated_at")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) throw new Error(`Generation job lookup failed: ${error.message}`);
+  return data as GenerationJob | null;
+}
+
+// running 작업을 최종 상태로 한 번만 바꾸고 refund만큼 환불 (public.finish_generation_job)
+// 이미 끝난 작업이면 기존 상태와 환불 0을 반환
+export async function finishGenerationJob(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+  status: Exclude<GenerationJobStatus, "running">,
+  options: { error?: string; refund?: number } = {},
+): Promise<{ status: GenerationJobStatus; refundedCredits: number }> {
+  const { data, error } = await supabaseAdmin.rpc("finish_generation_job", {
+    p_job_id: jobId,
+    p_status: status,
+    p_error: options.error?.slice(0, 1000) ?? null,
+    p_refund: options.refund ?? 0,
+  });
+  if (error) throw new Error(`Generation job finish failed: ${error.message}`);
+
+  const result = Array.isArray(data) ? data[0] : data;
+  return {
+    status: (result?.job_status ?? status) as GenerationJobStatus,
+    refundedCredits: result?.refunded_credits ?? 0,
+  };
+}
+
+// 사용자 중단: 작성된 분량 비율만큼 부분 차감하고 나머지 환불 (0.01 크레딧 단위)
+// 결과를 한 번에 저장하는 구조화 작성은 완성 전 중단이면 내용이 없으므로 전액 환불
+export function cancelRefund(job: Pick<GenerationJob, "content" | "credits_charged">): number {
+  const usedRatio = Math.min(job.content.length / FULL_GENERATION_CHARS, 1);
+  return Math.round(job.credits_charged * (1 - usedRatio) * 100) / 100;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isStale = (job: Pick<GenerationJob, "status" | "updated_at">) =>
+  job.status === "running" && Date.now() - new Date(job.updated_at).getTime() > JOB_STALE_MS;
+
+// ============= SSE =============
+
+const encoder = new TextEncoder();
+
+// 클라이언트는 업스트림과 같은 OpenAI 형식의 delta 이벤트를 받음
+export const sseDelta = (content: string) =>
+  encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+
+export const sseEvent = (payload: Record<string, unknown>) =>
+  encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+export const sseDone = () => encoder.encode("data: [DONE]\n\n");
+
+// 연결 유지용 SSE 주석 (클라이언트는 ":"로 시작하는 줄을 무시)
+const sseKeepAlive = () => encoder.encode(": keepalive\n\n");
+
+// 응답을 돌려준 뒤에도 작업이 끝날 때까지 isolate를 유지 (Supabase Edge Runtime)
+export function keepAlive(promise: Promise<unknown>): void {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(p: Promise<unknown>): void } })
+    .EdgeRuntime;
+  runtime?.waitUntil(promise);
+}
+
+// ============= 중계 =============
+
+// 클라이언트로 보내는 응답 스트림
+// 쓰기를 기다리지 않음: 느리거나 끊긴 클라이언트가 업스트림 읽기와 저장을 막지 않도록
+// (대기열은 문서 한 편 분량을 넘지 않음)
+function openClientStream(jobId: string) {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  let connected = true;
+
+  const send = (chunk: Uint8Array) => {
+    if (!connected) return;
+    writer.write(chunk).catch(() => {
+      if (!connected) return;
+      connected = false;
+      console.log(`[generation-job] ${jobId}: client disconnected, continuing in background`);
+    });
+  };
+  const close = () => {
+    if (connected) writer.close().catch(() => {});
+  };
+  return { readable, send, close };
+}
+
+export interface RelayOptions {
+  jobId: string;
+  creditsCharged: number;
+  upstream: ReadableStream<Uint8Array>;
+  // 중단 요청을 감지하면 abort (업스트림 fetch에 연결된 컨트롤러)
+  upstreamController: AbortController;
+}
+
+// 업스트림 SSE를 클라이언트에 중계하면서 작업 기록에 저장
+// 클라이언트 연결이 끊겨도 업스트림은 끝까지 읽어 저장함
+export function relayGenerationStream(
+  supabaseAdmin: SupabaseClient,
+  options: RelayOptions,
+): ReadableStream<Uint8Array> {
+  const { jobId, creditsCharged, upstream, upstreamController } = options;
+  const { readable, send, close } = openClientStream(jobId);
+
+  let content = "";
+  let persistedLength = 0;
+
+  // 받은 내용 저장, 작업이 더 이상 running이 아니면(중단됨) false
+  // 새 내용이 없어도 updated_at은 갱신 (모델이 오래 멈춰 있어도 isStale로 실패 처리되지 않도록)
+  const persist = async (): Promise<boolean> => {
+    if (content.length === persistedLength) return touchRunningJob(supabaseAdmin, jobId);
+    const { data, error } = await supabaseAdmin
+      .from("generation_jobs")
+      .update({ content, updated_at: new Date().toISOString() })
+      .eq("id", jobId)
+      .eq("status", "running")
+      .select("id");
+    if (error) {
+      console.error(`[generation-job] ${jobId}: persist failed:`, error.message);
+      return true;
+    }
+    persistedLength = content.length;
+    return data.length > 0;
+  };
+
+  const pump = async () => {
+    send(sseEvent({ job: { id: jobId, status: "running", kind: "chat" } }));
+
+    const reader = upstream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let lastPersist = Date.now();
+    let cancelled = false;
+    // 청크를 기다리는 동안에도 저장 간격마다 깨어나 하트비트·중단 확인
+    let pendingRead: Promise<ReadableStreamReadResult<Uint8Array>> | null = null;
+
+    try {
+      while (!cancelled) {
+        if (!pendingRead) {
+          pendingRead = reader.read();
+          // 중단으로 끝나는 읽기는 기다리지 않음
+          pendingRead.catch(() => {});
+        }
+        const next = await Promise.race([pendingRead, sleep(JOB_FLUSH_INTERVAL_MS).then(() => null)]);
+        if (next) {
+          pendingRead = null;
+          if (next.done) break;
+          buffer += decoder.decode(next.value, { stream: true });
+        }
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+          buffer = buffer.slice(newlineIndex + 1);
+          if (!line.startsWith("data: ")) continue;
+
+          const json = line.slice(6).trim();
+          if (json === "[DONE]") continue;
+          let parsed;
+          try {
+            parsed = JSON.parse(json);
+          } catch {
+            continue;
+          }
+          if (parsed.error) {
+            throw new Error(parsed.error.message || JSON.stringify(parsed.error).slice(0, 500));
+          }
+          const delta = parsed.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            send(sseDelta(delta));
+          }
+        }
+
+        if (Date.now() - lastPersist >= JOB_FLUSH_INTERVAL_MS) {
+          lastPersist = Date.now();
+          cancelled = !(await persist());
+        }
+      }
+
+      if (cancelled) {
+        // 중단 요청 쪽(generation-job)에서 상태 변경과 환불을 이미 처리함
+        console.log(`[generation-job] ${jobId}: cancelled, aborting upstream at ${content.length} chars`);
+        upstreamController.abort();
+        send(sseEvent({ job: { id: jobId, status: "cancelled" } }));
+        return;
+      }
+
+      await persist();
+      const { status } = await finishGenerationJob(supabaseAdmin, jobId, "completed");
+      if (status === "cancelled") {
+        send(sseEvent({ job: { id: jobId, status } }));
+        return;
+      }
+      console.log(`[generation-job] ${jobId}: completed, ${content.length} chars`);
+      send(sseDone());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[generation-job] ${jobId}: upstream failed:`, message);
+      upstreamController.abort();
+      // 받은 내용은 남겨 두고 사용자 잘못이 아니므로 전액 환불
+      try {
+        await persist();
+        await finishGenerationJob(supabaseAdmin, jobId, "failed", {
+          error: message,
+          refund: creditsCharged,
+        });
+      } catch (finishError) {
+        console.error(`[generation-job] ${jobId}: finish failed:`, finishError);
+      }
+      send(sseEvent({ error: { message } }));
+    } finally {
+      close();
+    }
+  };
+
+  keepAlive(pump());
+  return readable;
+}
+
+export interface RunGenerationJobOptions {
+  jobId: string;
+  creditsCharged: number;
+  // 결과 문자열을 만드는 생성 (signal이 중단되면 실패로 끝나야 함)
+  run: (signal: AbortSignal) => Promise<string>;
+}
+
+// running 작업의 updated_at 갱신 (오래 걸리는 생성이 멈춘 것으로 보이지 않도록)
+// 작업이 더 이상 running이 아니면(중단됨) false
+async function touchRunningJob(supabaseAdmin: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("generation_jobs")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select("id");
+  if (error) {
+    console.error(`[generation-job] ${jobId}: heartbeat failed:`, error.message);
+    return true;
+  }
+  return data.length > 0;
+}
+
+// 스트리밍이 없는 생성(구조화 작성)을 작업으로 실행
+// 결과를 기다리는 동안 중단 요청을 확인해 생성을 끊고, 완성된 결과를 저장한 뒤 한 번에 보냄
+// 클라이언트 연결이 끊겨도 끝까지 실행해 저장하므로 generation-job으로 결과를 받을 수 있음
+export function runGenerationJob(
+  supabaseAdmin: SupabaseClient,
+  options: RunGenerationJobOptions,
+): ReadableStream<Uint8Array> {
+  const { jobId, creditsCharged, run } = options;
+  const { readable, send, close } = openClientStream(jobId);
+
+  const pump = async () => {
+    send(sseEvent({ job: { id: jobId, status: "running", kind: "plan" } }));
+
+    const controller = new AbortController();
+    let settled = false;
+    const result = run(controller.signal).finally(() => {
+      settled = true;
+    });
+    const settledOrTick = () =>
+      Promise.race([result.then(() => {}, () => {}), sleep(JOB_FLUSH_INTERVAL_MS)]);
+    let lastKeepAlive = Date.now();
+
+    try {
+      while (!settled) {
+        await settledOrTick();
+        if (settled) break;
+        if (!(await touchRunningJob(supabaseAdmin, jobId))) {
+          // 중단 요청 쪽(generation-job)에서 상태 변경과 환불을 이미 처리함
+          console.log(`[generation-job] ${jobId}: cancelled, aborting generation`);
+          controller.abort();
+          send(sseEvent({ job: { id: jobId, status: "cancelled" } }));
+          return;
+        }
+        if (Date.now() - lastKeepAlive >= KEEPALIVE_INTERVAL_MS) {
+          lastKeepAlive = Date.now();
+          send(sseKeepAlive());
+        }
+      }
+
+      const content = await result;
+      // 중단 요청과 경합하면 running일 때만 저장되고 완료 처리도 건너뜀
+      const { data, error } = await supabaseAdmin
+        .from("generation_jobs")
+        .update({ content, updated_at: new Date().toISOString() })
+        .eq("id", jobId)
+        .eq("status", "running")
+        .select("id");
+      if (error) throw new Error(`Generation result not saved: ${error.message}`);
+      const { status } = data.length > 0
+        ? await finishGenerationJob(supabaseAdmin, jobId, "completed")
+        : { status: "cancelled" as const };
+      if (status !== "completed") {
+        send(sseEvent({ job: { id: jobId, status } }));
+        return;
+      }
+      console.log(`[generation-job] ${jobId}: completed, ${content.length} chars`);
+      send(sseDelta(content));
+      send(sseDone());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[generation-job] ${jobId}: generation failed:`, message);
+      controller.abort();
+      // 사용자 잘못이 아니므로 전액 환불
+      await finishGenerationJob(supabaseAdmin, jobId, "failed", {
+        error: message,
+        refund: creditsCharged,
+      }).catch((finishError) =>
+        console.error(`[generation-job] ${jobId}: finish failed:`, finishError)
+      );
+      send(sseEvent({ error: { message } }));
+    } finally {
+      close();
+    }
+  };
+
+  keepAlive(pump());
+  return readable;
+}
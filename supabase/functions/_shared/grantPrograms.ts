@@ -0,0 +1,91 @@
+// 지원사업(grant program) 레지스트리 - Edge Function 측
+// 클라이언트 레지스트리(src/lib/grantPrograms.ts)와 같은 id를 사용합니다.
+// 새 지원사업은 프롬프트 파일을 _shared/prompts 에 추가한 뒤 여기에 항목 하나를 등록하면
+// generate-plan / chat 양쪽에 반영됩니다.
+
+import { PLAN_PROMPT_PRE_STARTUP } from "./prompts/systemPrompt_PreStartup.ts";
+import { PLAN_PROMPT_YOUTH_ACADEMY } from "./prompts/systemPrompt_YouthAcademy.ts";
+import { PLAN_PROMPT_EARLY_STARTUP } from "./prompts/systemPrompt_EarlyStartup.ts";
+import {
+  BUDGET_TABLE_PHASED,
+  BUDGET_TABLE_SELF_FUNDED,
+} from "./prompts/budgetTables.ts";
+import {
+  CHAT_INSTRUCTION_EARLY_STARTUP,
+  CHAT_INSTRUCTION_PHASED_BUDGET,
+  CHAT_INSTRUCTION_YOUTH_ACADEMY,
+} from "./prompts/chatInstructions.ts";
+import type { PlanPrompt, VersionedPrompt } from "./prompts/versions.ts";
+
+export interface GrantProgramPrompts {
+  id: string;
+  name: string;
+  // generate-plan 시스템 프롬프트 + 사용자 프롬프트 템플릿 ({{businessIdea}} 등 치환)
+  planPrompt: VersionedPrompt<PlanPrompt>;
+  // chat 시스템 프롬프트의 2-3 집행계획 표 양식 (버전 포함)
+  budgetTable: VersionedPrompt;
+  // chat 태그 방식 작성 시 마지막 사용자 메시지 앞에 붙이는 지시 (버전 포함)
+  chatInstruction: VersionedPrompt;
+  // chat 구조화 작성(mode: "plan")의 집행계획 행 형식
+  // phased: 1단계/2단계 정부지원사업비, selfFunded: 정부지원 + 자기부담(현금/현물)
+  budgetLayout: "phased" | "selfFunded";
+  // 일반현황(기업명, 개업연월일 등) 작성 여부
+  generalInfo: boolean;
+}
+
+export const GRANT_PROGRAMS = {
+  PRE_STARTUP: {
+    id: "PRE_STARTUP",
+    name: "2025 예비창업패키지",
+    planPrompt: PLAN_PROMPT_PRE_STARTUP,
+    budgetTable: BUDGET_TABLE_PHASED,
+    chatInstruction: CHAT_INSTRUCTION_PHASED_BUDGET,
+    budgetLayout: "phased",
+    generalInfo: false,
+  },
+  YOUTH_ACADEMY: {
+    id: "YOUTH_ACADEMY",
+    name: "2025 청년창업사관학교",
+    planPrompt: PLAN_PROMPT_YOUTH_ACADEMY,
+    // 초기창업패키지와 같은 자기부담사업비 포함 단일 표 양식 (일반현황은 작성하지 않음)
+    budgetTable: BUDGET_TABLE_SELF_FUNDED,
+    chatInstruction: CHAT_INSTRUCTION_YOUTH_ACADEMY,
+    budgetLayout: "selfFunded",
+    generalInfo: false,
+  },
+  EARLY_STARTUP: {
+    id: "EARLY_STARTUP",
+    name: "2026 초기창업패키지",
+    planPrompt: PLAN_PROMPT_EARLY_STARTUP,
+    budgetTable: BUDGET_TABLE_SELF_FUNDED,
+    chatInstruction: CHAT_INSTRUCTION_EARLY_STARTUP,
+    budgetLayout: "selfFunded",
+    generalInfo: true,
+  },
+} satisfies Record<string, GrantProgramPrompts>;
+
+// 등록되지 않은 grantType이면 undefined (기본값은 호출하는 함수가 결정)
+export function getGrantProgram(
+  grantType: string | null | undefined,
+): GrantProgramPrompts | undefined {
+  if (!grantType) return undefined;
+  return (GRANT_PROGRAMS as Record<string, GrantProgramPrompts>)[grantType];
+}
+
+export interface PlanInput {
+  businessIdea?: string;
+  problemDescription?: string;
+  targetCustomer?: string;
+  solution?: string;
+  teamInfo?: string;
+}
+
+// generate-plan 사용자 프롬프트 템플릿에 입력값 채우기
+export function fillPlanUserPrompt(template: string, input: PlanInput): string {
+  return template
+    .replace("{{businessIdea}}", input.businessIdea || "")
+    .replace("{{problemDescription}}", input.problemDescription || "")
+    .replace("{{targetCustomer}}", input.targetCustomer || "")
+    .replace("{{solution}}", input.solution || "")
+    .replace("{{teamInfo}}", input.teamInfo || "");
+}
@@ -0,0 +1,65 @@
+// 비로그인 게스트 무료 체험 (chat 사업계획서 작성만)
+// 게스트는 크레딧이 없으므로 public.consume_guest_trial 이 IP(해시)·기기 ID별 사용 횟수를
+// 원장(guest_trial_usage)에 기록하며 제한합니다. 한도 확인과 기록이 한 트랜잭션이라
+// 동시에 보내도 한도를 넘지 않습니다.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const LOGIN_REQUIRED = "LOGIN_REQUIRED";
+export const GUEST_TRIAL_EXHAUSTED = "GUEST_TRIAL_EXHAUSTED";
+
+// 기간(GUEST_TRIAL_WINDOW) 동안 같은 IP 또는 같은 기기에서 허용하는 체험 횟수
+// (초안 한 번 + 실패 시 재시도 한 번)
+export const GUEST_TRIAL_LIMIT = 2;
+export const GUEST_TRIAL_WINDOW = "24 hours";
+
+// 프록시가 붙인 원래 클라이언트 IP (없으면 모든 익명 요청이 한도를 공유)
+function clientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip") || req.headers.get("cf-connecting-ip") || "unknown";
+}
+
+// IP는 원문 대신 SHA-256 해시로만 저장
+async function hashIp(ip: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(ip));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// 체험 1회 사용, 한도를 넘었으면 false
+export async function consumeGuestTrial(
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  params: { deviceId?: string | null; functionName: string },
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc("consume_guest_trial", {
+    p_ip_hash: await hashIp(clientIp(req)),
+    p_device_id: params.deviceId ?? null,
+    p_function_name: params.functionName,
+    p_limit: GUEST_TRIAL_LIMIT,
+    p_window: GUEST_TRIAL_WINDOW,
+  });
+  if (error) throw new Error(`Guest trial check failed: ${error.message}`);
+
+  const result = Array.isArray(data) ? data[0] : data;
+  return !!result?.success;
+}
+
+// 401 Unauthorized 응답 (클라이언트는 error 코드로 로그인 유도 UI 표시)
+export function loginRequiredResponse(
+  code: typeof LOGIN_REQUIRED | typeof GUEST_TRIAL_EXHAUSTED,
+  headers: Record<string, string>,
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: code,
+      message:
+        code === GUEST_TRIAL_EXHAUSTED
+          ? "무료 체험을 모두 사용했습니다. 로그인 후 계속 작성해주세요."
+          : "로그인이 필요합니다.",
+    }),
+    {
+      status: 401,
+      headers: { ...headers, "Content-Type": "application/json" },
+    },
+  );
+}
@@ -0,0 +1,239 @@
+// LLM 호출 공용 모듈 (OpenAI 호환 /chat/completions)
+// 작업(task)별 모델과 폴백 모델을 여기서 정하므로, 모델 교체·추가는 이 파일만 고치면 됩니다.
+// 429 / RESOURCE_EXHAUSTED / 5xx / 시간 초과는 지수 백오프로 재시도한 뒤 폴백 모델로 넘어갑니다.
+//
+// 환경 변수
+//   LLM_BASE_URL        OpenAI 호환 엔드포인트 (기본: Lovable AI Gateway, 로컬 목 서버 테스트용)
+//   LLM_API_KEY         API 키 (없으면 LOVABLE_API_KEY)
+//   LLM_MODEL           모든 작업의 기본 모델 덮어쓰기
+//   LLM_MODEL_<TASK>    작업별 모델 덮어쓰기 (예: LLM_MODEL_PDF_EXTRACT)
+//   LLM_FALLBACK_MODELS 쉼표로 구분한 폴백 모델 목록 덮어쓰기
+
+const DEFAULT_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_MODEL = "google/gemini-2.5-flash";
+const DEFAULT_FALLBACK_MODELS = ["google/gemini-2.5-flash-lite"];
+
+export type LlmTask =
+  | "plan" // generate-plan 사업계획서 초안 (스트리밍)
+  | "chat" // chat 대화형 작성 (스트리밍)
+  | "section" // chat 장 단위 다시 쓰기
+  | "rewrite" // chat 선택 영역 다듬기 (스트리밍)
+  | "structuredPlan" // chat 사업계획서 전체를 JSON으로 작성 (mode: "plan")
+  | "pdfExtract" // PDF 텍스트 추출 (chat 첨부, parse-pdf)
+  | "templateAnalysis"; // parse-hwpx 템플릿 필드 분석
+
+interface LlmTaskConfig {
+  model: string;
+  fallbackModels: string[];
+  // 응답(스트리밍은 응답 헤더)까지 기다리는 최대 시간
+  timeoutMs: number;
+  // 같은 모델로 다시 시도하는 횟수 (첫 시도 제외)
+  maxRetries: number;
+}
+
+const LLM_TASKS: Record<LlmTask, LlmTaskConfig> = {
+  plan: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 60_000, maxRetries: 2 },
+  chat: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 60_000, maxRetries: 2 },
+  section: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 120_000, maxRetries: 2 },
+  rewrite: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 30_000, maxRetries: 2 },
+  // 스트리밍 없이 전체 문서를 받으므로 시간 제한을 길게, 재시도는 스키마 검증 실패 재요청과 합쳐 1회만
+  // (재시도·폴백을 합친 전체 시간은 호출하는 쪽이 signal로 Edge Function 실행 제한 안에 묶음)
+  structuredPlan: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 100_000, maxRetries: 1 },
+  // PDF 입력은 폴백 모델(lite)에서 품질이 떨어지므로 재시도만
+  pdfExtract: { model: DEFAULT_MODEL, fallbackModels: [], timeoutMs: 120_000, maxRetries: 2 },
+  templateAnalysis: { model: DEFAULT_MODEL, fallbackModels: DEFAULT_FALLBACK_MODELS, timeoutMs: 60_000, maxRetries: 1 },
+};
+
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 10_000;
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentPart[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // "json"이면 response_format: json_object 로 JSON 객체만 응답하도록 강제
+  responseFormat?: "json";
+  // 중단하면 응답 대기와 스트리밍 본문 읽기를 모두 끊음 (재시도·폴백 없이 실패)
+  signal?: AbortSignal;
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status: number, // 마지막 응답의 HTTP 상태 (네트워크 오류·시간 초과는 0)
+    readonly rateLimited = false,
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+interface ResolvedTask extends LlmTaskConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+const envName = (task: LlmTask) => task.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+
+const getApiKey = () => Deno.env.get("LLM_API_KEY") || Deno.env.get("LOVABLE_API_KEY");
+
+// API 키가 없으면 false (크레딧 차감 전에 확인해 과금 없이 실패시키는 용도)
+export function isLlmConfigured(): boolean {
+  return !!getApiKey();
+}
+
+function resolveTask(task: LlmTask): ResolvedTask {
+  const apiKey = getApiKey();
+  if (!apiKey) throw new LlmError("LLM API key missing", 500);
+
+  const config = LLM_TASKS[task];
+  const fallbackEnv = Deno.env.get("LLM_FALLBACK_MODELS");
+  return {
+    ...config,
+    model: Deno.env.get(`LLM_MODEL_${envName(task)}`) || Deno.env.get("LLM_MODEL") || config.model,
+    fallbackModels: fallbackEnv
+      ? fallbackEnv.split(",").map((m) => m.trim()).filter(Boolean)
+      : config.fallbackModels,
+    baseUrl: (Deno.env.get("LLM_BASE_URL") || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    apiKey,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 지수 백오프 + 지터, Retry-After 헤더가 있으면 우선
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  const base = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+// 인증·결제 문제는 다른 모델로 바꿔도 같으므로 바로 실패
+const isFatalStatus = (status: number) => status === 401 || status === 402 || status === 403;
+
+// 응답 헤더를 받을 때까지 재시도/폴백, 성공한 Response와 모델을 반환
+// stream이면 헤더 이후에는 시간 제한을 두지 않음 (긴 생성이 중간에 끊기지 않도록)
+async function requestCompletion(
+  request: LlmRequest,
+  stream: boolean,
+): Promise<{ response: Response; model: string }> {
+  const config = resolveTask(request.task);
+  const models = [config.model, ...config.fallbackModels.filter((m) => m !== config.model)];
+  let lastError = new LlmError("LLM request failed", 0);
+
+  // 호출한 쪽의 중단을 현재 시도의 요청에 전달 (재시도마다 등록하지 않도록 한 번만 등록)
+  let controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  request.signal?.addEventListener("abort", forwardAbort);
+  let streaming = false;
+
+  try {
+    for (const model of models) {
+      for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+        if (request.signal?.aborted) throw new LlmError("LLM request aborted", 0);
+        controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+        let retryAfter: string | null = null;
+
+        try {
+          const response = await fetch(`${config.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${config.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              model,
+              messages: request.messages,
+              ...(request.temperature !== undefined && { temperature: request.temperature }),
+              ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+              ...(request.responseFormat === "json" && { response_format: { type: "json_object" } }),
+              ...(stream && { stream: true }),
+            }),
+            signal: controller.signal,
+          });
+
+          if (response.ok) {
+            if (stream) {
+              streaming = true;
+              return { response, model };
+            }
+            // 스트리밍이 아니면 본문까지 시간 제한 안에서 읽음
+            return { response: new Response(await response.text(), response), model };
+          }
+
+          const errText = await response.text();
+          const rateLimited = response.status === 429 || errText.includes("RESOURCE_EXHAUSTED");
+          lastError = new LlmError(
+            `LLM ${model} ${response.status}: ${errText.slice(0, 500)}`,
+            response.status,
+            rateLimited,
+          );
+          if (isFatalStatus(response.status)) throw lastError;
+          retryAfter = response.headers.get("Retry-After");
+        } catch (error) {
+          if (error instanceof LlmError) throw error;
+          if (request.signal?.aborted) throw new LlmError("LLM request aborted", 0);
+          const timedOut = controller.signal.aborted;
+          lastError = new LlmError(
+            timedOut
+              ? `LLM ${model} timed out after ${config.timeoutMs}ms`
+              : `LLM ${model} network error: ${error instanceof Error ? error.message : String(error)}`,
+            0,
+          );
+        } finally {
+          clearTimeout(timer);
+        }
+
+        console.warn(`[llm] ${request.task} attempt ${attempt + 1} failed:`, lastError.message);
+        // 요청 자체가 잘못된 경우(4xx)는 같은 모델로 재시도하지 않고 폴백 모델로
+        if (lastError.status >= 400 && lastError.status < 500 && !lastError.rateLimited) break;
+        if (attempt < config.maxRetries) await sleep(backoffDelay(attempt, retryAfter));
+      }
+      console.warn(`[llm] ${request.task}: giving up on ${model}`);
+    }
+    throw lastError;
+  } finally {
+    // 스트리밍 응답은 본문을 읽는 동안에도 중단을 전달해야 하므로 남김
+    if (!streaming) request.signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+// 스트리밍 없이 응답 전체 텍스트를 받음
+export async function completeChat(request: LlmRequest): Promise<{ content: string; model: string }> {
+  const { response, model } = await requestCompletion(request, false);
+  const data = await response.json();
+  return { content: data.choices?.[0]?.message?.content || "", model };
+}
+
+// SSE 스트림 본문을 그대로 받음 (클라이언트에 text/event-stream으로 중계)
+export async function streamChat(
+  request: LlmRequest,
+): Promise<{ body: ReadableStream<Uint8Array>; model: string }> {
+  const { response, model } = await requestCompletion(request, true);
+  if (!response.body) throw new LlmError(`LLM ${model} returned an empty stream`, 0);
+  return { body: response.body, model };
+}
+
+// LLM 실패 응답 (한도 초과는 429, 그 외는 500 - 클라이언트가 재시도 안내를 구분)
+export function llmErrorResponse(
+  error: LlmError,
+  message: string,
+  headers: Record<string, string>,
+): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status: error.rateLimited ? 429 : 500,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,58 @@
+// 채팅 프롬프트의 2-3 정부지원사업비 집행계획 표 (지원사업별 양식)
+// chat/system 프롬프트에 끼워 넣으므로 그 버전 id에 표의 버전 id도 함께 기록합니다.
+
+import type { VersionedPrompt } from "./versions.ts";
+
+// 2025 예비창업패키지용 2-3 표 (1단계/2단계 분리)
+const BUDGET_TABLE_PHASED_V1 = `### 2-3. 정부지원사업비 집행계획
+
+**<1단계 정부지원사업비 집행계획>**
+
+| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
+| :--- | :--- | ---: |
+| 재료비 | [구체적인 산출 근거] | [금액] |
+| 인건비 | [산출 근거] | [금액] |
+| 외주용역비 | [산출 근거] | [금액] |
+| 광고선전비 | [산출 근거] | [금액] |
+| 창업활동비 | [산출 근거] | [금액] |
+| 기타 | [산출 근거] | [금액] |
+| **합계** | | **[총액]** |
+
+**<2단계 정부지원사업비 집행계획>**
+
+| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
+| :--- | :--- | ---: |
+| 재료비 | [산출 근거] | [금액] |
+| 인건비 | [산출 근거] | [금액] |
+| 외주용역비 | [산출 근거] | [금액] |
+| 지급수수료 | [산출 근거] | [금액] |
+| 광고선전비 | [산출 근거] | [금액] |
+| 창업활동비 | [산출 근거] | [금액] |
+| 기타 | [산출 근거] | [금액] |
+| **합계** | | **[총액]** |`;
+
+export const BUDGET_TABLE_PHASED: VersionedPrompt = {
+  id: "budget-table/phased",
+  current: "1",
+  versions: [{ version: "1", prompt: BUDGET_TABLE_PHASED_V1 }],
+};
+
+// 2026 초기창업패키지 / 2025 청년창업사관학교용 2-3 표 (단일 표, 자기부담사업비 포함)
+const BUDGET_TABLE_SELF_FUNDED_V1 = `### 2-3. 정부지원사업비 집행계획
+
+| 비 목 | 집행 계획 | 정부지원사업비(ⓐ) | 자기부담사업비(ⓑ) 현금 | 자기부담사업비(ⓑ) 현물 | 합계(ⓐ+ⓑ) |
+| :--- | :--- | ---: | ---: | ---: | ---: |
+| 재료비 | [구체적인 집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 인건비 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 외주용역비 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 광고선전비 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 지급수수료 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 창업활동비 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| 기타 | [집행 계획] | [금액] | [금액] | [금액] | [합계] |
+| **합 계** | | **[총액]** | **[총액]** | **[총액]** | **[총액]** |`;
+
+export const BUDGET_TABLE_SELF_FUNDED: VersionedPrompt = {
+  id: "budget-table/self-funded",
+  current: "1",
+  versions: [{ version: "1", prompt: BUDGET_TABLE_SELF_FUNDED_V1 }],
+};
@@ -0,0 +1,117 @@
+// 지원사업별 채팅 지시 (chat 함수의 태그 방식 작성)
+// 사용자 메시지는 그대로 받고, chat 함수가 grantType에 맞는 지시를 마지막 사용자 메시지 앞에
+// 붙여 모델에 보냅니다. 지시는 chat_messages에 저장되지 않습니다.
+
+import type { VersionedPrompt } from "./versions.ts";
+
+// 2026 초기창업패키지: 일반현황 + 단일 집행계획 표 + 팀 구성 표
+const CHAT_INSTRUCTION_EARLY_STARTUP_V1 = `[중요 지시 1 - 일반현황 정보 (무조건 생성)]
+아래 필드를 반드시 생성하세요. 사용자가 정보를 제공하지 않아도 사업 아이디어에 맞게 창의적으로 생성하세요. 절대 비워두지 마세요!
+- 기업명: 사업 아이디어에 맞는 창의적인 회사명 생성 (예: (주)그랜트AI, 스마트팜테크 등)
+- 개업연월일: 2025.01.01 형식으로 생성
+- 사업자등록번호: 000-00-00000 형식으로 생성
+- 사업자 소재지: 서울특별시 강남구 등 구체적인 주소 생성
+- 사업자 구분: 개인사업자 또는 법인사업자 중 선택
+- 대표자 유형: 단독, 공동, 각자대표 중 하나 선택
+- 창업아이템명: 사업 아이디어를 잘 표현하는 간결한 이름 생성
+- 산출물: 협약기간 내 달성할 구체적인 목표 산출물 생성
+- 지원분야: 제조 또는 지식서비스 중 적합한 것 선택
+- 전문기술분야: 기계·소재, 전기·전자, 정보·통신, 화공·섬유, 바이오·의료·생명, 에너지·자원, 공예·디자인 중 적합한 것 선택
+
+[중요 지시 2 - 2-3 정부지원사업비 집행계획 표 형식]
+반드시 아래 6열 단일 표 형식으로 작성하세요. 절대 1단계/2단계로 분리하지 마세요!
+금액은 반드시 "3,000,000" 형식으로 작성하세요. "3,000천원" 같은 형식은 절대 사용하지 마세요!
+
+| 비 목 | 집행 계획 | 정부지원사업비(ⓐ) | 자기부담사업비(ⓑ) 현금 | 자기부담사업비(ⓑ) 현물 | 합계(ⓐ+ⓑ) |
+| :--- | :--- | ---: | ---: | ---: | ---: |
+| 재료비 | [집행 계획] | 3,000,000 | 300,000 | 0 | 3,300,000 |
+| 인건비 | [집행 계획] | 5,000,000 | 500,000 | 0 | 5,500,000 |
+| 외주용역비 | [집행 계획] | 10,000,000 | 1,000,000 | 0 | 11,000,000 |
+| 광고선전비 | [집행 계획] | 2,000,000 | 200,000 | 0 | 2,200,000 |
+| 지급수수료 | [집행 계획] | 1,000,000 | 100,000 | 0 | 1,100,000 |
+| 창업활동비 | [집행 계획] | 3,000,000 | 300,000 | 0 | 3,300,000 |
+| 기타 | [집행 계획] | 1,000,000 | 100,000 | 0 | 1,100,000 |
+| **합 계** | | **25,000,000** | **2,500,000** | **0** | **27,500,000** |
+
+[중요 지시 3 - 4-2 팀 구성(안) 표 형식]
+⚠️ 필수: 반드시 팀원1~팀원5까지 5명 모두 작성하세요. 빈 칸 없이 모든 열에 내용을 채우세요!
+구성 상태는 반드시 "확정" 또는 "예정"으로 작성하세요. "구성", "미구성"은 사용하지 마세요!
+사용자가 팀 정보를 제공하지 않았더라도, 창업 아이템에 적합한 팀 구성을 반드시 생성하세요.
+| 구분 | 직위 | 담당 업무 | 보유 역량(경력 및 학력 등) | 구성 상태 |
+| :--- | :--- | :--- | :--- | :--- |
+| 대표자 | CEO | 총괄 경영 및 전략 수립 | 창업 경험 및 해당 분야 전문성 | 확정 |
+| 팀원1 | CTO | 기술 개발 총괄 | 관련 기술 10년 경력, 석사 학위 | 확정 |
+| 팀원2 | 개발팀장 | 백엔드/프론트엔드 개발 | 개발 경력 5년, 관련 프로젝트 다수 | 확정 |
+| 팀원3 | 디자이너 | UI/UX 설계 | 디자인 경력 3년, 포트폴리오 보유 | 예정 |
+| 팀원4 | 마케터 | 마케팅 전략 및 영업 | 마케팅 경력 5년, 스타트업 경험 | 예정 |
+| 팀원5 | 사업개발 | 사업 기획 및 제휴 | 사업개발 경력 3년 | 예정 |`;
+
+export const CHAT_INSTRUCTION_EARLY_STARTUP: VersionedPrompt = {
+  id: "chat-instruction/early-startup",
+  current: "1",
+  versions: [{ version: "1", prompt: CHAT_INSTRUCTION_EARLY_STARTUP_V1 }],
+};
+
+// 2025 예비창업패키지: 1단계/2단계 분리 집행계획 표
+const CHAT_INSTRUCTION_PHASED_BUDGET_V1 = `[중요 지시 - 2-3 정부지원사업비 집행계획 표 형식]
+반드시 1단계/2단계로 분리된 3열 표 형식으로 작성하세요.
+금액은 반드시 "3,000,000" 형식으로 작성하세요. "3,000천원" 같은 형식은 절대 사용하지 마세요!
+
+**<1단계 정부지원사업비 집행계획>**
+| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
+| :--- | :--- | ---: |
+| 재료비 | [산출 근거] | 3,000,000 |
+...
+
+**<2단계 정부지원사업비 집행계획>**
+| 비 목 | 산 출 근 거 | 정부지원사업비(원) |
+| :--- | :--- | ---: |
+| 재료비 | [산출 근거] | 5,000,000 |
+...`;
+
+export const CHAT_INSTRUCTION_PHASED_BUDGET: VersionedPrompt = {
+  id: "chat-instruction/phased-budget",
+  current: "1",
+  versions: [{ version: "1", prompt: CHAT_INSTRUCTION_PHASED_BUDGET_V1 }],
+};
+
+// 2025 청년창업사관학교: 자기부담사업비 포함 단일 집행계획 표 (일반현황 없음)
+const CHAT_INSTRUCTION_YOUTH_ACADEMY_V1 = `[중요 지시 - 2-3 정부지원사업비 집행계획 표 형식]
+반드시 아래 6열 단일 표 형식으로 작성하세요. 절대 1단계/2단계로 분리하지 마세요!
+정부지원사업비는 총 사업비의 70% 이하, 자기부담사업비는 현금 10% 이상·현물 20% 이하로 작성하세요.
+금액은 반드시 "3,000,000" 형식으로 작성하세요. "3,000천원" 같은 형식은 절대 사용하지 마세요!
+
+| 비 목 | 집행 계획 | 정부지원사업비(ⓐ) | 자기부담사업비(ⓑ) 현금 | 자기부담사업비(ⓑ) 현물 | 합계(ⓐ+ⓑ) |
+| :--- | :--- | ---: | ---: | ---: | ---: |
+| 재료비 | [집행 계획] | 7,000,000 | 1,000,000 | 2,000,000 | 10,000,000 |
+| 인건비 | [집행 계획] | 21,000,000 | 3,000,000 | 6,000,000 | 30,000,000 |
+| 외주용역비 | [집행 계획] | 14,000,000 | 2,000,000 | 4,000,000 | 20,000,000 |
+| 광고선전비 | [집행 계획] | 7,000,000 | 1,000,000 | 2,000,000 | 10,000,000 |
+| 지급수수료 | [집행 계획] | 3,500,000 | 500,000 | 1,000,000 | 5,000,000 |
+| 창업활동비 | [집행 계획] | 3,500,000 | 500,000 | 1,000,000 | 5,000,000 |
+| 기타 | [집행 계획] | 3,500,000 | 500,000 | 1,000,000 | 5,000,000 |
+| **합 계** | | **59,500,000** | **8,500,000** | **17,000,000** | **85,000,000** |`;
+
+export const CHAT_INSTRUCTION_YOUTH_ACADEMY: VersionedPrompt = {
+  id: "chat-instruction/youth-academy",
+  current: "1",
+  versions: [{ version: "1", prompt: CHAT_INSTRUCTION_YOUTH_ACADEMY_V1 }],
+};
+
+// 마지막 사용자 메시지 앞에 지시를 붙인 사본 (원본 배열은 그대로 둠)
+export function withChatInstruction<T extends { role: string; content: string }>(
+  messages: T[],
+  instruction: string,
+): T[] {
+  let lastUserIndex = -1;
+  messages.forEach((message, index) => {
+    if (message.role === "user") lastUserIndex = index;
+  });
+  if (lastUserIndex === -1) return messages;
+
+  return messages.map((message, index) =>
+    index === lastUserIndex
+      ? { ...message, content: `${instruction}\n\n${message.content}` }
+      : message
+  );
+}
@@ -0,0 +1,95 @@
+// 자유양식(CUSTOM) 목차 기반 프롬프트
+// 클라이언트의 src/lib/customOutline.ts 와 같은 구조를 받습니다.
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import type { VersionedPrompt } from "./versions.ts";
+
+export const CustomOutlineSchema = z.object({
+  sections: z
+    .array(
+      z.object({
+        heading: z.string().min(1).max(200),
+        level: z.union([z.literal(1), z.literal(2)]).default(1),
+        targetLength: z.number().int().min(0).max(10000).default(0),
+        guide: z.string().max(1000).optional().nullable(),
+        table: z
+          .object({
+            columns: z.array(z.string().max(100)).min(1).max(8),
+            rows: z.number().int().min(1).max(20),
+          })
+          .optional()
+          .nullable(),
+      }),
+    )
+    .min(1, "Outline must have at least one section")
+    .max(30, "Too many outline sections"),
+});
+
+export type CustomOutline = z.infer<typeof CustomOutlineSchema>;
+
+// 목차 항목 하나를 작성 양식(마크다운)으로 변환
+function buildSectionForm(section: CustomOutline["sections"][number]): string {
+  const lines: string[] = [];
+  lines.push(`${section.level === 2 ? "###" : "#"} ${section.heading}`);
+
+  const instructions: string[] = [];
+  if (section.targetLength > 0) {
+    instructions.push(`최소 ${section.targetLength}자 이상`);
+  }
+  if (section.guide) instructions.push(section.guide);
+  if (instructions.length > 0 || !section.table) {
+    instructions.push("명사형 종결어미(~함, ~음, ~임) 사용. 문단 나누기로 작성");
+    lines.push(`[${instructions.join(". ")}]`);
+  }
+
+  if (section.table) {
+    const { columns, rows } = section.table;
+    lines.push("");
+    lines.push(`| ${columns.join(" | ")} |`);
+    lines.push(`| ${columns.map(() => ":---").join(" | ")} |`);
+    for (let i = 0; i < rows; i++) {
+      lines.push(`| ${columns.map((column) => `[${column}]`).join(" | ")} |`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// 사용자 정의 목차로 [필수 준수 양식] 본문 생성
+export function buildCustomOutlineForm(outline: CustomOutline): string {
+  return `---
+**[필수 준수 양식]**
+
+**⚠️ 아래 목차는 사용자가 직접 정의한 양식입니다. 목차 제목, 순서, 표 헤더를 절대 바꾸지 말고 빈칸만 채우세요. 목차에 없는 장을 추가하지 마세요!**
+
+${outline.sections.map(buildSectionForm).join("\n\n")}
+`;
+}
+
+// generate-plan 용 자유양식 시스템 프롬프트
+const SYSTEM_PROMPT_CUSTOM_V1 = `당신은 사업계획서/지원서 작성 기계입니다. 정부 지원사업 양식이 아닌, 사용자가 직접 정의한 목차를 그대로 따르는 문서를 작성합니다.
+
+**[작성 절대 규칙]**
+1. **[목차 엄수]:** 사용자가 제공하는 목차의 제목, 순서, 표 헤더를 절대 변경하지 마세요.
+2. **[줄글 원칙]:** 불렛(•)이나 번호(1.)를 절대 쓰지 마세요. 오직 문단 나누기(빈 줄)로만 내용을 구분하세요.
+3. **[분량 준수]:** 각 항목에 지정된 최소 분량을 반드시 지키세요.
+4. **[문체 규칙]:** 모든 문장은 반드시 명사형 종결어미로 끝내세요. "~합니다", "~입니다" 대신 "~함", "~임", "~됨", "~음" 등으로 작성하세요.`;
+
+export const PLAN_PROMPT_CUSTOM: VersionedPrompt = {
+  id: "plan/custom",
+  current: "1",
+  versions: [{ version: "1", prompt: SYSTEM_PROMPT_CUSTOM_V1 }],
+};
+
+// generate-plan 용 자유양식 사용자 프롬프트 템플릿
+export function buildCustomUserPromptTemplate(outline: CustomOutline): string {
+  return `
+다음 정보를 바탕으로 문서를 작성하세요:
+아이템: {{businessIdea}}
+문제: {{problemDescription}}
+타겟: {{targetCustomer}}
+솔루션: {{solution}}
+팀: {{teamInfo}}
+
+${buildCustomOutlineForm(outline)}`;
+}
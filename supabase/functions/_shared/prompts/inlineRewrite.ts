@@ -0,0 +1,61 @@
+// 선택 영역 다듬기 프롬프트 (chat 함수의 mode: "rewrite")
+// 에디터에서 선택한 문장/문단만 받아 교체할 텍스트만 스트리밍으로 돌려줍니다.
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export const INLINE_REWRITE_ACTIONS = [
+  "expand",
+  "shorten",
+  "nominalize",
+  "quantify",
+  "tone",
+] as const;
+
+export type InlineRewriteAction = (typeof INLINE_REWRITE_ACTIONS)[number];
+
+export const InlineRewriteSchema = z.object({
+  action: z.enum(INLINE_REWRITE_ACTIONS),
+  text: z.string().min(1).max(5000, "Selection too long"),
+  targetLength: z.number().int().min(50).max(3000).optional().nullable(), // expand 목표 분량 (자)
+  contextBefore: z.string().max(5000).optional().nullable(),
+  contextAfter: z.string().max(5000).optional().nullable(),
+});
+
+export type InlineRewrite = z.infer<typeof InlineRewriteSchema>;
+
+const DEFAULT_EXPAND_LENGTH = 350;
+
+const ACTION_INSTRUCTIONS: Record<InlineRewriteAction, (rewrite: InlineRewrite) => string> = {
+  expand: (rewrite) =>
+    `선택한 내용을 약 ${rewrite.targetLength ?? DEFAULT_EXPAND_LENGTH}자 분량으로 확장하세요. 근거, 방법, 기대효과를 구체적으로 보강하되 새로운 주제를 추가하지 마세요.`,
+  shorten: () =>
+    "핵심 의미는 유지하면서 선택한 내용을 절반 정도 분량으로 간결하게 줄이세요.",
+  nominalize: () =>
+    "내용은 그대로 두고 모든 문장을 명사형 종결어미(~함, ~임, ~됨, ~음)로 바꾸세요.",
+  quantify: () =>
+    "선택한 내용에 시장 규모, 성장률, 목표 수치, 기간 등 정량적 근거를 보강하세요. 확인되지 않은 수치는 합리적인 추정치임이 드러나도록 작성하세요.",
+  tone: () =>
+    "정부 지원사업 심사위원이 읽기에 적합하도록 객관적이고 전문적인 어조로 다듬으세요. 과장된 표현과 구어체를 제거하세요.",
+};
+
+export const SYSTEM_PROMPT_INLINE_REWRITE = `당신은 정부 지원사업 사업계획서의 문장을 다듬는 편집자입니다.
+
+**[출력 절대 규칙]**
+1. 선택 영역을 대체할 텍스트만 출력하세요. 설명, 따옴표, 머리말, 코드블록, [DOCUMENT]/[CHAT] 태그를 절대 붙이지 마세요.
+2. 선택 영역이 한 문단이면 한 문단으로 출력하세요. 제목(#)이나 표를 새로 만들지 마세요.
+3. 불렛(•)이나 번호(1.)를 쓰지 마세요.
+4. 앞뒤 문맥과 내용이 겹치거나 모순되지 않게 하세요.
+5. 별도 지시가 없으면 명사형 종결어미(~함, ~임, ~됨, ~음) 문체를 유지하세요.`;
+
+export function buildInlineRewriteUserPrompt(rewrite: InlineRewrite): string {
+  const parts: string[] = [];
+  if (rewrite.contextBefore) {
+    parts.push(`**[앞 문맥]**\n${rewrite.contextBefore}`);
+  }
+  if (rewrite.contextAfter) {
+    parts.push(`**[뒤 문맥]**\n${rewrite.contextAfter}`);
+  }
+  parts.push(`**[선택 영역]**\n${rewrite.text}`);
+  parts.push(`**[요청]**\n${ACTION_INSTRUCTIONS[rewrite.action](rewrite)}`);
+  return parts.join("\n\n---\n\n");
+}
@@ -0,0 +1,47 @@
+// 섹션 단위 다시 쓰기 프롬프트 (chat 함수의 mode: "section")
+// 에디터에서 선택한 장(제목 + 본문)과 앞뒤 문맥만 받아 해당 장의 본문만 새로 작성합니다.
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export const SectionRegenerationSchema = z.object({
+  heading: z.string().min(1).max(300),
+  markdown: z.string().max(50000, "Section too long"), // 현재 장 본문 (마크다운, 제목 제외)
+  contextBefore: z.string().max(20000).optional().nullable(),
+  contextAfter: z.string().max(20000).optional().nullable(),
+  instruction: z.string().max(2000).optional().nullable(), // 사용자의 추가 요청 (선택)
+});
+
+export type SectionRegeneration = z.infer<typeof SectionRegenerationSchema>;
+
+export const SYSTEM_PROMPT_SECTION = `당신은 정부 지원사업 사업계획서의 특정 장(섹션)만 다시 작성하는 전문 작성자입니다.
+
+**[작성 절대 규칙]**
+1. **[본문만 출력]:** 장 제목은 출력하지 마세요. 제목 아래에 들어갈 본문만 마크다운으로 출력하세요.
+2. **[범위 엄수]:** 주어진 장의 내용만 작성하세요. 앞뒤 문맥은 내용이 겹치거나 모순되지 않도록 참고만 하세요.
+3. **[표 구조 유지]:** 현재 본문에 표가 있다면 표의 열 구성과 헤더를 그대로 유지하고 내용만 개선하세요.
+4. **[줄글 원칙]:** 불렛(•)이나 번호(1.)를 쓰지 말고 문단 나누기(빈 줄)로만 내용을 구분하세요.
+5. **[문체 규칙]:** 모든 문장은 명사형 종결어미(~함, ~임, ~됨, ~음)로 끝내세요.
+6. **[형식]:** [DOCUMENT], [CHAT] 태그나 코드블록(\`\`\`) 없이 본문 마크다운만 출력하세요.`;
+
+export function buildSectionUserPrompt(
+  section: SectionRegeneration,
+  documentForm?: string,
+): string {
+  const parts: string[] = [];
+  if (documentForm) {
+    parts.push(`**[지원사업 양식 참고]**\n${documentForm}`);
+  }
+  if (section.contextBefore) {
+    parts.push(`**[앞부분 문맥]**\n${section.contextBefore}`);
+  }
+  if (section.contextAfter) {
+    parts.push(`**[뒷부분 문맥]**\n${section.contextAfter}`);
+  }
+  parts.push(`**[다시 작성할 장]**\n제목: ${section.heading}\n\n현재 본문:\n${section.markdown || "(비어 있음)"}`);
+  parts.push(
+    section.instruction
+      ? `**[사용자 요청]**\n${section.instruction}`
+      : "위 장의 본문을 더 구체적이고 설득력 있게 다시 작성하세요.",
+  );
+  return parts.join("\n\n---\n\n");
+}
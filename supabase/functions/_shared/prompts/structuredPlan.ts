@@ -0,0 +1,232 @@
+// 구조화 사업계획서 작성 프롬프트 (chat 함수의 mode: "plan")
+// [DOCUMENT]/[CHAT] 태그 대신 ProjectData 필드 이름을 키로 쓰는 JSON 하나로 응답받아
+// 서버에서 스키마를 검증한 뒤 그대로 돌려줍니다. 에디터 문서는 클라이언트가 이 값으로 만듭니다.
+// 필드 이름은 클라이언트 src/utils/structuredPlan.ts 와 맞춰야 합니다.
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import type { GrantProgramPrompts } from "../grantPrograms.ts";
+import type { VersionedPrompt } from "./versions.ts";
+
+const MAX_TEXT = 20000;
+
+const text = z.string().trim().max(MAX_TEXT);
+const requiredText = text.min(1);
+
+// "5,000,000" / "5000000원" 처럼 문자열로 온 금액도 숫자로 받음
+const amount = z.preprocess(
+  (value) => (typeof value === "string" ? Number(value.replace(/[^\d.]/g, "")) : value),
+  z.number().nonnegative().finite(),
+);
+
+export const BUDGET_CATEGORIES = [
+  "material",
+  "personnel",
+  "outsourcing",
+  "commission",
+  "advertising",
+  "activity",
+  "intangible",
+  "etc",
+] as const;
+
+const SectionsSchema = z.object({
+  item_name: requiredText,
+  item_category: requiredText,
+  summary_overview: requiredText,
+  summary_problem: requiredText,
+  summary_solution: requiredText,
+  summary_scaleup: requiredText,
+  summary_team: requiredText,
+  summary_image_1_caption: text.default(""),
+  summary_image_2_caption: text.default(""),
+  prob_necessity: requiredText,
+  prob_market: requiredText,
+  sol_develop: requiredText,
+  sol_diff: requiredText,
+  scale_bm: requiredText,
+  scale_market: requiredText,
+  scale_esg: requiredText,
+  team_competency: requiredText,
+});
+
+const GeneralInfoSchema = z.object({
+  info_company_name: text.default(""),
+  info_est_date: text.default(""),
+  info_reg_number: text.default(""),
+  info_address: text.default(""),
+});
+
+const ScheduleRowSchema = z.object({
+  task: text,
+  period: text,
+  detail: text,
+});
+
+const TeamRowSchema = z.object({
+  position: text,
+  role: text,
+  competency: text,
+  status: text,
+});
+
+const PartnerRowSchema = z.object({
+  name: text,
+  capability: text,
+  plan: text,
+  period: text,
+});
+
+const BudgetRowSchema = z.object({
+  phase: z.union([z.literal(1), z.literal(2)]).optional(), // phased 양식만 사용 (없으면 1단계)
+  category: z.enum(BUDGET_CATEGORIES),
+  basis: text,
+  amount, // 정부지원사업비 (원)
+  cash: amount.optional(), // 자기부담 현금 (selfFunded 양식만)
+  inKind: amount.optional(), // 자기부담 현물 (selfFunded 양식만)
+});
+
+const ChartsSchema = z.object({
+  marketGrowth: z
+    .array(z.object({ year: z.coerce.string(), value: amount }))
+    .max(10)
+    .optional(),
+  businessModel: z
+    .object({
+      partner: text,
+      partner_value: text,
+      platform: text,
+      customer: text,
+      customer_value: text,
+    })
+    .optional(),
+  tamSamSom: z
+    .object({
+      tam: z.object({ value: text, desc: text }),
+      sam: z.object({ value: text, desc: text }),
+      som: z.object({ value: text, desc: text }),
+    })
+    .optional(),
+});
+
+export const StructuredPlanSchema = z.object({
+  sections: SectionsSchema,
+  generalInfo: GeneralInfoSchema.optional(),
+  tables: z.object({
+    schedule: z.array(ScheduleRowSchema).max(10).default([]),
+    overallSchedule: z.array(ScheduleRowSchema).max(10).default([]),
+    team: z.array(TeamRowSchema).max(10).default([]),
+    partners: z.array(PartnerRowSchema).max(10).default([]),
+    budget: z.array(BudgetRowSchema).max(30).default([]),
+  }),
+  charts: ChartsSchema.default({}),
+  chatMessage: text.default(""),
+});
+
+export type StructuredPlan = z.infer<typeof StructuredPlanSchema>;
+
+const BUDGET_INSTRUCTIONS: Record<GrantProgramPrompts["budgetLayout"], string> = {
+  phased: `- 1단계와 2단계 정부지원사업비를 나누어 작성하세요. 각 행의 phase에 1 또는 2를 넣으세요.
+- 1단계는 material, personnel, outsourcing, advertising, activity, etc 중에서, 2단계는 모든 비목 중에서 사용하세요.
+- cash, inKind는 쓰지 마세요.`,
+  selfFunded: `- 한 표에 정부지원사업비(amount)와 자기부담사업비 현금(cash), 현물(inKind)을 함께 작성하세요. phase는 쓰지 마세요.
+- 비목은 material, personnel, outsourcing, advertising, commission, activity, etc 중에서 사용하세요.
+- 현금은 총사업비의 10% 이상, 현물은 20% 이하가 되도록 배분하세요.`,
+};
+
+const JSON_SHAPE = `{
+  "sections": {
+    "item_name": "창업 아이템명",
+    "item_category": "업종/카테고리",
+    "summary_overview": "아이템 개요 요약 (2줄 이상)",
+    "summary_problem": "문제 인식 요약",
+    "summary_solution": "실현 가능성 요약",
+    "summary_scaleup": "성장전략 요약",
+    "summary_team": "팀 구성 요약",
+    "summary_image_1_caption": "이미지 1 설명",
+    "summary_image_2_caption": "이미지 2 설명",
+    "prob_necessity": "1-1. 기존 시장의 문제점 본문",
+    "prob_market": "1-2. 개발 필요성 본문",
+    "sol_develop": "2-1-1. 창업아이템 개발 방안 본문",
+    "sol_diff": "2-1-2. 차별성 및 경쟁력 확보 전략 본문",
+    "scale_bm": "3-1-1. 비즈니스 모델(BM) 본문",
+    "scale_market": "3-1-2. 시장 진입 전략 본문",
+    "scale_esg": "3-3. 중장기 사회적 가치 도입계획(ESG) 본문",
+    "team_competency": "4-1. 대표자 및 팀원의 보유 역량 본문"
+  },
+  "generalInfo": {
+    "info_company_name": "기업명",
+    "info_est_date": "2025.01.01",
+    "info_reg_number": "000-00-00000",
+    "info_address": "사업자 소재지"
+  },
+  "tables": {
+    "schedule": [{ "task": "추진 내용", "period": "2025.06 ~ 2025.08", "detail": "세부 내용" }],
+    "overallSchedule": [{ "task": "추진 내용", "period": "2026 상반기", "detail": "세부 내용" }],
+    "team": [{ "position": "CEO", "role": "담당 업무", "competency": "보유 역량(경력 및 학력)", "status": "확정" }],
+    "partners": [{ "name": "파트너명", "capability": "보유 역량", "plan": "협업 방안", "period": "협력 시기" }],
+    "budget": [{ "phase": 1, "category": "material", "basis": "산출 근거", "amount": 5000000, "cash": 0, "inKind": 0 }]
+  },
+  "charts": {
+    "marketGrowth": [{ "year": "2024", "value": 1200 }],
+    "businessModel": { "partner": "공급 파트너", "partner_value": "파트너에 주는 가치", "platform": "우리 서비스", "customer": "고객", "customer_value": "고객이 내는 대가" },
+    "tamSamSom": { "tam": { "value": "10조원", "desc": "전체 시장" }, "sam": { "value": "1조원", "desc": "유효 시장" }, "som": { "value": "500억원", "desc": "수익 시장" } }
+  },
+  "chatMessage": "사용자에게 보여줄 짧은 안내 메시지"
+}`;
+
+function buildStructuredPlanSystemPromptV1(program: GrantProgramPrompts): string {
+  return `당신은 "The Grant AI"의 AI 어시스턴트이며 ${program.name} 사업계획서를 작성합니다.
+
+**[응답 형식 - 반드시 준수]**
+아래 구조의 JSON 객체 하나만 출력하세요. 코드블록(\`\`\`), 설명, 태그를 붙이지 마세요.
+
+${JSON_SHAPE}
+
+**[필드 규칙]**
+1. sections의 각 값은 해당 목차의 본문만 담습니다. 목차 제목, 마크다운 제목(#), 표, 불렛(•), 번호 매기기를 넣지 마세요.
+2. 문단은 빈 줄("\\n\\n")로 구분하세요. 본문 섹션은 최소 350자 이상, 3-4개 문단으로 구체적인 수치와 근거를 포함해 작성하세요.
+3. 모든 문장은 명사형 종결어미(~함, ~임, ~됨, ~음, ~예정임)로 끝내세요.
+4. tables.schedule(협약기간 내)과 tables.overallSchedule(전체 사업단계)은 각각 4단계, tables.team은 대표자를 첫 행으로 3명 이상, tables.partners는 3곳을 작성하세요.
+5. 금액(amount, cash, inKind)은 원 단위 숫자로만 쓰세요 (예: 5000000). charts.marketGrowth의 value는 억원 단위 숫자입니다.
+6. chatMessage에는 작성 결과를 1-2문장으로 안내하세요. 사업계획서 본문을 넣지 마세요.
+${program.generalInfo ? "7. generalInfo는 사용자가 알려주지 않았더라도 사업 아이디어에 맞게 생성해 모두 채우세요." : "7. generalInfo는 생략하세요."}
+
+**[정부지원사업비 집행계획 (tables.budget)]**
+${BUDGET_INSTRUCTIONS[program.budgetLayout]}
+- category는 material(재료비), personnel(인건비), outsourcing(외주용역비), commission(지급수수료), advertising(광고선전비), activity(창업활동비), intangible(무형자산취득비), etc(기타) 중 하나입니다.
+
+현재 문서 내용이 주어지고 사용자가 일부 수정을 요청하면, 요청한 부분만 고치고 나머지 값은 현재 내용을 그대로 옮겨 전체 JSON을 다시 출력하세요.`;
+}
+
+// 지원사업 설정(집행계획 형식, 일반현황 여부)을 받아 시스템 프롬프트를 만드는 함수를 버전별로 보관
+export const STRUCTURED_PLAN_PROMPT: VersionedPrompt<(program: GrantProgramPrompts) => string> = {
+  id: "chat/structured-plan",
+  current: "1",
+  versions: [{ version: "1", prompt: buildStructuredPlanSystemPromptV1 }],
+};
+
+// 모델 응답 → 검증된 계획서 (코드블록으로 감싼 응답도 허용)
+export function parseStructuredPlan(
+  content: string,
+): { plan: StructuredPlan } | { error: string } {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    return { error: `JSON 파싱 실패: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = StructuredPlanSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 10)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return { error: `스키마 불일치: ${issues.join("; ")}` };
+  }
+  return { plan: result.data };
+}
@@ -1,6 +1,8 @@
 // 2025 예비창업패키지 시스템 프롬프트
 
-export const SYSTEM_PROMPT_PRE_STARTUP = `당신은 "2025년 예비창업패키지" 사업계획서 작성 기계입니다.
+import type { PlanPrompt, VersionedPrompt } from "./versions.ts";
+
+const SYSTEM_PROMPT_PRE_STARTUP_V1 = `당신은 "2025년 예비창업패키지" 사업계획서 작성 기계입니다.
 
 **[작성 절대 규칙]**
 1. **[줄글 원칙]:** 불렛(•)이나 번호(1.)를 절대 쓰지 마세요. 오직 문단 나누기(빈 줄)로만 내용을 구분하세요.
@@ -56,7 +58,7 @@ export const SYSTEM_PROMPT_PRE_STARTUP = `당신은 "2025년 예비창업패키
   </tbody>
 </table>`;
 
-export const USER_PROMPT_TEMPLATE_PRE_STARTUP = `
+const USER_PROMPT_TEMPLATE_PRE_STARTUP_V1 = `
 다음 정보를 바탕으로 사업계획서를 작성하세요:
 아이템: {{businessIdea}}
 문제: {{problemDescription}}
@@ -140,3 +142,14 @@ export const USER_PROMPT_TEMPLATE_PRE_STARTUP = `
 | 마케팅/홍보 | [파트너명] | [역량] | [협업 방안] | [시기] |
 | 기타 협력 | [파트너명] | [역량] | [협업 방안] | [시기] |
 `;
+
+export const PLAN_PROMPT_PRE_STARTUP: VersionedPrompt<PlanPrompt> = {
+  id: "plan/pre-startup",
+  current: "1",
+  versions: [
+    {
+      version: "1",
+      prompt: { system: SYSTEM_PROMPT_PRE_STARTUP_V1, userTemplate: USER_PROMPT_TEMPLATE_PRE_STARTUP_V1 },
+    },
+  ],
+};
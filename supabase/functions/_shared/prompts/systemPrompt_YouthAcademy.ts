@@ -1,6 +1,8 @@
 // 2025 청년창업사관학교 시스템 프롬프트
 
-export const SYSTEM_PROMPT_YOUTH_ACADEMY = `당신은 "2025년 청년창업사관학교" 사업계획서 작성 기계입니다.
+import type { PlanPrompt, VersionedPrompt } from "./versions.ts";
+
+const SYSTEM_PROMPT_YOUTH_ACADEMY_V1 = `당신은 "2025년 청년창업사관학교" 사업계획서 작성 기계입니다.
 
 **[작성 절대 규칙]**
 1. **[줄글 원칙]:** 불렛(•)이나 번호(1.)를 절대 쓰지 마세요. 오직 문단 나누기(빈 줄)로만 내용을 구분하세요.
@@ -56,7 +58,7 @@ export const SYSTEM_PROMPT_YOUTH_ACADEMY = `당신은 "2025년 청년창업사
   </tbody>
 </table>`;
 
-export const USER_PROMPT_TEMPLATE_YOUTH_ACADEMY = `
+const USER_PROMPT_TEMPLATE_YOUTH_ACADEMY_V1 = `
 다음 정보를 바탕으로 사업계획서를 작성하세요:
 아이템: {{businessIdea}}
 문제: {{problemDescription}}
@@ -140,3 +142,14 @@ export const USER_PROMPT_TEMPLATE_YOUTH_ACADEMY = `
 | 마케팅/홍보 | [파트너명] | [역량] | [협업 방안] | [시기] |
 | 기타 협력 | [파트너명] | [역량] | [협업 방안] | [시기] |
 `;
+
+export const PLAN_PROMPT_YOUTH_ACADEMY: VersionedPrompt<PlanPrompt> = {
+  id: "plan/youth-academy",
+  current: "1",
+  versions: [
+    {
+      version: "1",
+      prompt: { system: SYSTEM_PROMPT_YOUTH_ACADEMY_V1, userTemplate: USER_PROMPT_TEMPLATE_YOUTH_ACADEMY_V1 },
+    },
+  ],
+};
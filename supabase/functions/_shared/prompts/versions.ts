@@ -0,0 +1,48 @@
+// 프롬프트 버전 관리
+// 문서를 만드는 프롬프트는 id와 버전 목록(VersionedPrompt)으로 저장하고, 생성된 문서에는
+// 사용한 버전 id("plan/early-startup@1", 여러 개면 "+"로 연결)를 기록합니다 (documents.prompt_version).
+//
+// 문구를 고칠 때는 기존 버전을 덮어쓰지 말고 새 버전을 versions에 추가한 뒤 current를 바꾸세요.
+// 이전 버전이 남아 있어야 평가 하네스(supabase/eval)로 두 버전을 비교할 수 있습니다.
+
+export interface PromptVersion<T> {
+  version: string;
+  prompt: T;
+}
+
+export interface VersionedPrompt<T = string> {
+  // 프롬프트 이름 (예: "plan/early-startup", "chat/system")
+  id: string;
+  // 운영에서 사용하는 버전
+  current: string;
+  versions: PromptVersion<T>[];
+}
+
+// generate-plan 프롬프트 (사용자 프롬프트는 {{businessIdea}} 등을 치환하는 템플릿)
+export interface PlanPrompt {
+  system: string;
+  userTemplate: string;
+}
+
+export interface ResolvedPrompt<T> {
+  versionId: string;
+  prompt: T;
+}
+
+export const promptVersionId = (id: string, version: string) => `${id}@${version}`;
+
+// 지정한 버전(없으면 current)의 프롬프트, 등록되지 않은 버전이면 예외
+export function resolvePrompt<T>(
+  versioned: VersionedPrompt<T>,
+  version: string = versioned.current,
+): ResolvedPrompt<T> {
+  const found = versioned.versions.find((entry) => entry.version === version);
+  if (!found) {
+    throw new Error(`Unknown prompt version: ${promptVersionId(versioned.id, version)}`);
+  }
+  return { versionId: promptVersionId(versioned.id, version), prompt: found.prompt };
+}
+
+// 한 번의 생성에 쓰인 프롬프트 버전 id들을 documents.prompt_version 값으로 합침
+export const combineVersionIds = (...versionIds: (string | null | undefined)[]) =>
+  versionIds.filter(Boolean).join("+");
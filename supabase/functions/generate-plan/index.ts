@@ -1,62 +1,38 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { getDocument, GlobalWorkerOptions } from "https://esm.sh/pdfjs-dist@4.0.379/build/pdf.mjs";
 
-// [파일 경로 설정]
-import { SYSTEM_PROMPT_PRE_STARTUP, USER_PROMPT_TEMPLATE_PRE_STARTUP } from "./prompts/systemPrompt_PreStartup.ts";
-// import { SYSTEM_PROMPT_YOUTH_ACADEMY, USER_PROMPT_TEMPLATE_YOUTH_ACADEMY } from "./prompts/systemPrompt_YouthAcademy.ts";
-import { SYSTEM_PROMPT_EARLY_STARTUP, USER_PROMPT_TEMPLATE_EARLY_STARTUP } from "./prompts/systemPrompt_EarlyStartup.ts";
+import { GRANT_PROGRAMS, fillPlanUserPrompt, getGrantProgram } from "../_shared/grantPrograms.ts";
+import {
+  CustomOutlineSchema,
+  PLAN_PROMPT_CUSTOM,
+  buildCustomUserPromptTemplate,
+} from "../_shared/prompts/customOutline.ts";
+import { resolvePrompt } from "../_shared/prompts/versions.ts";
+import { recordDocumentPromptVersion } from "../_shared/documentPromptVersion.ts";
+import {
+  InsufficientCreditsError,
+  deductCredit,
+  insufficientCreditsResponse,
+  refundOnFailure,
+} from "../_shared/credits.ts";
+import { createGenerationJob, finishGenerationJob, relayGenerationStream } from "../_shared/generationJobs.ts";
+import { LlmError, isLlmConfigured, llmErrorResponse, streamChat } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ★ 방금 생성하신 버킷 이름
-const BUCKET_NAME = "project_files";
-
-type GrantType = "PRE_STARTUP" | "YOUTH_ACADEMY" | "EARLY_STARTUP";
-
-function getSystemPrompt(grantType: GrantType): string {
-  switch (grantType) {
-    case "EARLY_STARTUP":
-      return SYSTEM_PROMPT_EARLY_STARTUP;
-    case "YOUTH_ACADEMY":
-    case "PRE_STARTUP":
-    default:
-      return SYSTEM_PROMPT_PRE_STARTUP;
-  }
-}
+// 초안 생성 1회에 차감하는 크레딧
+const CREDITS_CHARGED = 1;
 
-function getUserPromptTemplate(grantType: GrantType): string {
-  switch (grantType) {
-    case "EARLY_STARTUP":
-      return USER_PROMPT_TEMPLATE_EARLY_STARTUP;
-    case "YOUTH_ACADEMY":
-    case "PRE_STARTUP":
-    default:
-      return USER_PROMPT_TEMPLATE_PRE_STARTUP;
-  }
-}
+// 크레딧 사용 내역에 기록할 문서 ID (게스트 문서 ID 등 UUID가 아니면 무시)
+const DocumentIdSchema = z.string().uuid().nullable().catch(null);
 
-async function deductCredit(userId: string, supabaseUrl: string, serviceRoleKey: string) {
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("credits, plan_type")
-    .eq("user_id", userId)
-    .maybeSingle();
-  if (!profile) return { success: true };
-
-  const isFree = !profile.plan_type || profile.plan_type === "free";
-  if (!isFree) {
-    await supabase
-      .from("profiles")
-      .update({ credits: (profile.credits || 0) - 1 })
-      .eq("user_id", userId);
-  }
-  return { success: true };
-}
+// ★ 방금 생성하신 버킷 이름
+const BUCKET_NAME = "project_files";
 
 // [핵심] PDF 텍스트 추출 함수 (pdfjs-dist 사용)
 async function extractPdfText(supabaseUrl: string, serviceRoleKey: string, filePath: string): Promise<string> {
@@ -107,12 +83,11 @@ serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!LOVABLE_API_KEY) throw new Error("Key missing");
+    if (!isLlmConfigured()) throw new Error("Key missing");
 
     const authHeader = req.headers.get("Authorization");
     const supabaseUser = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
@@ -132,20 +107,43 @@ serve(async (req) => {
       grantType = "PRE_STARTUP",
       uploadedFilePath,
       uploadedFileName,
+      customOutline,
+      documentId: rawDocumentId,
     } = await req.json();
+    const documentId = DocumentIdSchema.parse(rawDocumentId);
+
+    // 자유양식(CUSTOM)은 사용자가 정의한 목차로 프롬프트를 만듦
+    const outline = grantType === "CUSTOM" ? CustomOutlineSchema.safeParse(customOutline) : null;
+    if (outline && !outline.success) {
+      return new Response(JSON.stringify({ error: "Invalid custom outline", details: outline.error.flatten() }), {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
 
-    await deductCredit(user.id, SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
-
-    const systemPrompt = getSystemPrompt(grantType as GrantType);
-    const userPromptTemplate = getUserPromptTemplate(grantType as GrantType);
+    let systemPrompt: string;
+    let userPromptTemplate: string;
+    let promptVersion: string;
+    if (outline?.success) {
+      ({ versionId: promptVersion, prompt: systemPrompt } = resolvePrompt(PLAN_PROMPT_CUSTOM));
+      userPromptTemplate = buildCustomUserPromptTemplate(outline.data);
+    } else {
+      // 레지스트리에 없는 grantType은 2025 예비창업패키지 프롬프트 사용
+      const program = getGrantProgram(grantType) ?? GRANT_PROGRAMS.PRE_STARTUP;
+      const { versionId, prompt } = resolvePrompt(program.planPrompt);
+      promptVersion = versionId;
+      systemPrompt = prompt.system;
+      userPromptTemplate = prompt.userTemplate;
+    }
 
     // 1. 기본 입력 내용 매핑
-    let userPrompt = userPromptTemplate
-      .replace("{{businessIdea}}", businessIdea || "")
-      .replace("{{problemDescription}}", problemDescription || "")
-      .replace("{{targetCustomer}}", targetCustomer || "")
-      .replace("{{solution}}", solution || "")
-      .replace("{{teamInfo}}", teamInfo || "");
+    let userPrompt = fillPlanUserPrompt(userPromptTemplate, {
+      businessIdea,
+      problemDescription,
+      targetCustomer,
+      solution,
+      teamInfo,
+    });
 
     // 2. PDF 내용 주입 (강력한 제어 프롬프트 적용)
     if (uploadedFilePath) {
@@ -170,22 +168,86 @@ ${pdfText.substring(0, 30000)} ...
       }
     }
 
-    // AI 호출
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: { Authorization: `Bearer ${LOVABLE_API_KEY}`, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        stream: true,
-      }),
-    });
+    // AI 호출 직전에 크레딧 차감 (잔액 부족 시 402)
+    try {
+      await deductCredit(user.id, SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!, {
+        amount: CREDITS_CHARGED,
+        reason: "사업계획서 초안 생성",
+        functionName: "generate-plan",
+        documentId,
+      });
+    } catch (creditError) {
+      if (creditError instanceof InsufficientCreditsError) {
+        return insufficientCreditsResponse(creditError, corsHeaders);
+      }
+      throw creditError;
+    }
+
+    // 생성을 시작하지 못하면(오류 응답·예외) 환불, 스트림 도중 실패는 중계가 작업을 실패로 닫고 환불
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+    const charge = {
+      userId: user.id,
+      documentId,
+      reason: "사업계획서 초안 생성 실패 환불",
+      functionName: "generate-plan",
+    };
+    return await refundOnFailure(supabaseAdmin, charge, async () => {
+      let jobId: string | null = null;
+      try {
+        jobId = await createGenerationJob(supabaseAdmin, {
+          userId: user.id,
+          documentId,
+          functionName: "generate-plan",
+          creditsCharged: CREDITS_CHARGED,
+        });
+      } catch (jobError) {
+        // 기록 없이도 생성은 계속 (이어 받기·중단·스트림 도중 실패 환불만 불가)
+        console.error("[generate-plan] Generation job not recorded:", jobError);
+      }
 
-    return new Response(response.body, { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
+      // AI 호출
+      const upstreamController = new AbortController();
+      let body: ReadableStream<Uint8Array>;
+      try {
+        ({ body } = await streamChat({
+          task: "plan",
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt },
+          ],
+          signal: upstreamController.signal,
+        }));
+      } catch (error) {
+        // 작업만 실패로 닫음 (환불은 refundOnFailure에서 한 번만)
+        if (jobId) {
+          await finishGenerationJob(supabaseAdmin, jobId, "failed", {
+            error: error instanceof Error ? error.message : String(error),
+          }).catch((finishError) => console.error("[generate-plan] Generation job finish failed:", finishError));
+        }
+        throw error;
+      }
+
+      await recordDocumentPromptVersion(supabaseAdmin, {
+        documentId,
+        userId: user.id,
+        promptVersion,
+      });
+
+      const stream = jobId
+        ? relayGenerationStream(supabaseAdmin, {
+          jobId,
+          creditsCharged: CREDITS_CHARGED,
+          upstream: body,
+          upstreamController,
+        })
+        : body;
+      return new Response(stream, { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
+    });
   } catch (e: unknown) {
+    if (e instanceof LlmError) {
+      console.error("[AI 호출 실패]", e.message);
+      return llmErrorResponse(e, "Plan generation failed", corsHeaders);
+    }
     console.error("[서버 에러]", e);
     const errorMessage = e instanceof Error ? e.message : "Unknown error";
     return new Response(JSON.stringify({ error: errorMessage }), { status: 500, headers: corsHeaders });
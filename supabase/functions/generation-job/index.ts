@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  type GenerationJob,
+  JOB_FLUSH_INTERVAL_MS,
+  cancelRefund,
+  finishGenerationJob,
+  getGenerationJob,
+  isStale,
+  keepAlive,
+  sseDelta,
+  sseDone,
+  sseEvent,
+} from "../_shared/generationJobs.ts";
+
+// chat 생성 작업 이어 받기 / 중단
+// resume: offset(이미 받은 글자 수) 이후 내용을 chat과 같은 SSE 형식으로 보내고,
+//         작업이 끝날 때까지 새로 저장되는 내용을 이어서 보냄
+// cancel: 작업을 중단하고 환불 규칙(_shared/generationJobs.ts)에 따라 크레딧 환불
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const jsonHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+
+const JobInputSchema = z.object({
+  jobId: z.string().uuid(),
+  action: z.enum(["resume", "cancel"]),
+  offset: z.number().int().min(0).optional().default(0),
+});
+
+// 한 번의 이어 받기 응답을 유지하는 최대 시간 (끊기면 클라이언트가 다시 이어 받음)
+const MAX_RESUME_MS = 120_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: jsonHeaders });
+
+// 저장된 내용을 offset부터 보내고, running인 동안 새 내용을 폴링해 이어 보냄
+function resumeStream(
+  supabaseAdmin: SupabaseClient,
+  job: GenerationJob,
+  offset: number,
+): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+
+  const pump = async () => {
+    const startedAt = Date.now();
+    let current: GenerationJob | null = job;
+    let sent = Math.min(offset, job.content.length);
+
+    try {
+      await writer.write(sseEvent({ job: { id: job.id, status: job.status, kind: job.kind } }));
+      while (current) {
+        if (current.content.length > sent) {
+          await writer.write(sseDelta(current.content.slice(sent)));
+          sent = current.content.length;
+        }
+        if (current.status !== "running") break;
+        if (Date.now() - startedAt > MAX_RESUME_MS) return;
+
+        await sleep(JOB_FLUSH_INTERVAL_MS);
+        current = await getGenerationJob(supabaseAdmin, job.id);
+        if (current && isStale(current)) {
+          current = { ...current, status: await failStaleJob(supabaseAdmin, current) };
+        }
+      }
+
+      if (current?.status === "completed") {
+        await writer.write(sseDone());
+      } else if (current?.status === "failed") {
+        await writer.write(sseEvent({ error: { message: "Generation failed" } }));
+      } else {
+        await writer.write(sseEvent({ job: { id: job.id, status: current?.status ?? "failed" } }));
+      }
+    } catch (error) {
+      // 클라이언트가 떠나면 쓰기가 실패함 - 작업 자체는 chat 쪽 중계가 계속 진행
+      console.log(`[generation-job] ${job.id}: resume stream closed:`, error instanceof Error ? error.message : error);
+    } finally {
+      writer.close().catch(() => {});
+    }
+  };
+
+  keepAlive(pump());
+  return readable;
+}
+
+// 중계가 멈춘 작업은 실패로 닫고 전액 환불
+async function failStaleJob(
+  supabaseAdmin: SupabaseClient,
+  job: GenerationJob,
+): Promise<GenerationJob["status"]> {
+  console.warn(`[generation-job] ${job.id}: stale since ${job.updated_at}, marking failed`);
+  const { status } = await finishGenerationJob(supabaseAdmin, job.id, "failed", {
+    error: "Generation stalled",
+    refund: job.credits_charged,
+  });
+  return status;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // chat과 같이 게스트도 허용 (게스트 작업은 작업 ID 자체가 접근 권한)
+    let userId: string | null = null;
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader && !authHeader.includes(SUPABASE_ANON_KEY)) {
+      const supabaseUser = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user } } = await supabaseUser.auth.getUser();
+      userId = user?.id || null;
+    }
+
+    const parseResult = JobInputSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      return jsonResponse(
+        { error: "Invalid input format", details: parseResult.error.flatten() },
+        400,
+      );
+    }
+    const { jobId, action, offset } = parseResult.data;
+
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    let job = await getGenerationJob(supabaseAdmin, jobId);
+    if (!job || (job.user_id && job.user_id !== userId)) {
+      return jsonResponse({ error: "Job not found" }, 404);
+    }
+
+    if (isStale(job)) {
+      job = { ...job, status: await failStaleJob(supabaseAdmin, job) };
+    }
+
+    if (action === "cancel") {
+      if (job.status !== "running") {
+        return jsonResponse({ status: job.status, refundedCredits: 0 });
+      }
+      // chat 쪽 중계(구조화 작성은 실행 루프)가 다음 확인 시점에 cancelled를 보고 LLM 요청을 끊음
+      // 작성된 분량만큼만 차감하고 나머지 환불
+      const result = await finishGenerationJob(supabaseAdmin, job.id, "cancelled", {
+        refund: cancelRefund(job),
+      });
+      console.log(
+        `[generation-job] ${job.id}: cancel -> ${result.status}, refunded ${result.refundedCredits}`,
+      );
+      return jsonResponse(result);
+    }
+
+    console.log(`[generation-job] ${job.id}: resume from ${offset} (${job.status}, ${job.content.length} chars)`);
+    return new Response(resumeStream(supabaseAdmin, job, offset), {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    });
+  } catch (error) {
+    console.error("[generation-job] Error:", error);
+    return jsonResponse({ error: "Error" }, 500);
+  }
+});
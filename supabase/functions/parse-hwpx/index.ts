@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import JSZip from "https://esm.sh/jszip@3.10.1";
+import { completeChat, isLlmConfigured } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -287,12 +288,46 @@ async function parseBinItemMappings(zip: JSZip, images: ExtractedImage[]): Promi
   return mappings;
 }
 
+/**
+ * List body section files (Contents/section*.xml) in document order
+ * Follows the content.hpf spine; sections missing from the spine go last by number
+ * (plain string sort would put section10 before section2)
+ */
+async function listSectionFiles(zip: JSZip): Promise<string[]> {
+  const sectionNumber = (path: string) => Number(path.match(/section(\d+)\.xml$/)?.[1] ?? 0);
+  const sections = Object.keys(zip.files)
+    .filter(f => /^Contents\/section\d+\.xml$/.test(f))
+    .sort((a, b) => sectionNumber(a) - sectionNumber(b));
+
+  const hpf = await zip.file("Contents/content.hpf")?.async("string");
+  if (!hpf) return sections;
+
+  // <opf:item id="section0" href="Contents/section0.xml" .../>
+  const hrefById = new Map<string, string>();
+  for (const item of hpf.matchAll(/<(?:\w+:)?item\b[^>]*>/g)) {
+    const id = item[0].match(/\bid\s*=\s*"([^"]+)"/)?.[1];
+    const href = item[0].match(/\bhref\s*=\s*"([^"]+)"/)?.[1];
+    if (id && href) hrefById.set(id, href);
+  }
+
+  // <opf:itemref idref="section0" .../>
+  const spine: string[] = [];
+  for (const itemref of hpf.matchAll(/<(?:\w+:)?itemref\b[^>]*>/g)) {
+    const idref = itemref[0].match(/\bidref\s*=\s*"([^"]+)"/)?.[1];
+    const href = idref ? hrefById.get(idref) : undefined;
+    if (href && sections.includes(href) && !spine.includes(href)) spine.push(href);
+  }
+
+  return [...spine, ...sections.filter(path => !spine.includes(path))];
+}
+
 /**
  * Extract text regions from HWPX XML - preserves structure info
+ * firstRegionId continues numbering from previous sections so ids stay unique
  */
-function extractTextRegions(xmlContent: string, fileName: string): TextRegion[] {
+function extractTextRegions(xmlContent: string, fileName: string, firstRegionId = 0): TextRegion[] {
   const regions: TextRegion[] = [];
-  let regionId = 0;
+  let regionId = firstRegionId;
   
   // Find all paragraph elements with text
   const paragraphPattern = /<(?:hp|p):p[^>]*>([\s\S]*?)<\/(?:hp|p):p>/g;
@@ -343,7 +378,7 @@ function extractTextRegions(xmlContent: string, fileName: string): TextRegion[]
 /**
  * Use AI to analyze text regions and generate meaningful placeholder names
  */
-async function generatePlaceholders(regions: TextRegion[], lovableApiKey: string): Promise<ParsedTemplate["placeholders"]> {
+async function generatePlaceholders(regions: TextRegion[]): Promise<ParsedTemplate["placeholders"]> {
   const textSummary = regions
     .slice(0, 50) // Limit to first 50 regions
     .map((r, i) => `[${i}] ${r.sectionHint}: "${r.originalText.substring(0, 100)}..."`)
@@ -371,26 +406,12 @@ ${textSummary}
 - regionIndex는 위 목록의 [숫자]와 일치해야 함`;
 
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3,
-      }),
+    // LLM 실패(LlmError)도 아래 catch에서 fallback으로 처리
+    const { content } = await completeChat({
+      task: "templateAnalysis",
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.3,
     });
-
-    if (!response.ok) {
-      console.error("[parse-hwpx] AI API error:", await response.text());
-      return fallbackPlaceholders(regions);
-    }
-
-    const result = await response.json();
-    const content = result.choices?.[0]?.message?.content || "";
     
     // Extract JSON from response
     const jsonMatch = content.match(/\[[\s\S]*\]/);
@@ -533,6 +554,18 @@ function resetPlaceholderCounter(): void {
   globalPlaceholderCounter = 0;
 }
 
+/**
+ * Placeholder numbering shared by all sections of one document
+ * injectPlaceholdersIntoXml and parseTableToHtml must produce the same ids,
+ * so both count every table and every cell in document order
+ */
+interface PlaceholderCounter {
+  /** Tables seen so far (T index of the next table) */
+  tables: number;
+  /** Cells seen so far (G index of the next cell) */
+  cells: number;
+}
+
 interface ParsedCell {
   text: string;
   colspan: number;
@@ -647,30 +680,36 @@ function parseTableToHtml(tableXml: string, tableIndex: number): string {
  * 
  * IMPORTANT: This must match the logic in parseTableToHtml for consistency
  */
-function injectPlaceholdersIntoXml(xmlContent: string): { modifiedXml: string; placeholderCount: number } {
+function injectPlaceholdersIntoXml(
+  xmlContent: string,
+  counter: PlaceholderCounter,
+): { modifiedXml: string; placeholderCount: number } {
   let placeholderCount = 0;
   let modifiedXml = xmlContent;
-  let globalInjectCounter = 0;
   
   // Find all tables using match() for more reliable extraction
   const tableMatches = xmlContent.match(/<(?:hp:|hpx:)?tbl[^>]*>[\s\S]*?<\/(?:hp:|hpx:)?tbl>/g) || [];
   
-  for (let tableIdx = 0; tableIdx < tableMatches.length; tableIdx++) {
-    const tableXml = tableMatches[tableIdx];
+  for (const tableXml of tableMatches) {
+    const tableIdx = counter.tables++;
     let modifiedTableXml = tableXml;
     
     // Find all rows in this table
     const rowMatches = tableXml.match(/<(?:hp:|hpx:)?tr[^>]*>[\s\S]*?<\/(?:hp:|hpx:)?tr>/g) || [];
+    // Rows without cells are skipped by parseTableToHtml, so they get no row index
+    let rowIdx = 0;
     
-    for (let rowIdx = 0; rowIdx < rowMatches.length; rowIdx++) {
-      const rowXml = rowMatches[rowIdx];
+    for (const rowXml of rowMatches) {
       let modifiedRowXml = rowXml;
       
       // Find all cells in this row
       const cellMatches = rowXml.match(/<(?:hp:|hpx:)?tc[^>]*>[\s\S]*?<\/(?:hp:|hpx:)?tc>/g) || [];
+      if (cellMatches.length === 0) continue;
       
       for (let cellIdx = 0; cellIdx < cellMatches.length; cellIdx++) {
         const cellXml = cellMatches[cellIdx];
+        // Every cell takes a G index (same as parseTableToHtml), filled or not
+        const globalIdx = counter.cells++;
         
         // Extract all text content from cell using extractCellText logic
         const textPatterns = [
@@ -691,7 +730,7 @@ function injectPlaceholdersIntoXml(xmlContent: string): { modifiedXml: string; p
         
         if (isEmptyOrWhitespace) {
           // GLOBALLY UNIQUE placeholder ID matching parseTableToHtml format
-          const placeholderId = `T${tableIdx}_R${rowIdx}_C${cellIdx}_G${globalInjectCounter++}`;
+          const placeholderId = `T${tableIdx}_R${rowIdx}_C${cellIdx}_G${globalIdx}`;
           const placeholderText = `{{${placeholderId}}}`;
           
           // Try to find an empty text tag to inject into
@@ -746,6 +785,7 @@ function injectPlaceholdersIntoXml(xmlContent: string): { modifiedXml: string; p
       }
       
       modifiedTableXml = modifiedTableXml.replace(rowXml, modifiedRowXml);
+      rowIdx++;
     }
     
     modifiedXml = modifiedXml.replace(tableXml, modifiedTableXml);
@@ -914,8 +954,10 @@ async function buildContentWithImages(
         
         // If still not found and we have images, use position-based fallback
         if (!imageUrl && images.length > 0) {
-          // Find the next unused image
-          const imageIndex = elements.filter(e => e.type === 'image').length;
+          // Find the next unused image (counting images placed by earlier sections)
+          const imageIndex =
+            contentBlocks.filter(b => b.type === 'image').length +
+            elements.filter(e => e.type === 'image').length;
           if (imageIndex < images.length) {
             imageUrl = images[imageIndex].publicUrl;
             console.log(`[parse-hwpx] Using position-based image fallback: index ${imageIndex}`);
@@ -1027,7 +1069,6 @@ serve(async (req) => {
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
 
     if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error("Missing Supabase configuration");
@@ -1095,24 +1136,24 @@ serve(async (req) => {
 
     // Find and parse section XML files
     const allRegions: TextRegion[] = [];
-    const sectionFiles = Object.keys(zip.files)
-      .filter(f => f.startsWith("Contents/") && f.endsWith(".xml") && f.includes("section"))
-      .sort();
+    const sectionFiles = await listSectionFiles(zip);
 
     console.log(`[parse-hwpx] Found section files:`, sectionFiles);
 
     // Reset global counter before processing and inject placeholders
+    // (table/cell numbering continues across sections so ids stay unique)
     resetPlaceholderCounter();
+    const injectCounter: PlaceholderCounter = { tables: 0, cells: 0 };
     let totalPlaceholders = 0;
     for (const sectionFile of sectionFiles) {
       const xmlContent = await zip.file(sectionFile)?.async("string");
       if (xmlContent) {
-        const regions = extractTextRegions(xmlContent, sectionFile);
+        const regions = extractTextRegions(xmlContent, sectionFile, allRegions.length);
         allRegions.push(...regions);
         console.log(`[parse-hwpx] Extracted ${regions.length} regions from ${sectionFile}`);
         
         // Inject placeholders into empty cells
-        const { modifiedXml, placeholderCount } = injectPlaceholdersIntoXml(xmlContent);
+        const { modifiedXml, placeholderCount } = injectPlaceholdersIntoXml(xmlContent, injectCounter);
         if (placeholderCount > 0) {
           zip.file(sectionFile, modifiedXml);
           totalPlaceholders += placeholderCount;
@@ -1158,7 +1199,7 @@ serve(async (req) => {
         if (fileName.endsWith(".xml")) {
           const xmlContent = await zip.file(fileName)?.async("string");
           if (xmlContent && (xmlContent.includes("<hp:t") || xmlContent.includes("<p:t"))) {
-            const regions = extractTextRegions(xmlContent, fileName);
+            const regions = extractTextRegions(xmlContent, fileName, allRegions.length);
             allRegions.push(...regions);
           }
         }
@@ -1177,8 +1218,8 @@ serve(async (req) => {
 
     // Generate placeholders using AI
     let placeholders: ParsedTemplate["placeholders"] = [];
-    if (LOVABLE_API_KEY && allRegions.length > 0) {
-      placeholders = await generatePlaceholders(allRegions, LOVABLE_API_KEY);
+    if (isLlmConfigured() && allRegions.length > 0) {
+      placeholders = await generatePlaceholders(allRegions);
     } else {
       placeholders = fallbackPlaceholders(allRegions);
     }
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LlmError, completeChat, isLlmConfigured, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,12 +45,10 @@ serve(async (req) => {
 
     console.log("[parse-pdf] File downloaded, size:", fileData.size, "bytes");
 
-    // Use Lovable AI for PDF text extraction
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
+    // Use the shared LLM gateway for PDF text extraction
+    if (!isLlmConfigured()) {
       return new Response(
-        JSON.stringify({ error: "LOVABLE_API_KEY not configured" }),
+        JSON.stringify({ error: "LLM API key not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -59,17 +58,13 @@ serve(async (req) => {
     const base64Data = base64Encode(arrayBuffer);
 
     console.log("[parse-pdf] Base64 encoded, length:", base64Data.length);
-    console.log("[parse-pdf] Sending to Lovable AI for extraction...");
-
-    // Use Lovable AI to extract text from PDF using image_url format with data URL
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+    console.log("[parse-pdf] Sending to LLM gateway for extraction...");
+
+    // Extract text from PDF using image_url format with data URL
+    let extractedText: string;
+    try {
+      ({ content: extractedText } = await completeChat({
+        task: "pdfExtract",
         messages: [
           {
             role: "user",
@@ -87,22 +82,14 @@ serve(async (req) => {
             ],
           },
         ],
-        max_tokens: 16000,
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error("[parse-pdf] AI API error:", errorText);
-      return new Response(
-        JSON.stringify({ error: "AI extraction failed" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+        maxTokens: 16000,
+      }));
+    } catch (error) {
+      if (!(error instanceof LlmError)) throw error;
+      console.error("[parse-pdf] AI API error:", error.message);
+      return llmErrorResponse(error, "AI extraction failed", corsHeaders);
     }
 
-    const aiResult = await aiResponse.json();
-    const extractedText = aiResult.choices?.[0]?.message?.content || "";
-
     console.log("[parse-pdf] Extracted text length:", extractedText.length);
 
     if (extractedText.length < 10) {
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { grantCredits } from "../_shared/credits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -232,7 +233,6 @@ serve(async (req) => {
         .from("profiles")
         .update({
           plan_type: planType,
-          credits: planConfig.credits,
           updated_at: new Date().toISOString(),
         })
         .eq("user_id", existingPayment.user_id);
@@ -242,6 +242,21 @@ serve(async (req) => {
         // 결제는 완료되었으므로 에러를 반환하지 않음 (로그만 기록)
       }
 
+      // 크레딧을 플랜 제공량으로 재설정 (credit_transactions 에 기록)
+      try {
+        await grantCredits(supabaseAdmin, {
+          userId: existingPayment.user_id,
+          amount: planConfig.credits,
+          reason: `${planConfig.name} 결제`,
+          replace: true,
+          paymentId: imp_uid,
+          functionName: "portone-webhook",
+        });
+      } catch (creditError) {
+        console.error("[Webhook] Credit grant error:", creditError);
+        // 결제는 완료되었으므로 에러를 반환하지 않음 (로그만 기록)
+      }
+
       console.log(`[Webhook] Profile updated: user=${existingPayment.user_id}, plan=${planType}, credits=${planConfig.credits}`);
 
       return new Response(
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { grantCredits } from "../_shared/credits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -277,7 +278,6 @@ serve(async (req) => {
         user_id: user.id,
         email: user.email,
         plan_type: planType,
-        credits: creditsToAdd,
       }, { onConflict: "user_id" });
 
     if (profileError) {
@@ -285,6 +285,21 @@ serve(async (req) => {
       // Non-fatal, payment is already recorded
     }
 
+    // Reset credits to the plan allowance (recorded in credit_transactions)
+    try {
+      await grantCredits(supabaseAdmin, {
+        userId: user.id,
+        amount: creditsToAdd,
+        reason: `${planType === "monthly" ? "월간 패스" : "시즌 패스"} 결제`,
+        replace: true,
+        paymentId: paymentImpUid,
+        functionName: "process-payment",
+      });
+    } catch (creditError) {
+      console.error("Credit grant error:", creditError);
+      // Non-fatal, payment is already recorded
+    }
+
     console.log("[process-payment] Success! User:", user.id, "Plan:", planType, "Credits:", creditsToAdd);
 
     return new Response(
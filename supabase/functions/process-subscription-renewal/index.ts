@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { grantCredits } from "../_shared/credits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -168,15 +169,23 @@ serve(async (req) => {
           expires_at: newExpiresAt.toISOString(),
         });
 
-        // Update profile with new credits and expiration
+        // Update profile with new expiration
         await supabaseAdmin
           .from("profiles")
           .update({
-            credits: (profile.credits || 0) + planConfig.credits,
             plan_expires_at: newExpiresAt.toISOString(),
           })
           .eq("user_id", profile.user_id);
 
+        // Add renewal credits on top of the remaining balance (recorded in credit_transactions)
+        await grantCredits(supabaseAdmin, {
+          userId: profile.user_id,
+          amount: planConfig.credits,
+          reason: `${profile.plan_type === 'monthly' ? '월간 패스' : '시즌 패스'} 자동 갱신`,
+          paymentId: impUid,
+          functionName: "process-subscription-renewal",
+        });
+
         console.log(`[renewal] Successfully renewed for ${profile.user_id}, new expires: ${newExpiresAt}`);
         results.renewed++;
 
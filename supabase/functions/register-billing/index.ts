@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { grantCredits } from "../_shared/credits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -284,7 +285,6 @@ serve(async (req) => {
         user_id: user.id,
         email: user.email,
         plan_type: planType,
-        credits: creditsToAdd,
         billing_key: customerUid,
         plan_expires_at: expiresAt.toISOString(),
         auto_renew: true,
@@ -294,6 +294,20 @@ serve(async (req) => {
       console.error("Profile update error:", profileError);
     }
 
+    // Reset credits to the plan allowance (recorded in credit_transactions)
+    try {
+      await grantCredits(supabaseAdmin, {
+        userId: user.id,
+        amount: creditsToAdd,
+        reason: `${planType === "monthly" ? "월간 패스" : "시즌 패스"} 정기결제 등록`,
+        replace: true,
+        paymentId: paymentImpUid,
+        functionName: "register-billing",
+      });
+    } catch (creditError) {
+      console.error("Credit grant error:", creditError);
+    }
+
     console.log("[register-billing] Success! User:", user.id, "Plan:", planType, "Expires:", expiresAt);
 
     return new Response(
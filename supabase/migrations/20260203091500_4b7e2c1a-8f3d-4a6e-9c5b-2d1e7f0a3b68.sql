@@ -0,0 +1,6 @@
+-- Add custom_outline column to store the user-defined section outline for free-form (CUSTOM) documents
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS custom_outline jsonb DEFAULT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.documents.custom_outline IS 'User-defined section outline (headings, target length, table schemas) for free-form documents';
@@ -0,0 +1,42 @@
+-- Atomic credit deduction for AI generation
+-- Locks the profile row so concurrent requests cannot double-spend,
+-- and refuses the deduction when the balance is insufficient.
+CREATE OR REPLACE FUNCTION public.consume_credits(p_user_id uuid, p_amount integer DEFAULT 1)
+RETURNS TABLE(success boolean, remaining_credits integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credits integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT COALESCE(credits, 0) INTO v_credits
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0;
+    RETURN;
+  END IF;
+
+  IF v_credits < p_amount THEN
+    RETURN QUERY SELECT false, v_credits;
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = v_credits - p_amount
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT true, v_credits - p_amount;
+END;
+$$;
+
+-- Only edge functions (service role) may spend credits
+REVOKE EXECUTE ON FUNCTION public.consume_credits(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_credits(uuid, integer) TO service_role;
@@ -0,0 +1,145 @@
+-- Credit transaction ledger
+-- Every grant, deduction, refund and expiry is recorded with the balance after the change,
+-- a human readable reason and a reference (payment, document, edge function).
+CREATE TABLE public.credit_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('grant', 'deduction', 'refund', 'expiry')),
+  amount INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  payment_id TEXT,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  function_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_transactions_user_created
+  ON public.credit_transactions (user_id, created_at DESC);
+
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only read their own history; rows are written by SECURITY DEFINER functions only
+CREATE POLICY "Users can view their own credit transactions"
+ON public.credit_transactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit transactions"
+ON public.credit_transactions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- consume_credits now records a deduction row in the same transaction
+DROP FUNCTION IF EXISTS public.consume_credits(uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.consume_credits(
+  p_user_id uuid,
+  p_amount integer DEFAULT 1,
+  p_reason text DEFAULT 'AI 생성',
+  p_function_name text DEFAULT NULL,
+  p_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE(success boolean, remaining_credits integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credits integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT COALESCE(credits, 0) INTO v_credits
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0;
+    RETURN;
+  END IF;
+
+  IF v_credits < p_amount THEN
+    RETURN QUERY SELECT false, v_credits;
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = v_credits - p_amount
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, document_id, function_name)
+  VALUES (p_user_id, 'deduction', -p_amount, v_credits - p_amount, p_reason, p_document_id, p_function_name);
+
+  RETURN QUERY SELECT true, v_credits - p_amount;
+END;
+$$;
+
+-- Adds credits (grant/refund). With p_replace the previous balance expires first,
+-- matching plan purchases that reset the balance to the plan's allowance.
+CREATE OR REPLACE FUNCTION public.grant_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text,
+  p_type text DEFAULT 'grant',
+  p_replace boolean DEFAULT false,
+  p_payment_id text DEFAULT NULL,
+  p_function_name text DEFAULT NULL,
+  p_document_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credits integer;
+  v_balance integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  IF p_type NOT IN ('grant', 'refund') THEN
+    RAISE EXCEPTION 'p_type must be grant or refund';
+  END IF;
+
+  SELECT COALESCE(credits, 0) INTO v_credits
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile not found for user %', p_user_id;
+  END IF;
+
+  v_balance := v_credits;
+
+  IF p_replace AND v_balance > 0 THEN
+    INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, payment_id, function_name)
+    VALUES (p_user_id, 'expiry', -v_balance, 0, '플랜 변경으로 기존 크레딧 소멸', p_payment_id, p_function_name);
+    v_balance := 0;
+  END IF;
+
+  v_balance := v_balance + p_amount;
+
+  UPDATE public.profiles
+  SET credits = v_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, payment_id, document_id, function_name)
+  VALUES (p_user_id, p_type, p_amount, v_balance, p_reason, p_payment_id, p_document_id, p_function_name);
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Only edge functions (service role) may move credits
+REVOKE EXECUTE ON FUNCTION public.consume_credits(uuid, integer, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_credits(uuid, integer, text, text, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credits(uuid, integer, text, text, boolean, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_credits(uuid, integer, text, text, boolean, text, text, uuid) TO service_role;
@@ -0,0 +1,50 @@
+-- Document version history
+-- Snapshots of documents.content / plain_text taken on every AI generation,
+-- right before an AI stream overwrites the editor, on manual saves and before restores.
+CREATE TABLE public.document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT,
+  content JSONB,
+  plain_text TEXT DEFAULT '',
+  source TEXT NOT NULL CHECK (source IN ('ai_generation', 'before_ai', 'manual_save', 'before_restore')),
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_versions_document_created
+  ON public.document_versions (document_id, created_at DESC);
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are readable/writable only by the owner of the document
+CREATE POLICY "Users can view versions of their own documents"
+ON public.document_versions FOR SELECT
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = document_id AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create versions of their own documents"
+ON public.document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = document_id AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete versions of their own documents"
+ON public.document_versions FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Deny anonymous access to document_versions"
+ON public.document_versions
+FOR SELECT
+TO anon
+USING (false);
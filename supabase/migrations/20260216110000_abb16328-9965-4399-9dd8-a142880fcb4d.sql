@@ -0,0 +1,212 @@
+-- Real-time collaborative editing
+-- document_members grants other users access to a document owned by documents.user_id.
+-- document_steps is the ordered log of ProseMirror steps (prosemirror-collab authority):
+-- the (document_id, version) primary key makes concurrent pushes of the same version conflict,
+-- so the losing client pulls the newer steps, rebases and retries.
+
+CREATE TABLE public.document_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, user_id)
+);
+
+CREATE INDEX idx_document_members_user ON public.document_members (user_id);
+
+ALTER TABLE public.document_members ENABLE ROW LEVEL SECURITY;
+
+-- Owner or member of a document (SECURITY DEFINER to avoid RLS recursion between documents and document_members)
+CREATE OR REPLACE FUNCTION public.is_document_member(_document_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE id = _document_id AND user_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.document_members
+    WHERE document_id = _document_id AND user_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_document_owner(_document_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE id = _document_id AND user_id = _user_id
+  )
+$$;
+
+CREATE POLICY "Members can view co-members"
+ON public.document_members FOR SELECT
+USING (public.is_document_member(document_id, auth.uid()));
+
+CREATE POLICY "Owners can remove members"
+ON public.document_members FOR DELETE
+USING (public.is_document_owner(document_id, auth.uid()));
+
+CREATE POLICY "Members can leave documents"
+ON public.document_members FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Deny anonymous access to document_members"
+ON public.document_members
+FOR SELECT
+TO anon
+USING (false);
+
+-- Members can read and edit shared documents (ownership stays with documents.user_id)
+CREATE POLICY "Members can view shared documents"
+ON public.documents FOR SELECT
+USING (public.is_document_member(id, auth.uid()));
+
+CREATE POLICY "Members can update shared documents"
+ON public.documents FOR UPDATE
+USING (public.is_document_member(id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prevent_document_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Document owner cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_document_owner_change
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_document_owner_change();
+
+-- Version history is shared by everyone editing the document
+DROP POLICY IF EXISTS "Users can view versions of their own documents" ON public.document_versions;
+DROP POLICY IF EXISTS "Users can create versions of their own documents" ON public.document_versions;
+
+CREATE POLICY "Members can view document versions"
+ON public.document_versions FOR SELECT
+USING (public.is_document_member(document_id, auth.uid()));
+
+CREATE POLICY "Members can create document versions"
+ON public.document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_document_member(document_id, auth.uid())
+);
+
+-- Invite an existing user by email (owner only)
+CREATE OR REPLACE FUNCTION public.add_document_member(p_document_id uuid, p_email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT public.is_document_owner(p_document_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the document owner can invite members';
+  END IF;
+
+  SELECT user_id INTO v_user_id
+  FROM public.profiles
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'USER_NOT_FOUND';
+  END IF;
+
+  IF v_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'CANNOT_INVITE_SELF';
+  END IF;
+
+  INSERT INTO public.document_members (document_id, user_id, invited_by)
+  VALUES (p_document_id, v_user_id, auth.uid())
+  ON CONFLICT (document_id, user_id) DO NOTHING;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Owner + members with profile info (profiles RLS only exposes the caller's own row)
+CREATE OR REPLACE FUNCTION public.get_document_members(p_document_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  avatar_url text,
+  is_owner boolean,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.user_id, p.email, p.display_name, p.avatar_url, true, d.created_at
+  FROM public.documents d
+  LEFT JOIN public.profiles p ON p.user_id = d.user_id
+  WHERE d.id = p_document_id
+    AND public.is_document_member(p_document_id, auth.uid())
+  UNION ALL
+  SELECT m.user_id, p.email, p.display_name, p.avatar_url, false, m.created_at
+  FROM public.document_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.document_id = p_document_id
+    AND public.is_document_member(p_document_id, auth.uid())
+  ORDER BY 5 DESC, 6 ASC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_document_member(uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.get_document_members(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.add_document_member(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_document_members(uuid) TO authenticated;
+
+-- Collaboration step log
+ALTER TABLE public.documents
+  ADD COLUMN collab_version INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.document_steps (
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  step JSONB NOT NULL,
+  client_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_id, version)
+);
+
+ALTER TABLE public.document_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view document steps"
+ON public.document_steps FOR SELECT
+USING (public.is_document_member(document_id, auth.uid()));
+
+CREATE POLICY "Members can push document steps"
+ON public.document_steps FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_document_member(document_id, auth.uid())
+);
+
+CREATE POLICY "Deny anonymous access to document_steps"
+ON public.document_steps
+FOR SELECT
+TO anon
+USING (false);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.document_steps;
@@ -0,0 +1,285 @@
+-- Document sharing with roles
+-- viewer: read only / commenter: read + comment / editor: read + comment + edit.
+-- The owner (documents.user_id) can do everything and is the only one who manages sharing.
+
+ALTER TABLE public.document_members
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'editor'
+  CHECK (role IN ('viewer', 'commenter', 'editor'));
+
+-- 'owner' | 'editor' | 'commenter' | 'viewer' | NULL (no access)
+CREATE OR REPLACE FUNCTION public.document_role(_document_id uuid, _user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE id = _document_id AND user_id = _user_id
+    ) THEN 'owner'
+    ELSE (
+      SELECT role FROM public.document_members
+      WHERE document_id = _document_id AND user_id = _user_id
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_document(_document_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.document_role(_document_id, _user_id) IN ('owner', 'editor'), false)
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_comment_document(_document_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.document_role(_document_id, _user_id) IN ('owner', 'editor', 'commenter'), false)
+$$;
+
+-- Only editors may change shared documents (viewers/commenters keep SELECT via is_document_member)
+DROP POLICY IF EXISTS "Members can update shared documents" ON public.documents;
+
+CREATE POLICY "Editors can update shared documents"
+ON public.documents FOR UPDATE
+USING (public.can_edit_document(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Members can push document steps" ON public.document_steps;
+
+CREATE POLICY "Editors can push document steps"
+ON public.document_steps FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_edit_document(document_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Members can create document versions" ON public.document_versions;
+
+CREATE POLICY "Editors can create document versions"
+ON public.document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_edit_document(document_id, auth.uid())
+);
+
+CREATE POLICY "Owners can change member roles"
+ON public.document_members FOR UPDATE
+USING (public.is_document_owner(document_id, auth.uid()));
+
+-- Invite by email now takes a role (re-inviting changes the role)
+DROP FUNCTION IF EXISTS public.add_document_member(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.add_document_member(
+  p_document_id uuid,
+  p_email text,
+  p_role text DEFAULT 'editor'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT public.is_document_owner(p_document_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the document owner can invite members';
+  END IF;
+
+  IF p_role NOT IN ('viewer', 'commenter', 'editor') THEN
+    RAISE EXCEPTION 'INVALID_ROLE';
+  END IF;
+
+  SELECT user_id INTO v_user_id
+  FROM public.profiles
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'USER_NOT_FOUND';
+  END IF;
+
+  IF v_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'CANNOT_INVITE_SELF';
+  END IF;
+
+  INSERT INTO public.document_members (document_id, user_id, invited_by, role)
+  VALUES (p_document_id, v_user_id, auth.uid(), p_role)
+  ON CONFLICT (document_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  RETURN v_user_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_document_members(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_document_members(p_document_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  avatar_url text,
+  role text,
+  is_owner boolean,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.user_id, p.email, p.display_name, p.avatar_url, 'owner', true, d.created_at
+  FROM public.documents d
+  LEFT JOIN public.profiles p ON p.user_id = d.user_id
+  WHERE d.id = p_document_id
+    AND public.is_document_member(p_document_id, auth.uid())
+  UNION ALL
+  SELECT m.user_id, p.email, p.display_name, p.avatar_url, m.role, false, m.created_at
+  FROM public.document_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.document_id = p_document_id
+    AND public.is_document_member(p_document_id, auth.uid())
+  ORDER BY 6 DESC, 7 ASC
+$$;
+
+-- Share links: anyone signed in who opens the link joins with the link's role
+CREATE TABLE public.document_share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'commenter', 'editor')),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_share_links_document ON public.document_share_links (document_id);
+
+ALTER TABLE public.document_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view share links"
+ON public.document_share_links FOR SELECT
+USING (public.is_document_owner(document_id, auth.uid()));
+
+CREATE POLICY "Owners can create share links"
+ON public.document_share_links FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_document_owner(document_id, auth.uid())
+);
+
+CREATE POLICY "Owners can revoke share links"
+ON public.document_share_links FOR UPDATE
+USING (public.is_document_owner(document_id, auth.uid()));
+
+CREATE POLICY "Deny anonymous access to document_share_links"
+ON public.document_share_links
+FOR SELECT
+TO anon
+USING (false);
+
+-- Redeem a share link; returns the document id.
+-- An existing membership is only upgraded, never downgraded, by a link.
+CREATE OR REPLACE FUNCTION public.accept_document_share_link(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.document_share_links%ROWTYPE;
+  v_rank_new integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_link
+  FROM public.document_share_links
+  WHERE token = p_token;
+
+  IF NOT FOUND
+    OR v_link.revoked_at IS NOT NULL
+    OR (v_link.expires_at IS NOT NULL AND v_link.expires_at < now()) THEN
+    RAISE EXCEPTION 'INVALID_SHARE_LINK';
+  END IF;
+
+  IF public.is_document_owner(v_link.document_id, auth.uid()) THEN
+    RETURN v_link.document_id;
+  END IF;
+
+  v_rank_new := array_position(ARRAY['viewer', 'commenter', 'editor'], v_link.role);
+
+  INSERT INTO public.document_members (document_id, user_id, invited_by, role)
+  VALUES (v_link.document_id, auth.uid(), v_link.created_by, v_link.role)
+  ON CONFLICT (document_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role
+    WHERE array_position(ARRAY['viewer', 'commenter', 'editor'], document_members.role) < v_rank_new;
+
+  RETURN v_link.document_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_document_member(uuid, text, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.get_document_members(uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_document_share_link(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.add_document_member(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_document_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_document_share_link(text) TO authenticated;
+
+-- Review comments (commenter role and above)
+CREATE TABLE public.document_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_name TEXT,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  -- Text the comment refers to (selection at the time of commenting)
+  quote TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_comments_document_created
+  ON public.document_comments (document_id, created_at);
+
+ALTER TABLE public.document_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments"
+ON public.document_comments FOR SELECT
+USING (public.is_document_member(document_id, auth.uid()));
+
+CREATE POLICY "Commenters can add comments"
+ON public.document_comments FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_comment_document(document_id, auth.uid())
+);
+
+CREATE POLICY "Editors can resolve comments"
+ON public.document_comments FOR UPDATE
+USING (public.can_edit_document(document_id, auth.uid()));
+
+CREATE POLICY "Authors and owners can delete comments"
+ON public.document_comments FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR public.is_document_owner(document_id, auth.uid())
+);
+
+CREATE POLICY "Deny anonymous access to document_comments"
+ON public.document_comments
+FOR SELECT
+TO anon
+USING (false);
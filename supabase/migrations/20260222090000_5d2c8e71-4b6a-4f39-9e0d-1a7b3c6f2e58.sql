@@ -0,0 +1,7 @@
+-- Document version history: back up the document right before a DOCX import replaces it.
+ALTER TABLE public.document_versions
+  DROP CONSTRAINT IF EXISTS document_versions_source_check;
+
+ALTER TABLE public.document_versions
+  ADD CONSTRAINT document_versions_source_check
+  CHECK (source IN ('ai_generation', 'before_ai', 'manual_save', 'before_restore', 'before_import'));
@@ -0,0 +1,94 @@
+-- Generation jobs: a chat stream is recorded while it is relayed to the client,
+-- so a client that reloads or loses its connection can resume from a character offset,
+-- and an explicit cancel can stop the upstream request and refund the credit.
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for guest generations
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  content TEXT NOT NULL DEFAULT '', -- raw model output streamed so far
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  credits_refunded INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_generation_jobs_user_created
+  ON public.generation_jobs (user_id, created_at DESC);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edge functions (service role) only
+CREATE POLICY "Users can view their own generation jobs"
+ON public.generation_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Moves a running job to a final status exactly once and refunds up to the charged credits
+-- in the same transaction, so a cancel racing the stream's own failure cannot refund twice.
+-- Returns the job's status after the call (unchanged if it had already finished).
+CREATE OR REPLACE FUNCTION public.finish_generation_job(
+  p_job_id uuid,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_refund integer DEFAULT 0
+)
+RETURNS TABLE(job_status text, refunded_credits integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.generation_jobs%ROWTYPE;
+  v_refund integer;
+BEGIN
+  IF p_status NOT IN ('completed', 'failed', 'cancelled') THEN
+    RAISE EXCEPTION 'p_status must be completed, failed or cancelled';
+  END IF;
+
+  SELECT * INTO v_job
+  FROM public.generation_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_job.status <> 'running' THEN
+    RETURN QUERY SELECT v_job.status, 0;
+    RETURN;
+  END IF;
+
+  v_refund := LEAST(GREATEST(COALESCE(p_refund, 0), 0), v_job.credits_charged);
+
+  IF v_refund > 0 AND v_job.user_id IS NOT NULL THEN
+    PERFORM public.grant_credits(
+      v_job.user_id,
+      v_refund,
+      CASE WHEN p_status = 'cancelled' THEN 'AI 작성 중단 환불' ELSE 'AI 작성 실패 환불' END,
+      'refund',
+      false,
+      NULL,
+      v_job.function_name,
+      v_job.document_id
+    );
+  END IF;
+
+  UPDATE public.generation_jobs
+  SET status = p_status,
+      error = p_error,
+      credits_refunded = v_refund,
+      updated_at = now(),
+      finished_at = now()
+  WHERE id = p_job_id;
+
+  RETURN QUERY SELECT p_status, v_refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finish_generation_job(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_generation_job(uuid, text, text, integer) TO service_role;
@@ -0,0 +1,33 @@
+-- Prompt version that produced each generated document (e.g. "plan/early-startup@1",
+-- several prompts joined with "+"). Written by the generate-plan and chat edge functions
+-- when a generation starts, so quality changes can be traced back to prompt edits.
+ALTER TABLE public.documents
+  ADD COLUMN prompt_version TEXT;
+
+-- Records the prompt version on a document the user owns or is a member of.
+-- Returns false when the document does not exist or the user has no access.
+CREATE OR REPLACE FUNCTION public.record_document_prompt_version(
+  p_document_id uuid,
+  p_user_id uuid,
+  p_prompt_version text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_document_member(p_document_id, p_user_id) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.documents
+  SET prompt_version = p_prompt_version
+  WHERE id = p_document_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_document_prompt_version(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_document_prompt_version(uuid, uuid, text) TO service_role;
@@ -0,0 +1,68 @@
+-- Guest trial usage: signed-out visitors have no credit balance, so every trial generation
+-- from the chat function is recorded here and limited per client IP (stored as a hash)
+-- and per browser device ID. Written by edge functions (service role) only.
+CREATE TABLE public.guest_trial_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ip_hash TEXT NOT NULL,
+  device_id TEXT,
+  function_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guest_trial_usage_ip_created
+  ON public.guest_trial_usage (ip_hash, created_at DESC);
+
+CREATE INDEX idx_guest_trial_usage_device_created
+  ON public.guest_trial_usage (device_id, created_at DESC)
+  WHERE device_id IS NOT NULL;
+
+-- No policies: clients can neither read nor write trial usage
+ALTER TABLE public.guest_trial_usage ENABLE ROW LEVEL SECURITY;
+
+-- Records one trial use unless the IP or the device already used p_limit trials within
+-- p_window. The check and the insert run under per-IP and per-device advisory locks, so
+-- concurrent requests cannot exceed the limit. Returns whether the use was allowed.
+CREATE OR REPLACE FUNCTION public.consume_guest_trial(
+  p_ip_hash text,
+  p_device_id text,
+  p_function_name text,
+  p_limit integer,
+  p_window interval
+)
+RETURNS TABLE(success boolean, used_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used integer;
+BEGIN
+  IF p_ip_hash IS NULL OR p_ip_hash = '' THEN
+    RAISE EXCEPTION 'p_ip_hash is required';
+  END IF;
+
+  -- Always lock the IP before the device so two requests never wait on each other in a cycle
+  PERFORM pg_advisory_xact_lock(hashtextextended('guest_trial:ip:' || p_ip_hash, 0));
+  IF p_device_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('guest_trial:device:' || p_device_id, 0));
+  END IF;
+
+  SELECT count(*) INTO v_used
+  FROM public.guest_trial_usage
+  WHERE created_at > now() - p_window
+    AND (ip_hash = p_ip_hash OR (p_device_id IS NOT NULL AND device_id = p_device_id));
+
+  IF v_used >= p_limit THEN
+    RETURN QUERY SELECT false, v_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.guest_trial_usage (ip_hash, device_id, function_name)
+  VALUES (p_ip_hash, p_device_id, p_function_name);
+
+  RETURN QUERY SELECT true, v_used + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_guest_trial(text, text, text, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_guest_trial(text, text, text, integer, interval) TO service_role;
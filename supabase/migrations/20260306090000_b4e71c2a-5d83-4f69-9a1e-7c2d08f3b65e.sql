@@ -0,0 +1,200 @@
+-- Structured plan generations (chat mode "plan") now run as generation jobs too: the job
+-- keeps the validated plan JSON, so a reloaded client can pick up the result and a cancel
+-- can abort the model call and refund through finish_generation_job.
+ALTER TABLE public.generation_jobs
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'chat' CHECK (kind IN ('chat', 'plan'));
+
+COMMENT ON COLUMN public.generation_jobs.kind IS
+  'chat: tagged [DOCUMENT]/[CHAT] stream, plan: structured plan JSON saved once complete';
+
+-- Cancelling a generation charges only for the share already written, so balances and
+-- ledger amounts move in hundredths of a credit.
+ALTER TABLE public.profiles
+  ALTER COLUMN credits TYPE NUMERIC(12, 2);
+
+ALTER TABLE public.credit_transactions
+  ALTER COLUMN amount TYPE NUMERIC(12, 2),
+  ALTER COLUMN balance_after TYPE NUMERIC(12, 2);
+
+ALTER TABLE public.generation_jobs
+  ALTER COLUMN credits_charged TYPE NUMERIC(12, 2),
+  ALTER COLUMN credits_refunded TYPE NUMERIC(12, 2);
+
+-- The credit functions are recreated with numeric amounts; integer variables would round
+-- partial refunds to whole credits.
+DROP FUNCTION IF EXISTS public.finish_generation_job(uuid, text, text, integer);
+DROP FUNCTION IF EXISTS public.consume_credits(uuid, integer, text, text, uuid);
+DROP FUNCTION IF EXISTS public.grant_credits(uuid, integer, text, text, boolean, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.consume_credits(
+  p_user_id uuid,
+  p_amount numeric DEFAULT 1,
+  p_reason text DEFAULT 'AI 생성',
+  p_function_name text DEFAULT NULL,
+  p_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE(success boolean, remaining_credits numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credits numeric;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT COALESCE(credits, 0) INTO v_credits
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0::numeric;
+    RETURN;
+  END IF;
+
+  IF v_credits < p_amount THEN
+    RETURN QUERY SELECT false, v_credits;
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = v_credits - p_amount
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, document_id, function_name)
+  VALUES (p_user_id, 'deduction', -p_amount, v_credits - p_amount, p_reason, p_document_id, p_function_name);
+
+  RETURN QUERY SELECT true, v_credits - p_amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.grant_credits(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_type text DEFAULT 'grant',
+  p_replace boolean DEFAULT false,
+  p_payment_id text DEFAULT NULL,
+  p_function_name text DEFAULT NULL,
+  p_document_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credits numeric;
+  v_balance numeric;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  IF p_type NOT IN ('grant', 'refund') THEN
+    RAISE EXCEPTION 'p_type must be grant or refund';
+  END IF;
+
+  SELECT COALESCE(credits, 0) INTO v_credits
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile not found for user %', p_user_id;
+  END IF;
+
+  v_balance := v_credits;
+
+  IF p_replace AND v_balance > 0 THEN
+    INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, payment_id, function_name)
+    VALUES (p_user_id, 'expiry', -v_balance, 0, '플랜 변경으로 기존 크레딧 소멸', p_payment_id, p_function_name);
+    v_balance := 0;
+  END IF;
+
+  v_balance := v_balance + p_amount;
+
+  UPDATE public.profiles
+  SET credits = v_balance
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, reason, payment_id, document_id, function_name)
+  VALUES (p_user_id, p_type, p_amount, v_balance, p_reason, p_payment_id, p_document_id, p_function_name);
+
+  RETURN v_balance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finish_generation_job(
+  p_job_id uuid,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_refund numeric DEFAULT 0
+)
+RETURNS TABLE(job_status text, refunded_credits numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.generation_jobs%ROWTYPE;
+  v_refund numeric;
+BEGIN
+  IF p_status NOT IN ('completed', 'failed', 'cancelled') THEN
+    RAISE EXCEPTION 'p_status must be completed, failed or cancelled';
+  END IF;
+
+  SELECT * INTO v_job
+  FROM public.generation_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_job.status <> 'running' THEN
+    RETURN QUERY SELECT v_job.status, 0::numeric;
+    RETURN;
+  END IF;
+
+  -- Refunds are whole hundredths and never exceed what the job charged
+  v_refund := LEAST(GREATEST(round(COALESCE(p_refund, 0), 2), 0), v_job.credits_charged);
+
+  IF v_refund > 0 AND v_job.user_id IS NOT NULL THEN
+    PERFORM public.grant_credits(
+      v_job.user_id,
+      v_refund,
+      CASE WHEN p_status = 'cancelled' THEN 'AI 작성 중단 환불' ELSE 'AI 작성 실패 환불' END,
+      'refund',
+      false,
+      NULL,
+      v_job.function_name,
+      v_job.document_id
+    );
+  END IF;
+
+  UPDATE public.generation_jobs
+  SET status = p_status,
+      error = p_error,
+      credits_refunded = v_refund,
+      updated_at = now(),
+      finished_at = now()
+  WHERE id = p_job_id;
+
+  RETURN QUERY SELECT p_status, v_refund;
+END;
+$$;
+
+-- Only edge functions (service role) may move credits
+REVOKE EXECUTE ON FUNCTION public.consume_credits(uuid, numeric, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_credits(uuid, numeric, text, text, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credits(uuid, numeric, text, text, boolean, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_credits(uuid, numeric, text, text, boolean, text, text, uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.finish_generation_job(uuid, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_generation_job(uuid, text, text, numeric) TO service_role;
@@ -0,0 +1,46 @@
+-- Resolving a comment changed resolved_at through a plain UPDATE policy, which let any
+-- editor rewrite another member's comment (body, quote, user_id). Direct updates are now
+-- denied; editors resolve or reopen comments through resolve_document_comment, which only
+-- touches resolved_at.
+DROP POLICY IF EXISTS "Editors can resolve comments" ON public.document_comments;
+
+-- Sets (p_resolved) or clears resolved_at and returns the new value
+CREATE OR REPLACE FUNCTION public.resolve_document_comment(
+  p_comment_id uuid,
+  p_resolved boolean
+)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_document_id uuid;
+  v_resolved_at timestamp with time zone;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT document_id INTO v_document_id
+  FROM public.document_comments
+  WHERE id = p_comment_id
+  FOR UPDATE;
+
+  -- Same answer for a missing comment and one on a document the caller cannot edit
+  IF NOT FOUND OR NOT public.can_edit_document(v_document_id, auth.uid()) THEN
+    RAISE EXCEPTION 'COMMENT_NOT_FOUND';
+  END IF;
+
+  v_resolved_at := CASE WHEN p_resolved THEN now() ELSE NULL END;
+
+  UPDATE public.document_comments
+  SET resolved_at = v_resolved_at
+  WHERE id = p_comment_id;
+
+  RETURN v_resolved_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_document_comment(uuid, boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_document_comment(uuid, boolean) TO authenticated;
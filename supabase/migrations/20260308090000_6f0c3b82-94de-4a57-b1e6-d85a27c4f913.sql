@@ -0,0 +1,54 @@
+-- Compact the collaboration step log
+-- documents.content is saved together with collab_version, so the steps up to that version are
+-- already part of the saved content. Keeping them made document_steps grow by one row per edit
+-- and per streamed AI chunk forever. A client that is still behind the saved version can no longer
+-- pull the steps it missed; it reloads the saved content instead (src/lib/collaborationSync.ts).
+
+CREATE OR REPLACE FUNCTION public.compact_document_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.document_steps
+  WHERE document_id = NEW.id
+    AND version <= NEW.collab_version;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER compact_document_steps
+  AFTER UPDATE OF collab_version ON public.documents
+  FOR EACH ROW
+  WHEN (NEW.collab_version > OLD.collab_version)
+  EXECUTE FUNCTION public.compact_document_steps();
+
+-- Without the deleted rows the primary key no longer rejects a stale client writing one of
+-- those versions again, so reject versions at or below the saved one explicitly.
+CREATE OR REPLACE FUNCTION public.reject_compacted_document_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.version <= (
+    SELECT collab_version FROM public.documents WHERE id = NEW.document_id
+  ) THEN
+    RAISE EXCEPTION 'STEP_VERSION_COMPACTED';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_compacted_document_steps
+  BEFORE INSERT ON public.document_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_compacted_document_steps();
+
+-- Steps already covered by saved content
+DELETE FROM public.document_steps s
+USING public.documents d
+WHERE s.document_id = d.id
+  AND s.version <= d.collab_version;
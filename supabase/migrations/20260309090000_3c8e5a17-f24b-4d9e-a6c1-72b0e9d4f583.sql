@@ -0,0 +1,32 @@
+-- Comment author names come from the commenter's profile
+-- document_comments.author_name was written by the client, so a commenter could post under any
+-- name. It is now always set from the author's profile on insert, whatever the client sends.
+-- Direct updates are already denied (resolve_document_comment only touches resolved_at).
+
+CREATE OR REPLACE FUNCTION public.set_document_comment_author_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The insert policy guarantees user_id = auth.uid(); no profile row leaves the name NULL
+  SELECT COALESCE(NULLIF(trim(display_name), ''), email)
+  INTO NEW.author_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_document_comment_author_name
+  BEFORE INSERT ON public.document_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_document_comment_author_name();
+
+-- Replace names already stored from the client
+UPDATE public.document_comments c
+SET author_name = COALESCE(NULLIF(trim(p.display_name), ''), p.email)
+FROM public.profiles p
+WHERE p.user_id = c.user_id;